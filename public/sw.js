@@ -1,5 +1,5 @@
 // diVine Web Service Worker
-// Minimal service worker for PWA installation - no offline caching
+// Minimal service worker for PWA installation and scheduled posts - no offline caching
 
 // Install event - skip waiting immediately
 self.addEventListener('install', (event) => {
@@ -16,3 +16,92 @@ self.addEventListener('fetch', (event) => {
   // Just pass through to network, no caching
   event.respondWith(fetch(event.request));
 });
+
+// Scheduled posts - broadcast signed events queued by the app once they're due.
+// Keep the database layout in sync with src/lib/scheduledPostStore.ts
+const SCHEDULED_DB_NAME = 'scheduled_posts';
+const SCHEDULED_DB_VERSION = 1;
+const SCHEDULED_STORE_NAME = 'posts';
+const RELAY_TIMEOUT = 10000;
+
+function openScheduledPosts() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(SCHEDULED_DB_NAME, SCHEDULED_DB_VERSION);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SCHEDULED_STORE_NAME)) {
+        const store = db.createObjectStore(SCHEDULED_STORE_NAME, { keyPath: 'id' });
+        store.createIndex('pubkey', 'pubkey', { unique: false });
+        store.createIndex('publishAt', 'publishAt', { unique: false });
+      }
+    };
+  });
+}
+
+function runScheduledRequest(db, mode, run) {
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(SCHEDULED_STORE_NAME, mode).objectStore(SCHEDULED_STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Send one event to a relay and resolve with whether it answered OK
+function sendToRelay(url, event) {
+  return new Promise((resolve) => {
+    let socket;
+    const finish = (ok) => {
+      clearTimeout(timer);
+      socket?.close();
+      resolve(ok);
+    };
+    const timer = setTimeout(() => finish(false), RELAY_TIMEOUT);
+
+    try {
+      socket = new WebSocket(url);
+    } catch {
+      finish(false);
+      return;
+    }
+    socket.onopen = () => socket.send(JSON.stringify(['EVENT', event]));
+    socket.onerror = () => finish(false);
+    socket.onmessage = (message) => {
+      try {
+        const [type, id, ok] = JSON.parse(message.data);
+        if (type === 'OK' && id === event.id) finish(ok === true);
+      } catch {
+        // Ignore anything that isn't a relay message
+      }
+    };
+  });
+}
+
+async function publishDueScheduledPosts() {
+  const db = await openScheduledPosts();
+  const now = Math.floor(Date.now() / 1000);
+  const due = await runScheduledRequest(db, 'readonly', store => store.index('publishAt').getAll(IDBKeyRange.upperBound(now)));
+
+  for (const post of due) {
+    const results = await Promise.all(post.relays.map(url => sendToRelay(url, post.event)));
+    if (results.some(Boolean)) {
+      await runScheduledRequest(db, 'readwrite', store => store.delete(post.id));
+    } else {
+      // Left queued for the next sync or for the app to retry
+      await runScheduledRequest(db, 'readwrite', store => store.put({
+        ...post,
+        attempts: post.attempts + 1,
+        lastError: 'No relay accepted the event',
+      }));
+    }
+  }
+
+  db.close();
+}
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === 'scheduled-posts') {
+    event.waitUntil(publishDueScheduledPosts());
+  }
+});
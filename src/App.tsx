@@ -7,6 +7,10 @@ import { InferSeoMetaPlugin } from '@unhead/addons';
 import { Suspense } from 'react';
 import NostrProvider from '@/components/NostrProvider';
 import { EventCachePreloader } from '@/components/EventCachePreloader';
+import { ScheduledPostPublisher } from '@/components/ScheduledPostPublisher';
+import { RelayAuthPrompt } from '@/components/RelayAuthPrompt';
+import { RelayListImporter } from '@/components/RelayListImporter';
+import { EventSyncManager } from '@/components/EventSyncManager';
 import { KeycastJWTWindowNostr } from '@/components/KeycastJWTWindowNostr';
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
@@ -53,6 +57,10 @@ export function App() {
           <NostrLoginProvider storageKey='nostr:login'>
             <NostrProvider>
               <EventCachePreloader />
+              <ScheduledPostPublisher />
+              <RelayAuthPrompt />
+              <RelayListImporter />
+              <EventSyncManager />
               <KeycastJWTWindowNostr />
               <NWCProvider>
                 <VideoPlaybackProvider>
@@ -20,6 +20,7 @@ import { TagPage } from "./pages/TagPage";
 import ListsPage from "./pages/ListsPage";
 import ListDetailPage from "./pages/ListDetailPage";
 import ModerationSettingsPage from "./pages/ModerationSettingsPage";
+import MediaSettingsPage from "./pages/MediaSettingsPage";
 // import { NIP05ProfilePage } from "./pages/NIP05ProfilePage";
 import { UniversalUserPage } from "./pages/UniversalUserPage";
 import AboutPage from "./pages/AboutPage";
@@ -39,7 +40,10 @@ import { PressPage } from "./pages/PressPage";
 import { MediaResourcesPage } from "./pages/MediaResourcesPage";
 import { AppLayout } from "@/components/AppLayout";
 import { DebugVideoPage } from "./pages/DebugVideoPage";
-// import { UploadPage } from "./pages/UploadPage"; // DISABLED: Upload route is commented out
+import UploadPage from "./pages/UploadPage";
+import DraftsPage from "./pages/DraftsPage";
+import RelayStatusPage from "./pages/RelayStatusPage";
+import RelaySettingsPage from "./pages/RelaySettingsPage";
 import { KeycastAutoConnect } from "@/components/KeycastAutoConnect";
 
 export function AppRouter() {
@@ -88,6 +92,8 @@ export function AppRouter() {
           <Route path="/video/:id" element={<VideoPage />} />
           <Route path="/search" element={<SearchPage />} />
           <Route path="/u/:userId" element={<UniversalUserPage />} />
+          <Route path="/relays" element={<RelayStatusPage />} />
+          <Route path="/settings/relays" element={<RelaySettingsPage />} />
           <Route path="/:nip19" element={<NIP19Page />} />
 
           {/* Protected routes - require login */}
@@ -96,10 +102,10 @@ export function AppRouter() {
               <Route path="/home" element={<HomePage />} />
               <Route path="/lists" element={<ListsPage />} />
               <Route path="/list/:pubkey/:listId" element={<ListDetailPage />} />
-              {/* DISABLED: Upload route - not supported on web at this time
               <Route path="/upload" element={<UploadPage />} />
-              */}
+              <Route path="/drafts" element={<DraftsPage />} />
               <Route path="/settings/moderation" element={<ModerationSettingsPage />} />
+              <Route path="/settings/media" element={<MediaSettingsPage />} />
               {/* Test pages for debugging */}
               <Route path="/debug-video" element={<DebugVideoPage />} />
             </>
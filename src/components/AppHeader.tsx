@@ -1,4 +1,4 @@
-import { Home, Compass, Search, MoreVertical, Info, Code2, HelpCircle, Headphones, FileText } from 'lucide-react';
+import { Home, Compass, Search, PlusSquare, MoreVertical, Info, Code2, HelpCircle, Headphones, FileText } from 'lucide-react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { LoginArea } from '@/components/auth/LoginArea';
@@ -72,6 +72,20 @@ export function AppHeader() {
             <Search className="h-4 w-4" />
             <span className="hidden lg:inline">Search</span>
           </Button>
+          {user && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/upload')}
+              className={cn(
+                "hidden md:flex items-center gap-2",
+                isActive('/upload') && "bg-primary/10 text-primary"
+              )}
+            >
+              <PlusSquare className="h-4 w-4" />
+              <span className="hidden lg:inline">Create</span>
+            </Button>
+          )}
           {/* More menu with info links */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
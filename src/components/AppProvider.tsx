@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { AppContext, type AppConfig, type AppContextType, type Theme } from '@/contexts/AppContext';
 import { LoginDialogProvider } from '@/contexts/LoginDialogContext';
+import { ContentSeverity } from '@/types/moderation';
 
 interface AppProviderProps {
   children: ReactNode;
@@ -10,7 +11,7 @@ interface AppProviderProps {
   storageKey: string;
   /** Default app configuration */
   defaultConfig: AppConfig;
-  /** Optional list of preset relays to display in the RelaySelector */
+  /** Optional list of preset relays suggested on the relay settings page */
   presetRelays?: { name: string; url: string }[];
 }
 
@@ -18,6 +19,20 @@ interface AppProviderProps {
 const AppConfigSchema: z.ZodType<AppConfig, z.ZodTypeDef, unknown> = z.object({
   theme: z.enum(['dark', 'light', 'system']),
   relayUrl: z.string().url(),
+  relays: z.array(z.object({
+    url: z.string().url(),
+    read: z.boolean(),
+    write: z.boolean(),
+    search: z.boolean(),
+  })).optional(),
+  relaysUpdatedAt: z.number().optional(),
+  maxPublishRelays: z.number().int().positive().optional(),
+  verifyMedia: z.boolean().optional(),
+  draftQuotaMB: z.number().positive().optional(),
+  relayAuth: z.record(z.enum(['always', 'ask', 'never'])).optional(),
+  severityPolicy: z.record(z.nativeEnum(ContentSeverity)).optional(),
+  showSensitiveContent: z.boolean().optional(),
+  labelers: z.array(z.string().regex(/^[0-9a-f]{64}$/)).optional(),
 });
 
 export function AppProvider(props: AppProviderProps) {
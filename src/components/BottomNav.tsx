@@ -1,4 +1,4 @@
-import { Home, Compass, Search, User } from 'lucide-react';
+import { Home, Compass, Search, User, PlusSquare } from 'lucide-react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useCurrentUser } from '@/hooks/useCurrentUser';
@@ -64,6 +64,22 @@ export function BottomNav() {
           <span className="text-xs">Search</span>
         </Button>
 
+        {/* Create */}
+        {user && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/upload')}
+            className={cn(
+              "flex flex-col items-center justify-center gap-1 h-full flex-1 rounded-none",
+              isActive('/upload') && "text-primary bg-primary/10"
+            )}
+          >
+            <PlusSquare className="h-5 w-5" />
+            <span className="text-xs">Create</span>
+          </Button>
+        )}
+
         {/* Profile */}
         {user && (
           <Button
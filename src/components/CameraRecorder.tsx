@@ -8,13 +8,16 @@ import { Camera, Repeat, X } from 'lucide-react';
 import { useMediaRecorder } from '@/hooks/useMediaRecorder';
 import { useAppContext } from '@/hooks/useAppContext';
 import { cn } from '@/lib/utils';
+import type { DraftSegment } from '@/lib/draftStore';
 
 interface CameraRecorderProps {
   onRecordingComplete: (segments: { blob: Blob; blobUrl: string }[]) => void;
   onCancel: () => void;
+  initialSegments?: DraftSegment[]; // Clips from a resumed draft, read on mount only
+  onSegmentsChange?: (segments: DraftSegment[]) => void; // For auto-saving drafts
 }
 
-export function CameraRecorder({ onRecordingComplete, onCancel }: CameraRecorderProps) {
+export function CameraRecorder({ onRecordingComplete, onCancel, initialSegments, onSegmentsChange }: CameraRecorderProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isHoldingRecord, setIsHoldingRecord] = useState(false);
   const [cameraError, setCameraError] = useState<string | null>(null);
@@ -35,7 +38,12 @@ export function CameraRecorder({ onRecordingComplete, onCancel }: CameraRecorder
     reset,
     canRecord,
     remainingDuration,
-  } = useMediaRecorder();
+  } = useMediaRecorder(initialSegments);
+
+  // Report clips as they're recorded so they survive navigation and refresh
+  useEffect(() => {
+    onSegmentsChange?.(segments.map(({ blob, duration }) => ({ blob, duration })));
+  }, [segments, onSegmentsChange]);
 
   // Set recording state on mount/unmount to hide BottomNav
   useEffect(() => {
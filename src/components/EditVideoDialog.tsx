@@ -0,0 +1,166 @@
+// ABOUTME: Dialog for editing a published video's title, description, hashtags, alt text and cover
+// ABOUTME: Reuses the publish form's fields and republishes the addressable event with the same d tag
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ImageIcon, Loader2, Pencil } from 'lucide-react';
+import { VideoMetadataFields } from '@/components/VideoMetadataForm';
+import { ThumbnailScrubber } from '@/components/ThumbnailScrubber';
+import { useEditVideo } from '@/hooks/useEditVideo';
+import { useUploadFile } from '@/hooks/useUploadFile';
+import { useToast } from '@/hooks/useToast';
+import { getVideoInfo, type CapturedFrame } from '@/lib/videoThumbnail';
+import type { ParsedVideoData } from '@/types/video';
+
+interface EditVideoDialogProps {
+  open: boolean;
+  onClose: () => void;
+  video: ParsedVideoData;
+}
+
+export function EditVideoDialog({ open, onClose, video }: EditVideoDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState(video.title ?? '');
+  const [description, setDescription] = useState(video.content);
+  const [hashtags, setHashtags] = useState(video.hashtags);
+  const [altText, setAltText] = useState(
+    video.originalEvent?.tags.find(([name]) => name === 'alt')?.[1] ?? ''
+  );
+  const [source, setSource] = useState<{ blob: Blob; duration: number } | null>(null);
+  const [isLoadingSource, setIsLoadingSource] = useState(false);
+  const [cover, setCover] = useState<CapturedFrame | null>(null);
+
+  const { mutateAsync: editVideo, isPending: isSaving } = useEditVideo();
+  const { mutateAsync: uploadFile, isPending: isUploading } = useUploadFile();
+  const isProcessing = isSaving || isUploading;
+
+  // The scrubber needs the video bytes, so only download them if the cover is being changed
+  const handleChangeCover = async () => {
+    setIsLoadingSource(true);
+    try {
+      const response = await fetch(video.videoUrl);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const blob = await response.blob();
+      const { duration } = await getVideoInfo(blob);
+      setSource({ blob, duration });
+    } catch (error) {
+      console.error('Failed to load video for cover selection:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not load the video to pick a new cover.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoadingSource(false);
+    }
+  };
+
+  const handleSave = async () => {
+    let thumbnail: { url: string; blurhash: string } | undefined;
+    if (cover) {
+      try {
+        const extension = cover.blob.type === 'image/webp' ? 'webp' : 'jpg';
+        const [[, url]] = await uploadFile(new File([cover.blob], `vine-${Date.now()}-thumb.${extension}`, { type: cover.blob.type }));
+        thumbnail = { url, blurhash: cover.blurhash };
+      } catch (error) {
+        console.error('Failed to upload cover:', error);
+        toast({
+          title: 'Edit Failed',
+          description: 'Could not upload the new cover. Please try again.',
+          variant: 'destructive',
+        });
+        return;
+      }
+    }
+
+    try {
+      await editVideo({
+        video,
+        title: title.trim(),
+        description,
+        hashtags,
+        altText,
+        thumbnail,
+      });
+      onClose();
+    } catch {
+      // useEditVideo reports the error and rolls back the optimistic update
+    }
+  };
+
+  const handleClose = () => {
+    if (!isProcessing) onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Pencil className="h-5 w-5" />
+            Edit Video
+          </DialogTitle>
+          <DialogDescription>
+            Changes replace the published version. The video file and original publish date stay the same.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <VideoMetadataFields
+            title={title}
+            onTitleChange={setTitle}
+            description={description}
+            onDescriptionChange={setDescription}
+            hashtags={hashtags}
+            onHashtagsChange={setHashtags}
+            altText={altText}
+            onAltTextChange={setAltText}
+            disabled={isProcessing}
+          >
+            {source ? (
+              <ThumbnailScrubber
+                video={source.blob}
+                duration={source.duration}
+                value={cover?.time}
+                onChange={setCover}
+                disabled={isProcessing}
+              />
+            ) : (
+              <div className="flex items-center gap-3">
+                {video.thumbnailUrl && (
+                  <img src={video.thumbnailUrl} alt="Current cover" className="w-16 h-16 rounded-md object-cover" />
+                )}
+                <Button variant="outline" size="sm" onClick={handleChangeCover} disabled={isLoadingSource || isProcessing}>
+                  {isLoadingSource ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <ImageIcon className="h-4 w-4 mr-2" />
+                  )}
+                  Change cover
+                </Button>
+              </div>
+            )}
+          </VideoMetadataFields>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isProcessing}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isProcessing || !title.trim()}>
+            {isProcessing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isUploading ? 'Uploading cover...' : isSaving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
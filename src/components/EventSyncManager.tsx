@@ -0,0 +1,50 @@
+// ABOUTME: Keeps the local replica of followed accounts' videos, reactions and comments in sync while the app is open
+// ABOUTME: Syncs on login, periodically, and when the browser comes back online
+
+import { useEffect } from 'react';
+import { useNostr } from '@nostrify/react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useFollowList } from '@/hooks/useFollowList';
+import { useRelaySets } from '@/hooks/useRelaySets';
+import { eventSync } from '@/lib/eventSync';
+import { debugWarn } from '@/lib/debug';
+
+const SYNC_INTERVAL = 5 * 60 * 1000; // ms
+
+export function EventSyncManager() {
+  const { nostr } = useNostr();
+  const queryClient = useQueryClient();
+  const { user } = useCurrentUser();
+  const { data: followList } = useFollowList();
+  const { readRelays } = useRelaySets();
+  const readRelaysKey = readRelays.join(',');
+
+  useEffect(() => {
+    if (!user?.pubkey || !followList || followList.length === 0) return;
+
+    const sync = async () => {
+      if (!navigator.onLine) return;
+      try {
+        const targets = readRelaysKey.split(',').map(url => ({ url, relay: nostr.relay(url) }));
+        const results = await eventSync.sync(followList, targets);
+        if (results.some(result => result.fetched > 0)) {
+          queryClient.invalidateQueries({ queryKey: ['replica-videos'] });
+        }
+      } catch (error) {
+        debugWarn('[EventSyncManager] Sync failed:', error);
+      }
+    };
+
+    sync();
+    const interval = setInterval(sync, SYNC_INTERVAL);
+    window.addEventListener('online', sync);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', sync);
+    };
+  }, [nostr, queryClient, user?.pubkey, followList, readRelaysKey]);
+
+  return null;
+}
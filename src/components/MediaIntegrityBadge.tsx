@@ -0,0 +1,62 @@
+// ABOUTME: Badge showing whether a video's bytes match the sha256 hash declared in its event
+// ABOUTME: Rendered next to ProofModeBadge when media verification is enabled in settings
+
+import { FileCheck, FileWarning, FileX } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { MediaIntegrityResult } from '@/lib/mediaIntegrity';
+
+interface MediaIntegrityBadgeProps {
+  result: MediaIntegrityResult;
+  className?: string;
+}
+
+export function MediaIntegrityBadge({ result, className }: MediaIntegrityBadgeProps) {
+  const config = getIntegrityConfig(result);
+  const Icon = config.icon;
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        'flex items-center gap-1 font-medium text-[10px] px-1.5 py-0.5',
+        config.className,
+        className
+      )}
+      title={config.tooltip}
+      data-testid="media-integrity-badge"
+    >
+      <Icon className="h-3 w-3" />
+      <span>{config.label}</span>
+    </Badge>
+  );
+}
+
+function getIntegrityConfig(result: MediaIntegrityResult) {
+  switch (result.status) {
+    case 'verified':
+      return {
+        icon: FileCheck,
+        label: result.fromMirror ? 'Hash OK (mirror)' : 'Hash OK',
+        className: 'border-green-600 text-green-600 bg-green-50 dark:bg-green-950/20',
+        tooltip: result.fromMirror
+          ? `Original URL is unavailable - a copy on ${new URL(result.url!).host} matches the declared sha256`
+          : 'Video file matches the sha256 hash declared by the author',
+      };
+    case 'mismatch':
+      return {
+        icon: FileX,
+        label: 'Hash mismatch',
+        className: 'border-red-600 text-red-600 bg-red-50 dark:bg-red-950/20',
+        tooltip: `Video file does not match the declared hash. Expected ${result.expectedHash}, got ${result.actualHash}`,
+      };
+    case 'unreachable':
+    default:
+      return {
+        icon: FileWarning,
+        label: 'Unverified',
+        className: 'border-yellow-600 text-yellow-600 bg-yellow-50 dark:bg-yellow-950/20',
+        tooltip: 'Could not download the video or any Blossom mirror to check its hash',
+      };
+  }
+}
@@ -1,11 +1,19 @@
 import React, { useEffect, useRef } from 'react';
 import { NostrEvent, NostrFilter, NPool, NRelay1 } from '@nostrify/nostrify';
 import { NostrContext } from '@nostrify/react';
+import { verifyEvent } from 'nostr-tools';
 import { useQueryClient } from '@tanstack/react-query';
 import { useAppContext } from '@/hooks/useAppContext';
 import { debugLog, verboseLog } from '@/lib/debug';
 import { createCachedNostr } from '@/lib/cachedNostr';
-import { PROFILE_RELAYS, getRelayUrls } from '@/config/relays';
+import { RELAY_LIST_KIND, getPublishPubkeys, routeFiltersToOutbox, selectPublishRelays } from '@/lib/outbox';
+import { RelayListResolver } from '@/lib/relayListResolver';
+import { adaptFilterToRelay, detectRelayCapabilities, getRelayCapabilities } from '@/lib/relayCapabilities';
+import { relayHealth } from '@/lib/relayHealth';
+import { relayAuth } from '@/lib/relayAuth';
+import { WORKER_VERIFIED_KINDS } from '@/lib/videoPipeline';
+import { DEFAULT_MAX_PUBLISH_RELAYS, getConfiguredRelays, getPublishRelayUrls, getRelaysWithRole, type RelayEntry } from '@/lib/relaySets';
+import { OUTBOX_LIMITS, PROFILE_RELAYS, getRelayUrls } from '@/config/relays';
 
 interface NostrProviderProps {
   children: React.ReactNode;
@@ -20,20 +28,24 @@ const NostrProvider: React.FC<NostrProviderProps> = (props) => {
   // Create NPool instance only once
   const pool = useRef<NPool | undefined>(undefined);
   const cachedPool = useRef<NPool | undefined>(undefined);
+  const relayLists = useRef<RelayListResolver | undefined>(undefined);
 
   // Use refs so the pool always has the latest data
-  const relayUrl = useRef<string>(config.relayUrl);
-  const relayUrls = useRef<string[]>(config.relayUrls || [config.relayUrl]);
+  const relays = useRef<RelayEntry[]>(getConfiguredRelays(config));
+  const relayUrls = useRef<string[]>(relays.current.map(({ url }) => url));
+  const maxPublishRelays = useRef<number>(config.maxPublishRelays ?? DEFAULT_MAX_PUBLISH_RELAYS);
 
   // Update refs when config changes and close old relay connections
   useEffect(() => {
+    const oldRelays = relays.current;
     const oldRelayUrls = relayUrls.current;
-    relayUrl.current = config.relayUrl;
-    relayUrls.current = config.relayUrls || [config.relayUrl];
+    relays.current = getConfiguredRelays({ relays: config.relays, relayUrl: config.relayUrl, relayUrls: config.relayUrls });
+    relayUrls.current = relays.current.map(({ url }) => url);
+    maxPublishRelays.current = config.maxPublishRelays ?? DEFAULT_MAX_PUBLISH_RELAYS;
 
-    // If relay URLs changed, close old connections and reset queries
-    const urlsChanged = JSON.stringify(oldRelayUrls) !== JSON.stringify(relayUrls.current);
-    if (urlsChanged && pool.current) {
+    // If relays or their roles changed, close old connections and reset queries
+    const relaysChanged = JSON.stringify(oldRelays) !== JSON.stringify(relays.current);
+    if (relaysChanged && pool.current) {
       debugLog('[NostrProvider] Relays changed from', oldRelayUrls, 'to', relayUrls.current);
 
       // Close old relay connections that are no longer in the list
@@ -56,7 +68,7 @@ const NostrProvider: React.FC<NostrProviderProps> = (props) => {
       // Reset all queries to fetch fresh data from new relays
       queryClient.resetQueries();
     }
-  }, [config.relayUrl, config.relayUrls, queryClient]);
+  }, [config.relays, config.relayUrl, config.relayUrls, config.maxPublishRelays, queryClient]);
 
   // Initialize NPool only once
   if (!pool.current) {
@@ -66,83 +78,126 @@ const NostrProvider: React.FC<NostrProviderProps> = (props) => {
         verboseLog('[NostrProvider] Opening relay connection to:', url);
         const relay = new NRelay1(url, {
           idleTimeout: false, // Disable idle timeout to prevent premature connection closure
-          log: (log) => verboseLog(`[NRelay1:${log.ns}]`, log),
+          log: (log) => {
+            verboseLog(`[NRelay1:${log.ns}]`, log);
+            relayHealth.record(log);
+            relayAuth.handleLog(log);
+          },
+          // NIP-42: answered with the current user's signer, per the user's preference for this relay
+          auth: (challenge) => relayAuth.handleChallenge(url, challenge),
+          // Videos arrive in large pages, so their signatures are checked in batches by the video worker
+          verifyEvent: (event) => WORKER_VERIFIED_KINDS.includes(event.kind) || verifyEvent(event),
         });
         verboseLog('[NostrProvider] NRelay1 instance created, readyState:', relay.socket?.readyState);
         return relay;
       },
-      reqRouter(filters): ReadonlyMap<string, NostrFilter[]> {
+      async reqRouter(filters): Promise<ReadonlyMap<string, NostrFilter[]>> {
         debugLog('[NostrProvider] ========== reqRouter called ==========');
         debugLog('[NostrProvider] Filters:', filters);
 
         const result = new Map<string, NostrFilter[]>();
 
         // Separate filters by kind for kind-specific relay routing
-        const profileRelayFilters: NostrFilter[] = []; // Kind 0 (profiles) and Kind 3 (contact lists)
+        const profileRelayFilters: NostrFilter[] = []; // Kind 0 (profiles), 3 (contact lists) and 10002 (relay lists)
+        const searchFilters: NostrFilter[] = []; // NIP-50 searches and sorted feeds
         const otherFilters: NostrFilter[] = [];
 
         for (const filter of filters) {
-          if (filter.kinds?.includes(0) || filter.kinds?.includes(3)) {
-            // Kind 0 (profile metadata) and Kind 3 (contact lists) - route to profile relays
+          if (filter.kinds?.includes(0) || filter.kinds?.includes(3) || filter.kinds?.includes(RELAY_LIST_KIND)) {
+            // Kind 0 (profile metadata), 3 (contact lists) and 10002 - route to profile relays
             profileRelayFilters.push(filter);
+          } else if (filter.search) {
+            // Searches and sort directives - route to the user's search relays
+            searchFilters.push(filter);
           } else {
-            // All other kinds - route to main relay
+            // All other kinds - route to the user's read relays
             otherFilters.push(filter);
           }
         }
 
-        // Route kind 0 and kind 3 queries to profile-specific relays for better availability
+        // Outbox model: author-scoped filters also go to each author's write relays.
+        // Relay list lookups themselves only use the profile relays
+        const outboxFilters = [...profileRelayFilters, ...searchFilters, ...otherFilters]
+          .filter(filter => filter.authors?.length && !filter.kinds?.includes(RELAY_LIST_KIND));
+        const authors = [...new Set(outboxFilters.flatMap(filter => filter.authors ?? []))];
+        if (authors.length > 0) {
+          await relayLists.current!.resolve(authors);
+        }
+        // Demoted relays get no outbox traffic - the default relays still get the whole filter
+        const getWriteRelays = (pubkey: string) =>
+          relayLists.current!.get(pubkey)?.write.filter(url => !relayHealth.isDemoted(url));
+
+        const addRoutes = (routes: Map<string, NostrFilter[]>) => {
+          for (const [url, routed] of routes) {
+            result.set(url, [...(result.get(url) ?? []), ...routed]);
+          }
+        };
+
+        // Route kind 0, 3 and 10002 queries to profile-specific relays for better availability
         if (profileRelayFilters.length > 0) {
-          const profileRelayUrls = getRelayUrls(PROFILE_RELAYS);
+          const profileRelayUrls = relayHealth.selectRelays(getRelayUrls(PROFILE_RELAYS), getRelaysWithRole(relays.current, 'read'));
 
           debugLog(`[NostrProvider] Routing ${profileRelayFilters.length} profile/contact filters to ${profileRelayUrls.length} relays`);
 
-          for (const relay of profileRelayUrls) {
-            result.set(relay, profileRelayFilters);
-          }
+          addRoutes(routeFiltersToOutbox(profileRelayFilters, profileRelayUrls, getWriteRelays, OUTBOX_LIMITS));
         }
 
-        // Route other queries to all configured relays
+        // Route other queries to the read (or search) relays, failing over to the presets while they're unhealthy
+        const fallbackUrls = (presetRelays ?? []).map(({ url }) => url);
+        if (searchFilters.length > 0) {
+          const searchRelayUrls = relayHealth.selectRelays(getRelaysWithRole(relays.current, 'search'), fallbackUrls);
+          addRoutes(routeFiltersToOutbox(searchFilters, searchRelayUrls, getWriteRelays, OUTBOX_LIMITS));
+        }
         if (otherFilters.length > 0) {
-          // Query all configured relays
-          for (const url of relayUrls.current) {
-            result.set(url, otherFilters);
+          const readRelayUrls = relayHealth.selectRelays(getRelaysWithRole(relays.current, 'read'), fallbackUrls);
+          addRoutes(routeFiltersToOutbox(otherFilters, readRelayUrls, getWriteRelays, OUTBOX_LIMITS));
+        }
+
+        // Adapt each relay's filters to what its NIP-11 document says it supports
+        for (const [url, routed] of result) {
+          if (!getRelayCapabilities(url)) {
+            detectRelayCapabilities(url); // Cached for the next request
+          }
+          const adapted = routed
+            .map(filter => adaptFilterToRelay(filter, url))
+            .filter((filter): filter is NostrFilter => filter !== null);
+          if (adapted.length > 0) {
+            result.set(url, adapted);
+          } else {
+            result.delete(url);
           }
         }
 
         debugLog('[NostrProvider] Router result:', Array.from(result.entries()));
         return result as ReadonlyMap<string, NostrFilter[]>;
       },
-      eventRouter(event: NostrEvent) {
-        // Publish to the selected relay
-        const allRelays = new Set<string>([relayUrl.current]);
-
-        // For contact lists (kind 3), publish to multiple relays for better availability
-        if (event.kind === 3) {
-          // Add common relays where contact lists should be stored
-          getRelayUrls(PROFILE_RELAYS).forEach(url => allRelays.add(url));
-        }
-
-        // For list events (kind 30000, 30001, 30005), publish to multiple relays for better discoverability
+      async eventRouter(event: NostrEvent) {
+        // Contact lists (kind 3), relay lists (kind 10002) and lists (kinds 30000, 30001, 30005) also go to
+        // the common profile relays, for better availability and discoverability
         const LIST_KINDS = [30000, 30001, 30005];
-        if (LIST_KINDS.includes(event.kind)) {
-          // Add common relays where lists should be stored
-          getRelayUrls(PROFILE_RELAYS).forEach(url => allRelays.add(url));
-        }
+        const isListKind = event.kind === 3 || event.kind === RELAY_LIST_KIND || LIST_KINDS.includes(event.kind);
 
-        // Also publish to the preset relays, capped to 5
-        for (const { url } of (presetRelays ?? [])) {
-          allRelays.add(url);
+        // The user's write relays and the app's own relay, topped up with preset relays to the user's cap
+        const allRelays = getPublishRelayUrls(relays.current, {
+          extra: isListKind ? getRelayUrls(PROFILE_RELAYS) : [],
+          presets: (presetRelays ?? []).map(({ url }) => url),
+          max: maxPublishRelays.current,
+        });
 
-          if (allRelays.size >= 5) {
-            break;
-          }
+        if (event.kind === RELAY_LIST_KIND) {
+          relayLists.current!.add(event);
         }
 
-        return [...allRelays];
+        // Outbox model: also the author's write relays, and the read relays of anyone replied to or mentioned
+        await relayLists.current!.resolve(getPublishPubkeys(event, OUTBOX_LIMITS.maxTaggedUsers));
+        return selectPublishRelays(event, allRelays, (pubkey) => relayLists.current!.get(pubkey), OUTBOX_LIMITS);
       },
     });
 
+    // Relay lists are looked up on the profile relays directly, bypassing the routers above
+    const relayListPool = pool.current.group(getRelayUrls(PROFILE_RELAYS));
+    relayLists.current = new RelayListResolver((filter, signal) => relayListPool.query([filter], { signal }));
+
     // Wrap with caching layer
     cachedPool.current = createCachedNostr(pool.current);
     debugLog('[NostrProvider] Wrapped NPool with caching layer');
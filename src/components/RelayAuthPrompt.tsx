@@ -0,0 +1,79 @@
+// ABOUTME: Connects NIP-42 relay authentication to the current login and asks the user before signing in to a relay
+// ABOUTME: Retries queries once a relay accepts authentication, and can remember the choice per relay
+
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { KeyRound } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useRelayAuth, useRelayAuthPreferences } from '@/hooks/useRelayAuth';
+import { relayAuth } from '@/lib/relayAuth';
+
+export function RelayAuthPrompt() {
+  const { user } = useCurrentUser();
+  const { config } = useAppContext();
+  const queryClient = useQueryClient();
+  const { prompts } = useRelayAuth();
+  const { setPreference } = useRelayAuthPreferences();
+  const [remember, setRemember] = useState(false);
+
+  useEffect(() => {
+    relayAuth.configure(user?.signer, config.relayAuth ?? {});
+  }, [user?.signer, config.relayAuth]);
+
+  // Queries that finished after the relay started refusing may be missing its events, so they get another try
+  useEffect(() => relayAuth.onAuthenticated((_url, refusedAt) => {
+    queryClient.invalidateQueries({
+      predicate: (query) => query.state.dataUpdatedAt >= refusedAt || query.state.errorUpdatedAt >= refusedAt,
+    });
+  }), [queryClient]);
+
+  const url = prompts[0];
+  if (!url) return null;
+
+  const answer = (allow: boolean) => {
+    if (remember) {
+      setPreference(url, allow ? 'always' : 'never');
+    }
+    relayAuth.respond(url, allow);
+    setRemember(false);
+  };
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent className="max-w-md">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Sign in to relay?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            <span className="font-mono">{url.replace(/^wss:\/\//, '')}</span> requires you to authenticate
+            before it will share some content. This signs a one-time login event with your key and reveals
+            your public key to the relay.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="flex items-center gap-2">
+          <Checkbox id="remember-relay-auth" checked={remember} onCheckedChange={(checked) => setRemember(checked === true)} />
+          <Label htmlFor="remember-relay-auth" className="text-sm">Remember my choice for this relay</Label>
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => answer(false)}>Don't sign in</AlertDialogCancel>
+          <AlertDialogAction onClick={() => answer(true)}>Sign in</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,32 @@
+// ABOUTME: Imports the logged-in user's NIP-65 relay list into their local relay set
+// ABOUTME: Only lists newer than the last local change are applied, so local edits aren't overwritten
+
+import { useEffect } from 'react';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useRelayList } from '@/hooks/useRelaySets';
+import { getConfiguredRelays, mergeRelayList } from '@/lib/relaySets';
+import { debugLog } from '@/lib/debug';
+
+export function RelayListImporter() {
+  const { user } = useCurrentUser();
+  const { config, updateConfig } = useAppContext();
+  const { data: relayList } = useRelayList(user?.pubkey);
+
+  useEffect(() => {
+    if (!relayList || relayList.created_at <= (config.relaysUpdatedAt ?? 0)) return;
+
+    debugLog('[RelayListImporter] Importing relay list from', new Date(relayList.created_at * 1000));
+    updateConfig(current => {
+      const relays = mergeRelayList(relayList, getConfiguredRelays(current));
+      return {
+        ...current,
+        relays,
+        relaysUpdatedAt: relayList.created_at,
+        relayUrl: relays.find(relay => relay.read)?.url ?? current.relayUrl,
+      };
+    });
+  }, [relayList, config.relaysUpdatedAt, updateConfig]);
+
+  return null;
+}
@@ -0,0 +1,90 @@
+// ABOUTME: Broadcasts queued scheduled posts once their publish time arrives while the app is open
+// ABOUTME: Also asks the service worker for periodic sync so posts can go out with no tab focused
+
+import { useEffect } from 'react';
+import { useNostr } from '@nostrify/react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/useToast';
+import { scheduledPostStore } from '@/lib/scheduledPostStore';
+import { debugLog, debugError, debugWarn } from '@/lib/debug';
+
+const CHECK_INTERVAL = 30_000; // ms
+const PERIODIC_SYNC_TAG = 'scheduled-posts'; // Handled in public/sw.js
+const PERIODIC_SYNC_INTERVAL = 15 * 60 * 1000; // Browsers won't wake the worker more often than this anyway
+
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+}
+
+export function ScheduledPostPublisher() {
+  const { nostr } = useNostr();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let running = false;
+
+    const publishDue = async () => {
+      if (running) return;
+      running = true;
+      try {
+        const due = await scheduledPostStore.listDue();
+        for (const post of due) {
+          try {
+            await nostr.event(post.event, { signal: AbortSignal.timeout(10000) });
+            await scheduledPostStore.remove(post.id);
+            debugLog('[ScheduledPostPublisher] Published scheduled post:', post.id);
+            toast({
+              title: 'Scheduled Vine Published',
+              description: post.event.tags.find(([name]) => name === 'title')?.[1] ?? 'Your vine is live',
+            });
+          } catch (error) {
+            // Stays due, so the next check retries it
+            debugError('[ScheduledPostPublisher] Failed to publish scheduled post:', post.id, error);
+            await scheduledPostStore.save({
+              ...post,
+              attempts: post.attempts + 1,
+              lastError: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+
+        if (due.length > 0) {
+          queryClient.invalidateQueries({ queryKey: ['scheduled-posts'] });
+        }
+      } catch (error) {
+        debugWarn('[ScheduledPostPublisher] Could not read scheduled posts:', error);
+      } finally {
+        running = false;
+      }
+    };
+
+    // The service worker may have published while the tab was in the background
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        queryClient.invalidateQueries({ queryKey: ['scheduled-posts'] });
+        publishDue();
+      }
+    };
+
+    publishDue();
+    const interval = setInterval(publishDue, CHECK_INTERVAL);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [nostr, queryClient, toast]);
+
+  // Periodic sync only exists in Chromium and needs the PWA installed - elsewhere the tab does the work
+  useEffect(() => {
+    navigator.serviceWorker?.ready
+      .then((registration: PeriodicSyncRegistration) =>
+        registration.periodicSync?.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL })
+      )
+      .catch(error => debugWarn('[ScheduledPostPublisher] Periodic sync unavailable:', error));
+  }, []);
+
+  return null; // This component doesn't render anything
+}
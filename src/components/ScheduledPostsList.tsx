@@ -0,0 +1,141 @@
+// ABOUTME: Profile tab listing the current user's scheduled vines
+// ABOUTME: Shows each queued post's publish time and lets the owner reschedule or cancel it
+
+import { useState } from 'react';
+import { CalendarClock, Loader2, Trash2, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useScheduledPosts, useReschedulePost, useCancelScheduledPost } from '@/hooks/useScheduledPosts';
+import { extractVideoMetadata } from '@/lib/videoParser';
+import { formatDateTimeLocal } from '@/lib/formatUtils';
+import type { ScheduledPost } from '@/lib/scheduledPostStore';
+
+export function ScheduledPostsList() {
+  const { data: posts, isLoading } = useScheduledPosts();
+  const { mutate: cancelPost, isPending: isCancelling, variables: cancellingId } = useCancelScheduledPost();
+  const [rescheduling, setRescheduling] = useState<ScheduledPost | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!posts?.length) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          <CalendarClock className="h-10 w-10 mx-auto mb-3" />
+          <p>No scheduled vines</p>
+          <p className="text-sm mt-1">Turn on "Schedule for later" when publishing to queue one here.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {posts.map(post => {
+        const title = post.event.tags.find(([name]) => name === 'title')?.[1] || 'Untitled vine';
+        const thumbnailUrl = extractVideoMetadata(post.event)?.thumbnailUrl;
+        const isOverdue = post.publishAt * 1000 <= Date.now();
+
+        return (
+          <Card key={post.id}>
+            <CardContent className="p-4 flex items-center gap-3">
+              {thumbnailUrl ? (
+                <img src={thumbnailUrl} alt="" className="w-16 h-16 rounded-md object-cover flex-shrink-0" />
+              ) : (
+                <div className="w-16 h-16 rounded-md bg-muted flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{title}</p>
+                <p className="text-sm text-muted-foreground">
+                  {isOverdue ? 'Publishing...' : new Date(post.publishAt * 1000).toLocaleString()}
+                </p>
+                {post.lastError && (
+                  <p className="text-xs text-destructive flex items-center gap-1 mt-1">
+                    <AlertCircle className="h-3 w-3" />
+                    {post.attempts} failed {post.attempts === 1 ? 'attempt' : 'attempts'}: {post.lastError}
+                  </p>
+                )}
+              </div>
+              <Button size="sm" variant="outline" onClick={() => setRescheduling(post)}>
+                <CalendarClock className="mr-2 h-4 w-4" />
+                Reschedule
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => cancelPost(post.id)}
+                disabled={isCancelling && cancellingId === post.id}
+                aria-label="Cancel scheduled vine"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {rescheduling && (
+        <RescheduleDialog post={rescheduling} onClose={() => setRescheduling(null)} />
+      )}
+    </div>
+  );
+}
+
+function RescheduleDialog({ post, onClose }: { post: ScheduledPost; onClose: () => void }) {
+  const [value, setValue] = useState(() => formatDateTimeLocal(Math.max(post.publishAt, Math.floor(Date.now() / 1000))));
+  const { mutateAsync: reschedule, isPending } = useReschedulePost();
+
+  const handleSave = async () => {
+    try {
+      await reschedule({ id: post.id, publishAt: Math.floor(new Date(value).getTime() / 1000) });
+      onClose();
+    } catch {
+      // useReschedulePost reports the error
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isPending && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reschedule Vine</DialogTitle>
+          <DialogDescription>
+            The post is signed again with the new publish time.
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          type="datetime-local"
+          aria-label="Publish time"
+          value={value}
+          min={formatDateTimeLocal(Math.floor(Date.now() / 1000))}
+          onChange={(e) => setValue(e.target.value)}
+          disabled={isPending}
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isPending || !value}>
+            {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
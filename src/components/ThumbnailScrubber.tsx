@@ -0,0 +1,82 @@
+// ABOUTME: Frame scrubber for choosing a video's cover image
+// ABOUTME: Previews the frame under the slider and captures it as poster + blurhash when released
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { captureVideoFrame, type CapturedFrame } from '@/lib/videoThumbnail';
+import { cn } from '@/lib/utils';
+
+interface ThumbnailScrubberProps {
+  video: Blob;
+  duration: number; // milliseconds
+  value?: number; // milliseconds of the current cover frame
+  onChange: (frame: CapturedFrame) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function ThumbnailScrubber({ video, duration, value = 0, onChange, disabled, className }: ThumbnailScrubberProps) {
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const [time, setTime] = useState(value);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const videoUrl = useMemo(() => URL.createObjectURL(video), [video]);
+
+  useEffect(() => () => URL.revokeObjectURL(videoUrl), [videoUrl]);
+
+  useEffect(() => {
+    setTime(value);
+  }, [value]);
+
+  // Seek the preview as the slider moves; capturing waits until it's released
+  useEffect(() => {
+    if (previewRef.current) {
+      previewRef.current.currentTime = time / 1000;
+    }
+  }, [time]);
+
+  const handleCommit = async ([committed]: number[]) => {
+    setIsCapturing(true);
+    try {
+      onChange(await captureVideoFrame(video, committed));
+    } catch (error) {
+      console.error('Failed to capture cover frame:', error);
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center justify-between">
+        <Label>Cover frame</Label>
+        <span className="text-xs text-muted-foreground flex items-center gap-1">
+          {isCapturing && <Loader2 className="h-3 w-3 animate-spin" />}
+          {(time / 1000).toFixed(1)}s
+        </span>
+      </div>
+      <div className="flex items-center gap-3">
+        <video
+          ref={previewRef}
+          src={videoUrl}
+          className="w-16 h-16 rounded-md object-cover bg-black flex-shrink-0"
+          preload="auto"
+          playsInline
+          muted
+        />
+        <Slider
+          value={[time]}
+          min={0}
+          max={Math.max(0, duration - 50)}
+          step={50}
+          onValueChange={([next]) => setTime(next)}
+          onValueCommit={handleCommit}
+          disabled={disabled || isCapturing}
+          aria-label="Cover frame time"
+          className="flex-1"
+        />
+      </div>
+    </div>
+  );
+}
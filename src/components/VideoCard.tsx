@@ -3,39 +3,42 @@
 
 import { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Heart, Repeat2, MessageCircle, Share, Eye, ListPlus, MoreVertical, Flag, UserX, Trash2, Volume2, VolumeX, Code } from 'lucide-react';
+import { Heart, Repeat2, MessageCircle, Share, Eye, ListPlus, MoreVertical, Flag, UserX, Trash2, Pencil, Volume2, VolumeX, Code, Lock, Clock, AlertTriangle } from 'lucide-react';
 import { nip19 } from 'nostr-tools';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuSub, DropdownMenuSubContent, DropdownMenuSubTrigger, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { VideoPlayer } from '@/components/VideoPlayer';
 import { VideoCommentsModal } from '@/components/VideoCommentsModal';
 import { ThumbnailPlayer } from '@/components/ThumbnailPlayer';
 import { NoteContent } from '@/components/NoteContent';
 import { VideoListBadges } from '@/components/VideoListBadges';
 import { ProofModeBadge } from '@/components/ProofModeBadge';
+import { MediaIntegrityBadge } from '@/components/MediaIntegrityBadge';
 import { OriginalContentBadge } from '@/components/OriginalContentBadge';
 import { VineBadge } from '@/components/VineBadge';
 import { AddToListDialog } from '@/components/AddToListDialog';
 import { ReportContentDialog } from '@/components/ReportContentDialog';
 import { DeleteVideoDialog } from '@/components/DeleteVideoDialog';
+import { EditVideoDialog } from '@/components/EditVideoDialog';
 import { ViewSourceDialog } from '@/components/ViewSourceDialog';
 import { useAuthor } from '@/hooks/useAuthor';
 import { useIsMobile } from '@/hooks/useIsMobile';
 import { useMuteItem } from '@/hooks/useModeration';
 import { useDeleteVideo, useCanDeleteVideo } from '@/hooks/useDeleteVideo';
 import { useVideoPlayback } from '@/hooks/useVideoPlayback';
+import { useMediaVerification } from '@/hooks/useMediaVerification';
 import { enhanceAuthorData } from '@/lib/generateProfile';
 import { formatDistanceToNow } from 'date-fns';
-import type { ParsedVideoData } from '@/types/video';
+import { VIDEO_KIND, type ParsedVideoData } from '@/types/video';
 import type { NostrMetadata } from '@nostrify/nostrify';
 import { cn } from '@/lib/utils';
 import { formatViewCount, formatDuration, formatCount } from '@/lib/formatUtils';
 import { getSafeProfileImage } from '@/lib/imageUtils';
 import type { VideoNavigationContext } from '@/hooks/useVideoNavigation';
 import { useToast } from '@/hooks/useToast';
-import { MuteType } from '@/types/moderation';
+import { MUTE_DURATIONS, MuteType } from '@/types/moderation';
 
 interface VideoCardProps {
   video: ParsedVideoData;
@@ -57,6 +60,8 @@ interface VideoCardProps {
   // Navigation context for maintaining feed position
   navigationContext?: VideoNavigationContext;
   videoIndex?: number;
+  // Set for content graded WARNING: the video is blurred behind this message until revealed
+  warningMessage?: string;
 }
 
 export function VideoCard({
@@ -78,6 +83,7 @@ export function VideoCard({
   showComments = false,
   navigationContext: _navigationContext,
   videoIndex: _videoIndex,
+  warningMessage,
 }: VideoCardProps) {
   const authorData = useAuthor(video.pubkey);
 
@@ -93,7 +99,10 @@ export function VideoCard({
   const [showReportDialog, setShowReportDialog] = useState(false);
   const [showReportUserDialog, setShowReportUserDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showEditDialog, setShowEditDialog] = useState(false);
   const [showViewSourceDialog, setShowViewSourceDialog] = useState(false);
+  const [warningDismissed, setWarningDismissed] = useState(false);
+  const isWarned = !!warningMessage && !warningDismissed;
   const [videoAspectRatio, setVideoAspectRatio] = useState<number | null>(null);
   const isMobile = useIsMobile();
   const { toast } = useToast();
@@ -102,6 +111,7 @@ export function VideoCard({
   const { globalMuted, setGlobalMuted } = useVideoPlayback();
   const { mutate: deleteVideo, isPending: isDeleting } = useDeleteVideo();
   const canDelete = useCanDeleteVideo(video);
+  const { data: mediaIntegrity } = useMediaVerification(video);
 
   // Enhance author data with generated profiles
   const author = enhanceAuthorData(authorData.data, video.pubkey);
@@ -183,22 +193,24 @@ export function VideoCard({
     }
   };
 
-  const handleMuteUser = async () => {
+  const handleMuteUser = async (isPrivate = false, duration?: { label: string; seconds?: number }) => {
     try {
       await muteUser.mutateAsync({
         type: MuteType.USER,
         value: video.pubkey,
-        reason: 'Muted from video'
+        reason: 'Muted from video',
+        isPrivate,
+        duration: duration?.seconds
       });
 
       toast({
         title: 'User muted',
-        description: `${displayName} has been muted`,
+        description: `${displayName} has been ${isPrivate ? 'privately ' : ''}muted${duration?.seconds ? ` for ${duration.label}` : ''}`,
       });
-    } catch {
+    } catch (error) {
       toast({
         title: 'Error',
-        description: 'Failed to mute user',
+        description: error instanceof Error ? error.message : 'Failed to mute user',
         variant: 'destructive',
       });
     }
@@ -311,6 +323,8 @@ export function VideoCard({
                 showDetails={true}
               />
             )}
+            {/* Media hash check - only present when "verify media" is enabled */}
+            {mediaIntegrity && <MediaIntegrityBadge result={mediaIntegrity} />}
             {/* Show Original Content badge if video is from before 2018 (original Vine era) */}
             {date.getFullYear() < 2018 && (
               <OriginalContentBadge size="small" />
@@ -334,7 +348,25 @@ export function VideoCard({
           className="relative bg-black rounded-lg overflow-hidden w-full"
           style={{ aspectRatio: videoAspectRatio?.toString() || '1' }}
         >
-          {!isPlaying ? (
+          {isWarned ? (
+            <div className="relative w-full h-full">
+              {video.thumbnailUrl && (
+                <img
+                  src={video.thumbnailUrl}
+                  alt=""
+                  aria-hidden="true"
+                  className="w-full h-full object-cover blur-2xl scale-110"
+                />
+              )}
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-black/60 p-6 text-center text-white">
+                <AlertTriangle className="h-8 w-8" />
+                <p className="text-sm font-medium">{warningMessage}</p>
+                <Button variant="secondary" size="sm" onClick={() => setWarningDismissed(true)}>
+                  Show video
+                </Button>
+              </div>
+            </div>
+          ) : !isPlaying ? (
             <ThumbnailPlayer
               videoId={video.id}
               src={video.videoUrl}
@@ -351,6 +383,9 @@ export function VideoCard({
               src={video.videoUrl}
               hlsUrl={video.hlsUrl}
               fallbackUrls={video.fallbackVideoUrls}
+              variants={video.variants}
+              authorPubkey={video.pubkey}
+              hash={video.hash}
               poster={video.thumbnailUrl}
               blurhash={video.blurhash}
               className="w-full h-full"
@@ -367,7 +402,7 @@ export function VideoCard({
           )}
 
           {/* Loading spinner overlay */}
-          {!videoAspectRatio && !videoError && (
+          {!videoAspectRatio && !videoError && !isWarned && (
             <div className="absolute inset-0 flex items-center justify-center bg-gradient-to-br from-primary/10 to-primary/5">
               <div className="relative w-12 h-12">
                 <div className="absolute inset-0 border-4 border-primary/20 rounded-full" />
@@ -377,7 +412,7 @@ export function VideoCard({
           )}
 
           {/* Mute/Unmute button overlay - bottom right corner */}
-          {isPlaying && !videoError && (
+          {isPlaying && !videoError && !isWarned && (
             <Button
               variant="ghost"
               size="sm"
@@ -571,6 +606,12 @@ export function VideoCard({
             <DropdownMenuContent align="end">
               {canDelete && (
                 <>
+                  {video.kind === VIDEO_KIND && video.vineId && (
+                    <DropdownMenuItem onClick={() => setShowEditDialog(true)}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Edit video
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem
                     onClick={() => setShowDeleteDialog(true)}
                     className="text-destructive focus:text-destructive"
@@ -590,10 +631,27 @@ export function VideoCard({
                 Report user
               </DropdownMenuItem>
               <DropdownMenuSeparator />
-              <DropdownMenuItem onClick={handleMuteUser} className="text-destructive focus:text-destructive">
+              <DropdownMenuItem onClick={() => handleMuteUser()} className="text-destructive focus:text-destructive">
                 <UserX className="h-4 w-4 mr-2" />
                 Mute {displayName}
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleMuteUser(true)} className="text-destructive focus:text-destructive">
+                <Lock className="h-4 w-4 mr-2" />
+                Mute privately
+              </DropdownMenuItem>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger className="text-destructive focus:text-destructive">
+                  <Clock className="h-4 w-4 mr-2" />
+                  Mute for...
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {MUTE_DURATIONS.filter(duration => duration.seconds).map(duration => (
+                    <DropdownMenuItem key={duration.label} onClick={() => handleMuteUser(false, duration)}>
+                      {duration.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={() => setShowViewSourceDialog(true)}>
                 <Code className="h-4 w-4 mr-2" />
@@ -635,6 +693,14 @@ export function VideoCard({
       />
     )}
 
+    {showEditDialog && (
+      <EditVideoDialog
+        open={showEditDialog}
+        onClose={() => setShowEditDialog(false)}
+        video={video}
+      />
+    )}
+
     {showViewSourceDialog && (
       <ViewSourceDialog
         open={showViewSourceDialog}
@@ -1,8 +1,8 @@
 // ABOUTME: Video feed component for displaying scrollable lists of videos with infinite scroll
 // ABOUTME: Uses optimized useInfiniteVideos hook with NIP-50 search and cursor pagination
 
-import { useEffect, useMemo, useState } from 'react';
-import { Video } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ArrowUp, Video } from 'lucide-react';
 import { VideoCard } from '@/components/VideoCard';
 import { VideoGrid } from '@/components/VideoGrid';
 import { AddToListDialog } from '@/components/AddToListDialog';
@@ -13,13 +13,17 @@ import { useOptimisticLike } from '@/hooks/useOptimisticLike';
 import { useOptimisticRepost } from '@/hooks/useOptimisticRepost';
 import { useCurrentUser } from '@/hooks/useCurrentUser';
 import { useContentModeration } from '@/hooks/useModeration';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { useToast } from '@/hooks/useToast';
 import { useLoginDialog } from '@/contexts/LoginDialogContext';
 import { Loader2 } from 'lucide-react';
 import InfiniteScroll from 'react-infinite-scroll-component';
 import type { ParsedVideoData } from '@/types/video';
+import { ContentSeverity } from '@/types/moderation';
 import { debugLog, debugWarn } from '@/lib/debug';
+import { isAddressableVideoKind } from '@/lib/videoParser';
+import { getVideoLabelTarget } from '@/lib/labelers';
 import type { SortMode } from '@/types/nostr';
 
 type ViewMode = 'feed' | 'grid';
@@ -60,7 +64,6 @@ export function VideoFeed({
   const { toast } = useToast();
   const { toggleLike } = useOptimisticLike();
   const { toggleRepost } = useOptimisticRepost();
-  const { checkContent } = useContentModeration();
   const { openLoginDialog } = useLoginDialog();
 
   // Use new infinite scroll hook with NIP-50 support
@@ -70,7 +73,9 @@ export function VideoFeed({
     hasNextPage,
     isLoading,
     error,
-    refetch
+    refetch,
+    newVideos,
+    showNewVideos
   } = useInfiniteVideos({
     feedType,
     hashtag,
@@ -85,34 +90,68 @@ export function VideoFeed({
     [data]
   );
 
+  // Subscribed moderators' verdicts are fetched for each page of the feed
+  const labelTargets = useMemo(() =>
+    data?.pages.map(page => page.videos.map(getVideoLabelTarget)) ?? [],
+    [data]
+  );
+  const { checkContent } = useContentModeration(labelTargets);
+
+  const moderate = useCallback((video: ParsedVideoData) => checkContent({
+    ...getVideoLabelTarget(video),
+    hashtags: video.hashtags,
+    text: video.content,
+    contentWarning: video.contentWarning,
+    labels: video.labels
+  }), [checkContent]);
+
+  // Warning shown over videos graded WARNING; they stay in the feed, blurred
+  const getWarning = useCallback((video: ParsedVideoData) => {
+    const moderationResult = moderate(video);
+    return moderationResult.severity === ContentSeverity.WARNING ? moderationResult.warningMessage : undefined;
+  }, [moderate]);
+
   // Filter videos based on mute list and verification status
-  const filteredVideos = useMemo(() => {
-    if (!allVideos || allVideos.length === 0) return [];
-
-    return allVideos.filter(video => {
-      // Check moderation filters
-      const moderationResult = checkContent({
-        pubkey: video.pubkey,
-        eventId: video.id,
-        hashtags: video.hashtags,
-        text: video.content
-      });
+  const isVisible = useCallback((video: ParsedVideoData) => {
+    // Filter out hidden and blocked content
+    if (moderate(video).shouldFilter) {
+      return false;
+    }
 
-      // Filter out muted content
-      if (moderationResult.shouldFilter) {
-        return false;
-      }
+    // Filter for verified-only if enabled
+    if (verifiedOnly) {
+      return !!video.proofMode &&
+             (video.proofMode.level === 'verified_mobile' ||
+              video.proofMode.level === 'verified_web');
+    }
 
-      // Filter for verified-only if enabled
-      if (verifiedOnly) {
-        return video.proofMode &&
-               (video.proofMode.level === 'verified_mobile' ||
-                video.proofMode.level === 'verified_web');
-      }
+    return true;
+  }, [moderate, verifiedOnly]);
 
-      return true;
-    });
-  }, [allVideos, checkContent, verifiedOnly]);
+  const filteredVideos = useMemo(() => allVideos.filter(isVisible), [allVideos, isVisible]);
+
+  // Only count new videos the reader would actually see
+  const newVideoCount = useMemo(() => newVideos.filter(isVisible).length, [newVideos, isVisible]);
+
+  const handleShowNewVideos = () => {
+    showNewVideos();
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Sticks to the top while scrolling; new videos are only added when clicked so the feed doesn't jump
+  const newVideosPill = newVideoCount > 0 && (
+    <div className="sticky top-4 z-10 flex justify-center pointer-events-none mb-4">
+      <Button
+        size="sm"
+        className="rounded-full shadow-lg pointer-events-auto"
+        onClick={handleShowNewVideos}
+        data-testid="new-videos-pill"
+      >
+        <ArrowUp className="h-4 w-4 mr-1" />
+        {newVideoCount} new {newVideoCount === 1 ? 'video' : 'videos'}
+      </Button>
+    </div>
+  );
 
   // Collect all unique pubkeys for batched author fetching
   const authorPubkeys = useMemo(() => {
@@ -224,6 +263,7 @@ export function VideoFeed({
         data-hashtag-testid={hashtagTestId}
         data-profile-testid={profileTestId}
       >
+        {newVideosPill}
         <Card className="border-dashed border-2 border-primary/20 bg-primary/5">
           <CardContent className="py-16 px-8 text-center">
             <div className="max-w-md mx-auto space-y-6">
@@ -322,7 +362,7 @@ export function VideoFeed({
 
   // Helper component to provide social metrics data for each video
   function VideoCardWithMetrics({ video, index }: { video: ParsedVideoData; index: number }) {
-    const { data: socialMetrics } = useVideoSocialMetrics(video.id, video.pubkey, video.vineId);
+    const { data: socialMetrics } = useVideoSocialMetrics(video.id, video.pubkey, video.vineId, video.kind);
     const { data: userInteractions } = useVideoUserInteractions(video.id, user?.pubkey);
 
     const handleVideoLike = async () => {
@@ -350,7 +390,7 @@ export function VideoFeed({
         return;
       }
 
-      if (!video.vineId) {
+      if (!video.vineId && isAddressableVideoKind(video.kind)) {
         toast({
           title: 'Error',
           description: 'Cannot repost this video',
@@ -363,6 +403,7 @@ export function VideoFeed({
       await toggleRepost({
         videoId: video.id,
         videoPubkey: video.pubkey,
+        videoKind: video.kind,
         vineId: video.vineId,
         userPubkey: user.pubkey,
         isCurrentlyReposted: userInteractions?.hasReposted || false,
@@ -392,6 +433,7 @@ export function VideoFeed({
           pubkey,
         }}
         videoIndex={index}
+        warningMessage={getWarning(video)}
         data-testid="video-card"
       />
     );
@@ -408,6 +450,7 @@ export function VideoFeed({
         data-hashtag-testid={hashtagTestId}
         data-profile-testid={profileTestId}
       >
+        {newVideosPill}
         <InfiniteScroll
           dataLength={filteredVideos.length}
           next={fetchNextPage}
@@ -430,6 +473,7 @@ export function VideoFeed({
         >
           <VideoGrid
             videos={filteredVideos}
+            getWarning={getWarning}
             loading={false}
             navigationContext={{
               source: feedType,
@@ -460,6 +504,7 @@ export function VideoFeed({
       data-hashtag-testid={hashtagTestId}
       data-profile-testid={profileTestId}
     >
+      {newVideosPill}
       <InfiniteScroll
         dataLength={filteredVideos.length}
         next={fetchNextPage}
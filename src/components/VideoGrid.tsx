@@ -3,7 +3,7 @@
 
 import { useState, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Play, Repeat } from 'lucide-react';
+import { AlertTriangle, Play, Repeat } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
@@ -16,6 +16,8 @@ interface VideoGridProps {
   loading?: boolean;
   className?: string;
   navigationContext?: VideoNavigationContext;
+  // Message to blur a video's thumbnail behind, for content graded WARNING
+  getWarning?: (video: ParsedVideoData) => string | undefined;
 }
 
 function formatLoops(loops?: number): string {
@@ -35,7 +37,7 @@ function truncateText(text: string, maxLength: number = 50): string {
   return text.slice(0, maxLength) + '...';
 }
 
-export function VideoGrid({ videos, loading = false, className, navigationContext }: VideoGridProps) {
+export function VideoGrid({ videos, loading = false, className, navigationContext, getWarning }: VideoGridProps) {
   const navigate = useNavigate();
   const [hoveredVideo, setHoveredVideo] = useState<string | null>(null);
   const [failedThumbnails, setFailedThumbnails] = useState<Set<string>>(new Set());
@@ -129,6 +131,7 @@ export function VideoGrid({ videos, loading = false, className, navigationContex
         const isHovered = hoveredVideo === video.id;
         const thumbnailFailed = failedThumbnails.has(video.id);
         const shouldShowVideo = !video.thumbnailUrl || thumbnailFailed;
+        const warning = getWarning?.(video);
 
         return (
           <Card
@@ -198,6 +201,14 @@ export function VideoGrid({ videos, loading = false, className, navigationContex
                 </div>
               )}
 
+              {/* Content warning - the thumbnail is blurred; the video page asks again before playing */}
+              {warning && (
+                <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-2 p-4 text-center text-white bg-black/40 backdrop-blur-2xl">
+                  <AlertTriangle className="w-6 h-6" />
+                  <p className="text-xs font-medium">{warning}</p>
+                </div>
+              )}
+
               {/* Play Overlay */}
               <div
                 className="absolute inset-0 bg-black/20 flex items-center justify-center transition-opacity group-hover:bg-black/40"
@@ -1,48 +1,99 @@
 // ABOUTME: Responsive form for adding title, description, and hashtags to recorded videos
-// ABOUTME: Handles video preview and publishing with metadata - mobile-first design
+// ABOUTME: Generates thumbnail and blurhash, uploads to Blossom and publishes with a full imeta tag
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import { X, Hash, Loader2 } from 'lucide-react';
-import { useVideoUpload } from '@/hooks/useVideoUpload';
+import { useVideoUpload, type PreparedVideo } from '@/hooks/useVideoUpload';
 import { usePublishVideo } from '@/hooks/usePublishVideo';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/useToast';
+import { pendingUploadStore, type PendingUpload } from '@/lib/pendingUploadStore';
+import { ThumbnailScrubber } from '@/components/ThumbnailScrubber';
+import { captureVideoFrame, type CapturedFrame } from '@/lib/videoThumbnail';
 import { cn } from '@/lib/utils';
+import { formatDateTimeLocal } from '@/lib/formatUtils';
+import { VIDEO_KIND } from '@/types/video';
 
-interface VideoSegment {
-  blob: Blob;
-  blobUrl: string;
+const DEFAULT_THUMBNAIL_TIME = 500; // ms - skips the dark first frames of camera recordings
+const DEFAULT_SCHEDULE_DELAY = 60 * 60; // seconds - new schedules start an hour out
+
+export interface VideoMetadataFieldValues {
+  title: string;
+  description: string;
+  hashtags: string[];
 }
 
 interface VideoMetadataFormProps {
-  segments: VideoSegment[];
+  video: PreparedVideo;
+  resume?: PendingUpload; // Interrupted publish to continue
+  initialValues?: VideoMetadataFieldValues; // From a resumed draft
+  onValuesChange?: (values: VideoMetadataFieldValues) => void; // For auto-saving drafts
   onCancel: () => void;
   onPublished: () => void;
 }
 
 export function VideoMetadataForm({
-  segments,
+  video,
+  resume,
+  initialValues,
+  onValuesChange,
   onCancel,
   onPublished,
 }: VideoMetadataFormProps) {
   const { toast } = useToast();
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
-  const [hashtagInput, setHashtagInput] = useState('');
-  const [hashtags, setHashtags] = useState<string[]>([]);
+  const { user } = useCurrentUser();
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState(resume?.title ?? initialValues?.title ?? '');
+  const [description, setDescription] = useState(resume?.description ?? initialValues?.description ?? '');
+  const [hashtags, setHashtags] = useState<string[]>(resume?.hashtags ?? initialValues?.hashtags ?? []);
   const [isDesktop, setIsDesktop] = useState(false);
+  const [thumbnail, setThumbnail] = useState<Pick<CapturedFrame, 'blob' | 'blurhash' | 'time'> | null>(
+    resume?.thumbnail && resume.blurhash
+      ? { blob: resume.thumbnail, blurhash: resume.blurhash, time: resume.thumbnailTime ?? 0 }
+      : null
+  );
+  // A resumed upload's thumbnail URL is only valid until a different cover frame is picked
+  const [uploadedThumbnailUrl, setUploadedThumbnailUrl] = useState(resume?.thumbnailUrl);
+  const [isScheduled, setIsScheduled] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState(() => formatDateTimeLocal(Math.floor(Date.now() / 1000) + DEFAULT_SCHEDULE_DELAY));
   const videoRef = useRef<HTMLVideoElement>(null);
+  const videoUrl = useMemo(() => URL.createObjectURL(video.blob), [video.blob]);
 
   const { uploadVideo, uploadProgress, isUploading } = useVideoUpload();
   const { mutateAsync: publishVideo, isPending: isPublishing } = usePublishVideo();
 
   const isProcessing = isUploading || isPublishing;
 
+  useEffect(() => () => URL.revokeObjectURL(videoUrl), [videoUrl]);
+
+  useEffect(() => {
+    onValuesChange?.({ title, description, hashtags });
+  }, [title, description, hashtags, onValuesChange]);
+
+  // Generate thumbnail and blurhash from a frame of the video
+  useEffect(() => {
+    if (thumbnail) return;
+
+    let cancelled = false;
+    captureVideoFrame(video.blob, Math.min(DEFAULT_THUMBNAIL_TIME, video.duration / 2))
+      .then(frame => {
+        if (!cancelled) setThumbnail(frame);
+      })
+      .catch(error => console.error('Failed to generate thumbnail:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [video, thumbnail]);
+
   // Detect desktop
   useEffect(() => {
     const checkDesktop = () => {
@@ -55,34 +106,12 @@ export function VideoMetadataForm({
 
   // Set up video preview
   useEffect(() => {
-    if (videoRef.current && segments.length > 0) {
-      videoRef.current.src = segments[0].blobUrl;
+    if (videoRef.current) {
+      videoRef.current.src = videoUrl;
       videoRef.current.loop = true;
       videoRef.current.play().catch(console.error);
     }
-  }, [segments]);
-
-  // Add hashtag
-  const addHashtag = () => {
-    const tag = hashtagInput.trim().replace(/^#/, '').toLowerCase();
-    if (tag && !hashtags.includes(tag)) {
-      setHashtags([...hashtags, tag]);
-      setHashtagInput('');
-    }
-  };
-
-  // Remove hashtag
-  const removeHashtag = (tag: string) => {
-    setHashtags(hashtags.filter(t => t !== tag));
-  };
-
-  // Handle hashtag input key press
-  const handleHashtagKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' || e.key === ' ' || e.key === ',') {
-      e.preventDefault();
-      addHashtag();
-    }
-  };
+  }, [videoUrl]);
 
   // Publish video
   const handlePublish = async () => {
@@ -95,24 +124,64 @@ export function VideoMetadataForm({
       return;
     }
 
+    if (!user) return;
+
+    const publishAt = isScheduled ? Math.floor(new Date(scheduleAt).getTime() / 1000) : undefined;
+    if (publishAt !== undefined && !(publishAt > Date.now() / 1000)) {
+      toast({
+        title: 'Invalid Schedule',
+        description: 'Pick a publish time in the future',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     try {
-      // Step 1: Upload video to Blossom
+      // Step 1: Upload video and thumbnail to Blossom (skips steps a resumed upload already finished)
       const uploadResult = await uploadVideo({
-        segments,
-        filename: `vine-${Date.now()}.webm`,
-      });
+        pubkey: user.pubkey,
+        video: video.blob,
+        duration: video.duration,
+        width: video.width,
+        height: video.height,
+        thumbnail: thumbnail?.blob,
+        thumbnailTime: thumbnail?.time,
+        blurhash: thumbnail?.blurhash,
+        title: title.trim(),
+        description,
+        hashtags,
+        videoTags: resume?.videoTags,
+        thumbnailUrl: uploadedThumbnailUrl,
+      }, `vine-${Date.now()}.webm`);
+
+      const getTag = (name: string) => uploadResult.tags.find(([tagName]) => tagName === name)?.[1];
+      const size = getTag('size');
 
       // Step 2: Publish to Nostr
       await publishVideo({
         content: description,
         videoUrl: uploadResult.url,
+        thumbnailUrl: uploadResult.thumbnailUrl,
         title: title.trim(),
-        duration: Math.round(uploadResult.duration / 1000), // Convert ms to seconds
+        duration: Math.round(video.duration / 100) / 10, // Seconds, to 0.1s
+        dimensions: `${video.width}x${video.height}`,
+        mimeType: video.blob.type.split(';')[0] || 'video/webm',
+        hash: getTag('x'),
+        size: size ? Number(size) : undefined,
+        blurhash: thumbnail?.blurhash,
+        fallbackUrls: uploadResult.tags.filter(([name]) => name === 'fallback').map(([, url]) => url),
         hashtags,
-        kind: 34236, // Legacy short video kind for backward compatibility
+        kind: VIDEO_KIND,
+        publishAt,
       });
 
-      toast({
+      await pendingUploadStore.clear(user.pubkey);
+      queryClient.removeQueries({ queryKey: ['pending-upload', user.pubkey] });
+
+      toast(publishAt ? {
+        title: 'Video Scheduled',
+        description: `Your vine will be published ${new Date(publishAt * 1000).toLocaleString()}. Keep diVine open or installed so it can go out.`,
+      } : {
         title: 'Video Published!',
         description: 'Your vine has been published successfully',
       });
@@ -122,16 +191,18 @@ export function VideoMetadataForm({
       console.error('Failed to publish video:', error);
       toast({
         title: 'Publishing Failed',
-        description: error instanceof Error ? error.message : 'Failed to publish video',
+        description: error instanceof Error
+          ? `${error.message}. Your progress is saved - try again or resume later.`
+          : 'Failed to publish video',
         variant: 'destructive',
       });
     }
   };
 
-  const currentProgress = isUploading 
-    ? uploadProgress * 80 // Upload is 80% of total progress
-    : isPublishing 
-    ? 80 + (20) // Publishing is the final 20%
+  const currentProgress = isUploading
+    ? uploadProgress * 90 // Upload is 90% of total progress
+    : isPublishing
+    ? 90 + (10) // Publishing is the final 10%
     : 0;
 
   // Form content
@@ -150,86 +221,55 @@ export function VideoMetadataForm({
           muted
           loop
         />
+        {thumbnail && (
+          <ThumbnailPreview blob={thumbnail.blob} />
+        )}
       </div>
 
       {/* Metadata Form - scrollable */}
       <div className="flex-1 overflow-y-auto" style={{ paddingBottom: 'var(--sab)' }}>
         <div className="p-4 space-y-4">
-          <div>
-            <Label htmlFor="title">Title *</Label>
-            <Input
-              id="title"
-              placeholder="Give your vine a title"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              maxLength={100}
-              disabled={isProcessing}
-              className="mt-1.5"
-            />
-            <p className="text-xs text-muted-foreground mt-1">
-              {title.length}/100 characters
-            </p>
-          </div>
-
-          <div>
-            <Label htmlFor="description">Description</Label>
-            <Textarea
-              id="description"
-              placeholder="Add a description..."
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              rows={3}
-              maxLength={500}
+          <VideoMetadataFields
+            title={title}
+            onTitleChange={setTitle}
+            description={description}
+            onDescriptionChange={setDescription}
+            hashtags={hashtags}
+            onHashtagsChange={setHashtags}
+            disabled={isProcessing}
+          >
+            <ThumbnailScrubber
+              video={video.blob}
+              duration={video.duration}
+              value={thumbnail?.time}
+              onChange={(frame) => {
+                setThumbnail(frame);
+                setUploadedThumbnailUrl(undefined);
+              }}
               disabled={isProcessing}
-              className="mt-1.5"
             />
-            <p className="text-xs text-muted-foreground mt-1">
-              {description.length}/500 characters
-            </p>
-          </div>
+          </VideoMetadataFields>
 
-          <div>
-            <Label htmlFor="hashtags">Hashtags</Label>
-            <div className="flex gap-2 mt-1.5">
-              <div className="relative flex-1">
-                <Hash className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-                <Input
-                  id="hashtags"
-                  placeholder="Add hashtags (press Enter)"
-                  value={hashtagInput}
-                  onChange={(e) => setHashtagInput(e.target.value)}
-                  onKeyDown={handleHashtagKeyPress}
-                  onBlur={addHashtag}
-                  className="pl-8"
-                  disabled={isProcessing}
-                />
-              </div>
-              <Button
-                onClick={addHashtag}
-                variant="outline"
-                size="sm"
-                disabled={!hashtagInput.trim() || isProcessing}
-              >
-                Add
-              </Button>
+          {/* Schedule */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="schedule">Schedule for later</Label>
+              <Switch
+                id="schedule"
+                checked={isScheduled}
+                onCheckedChange={setIsScheduled}
+                disabled={isProcessing}
+              />
             </div>
-
-            {hashtags.length > 0 && (
-              <div className="flex flex-wrap gap-2 mt-2">
-                {hashtags.map(tag => (
-                  <Badge key={tag} variant="secondary" className="gap-1">
-                    #{tag}
-                    <button
-                      onClick={() => removeHashtag(tag)}
-                      className="ml-1 hover:text-destructive"
-                      disabled={isProcessing}
-                      type="button"
-                    >
-                      <X className="h-3 w-3" />
-                    </button>
-                  </Badge>
-                ))}
-              </div>
+            {isScheduled && (
+              <Input
+                type="datetime-local"
+                aria-label="Publish time"
+                value={scheduleAt}
+                min={formatDateTimeLocal(Math.floor(Date.now() / 1000))}
+                onChange={(e) => setScheduleAt(e.target.value)}
+                disabled={isProcessing}
+              />
             )}
           </div>
 
@@ -238,7 +278,7 @@ export function VideoMetadataForm({
             <div className="space-y-2 pt-2">
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">
-                  {isUploading ? 'Uploading video...' : 'Publishing to Nostr...'}
+                  {isUploading ? 'Uploading video...' : isScheduled ? 'Scheduling...' : 'Publishing to Nostr...'}
                 </span>
                 <span className="font-medium">{Math.round(currentProgress)}%</span>
               </div>
@@ -259,10 +299,12 @@ export function VideoMetadataForm({
             {isProcessing ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                {isUploading ? 'Uploading...' : 'Publishing...'}
+                {isUploading ? 'Uploading...' : isScheduled ? 'Scheduling...' : 'Publishing...'}
               </>
+            ) : isScheduled ? (
+              'Schedule Vine'
             ) : (
-              'Publish Vine'
+              resume ? 'Resume Publishing' : 'Publish Vine'
             )}
           </Button>
 
@@ -293,3 +335,169 @@ export function VideoMetadataForm({
   // Mobile: full screen
   return formContent;
 }
+
+function ThumbnailPreview({ blob }: { blob: Blob }) {
+  const url = useMemo(() => URL.createObjectURL(blob), [blob]);
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+
+  return (
+    <img
+      src={url}
+      alt="Thumbnail"
+      className="absolute bottom-2 right-2 w-16 h-16 object-cover rounded-md border-2 border-white/80 shadow-lg"
+    />
+  );
+}
+
+interface VideoMetadataFieldsProps {
+  title: string;
+  onTitleChange: (title: string) => void;
+  description: string;
+  onDescriptionChange: (description: string) => void;
+  hashtags: string[];
+  onHashtagsChange: (hashtags: string[]) => void;
+  altText?: string;
+  onAltTextChange?: (altText: string) => void; // Alt text field is shown only when provided
+  disabled?: boolean;
+  children?: React.ReactNode; // Rendered between the description and hashtags, e.g. a cover picker
+}
+
+/**
+ * Title, description, alt text and hashtag inputs shared by the publish form and the edit dialog
+ */
+export function VideoMetadataFields({
+  title,
+  onTitleChange,
+  description,
+  onDescriptionChange,
+  hashtags,
+  onHashtagsChange,
+  altText,
+  onAltTextChange,
+  disabled,
+  children,
+}: VideoMetadataFieldsProps) {
+  const [hashtagInput, setHashtagInput] = useState('');
+
+  // Add hashtag
+  const addHashtag = () => {
+    const tag = hashtagInput.trim().replace(/^#/, '').toLowerCase();
+    if (tag && !hashtags.includes(tag)) {
+      onHashtagsChange([...hashtags, tag]);
+      setHashtagInput('');
+    }
+  };
+
+  // Remove hashtag
+  const removeHashtag = (tag: string) => {
+    onHashtagsChange(hashtags.filter(t => t !== tag));
+  };
+
+  // Handle hashtag input key press
+  const handleHashtagKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === ' ' || e.key === ',') {
+      e.preventDefault();
+      addHashtag();
+    }
+  };
+
+  return (
+    <>
+      <div>
+        <Label htmlFor="title">Title *</Label>
+        <Input
+          id="title"
+          placeholder="Give your vine a title"
+          value={title}
+          onChange={(e) => onTitleChange(e.target.value)}
+          maxLength={100}
+          disabled={disabled}
+          className="mt-1.5"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          {title.length}/100 characters
+        </p>
+      </div>
+
+      <div>
+        <Label htmlFor="description">Description</Label>
+        <Textarea
+          id="description"
+          placeholder="Add a description..."
+          value={description}
+          onChange={(e) => onDescriptionChange(e.target.value)}
+          rows={3}
+          maxLength={500}
+          disabled={disabled}
+          className="mt-1.5"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          {description.length}/500 characters
+        </p>
+      </div>
+
+      {onAltTextChange && (
+        <div>
+          <Label htmlFor="alt-text">Alt text</Label>
+          <Textarea
+            id="alt-text"
+            placeholder="Describe the video for people who can't see it"
+            value={altText ?? ''}
+            onChange={(e) => onAltTextChange(e.target.value)}
+            rows={2}
+            maxLength={500}
+            disabled={disabled}
+            className="mt-1.5"
+          />
+        </div>
+      )}
+
+      {children}
+
+      <div>
+        <Label htmlFor="hashtags">Hashtags</Label>
+        <div className="flex gap-2 mt-1.5">
+          <div className="relative flex-1">
+            <Hash className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="hashtags"
+              placeholder="Add hashtags (press Enter)"
+              value={hashtagInput}
+              onChange={(e) => setHashtagInput(e.target.value)}
+              onKeyDown={handleHashtagKeyPress}
+              onBlur={addHashtag}
+              className="pl-8"
+              disabled={disabled}
+            />
+          </div>
+          <Button
+            onClick={addHashtag}
+            variant="outline"
+            size="sm"
+            disabled={!hashtagInput.trim() || disabled}
+          >
+            Add
+          </Button>
+        </div>
+
+        {hashtags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {hashtags.map(tag => (
+              <Badge key={tag} variant="secondary" className="gap-1">
+                #{tag}
+                <button
+                  onClick={() => removeHashtag(tag)}
+                  className="ml-1 hover:text-destructive"
+                  disabled={disabled}
+                  type="button"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -2,12 +2,18 @@
 // ABOUTME: Supports MP4 and GIF formats with preloading, seamless playback, and blurhash placeholders
 
 import { useRef, useEffect, useState, forwardRef, useCallback } from 'react';
+import { useNostr } from '@nostrify/react';
+import { useQueryClient } from '@tanstack/react-query';
 import { cn } from '@/lib/utils';
 import { useInView } from 'react-intersection-observer';
 import { useVideoPlayback } from '@/hooks/useVideoPlayback';
 import { useIsMobile } from '@/hooks/useIsMobile';
 import { debugError, verboseLog } from '@/lib/debug';
 import { BlurhashPlaceholder, isValidBlurhash } from '@/components/BlurhashImage';
+import { detectPlaybackEnvironment, rankVideoVariants } from '@/lib/videoVariants';
+import { getBlossomFallbackUrls } from '@/lib/blossom';
+import { blossomServersQueryOptions } from '@/hooks/useBlossomServers';
+import type { VideoVariant } from '@/types/video';
 import Hls from 'hls.js';
 
 interface VideoPlayerProps {
@@ -15,6 +21,9 @@ interface VideoPlayerProps {
   src: string;
   hlsUrl?: string; // HLS manifest URL for adaptive bitrate streaming
   fallbackUrls?: string[];
+  variants?: VideoVariant[]; // imeta renditions - best match for viewport, codecs and network is played first
+  authorPubkey?: string; // With hash, lets a dead URL fall back to the author's Blossom servers (kind 10063)
+  hash?: string; // sha256 from imeta 'x'
   poster?: string;
   blurhash?: string; // Blurhash for progressive loading placeholder
   className?: string;
@@ -52,6 +61,9 @@ export const VideoPlayer = forwardRef<HTMLVideoElement, VideoPlayerProps>(
       src,
       hlsUrl,
       fallbackUrls,
+      variants,
+      authorPubkey,
+      hash,
       poster,
       blurhash,
       className,
@@ -85,6 +97,9 @@ export const VideoPlayer = forwardRef<HTMLVideoElement, VideoPlayerProps>(
     const [currentUrlIndex, setCurrentUrlIndex] = useState(0);
     const [allUrls, setAllUrls] = useState<string[]>([]);
     const isChangingMuteState = useRef(false);
+    const blossomFallbackTried = useRef(false);
+    const { nostr } = useNostr();
+    const queryClient = useQueryClient();
 
     // Mobile-specific state
     const [touchState, setTouchState] = useState<TouchState | null>(null);
@@ -453,13 +468,42 @@ export const VideoPlayer = forwardRef<HTMLVideoElement, VideoPlayerProps>(
         setCurrentUrlIndex(currentUrlIndex + 1);
         setIsLoading(true);
         setHasError(false);
+      } else if (hash && authorPubkey && !blossomFallbackTried.current) {
+        // Look for the same blob on the author's Blossom servers before giving up
+        blossomFallbackTried.current = true;
+        verboseLog(`[VideoPlayer ${videoId}] All URLs failed, looking up author's Blossom servers for ${hash}`);
+        const failedUrls = allUrls;
+
+        queryClient.fetchQuery(blossomServersQueryOptions(nostr, authorPubkey))
+          .catch((error) => {
+            debugError(`[VideoPlayer ${videoId}] Failed to load author's Blossom servers:`, error);
+            return [];
+          })
+          .then((servers) => {
+            const mirrorUrls = getBlossomFallbackUrls(failedUrls[0] ?? src, hash, servers)
+              .filter(url => !failedUrls.includes(url));
+
+            if (mirrorUrls.length === 0) {
+              debugError(`[VideoPlayer ${videoId}] All URLs failed, no Blossom mirrors available`);
+              setIsLoading(false);
+              setHasError(true);
+              onError?.();
+              return;
+            }
+
+            verboseLog(`[VideoPlayer ${videoId}] Trying ${mirrorUrls.length} Blossom mirror URLs`);
+            setAllUrls([...failedUrls, ...mirrorUrls]);
+            setCurrentUrlIndex(failedUrls.length);
+            setIsLoading(true);
+            setHasError(false);
+          });
       } else {
         debugError(`[VideoPlayer ${videoId}] All URLs failed, no more fallbacks`);
         setIsLoading(false);
         setHasError(true);
         onError?.();
       }
-    }, [videoId, currentUrlIndex, allUrls, onError]);
+    }, [videoId, currentUrlIndex, allUrls, onError, hash, authorPubkey, src, nostr, queryClient]);
 
     const handleEnded = () => {
       verboseLog(`[VideoPlayer ${videoId}] Video ended, auto-looping`);
@@ -512,11 +556,21 @@ export const VideoPlayer = forwardRef<HTMLVideoElement, VideoPlayerProps>(
       verboseLog(`[VideoPlayer ${videoId}] Initializing URLs - src: ${src}, fallbackUrls: ${JSON.stringify(fallbackUrls)}`);
 
       const urls: string[] = [];
-      if (src) {
+
+      // With multiple imeta variants, negotiate resolution/codec and try the rest in ranked order
+      if (variants && variants.length > 1) {
+        const container = containerRef.current;
+        const playerHeight = container ? Math.min(container.clientWidth, container.clientHeight) : undefined;
+        const ranked = rankVideoVariants(variants, detectPlaybackEnvironment(videoRef.current, playerHeight || undefined));
+        urls.push(...ranked.map(v => v.url));
+        verboseLog(`[VideoPlayer ${videoId}] Ranked ${ranked.length}/${variants.length} playable variants:`, ranked);
+      }
+
+      if (src && !urls.includes(src)) {
         urls.push(src);
       }
       if (fallbackUrls && fallbackUrls.length > 0) {
-        urls.push(...fallbackUrls);
+        urls.push(...fallbackUrls.filter(url => !urls.includes(url)));
       }
 
       if (urls.length === 0) {
@@ -527,8 +581,9 @@ export const VideoPlayer = forwardRef<HTMLVideoElement, VideoPlayerProps>(
 
       setAllUrls(urls);
       setCurrentUrlIndex(0);
-      verboseLog(`[VideoPlayer ${videoId}] Initialized with ${urls.length} URLs (primary: ${!!src}, fallbacks: ${fallbackUrls?.length || 0})`);
-    }, [src, fallbackUrls, videoId]);
+      blossomFallbackTried.current = false;
+      verboseLog(`[VideoPlayer ${videoId}] Initialized with ${urls.length} URLs (primary: ${!!src}, fallbacks: ${fallbackUrls?.length || 0}, variants: ${variants?.length || 0})`);
+    }, [src, fallbackUrls, variants, videoId]);
 
     // Set video source - with HLS.js support for adaptive bitrate streaming
     useEffect(() => {
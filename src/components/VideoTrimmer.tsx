@@ -0,0 +1,122 @@
+// ABOUTME: Picks a clip of at most MAX_VINE_DURATION from a longer video file
+// ABOUTME: Loops the selected window in a preview and trims it in the browser when confirmed
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Loader2, Scissors } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { useToast } from '@/hooks/useToast';
+import { trimVideo } from '@/lib/videoConcat';
+import { MAX_VINE_DURATION } from '@/types/video';
+
+interface VideoTrimmerProps {
+  file: Blob;
+  duration: number; // milliseconds
+  onTrimmed: (clip: { blob: Blob; duration: number }) => void;
+  onCancel: () => void;
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function VideoTrimmer({ file, duration, onTrimmed, onCancel }: VideoTrimmerProps) {
+  const { toast } = useToast();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [start, setStart] = useState(0);
+  const [isTrimming, setIsTrimming] = useState(false);
+  const fileUrl = useMemo(() => URL.createObjectURL(file), [file]);
+  const maxStart = Math.max(0, duration - MAX_VINE_DURATION);
+  const end = Math.min(duration, start + MAX_VINE_DURATION);
+
+  useEffect(() => () => URL.revokeObjectURL(fileUrl), [fileUrl]);
+
+  // Loop the preview inside the selected window
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    video.currentTime = start / 1000;
+    video.play().catch(() => {});
+
+    const handleTimeUpdate = () => {
+      if (video.currentTime * 1000 >= end || video.currentTime * 1000 < start) {
+        video.currentTime = start / 1000;
+      }
+    };
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    return () => video.removeEventListener('timeupdate', handleTimeUpdate);
+  }, [start, end]);
+
+  const handleConfirm = async () => {
+    setIsTrimming(true);
+    try {
+      videoRef.current?.pause();
+      onTrimmed(await trimVideo(file, start, MAX_VINE_DURATION));
+    } catch (error) {
+      console.error('Failed to trim video:', error);
+      toast({
+        title: 'Trim Failed',
+        description: 'Could not cut this video in your browser. Try a shorter file.',
+        variant: 'destructive',
+      });
+      setIsTrimming(false);
+    }
+  };
+
+  return (
+    <div className="container max-w-lg mx-auto py-8 px-4 space-y-6">
+      <div className="text-center space-y-2">
+        <h1 className="text-2xl font-bold">Choose Your Clip</h1>
+        <p className="text-muted-foreground">
+          Vines are up to {formatSeconds(MAX_VINE_DURATION)} long. Drag to pick which part to keep.
+        </p>
+      </div>
+
+      <div className="relative bg-black rounded-lg overflow-hidden aspect-square">
+        <video
+          ref={videoRef}
+          src={fileUrl}
+          className="w-full h-full object-contain"
+          playsInline
+          muted
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Slider
+          value={[start]}
+          min={0}
+          max={maxStart}
+          step={100}
+          onValueChange={([value]) => setStart(value)}
+          disabled={isTrimming}
+          aria-label="Clip start"
+        />
+        <div className="flex justify-between text-sm text-muted-foreground">
+          <span>{formatSeconds(start)}</span>
+          <span>{formatSeconds(end)} of {formatSeconds(duration)}</span>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Button onClick={handleConfirm} className="w-full h-11" disabled={isTrimming}>
+          {isTrimming ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Trimming...
+            </>
+          ) : (
+            <>
+              <Scissors className="mr-2 h-4 w-4" />
+              Use This Clip
+            </>
+          )}
+        </Button>
+        <Button onClick={onCancel} variant="outline" className="w-full h-11" disabled={isTrimming}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 // NOTE: This file is stable and usually should not be modified.
 // It is important that all functionality in this file is preserved, and should only be modified if explicitly requested.
 
-import { ChevronDown, LogOut, UserIcon, UserPlus, User, Settings /*, Wallet */ } from 'lucide-react';
+import { ChevronDown, LogOut, UserIcon, UserPlus, User, Settings, Radio /*, Wallet */ } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { nip19 } from 'nostr-tools';
 import {
@@ -17,7 +17,6 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar.tsx'
 import { useLoggedInAccounts, type Account } from '@/hooks/useLoggedInAccounts';
 import { genUserName } from '@/lib/genUserName';
 import { getSafeProfileImage } from '@/lib/imageUtils';
-import { RelaySelector } from '@/components/RelaySelector';
 
 interface AccountSwitcherProps {
   onAddAccountClick: () => void;
@@ -67,10 +66,12 @@ export function AccountSwitcher({ onAddAccountClick }: AccountSwitcherProps) {
           <Settings className='w-4 h-4' />
           <span>Settings</span>
         </DropdownMenuItem>
-        <DropdownMenuSeparator />
-        <DropdownMenuLabel>Switch Relay</DropdownMenuLabel>
-        <DropdownMenuItem onSelect={(e) => e.preventDefault()} className='p-2'>
-          <RelaySelector className='w-full' />
+        <DropdownMenuItem
+          onClick={() => navigate('/settings/relays')}
+          className='flex items-center gap-2 cursor-pointer p-2 rounded-md'
+        >
+          <Radio className='w-4 h-4' />
+          <span>Relays</span>
         </DropdownMenuItem>
         <DropdownMenuSeparator />
         <DropdownMenuLabel>Switch Account</DropdownMenuLabel>
@@ -22,7 +22,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu';
-import { MessageSquare, ChevronDown, ChevronRight, MoreHorizontal, Flag, UserX, Volume2, Trash2, CornerDownRight } from 'lucide-react';
+import { MessageSquare, ChevronDown, ChevronRight, MoreHorizontal, Flag, UserX, Volume2, Trash2, CornerDownRight, Lock } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { genUserName } from '@/lib/genUserName';
 import { MuteType } from '@/types/moderation';
@@ -76,7 +76,7 @@ export function Comment({ root, comment, depth = 0, maxDepth = 3, limit, parentC
     setShowReportDialog(true);
   };
 
-  const handleMuteUser = () => {
+  const handleMuteUser = (isPrivate = false) => {
     if (!user) {
       toast({
         title: 'Login required',
@@ -89,7 +89,8 @@ export function Comment({ root, comment, depth = 0, maxDepth = 3, limit, parentC
     muteItem({
       type: MuteType.USER,
       value: comment.pubkey,
-      reason: 'Muted from comment'
+      reason: 'Muted from comment',
+      isPrivate
     }, {
       onSuccess: () => {
         toast({
@@ -97,10 +98,10 @@ export function Comment({ root, comment, depth = 0, maxDepth = 3, limit, parentC
           description: `${displayName} has been added to your mute list`,
         });
       },
-      onError: () => {
+      onError: (error) => {
         toast({
           title: 'Error',
-          description: 'Failed to mute user. Please try again.',
+          description: error instanceof Error ? error.message : 'Failed to mute user. Please try again.',
           variant: 'destructive',
         });
       }
@@ -233,10 +234,14 @@ export function Comment({ root, comment, depth = 0, maxDepth = 3, limit, parentC
                         Report user
                       </DropdownMenuItem>
                       <DropdownMenuSeparator />
-                      <DropdownMenuItem onClick={handleMuteUser}>
+                      <DropdownMenuItem onClick={() => handleMuteUser()}>
                         <Volume2 className="h-4 w-4 mr-2" />
                         Mute user
                       </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => handleMuteUser(true)}>
+                        <Lock className="h-4 w-4 mr-2" />
+                        Mute privately
+                      </DropdownMenuItem>
                     </>
                   )}
                 </DropdownMenuContent>
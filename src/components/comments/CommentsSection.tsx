@@ -1,7 +1,8 @@
-import { useComments } from '@/hooks/useComments';
+import { useComments, useLiveComments } from '@/hooks/useComments';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
-import { MessageSquare } from 'lucide-react';
+import { ArrowUp, MessageSquare } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { NostrEvent } from '@nostrify/nostrify';
 import { CommentForm } from './CommentForm';
@@ -27,6 +28,7 @@ export function CommentsSection({
   compact = false,
 }: CommentsSectionProps) {
   const { data: commentsData, isLoading, error } = useComments(root, limit);
+  const { newComments, showNewComments } = useLiveComments(root, limit);
   const comments = commentsData?.topLevelComments || [];
 
   if (error) {
@@ -71,6 +73,16 @@ export function CommentsSection({
         {/* Comment Form */}
         <CommentForm root={root} compact={compact} />
 
+        {/* New comments are added on request so the thread doesn't move while reading */}
+        {newComments.length > 0 && (
+          <div className="flex justify-center">
+            <Button variant="secondary" size="sm" className="rounded-full" onClick={showNewComments}>
+              <ArrowUp className="h-4 w-4 mr-1" />
+              {newComments.length} new {newComments.length === 1 ? 'comment' : 'comments'}
+            </Button>
+          </div>
+        )}
+
         {/* Comments List */}
         {isLoading ? (
           <div className="space-y-4">
@@ -105,6 +105,18 @@ export const PRESET_RELAYS: RelayConfig[] = [
   },
 ];
 
+/**
+ * Fan-out caps for outbox (NIP-65) routing
+ * - Requests go to the configured relays plus at most maxRelays of the authors' write relays
+ * - Publishes go to the usual relays plus at most maxRelays of the author's write relays
+ *   and the read relays of users the event replies to or mentions
+ */
+export const OUTBOX_LIMITS = {
+  relaysPerAuthor: 2,
+  maxRelays: 6,
+  maxTaggedUsers: 10,
+};
+
 /**
  * Helper: Extract just the URLs from an array of relay configs
  */
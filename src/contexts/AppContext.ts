@@ -1,4 +1,7 @@
 import { createContext } from "react";
+import type { RelayAuthPreference } from "@/lib/relayAuth";
+import type { RelayEntry } from "@/lib/relaySets";
+import type { SeverityPolicy } from "@/types/moderation";
 
 export type Theme = "dark" | "light" | "system";
 
@@ -9,6 +12,24 @@ export interface AppConfig {
   relayUrl: string;
   /** Array of relay URLs to query (overrides relayUrl if provided) */
   relayUrls?: string[];
+  /** User-managed relays with read/write/search roles (overrides relayUrl and relayUrls if not empty) */
+  relays?: RelayEntry[];
+  /** Unix seconds of the last change to relays, to tell whether a fetched NIP-65 list is newer */
+  relaysUpdatedAt?: number;
+  /** Most relays an event is published to before outbox relays are added */
+  maxPublishRelays?: number;
+  /** Verify video bytes against the imeta sha256 hash before trusting them (opt-in, downloads each video) */
+  verifyMedia?: boolean;
+  /** Storage budget for video drafts in megabytes - the oldest drafts are deleted past it */
+  draftQuotaMB?: number;
+  /** Per-relay NIP-42 authentication preference, keyed by relay URL - relays not listed ask first */
+  relayAuth?: Record<string, RelayAuthPreference>;
+  /** Overrides of the default severity (show, warn, hide, block) per content filter reason */
+  severityPolicy?: Partial<SeverityPolicy>;
+  /** Show videos their authors labelled sensitive (NIP-36 content-warning, NIP-32 self-labels) without blurring them */
+  showSensitiveContent?: boolean;
+  /** Moderator pubkeys whose labels (kind 1985) and reports (kind 1984) are applied as filters */
+  labelers?: string[];
 }
 
 export interface AppContextType {
@@ -16,7 +37,7 @@ export interface AppContextType {
   config: AppConfig;
   /** Update configuration using a callback that receives current config and returns new config */
   updateConfig: (updater: (currentConfig: AppConfig) => AppConfig) => void;
-  /** Optional list of preset relays to display in the RelaySelector */
+  /** Optional list of preset relays suggested on the relay settings page */
   presetRelays?: { name: string; url: string }[];
   /** Whether the camera recorder is currently active */
   isRecording: boolean;
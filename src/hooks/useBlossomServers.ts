@@ -0,0 +1,72 @@
+// ABOUTME: Hook for reading a user's Blossom server list (kind 10063, BUD-03)
+// ABOUTME: Shared query key lets playback, verification and uploads reuse the same cached list
+
+import { useNostr } from '@nostrify/react';
+import { queryOptions, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { NStore } from '@nostrify/nostrify';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useNostrPublish } from '@/hooks/useNostrPublish';
+import {
+  BLOSSOM_SERVER_LIST_KIND,
+  buildBlossomServerListTags,
+  fetchBlossomServers,
+  parseBlossomServerList,
+} from '@/lib/blossom';
+
+export const blossomServersQueryKey = (pubkey: string | undefined) => ['blossom-servers', pubkey ?? ''];
+
+/**
+ * Query options for a user's server list, for fetchQuery outside of components
+ */
+export function blossomServersQueryOptions(nostr: NStore, pubkey: string | undefined) {
+  return queryOptions({
+    queryKey: blossomServersQueryKey(pubkey),
+    queryFn: async ({ signal }) => {
+      if (!pubkey) return [];
+      return fetchBlossomServers(nostr, pubkey, AbortSignal.any([signal, AbortSignal.timeout(5000)]));
+    },
+    staleTime: 10 * 60 * 1000, // Server lists rarely change
+  });
+}
+
+/**
+ * Get the ordered list of Blossom servers a user has published
+ * Returns an empty array if the user has no kind 10063 event
+ */
+export function useBlossomServers(pubkey: string | undefined) {
+  const { nostr } = useNostr();
+
+  return useQuery({
+    ...blossomServersQueryOptions(nostr, pubkey),
+    enabled: !!pubkey,
+    gcTime: 60 * 60 * 1000,
+  });
+}
+
+/**
+ * Replace the current user's Blossom server list with a new ordered list
+ * The first server is where uploads go; the rest receive mirrored copies
+ */
+export function usePublishBlossomServers() {
+  const { mutateAsync: publishEvent } = useNostrPublish();
+  const queryClient = useQueryClient();
+  const { user } = useCurrentUser();
+
+  return useMutation({
+    mutationFn: async (servers: string[]) => {
+      if (!user) throw new Error('Must be logged in to update Blossom servers');
+
+      const event = await publishEvent({
+        kind: BLOSSOM_SERVER_LIST_KIND,
+        content: '',
+        tags: buildBlossomServerListTags(servers),
+      });
+
+      return parseBlossomServerList(event);
+    },
+    onSuccess: (servers) => {
+      if (!user) return;
+      queryClient.setQueryData(blossomServersQueryKey(user.pubkey), servers);
+    },
+  });
+}
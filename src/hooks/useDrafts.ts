@@ -0,0 +1,108 @@
+// ABOUTME: Hooks for the current user's video drafts stored in IndexedDB
+// ABOUTME: Lists and deletes drafts, and auto-saves the draft being recorded or edited
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { DEFAULT_DRAFT_QUOTA_MB, draftStore, type DraftInput } from '@/lib/draftStore';
+import { debugLog, debugWarn } from '@/lib/debug';
+
+const AUTOSAVE_DELAY = 1000; // ms after the last change
+
+export function useDrafts() {
+  const { user } = useCurrentUser();
+
+  return useQuery({
+    queryKey: ['video-drafts', user?.pubkey ?? ''],
+    queryFn: () => draftStore.list(user!.pubkey),
+    enabled: !!user,
+    staleTime: Infinity, // Only changes through this tab's own saves
+  });
+}
+
+export function useDraft(id: string | null) {
+  return useQuery({
+    queryKey: ['video-draft', id],
+    queryFn: async () => (await draftStore.get(id!)) ?? null,
+    enabled: !!id,
+    staleTime: Infinity,
+    gcTime: 0,
+  });
+}
+
+export function useDeleteDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => draftStore.remove(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['video-drafts'] });
+    },
+  });
+}
+
+/**
+ * Save draft to IndexedDB shortly after it stops changing
+ * Pass null when there is nothing to keep; an unsaved change is still flushed.
+ * Saves run one at a time, so discardDraft() can't be overtaken by an earlier save
+ */
+export function useDraftAutosave(draft: DraftInput | null) {
+  const { config } = useAppContext();
+  const queryClient = useQueryClient();
+  const pendingRef = useRef<DraftInput | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const quotaBytes = (config.draftQuotaMB ?? DEFAULT_DRAFT_QUOTA_MB) * 1024 * 1024;
+
+  const enqueue = useCallback((task: () => Promise<unknown>) => {
+    queueRef.current = queueRef.current.then(task).catch(error => {
+      debugWarn('[useDraftAutosave] Draft storage failed:', error);
+    });
+    return queueRef.current;
+  }, []);
+
+  const flush = useCallback(() => {
+    clearTimeout(timerRef.current);
+    const pending = pendingRef.current;
+    if (!pending) return;
+    pendingRef.current = null;
+
+    enqueue(async () => {
+      const expired = await draftStore.save(pending, quotaBytes);
+      debugLog('[useDraftAutosave] Saved draft:', pending.id);
+      if (expired.length > 0) {
+        debugLog('[useDraftAutosave] Quota expired drafts:', expired);
+      }
+      queryClient.invalidateQueries({ queryKey: ['video-drafts'] });
+    });
+  }, [enqueue, quotaBytes, queryClient]);
+
+  useEffect(() => {
+    if (!draft) {
+      flush();
+      return;
+    }
+
+    pendingRef.current = draft;
+    clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(flush, AUTOSAVE_DELAY);
+  }, [draft, flush]);
+
+  // Leaving the page mid-edit shouldn't lose the last second of changes
+  useEffect(() => flush, [flush]);
+
+  const discardDraft = useCallback((id: string) => {
+    clearTimeout(timerRef.current);
+    if (pendingRef.current?.id === id) {
+      pendingRef.current = null;
+    }
+
+    return enqueue(async () => {
+      await draftStore.remove(id);
+      queryClient.invalidateQueries({ queryKey: ['video-drafts'] });
+    });
+  }, [enqueue, queryClient]);
+
+  return { discardDraft };
+}
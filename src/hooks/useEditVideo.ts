@@ -0,0 +1,150 @@
+// ABOUTME: Hook for editing a published addressable video (kind 34236) in place
+// ABOUTME: Republishes with the same d tag and optimistically patches every cached feed that contains it
+
+import { useNostr } from '@nostrify/react';
+import { useMutation, useQueryClient, type QueryKey } from '@tanstack/react-query';
+import { useNostrPublish } from '@/hooks/useNostrPublish';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useToast } from '@/hooks/useToast';
+import { debugLog, debugError } from '@/lib/debug';
+import { buildEditedVideoTags, type VideoEdit } from '@/lib/videoEdit';
+import { videoWorker } from '@/lib/videoWorker';
+import { VIDEO_KIND, type ParsedVideoData } from '@/types/video';
+
+export interface EditVideoParams extends VideoEdit {
+  video: ParsedVideoData;
+}
+
+/**
+ * Return data with every cached copy of the video patched, or the same reference if none matched
+ * Walks arrays and plain objects so flat lists, infinite query pages and single-video queries all work
+ */
+function patchVideos(data: unknown, isTarget: (video: ParsedVideoData) => boolean, patch: Partial<ParsedVideoData>): unknown {
+  if (Array.isArray(data)) {
+    let changed = false;
+    const next = data.map(item => {
+      const patched = patchVideos(item, isTarget, patch);
+      changed ||= patched !== item;
+      return patched;
+    });
+    return changed ? next : data;
+  }
+
+  if (!data || typeof data !== 'object' || Object.getPrototypeOf(data) !== Object.prototype) {
+    return data;
+  }
+
+  if ('videoUrl' in data && 'vineId' in data && isTarget(data as ParsedVideoData)) {
+    return { ...data, ...patch };
+  }
+
+  let changed = false;
+  const next: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    next[key] = patchVideos(value, isTarget, patch);
+    changed ||= next[key] !== value;
+  }
+  return changed ? next : data;
+}
+
+/**
+ * Hook for editing a video's title, description, hashtags, alt text and cover
+ * Only the author can edit, and only addressable (kind 34236) videos can be replaced
+ */
+export function useEditVideo() {
+  const { nostr } = useNostr();
+  const { mutateAsync: publishEvent } = useNostrPublish();
+  const { user } = useCurrentUser();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ video, ...params }: EditVideoParams) => {
+      if (!user?.pubkey) {
+        throw new Error('Not logged in');
+      }
+      if (user.pubkey !== video.pubkey) {
+        throw new Error('You can only edit your own videos');
+      }
+      if (video.kind !== VIDEO_KIND || !video.vineId) {
+        throw new Error('Only addressable videos can be edited');
+      }
+
+      // Edit on top of the latest version, not necessarily the one the feed showed
+      // Relays leave video signatures to the video worker
+      const [latest] = await videoWorker.verify(await nostr.query([{
+        kinds: [VIDEO_KIND],
+        authors: [video.pubkey],
+        '#d': [video.vineId],
+        limit: 1,
+      }], { signal: AbortSignal.timeout(5000) }));
+      const base = latest && (!video.originalEvent || latest.created_at >= video.originalEvent.created_at)
+        ? latest
+        : video.originalEvent;
+      if (!base) {
+        throw new Error('Could not load the published video');
+      }
+
+      debugLog('[useEditVideo] Republishing video:', video.vineId);
+
+      return publishEvent({
+        kind: VIDEO_KIND,
+        content: params.description,
+        tags: buildEditedVideoTags(base, params),
+        // Replaceable events need a newer created_at to win
+        created_at: Math.max(Math.floor(Date.now() / 1000), base.created_at + 1),
+      });
+    },
+    onMutate: async ({ video, title, description, hashtags, thumbnail }) => {
+      const isTarget = (v: ParsedVideoData) =>
+        v.kind === VIDEO_KIND && v.pubkey === video.pubkey && v.vineId === video.vineId;
+      const patch: Partial<ParsedVideoData> = {
+        title,
+        content: description,
+        hashtags,
+        ...(thumbnail && { thumbnailUrl: thumbnail.url, blurhash: thumbnail.blurhash ?? video.blurhash }),
+      };
+
+      // Snapshot every query we touch so a failed publish can roll back
+      const previous: [QueryKey, unknown][] = [];
+      for (const query of queryClient.getQueryCache().getAll()) {
+        const data = query.state.data;
+        const patched = patchVideos(data, isTarget, patch);
+        if (patched !== data) {
+          await queryClient.cancelQueries({ queryKey: query.queryKey, exact: true });
+          previous.push([query.queryKey, data]);
+          queryClient.setQueryData(query.queryKey, patched);
+        }
+      }
+
+      debugLog(`[useEditVideo] Optimistically updated ${previous.length} cached queries`);
+      return { previous, isTarget };
+    },
+    onSuccess: (event, _variables, context) => {
+      // Keep "View source" in sync with what was actually published
+      if (context) {
+        for (const [queryKey] of context.previous) {
+          queryClient.setQueryData(queryKey, (data: unknown) => patchVideos(data, context.isTarget, { originalEvent: event }));
+        }
+      }
+
+      toast({
+        title: 'Video Updated',
+        description: 'Your changes have been published.',
+      });
+    },
+    onError: (error: Error, _variables, context) => {
+      debugError('[useEditVideo] Error editing video:', error);
+
+      context?.previous.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+
+      toast({
+        title: 'Edit Failed',
+        description: error.message || 'Failed to update video. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
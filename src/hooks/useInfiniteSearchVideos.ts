@@ -8,7 +8,7 @@ import { useMemo } from 'react';
 import type { NostrEvent } from '@nostrify/nostrify';
 import { VIDEO_KINDS, type ParsedVideoData } from '@/types/video';
 import type { NIP50Filter, SortMode } from '@/types/nostr';
-import { parseVideoEvents } from '@/lib/videoParser';
+import { videoWorker } from '@/lib/videoWorker';
 import { debugLog } from '@/lib/debug';
 
 interface UseInfiniteSearchVideosOptions {
@@ -111,7 +111,7 @@ export function useInfiniteSearchVideos({
         }
 
         const events = await nostr.query([filter], { signal: abortSignal });
-        const videos = parseVideoEvents(events);
+        const videos = await videoWorker.parse(events);
 
         return {
           videos,
@@ -161,7 +161,7 @@ export function useInfiniteSearchVideos({
         }
 
         const videoEvents = await nostr.query([filter], { signal: abortSignal });
-        const videos = parseVideoEvents(videoEvents);
+        const videos = await videoWorker.parse(videoEvents);
 
         return {
           videos,
@@ -191,7 +191,7 @@ export function useInfiniteSearchVideos({
 
         try {
           const events = await nostr.query([filter], { signal: abortSignal });
-          const videos = parseVideoEvents(events);
+          const videos = await videoWorker.parse(events);
 
           return {
             videos,
@@ -223,7 +223,7 @@ export function useInfiniteSearchVideos({
         event.content.toLowerCase().includes(searchValue)
       );
 
-      const videos = parseVideoEvents(filtered);
+      const videos = await videoWorker.parse(filtered);
 
       return {
         videos,
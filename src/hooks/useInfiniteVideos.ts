@@ -1,16 +1,20 @@
 // ABOUTME: Infinite scroll hook for video feeds with cursor-based pagination
-// ABOUTME: Uses NIP-50 search for sorting and supports all feed types
+// ABOUTME: Uses NIP-50 search for sorting and supports all feed types; chronological feeds also stream new videos
 
-import { useInfiniteQuery } from '@tanstack/react-query';
+import { useCallback, useMemo } from 'react';
+import { useInfiniteQuery, useQuery, useQueryClient, type InfiniteData } from '@tanstack/react-query';
 import { useNostr } from '@nostrify/react';
 import { useCurrentUser } from '@/hooks/useCurrentUser';
 import { useFollowList } from '@/hooks/useFollowList';
 import { useAppContext } from '@/hooks/useAppContext';
-import { useNIP50Support } from '@/hooks/useRelayCapabilities';
-import type { NostrEvent } from '@nostrify/nostrify';
+import { useEffectiveSortMode } from '@/hooks/useRelayCapabilities';
+import { useLiveVideos } from '@/hooks/useLiveVideos';
+import type { NostrEvent, NostrFilter } from '@nostrify/nostrify';
 import { VIDEO_KINDS, type ParsedVideoData } from '@/types/video';
 import type { NIP50Filter, SortMode } from '@/types/nostr';
-import { parseVideoEvents } from '@/lib/videoParser';
+import { videoWorker } from '@/lib/videoWorker';
+import { prependVideos } from '@/lib/liveFeed';
+import { eventSync } from '@/lib/eventSync';
 import { debugLog } from '@/lib/debug';
 import { performanceMonitor } from '@/lib/performanceMonitoring';
 
@@ -28,9 +32,21 @@ interface VideoPage {
   nextCursor: number | undefined;
 }
 
+async function toVideoPage(events: NostrEvent[]): Promise<VideoPage> {
+  const videos = await videoWorker.parse(events);
+
+  // Determine next cursor
+  const nextCursor = videos.length > 0
+    ? videos[videos.length - 1].createdAt - 1
+    : undefined;
+
+  return { videos, nextCursor };
+}
+
 /**
  * Infinite scroll hook for video feeds
  * Uses cursor-based pagination with NIP-50 search
+ * Videos published after the feed loaded are held in newVideos until showNewVideos() puts them on top
  */
 export function useInfiniteVideos({
   feedType,
@@ -44,7 +60,7 @@ export function useInfiniteVideos({
   const { user } = useCurrentUser();
   const { data: followList, isLoading: isLoadingFollows } = useFollowList();
   const { config } = useAppContext();
-  const supportsNIP50 = useNIP50Support();
+  const queryClient = useQueryClient();
 
   // Auto-determine sort mode ONLY for trending/discovery feeds
   // Home feed should always be chronological unless explicitly sorted
@@ -53,15 +69,53 @@ export function useInfiniteVideos({
     requestedSortMode = 'hot';
   }
 
-  // Only use sort mode if relay supports NIP-50 AND a sort mode is requested
-  const effectiveSortMode = (supportsNIP50 && requestedSortMode) ? requestedSortMode : undefined;
+  // Only use sort mode if a configured relay supports it - the relay router adapts the
+  // filter for each relay, so relays without NIP-50 still answer chronologically
+  const effectiveSortMode = useEffectiveSortMode(requestedSortMode);
 
-  if (!supportsNIP50 && requestedSortMode) {
-    debugLog(`[useInfiniteVideos] Relay doesn't support NIP-50, will use chronological order instead of sort:${requestedSortMode}`);
+  if (requestedSortMode && effectiveSortMode !== requestedSortMode) {
+    debugLog(`[useInfiniteVideos] No relay supports sort:${requestedSortMode}, using ${effectiveSortMode ? `sort:${effectiveSortMode}` : 'chronological order'}`);
   }
 
-  return useInfiniteQuery<VideoPage, Error>({
-    queryKey: ['infinite-videos', feedType, hashtag, pubkey, effectiveSortMode, pageSize],
+  const queryKey = useMemo(
+    () => ['infinite-videos', feedType, hashtag, pubkey, effectiveSortMode, pageSize],
+    [feedType, hashtag, pubkey, effectiveSortMode, pageSize]
+  );
+
+  // Only chronological feeds stream - a sorted feed has no top for new videos to join
+  const liveFilter = useMemo((): NostrFilter | undefined => {
+    if (!enabled || effectiveSortMode) return undefined;
+    switch (feedType) {
+      case 'hashtag':
+        return hashtag ? { '#t': [hashtag.toLowerCase()] } : undefined;
+      case 'profile':
+        return pubkey ? { authors: [pubkey] } : undefined;
+      case 'home':
+        return user?.pubkey && followList && followList.length > 0 ? { authors: followList } : undefined;
+      case 'discovery':
+      case 'recent':
+        return {};
+      default:
+        return undefined;
+    }
+  }, [enabled, effectiveSortMode, feedType, hashtag, pubkey, user?.pubkey, followList]);
+
+  const { pendingVideos, clearPending } = useLiveVideos(liveFilter, {
+    includeReposts: feedType === 'home' || feedType === 'recent' || feedType === 'discovery',
+  });
+
+  // The chronological home feed is also served from the local replica kept by the sync engine,
+  // so it renders before relays answer and still works offline
+  const isReplicaFeed = feedType === 'home' && !effectiveSortMode && !!followList && followList.length > 0;
+
+  const { data: replicaPage } = useQuery({
+    queryKey: ['replica-videos', followList, pageSize],
+    queryFn: async () => toVideoPage(await eventSync.queryReplica({ kinds: VIDEO_KINDS, authors: followList, limit: pageSize })),
+    enabled: enabled && isReplicaFeed,
+  });
+
+  const query = useInfiniteQuery<VideoPage, Error>({
+    queryKey,
     queryFn: async ({ pageParam, signal }) => {
       const cursor = pageParam as number | undefined;
 
@@ -146,12 +200,28 @@ export function useInfiniteVideos({
 
       // Fetch events with performance tracking
       const queryStart = performance.now();
-      const events = await nostr.query([filter], {
-        signal: AbortSignal.any([
-          signal,
-          AbortSignal.timeout(10000)
-        ])
-      });
+      const querySignal = AbortSignal.any([
+        signal,
+        AbortSignal.timeout(10000)
+      ]);
+      let events: NostrEvent[];
+      if (isReplicaFeed) {
+        // Merge in the replica so a slow or unreachable relay doesn't empty the feed
+        const [remote, local] = await Promise.allSettled([
+          navigator.onLine ? nostr.query([filter], { signal: querySignal }) : Promise.reject(new Error('Offline')),
+          eventSync.queryReplica(filter),
+        ]);
+        const localEvents = local.status === 'fulfilled' ? local.value : [];
+        if (remote.status === 'rejected' && localEvents.length === 0) {
+          throw remote.reason;
+        }
+        const remoteEvents = remote.status === 'fulfilled' ? remote.value : [];
+        events = [...new Map([...localEvents, ...remoteEvents].map(event => [event.id, event])).values()]
+          .sort((a, b) => b.created_at - a.created_at)
+          .slice(0, pageSize);
+      } else {
+        events = await nostr.query([filter], { signal: querySignal });
+      }
       const queryTime = performance.now() - queryStart;
 
       // Record query performance
@@ -177,22 +247,24 @@ export function useInfiniteVideos({
       }
 
       // Parse and filter
-      const videos = parseVideoEvents(events);
-
-      // Determine next cursor
-      const nextCursor = videos.length > 0
-        ? videos[videos.length - 1].createdAt - 1
-        : undefined;
-
-      return {
-        videos,
-        nextCursor
-      };
+      return toVideoPage(events);
     },
     getNextPageParam: (lastPage) => lastPage.nextCursor,
     initialPageParam: undefined,
+    placeholderData: replicaPage ? { pages: [replicaPage], pageParams: [undefined] } : undefined,
     enabled: enabled && !!nostr && (feedType !== 'home' || (!!user?.pubkey && !isLoadingFollows)),
     staleTime: 60000, // 1 minute
     gcTime: 600000, // 10 minutes
   });
+
+  const showNewVideos = useCallback(() => {
+    queryClient.setQueryData<InfiniteData<VideoPage>>(queryKey, (data) => {
+      if (!data) return data;
+      const pages = prependVideos(data.pages.map(page => page.videos), pendingVideos);
+      return { ...data, pages: data.pages.map((page, i) => ({ ...page, videos: pages[i] })) };
+    });
+    clearPending();
+  }, [queryClient, queryKey, pendingVideos, clearPending]);
+
+  return { ...query, newVideos: pendingVideos, showNewVideos };
 }
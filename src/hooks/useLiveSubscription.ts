@@ -0,0 +1,64 @@
+// ABOUTME: Streams new events matching filters over a long-lived nostr.req subscription
+// ABOUTME: Only events from subscription time on are delivered; closed subscriptions are reopened without gaps
+
+import { useEffect, useRef } from 'react';
+import { useNostr } from '@nostrify/react';
+import type { NostrEvent, NostrFilter } from '@nostrify/nostrify';
+import { toLiveFilter } from '@/lib/liveFeed';
+import { debugLog, debugWarn } from '@/lib/debug';
+
+const RESUBSCRIBE_DELAY = 10_000; // ms before reopening a subscription the relays closed
+
+/**
+ * Call onEvent for each new event matching filters
+ * Pass undefined filters to stay unsubscribed, e.g. until a follow list loads
+ */
+export function useLiveSubscription(
+  filters: NostrFilter[] | undefined,
+  onEvent: (event: NostrEvent) => void
+) {
+  const { nostr } = useNostr();
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  });
+
+  // Resubscribe only when the filters themselves change, not their identity
+  const filtersKey = filters ? JSON.stringify(filters) : undefined;
+
+  useEffect(() => {
+    if (!filtersKey) return;
+    const baseFilters = JSON.parse(filtersKey) as NostrFilter[];
+    const controller = new AbortController();
+    const seen = new Set<string>();
+    let since = Math.floor(Date.now() / 1000);
+
+    const subscribe = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          debugLog('[useLiveSubscription] Subscribing from', since, baseFilters);
+          for await (const msg of nostr.req(baseFilters.map(filter => toLiveFilter(filter, since)), { signal: controller.signal })) {
+            if (msg[0] === 'EVENT') {
+              const event = msg[2];
+              if (seen.has(event.id)) continue;
+              seen.add(event.id);
+              // Clamped so a future-dated event (clock skew) can't make the resubscribe skip what's published meanwhile
+              since = Math.max(since, Math.min(event.created_at, Math.floor(Date.now() / 1000)));
+              onEventRef.current(event);
+            } else if (msg[0] === 'CLOSED') {
+              break;
+            }
+          }
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          debugWarn('[useLiveSubscription] Subscription failed:', error);
+        }
+
+        await new Promise(resolve => setTimeout(resolve, RESUBSCRIBE_DELAY));
+      }
+    };
+
+    subscribe();
+    return () => controller.abort();
+  }, [nostr, filtersKey]);
+}
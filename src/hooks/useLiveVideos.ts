@@ -0,0 +1,77 @@
+// ABOUTME: Collects videos and reposts published after a feed loaded into a pending list
+// ABOUTME: The feed shows them only when asked, so new arrivals don't shift what the user is watching
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNostr } from '@nostrify/react';
+import type { NostrEvent, NostrFilter } from '@nostrify/nostrify';
+import { useLiveSubscription } from '@/hooks/useLiveSubscription';
+import type { ParsedVideoData } from '@/types/video';
+import { videoWorker } from '@/lib/videoWorker';
+import { fetchRepostedVideos } from '@/lib/repostedVideos';
+import { getLiveVideoFilters, mergeNewVideos } from '@/lib/liveFeed';
+import { debugLog, debugWarn } from '@/lib/debug';
+
+const BATCH_DELAY = 1000; // ms live events are collected for, so their reposted originals are fetched together
+
+interface UseLiveVideosOptions {
+  includeReposts?: boolean;
+}
+
+/**
+ * Stream new videos matching filter (without kinds), and optionally reposts of videos
+ * Pass undefined to pause, e.g. for sorted feeds where "new" has no place
+ */
+export function useLiveVideos(filter: NostrFilter | undefined, { includeReposts = false }: UseLiveVideosOptions = {}) {
+  const { nostr } = useNostr();
+  const [pendingVideos, setPendingVideos] = useState<ParsedVideoData[]>([]);
+  const batch = useRef<NostrEvent[]>([]);
+  const batchTimer = useRef<ReturnType<typeof setTimeout>>();
+  const generation = useRef(0); // Bumped when the feed changes, so batches in flight are dropped
+
+  const filterKey = filter ? JSON.stringify(filter) : undefined;
+
+  const filters = useMemo(
+    () => filterKey ? getLiveVideoFilters(JSON.parse(filterKey) as NostrFilter, includeReposts) : undefined,
+    [filterKey, includeReposts]
+  );
+
+  // Videos pending for one feed don't belong to the next
+  useEffect(() => {
+    setPendingVideos([]);
+    return () => {
+      generation.current++;
+      clearTimeout(batchTimer.current);
+      batchTimer.current = undefined;
+      batch.current = [];
+    };
+  }, [filterKey]);
+
+  const flushBatch = useCallback(async () => {
+    const events = batch.current;
+    const batchGeneration = generation.current;
+    batch.current = [];
+    batchTimer.current = undefined;
+
+    try {
+      const originals = await fetchRepostedVideos(events, nostr);
+      const videos = await videoWorker.parse([...events, ...originals]);
+      if (videos.length === 0 || batchGeneration !== generation.current) return;
+
+      debugLog(`[useLiveVideos] ${videos.length} new videos from ${events.length} events, ${originals.length} reposted originals fetched`);
+      setPendingVideos(pending => mergeNewVideos(pending, videos));
+    } catch (error) {
+      debugWarn('[useLiveVideos] Failed to process new events:', error);
+    }
+  }, [nostr]);
+
+  const handleEvent = useCallback((event: NostrEvent) => {
+    batch.current.push(event);
+    batchTimer.current ??= setTimeout(flushBatch, BATCH_DELAY);
+  }, [flushBatch]);
+
+  useLiveSubscription(filters, handleEvent);
+
+  const clearPending = useCallback(() => setPendingVideos([]), []);
+
+  return { pendingVideos, clearPending };
+}
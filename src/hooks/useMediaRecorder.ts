@@ -25,16 +25,38 @@ export interface RecordingState {
 const MAX_DURATION = 6000; // 6 seconds in milliseconds
 const PROGRESS_UPDATE_INTERVAL = 50; // Update progress every 50ms
 
-export function useMediaRecorder() {
+/**
+ * Rebuild recording segments from stored blobs, e.g. when resuming a draft
+ */
+function restoreSegments(saved: { blob: Blob; duration: number }[]): RecordingSegment[] {
+  let endTime = Date.now() - saved.reduce((sum, segment) => sum + segment.duration, 0);
+  return saved.map(({ blob, duration }) => {
+    const startTime = endTime;
+    endTime += duration;
+    return {
+      startTime: new Date(startTime),
+      endTime: new Date(endTime),
+      duration,
+      blobUrl: URL.createObjectURL(blob),
+      blob,
+    };
+  });
+}
+
+export function useMediaRecorder(initialSegments?: { blob: Blob; duration: number }[]) {
   const { toast } = useToast();
-  const [state, setState] = useState<RecordingState>({
-    isRecording: false,
-    isPaused: false,
-    isInitialized: false,
-    progress: 0,
-    currentDuration: 0,
-    segments: [],
-    cameraStream: null,
+  const [state, setState] = useState<RecordingState>(() => {
+    const segments = restoreSegments(initialSegments ?? []);
+    const currentDuration = segments.reduce((sum, segment) => sum + segment.duration, 0);
+    return {
+      isRecording: false,
+      isPaused: segments.length > 0,
+      isInitialized: false,
+      progress: Math.min(currentDuration / MAX_DURATION, 1),
+      currentDuration,
+      segments,
+      cameraStream: null,
+    };
   });
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -42,7 +64,7 @@ export function useMediaRecorder() {
   const segmentStartTimeRef = useRef<number>(0);
   const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const totalDurationRef = useRef<number>(0);
+  const totalDurationRef = useRef<number>(state.currentDuration);
 
   // Get optimal video constraints based on device
   const getOptimalVideoConstraints = useCallback(() => {
@@ -0,0 +1,46 @@
+// ABOUTME: Hook for opt-in verification of a video's bytes against its imeta 'x' hash
+// ABOUTME: Only runs when "verify media" is enabled in settings and the event declares a hash
+
+import { useNostr } from '@nostrify/react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAppContext } from '@/hooks/useAppContext';
+import { blossomServersQueryOptions } from '@/hooks/useBlossomServers';
+import { verifyMediaIntegrity } from '@/lib/mediaIntegrity';
+import type { ParsedVideoData } from '@/types/video';
+
+/**
+ * Get the declared sha256 for the URL the video card plays
+ * Prefers the hash on the variant matching videoUrl over the first imeta hash
+ */
+function getDeclaredHash(video: ParsedVideoData): string | undefined {
+  const variant = video.variants?.find(v => v.url === video.videoUrl);
+  return variant?.hash || video.hash;
+}
+
+/**
+ * Verify a video's media integrity
+ * Returns undefined data when verification is disabled or the event has no hash
+ */
+export function useMediaVerification(video: ParsedVideoData) {
+  const { nostr } = useNostr();
+  const { config } = useAppContext();
+  const queryClient = useQueryClient();
+  const expectedHash = getDeclaredHash(video);
+
+  return useQuery({
+    queryKey: ['media-verification', video.videoUrl, expectedHash],
+    queryFn: async ({ signal }) => {
+      return verifyMediaIntegrity({
+        url: video.videoUrl,
+        expectedHash: expectedHash!,
+        signal: AbortSignal.any([signal, AbortSignal.timeout(30000)]),
+        // Only look up the author's servers if the original URL turns out to be dead
+        getAlternateServers: () => queryClient.fetchQuery(blossomServersQueryOptions(nostr, video.pubkey)),
+      });
+    },
+    enabled: !!config.verifyMedia && !!expectedHash,
+    staleTime: Infinity, // Content-addressed: the result for a URL + hash never changes
+    gcTime: 30 * 60 * 1000,
+    retry: false,
+  });
+}
@@ -1,53 +1,108 @@
 // ABOUTME: Hooks for content moderation using NIP-51 mute lists and NIP-56 reporting
-// ABOUTME: Manages user's mute list, content filtering, and reporting
+// ABOUTME: Manages user's mute list (public and encrypted private entries), subscribed labelers, content filtering, and reporting
 
-import { useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
 import { useNostr } from '@nostrify/react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useQueries, useMutation, useQueryClient, type UseQueryResult } from '@tanstack/react-query';
 import { useCurrentUser } from '@/hooks/useCurrentUser';
 import { useNostrPublish } from '@/hooks/useNostrPublish';
-import type { NostrEvent, NostrFilter } from '@nostrify/nostrify';
+import { useAppContext } from '@/hooks/useAppContext';
+import type { NostrEvent, NostrFilter, NostrSigner, NStore } from '@nostrify/nostrify';
+import type { NUser } from '@nostrify/react/login';
+import { decryptMuteContent, encryptMuteContent, isMuteExpired, mergeMuteItems, parseMuteTags, toMuteTag } from '@/lib/muteList';
+import { getMuteReason, getSeverityPolicy, gradeSelfLabels, gradeSeverity, isHiddenSeverity, worstSeverity } from '@/lib/contentSeverity';
+import { findVerdicts, getLabelerFilters, indexVerdicts, LABELER_KINDS, parseLabelerEvents, type LabelTarget } from '@/lib/labelers';
+import { debugWarn } from '@/lib/debug';
 import {
   MuteType,
   type MuteItem,
   type ContentReport,
+  type LabelerVerdict,
   ContentFilterReason,
   type ModerationResult,
-  ContentSeverity
+  ContentSeverity,
+  REPORT_REASON_LABELS
 } from '@/types/moderation';
+import type { ContentLabel } from '@/types/video';
+
+interface ParsedMuteList {
+  items: MuteItem[];
+  privateReadable: boolean; // False when the list has private entries we couldn't decrypt
+}
+
+// Decrypted private entries by event ID, so the signer isn't asked to decrypt the same list twice
+const decryptedEntries = new Map<string, string[][]>();
 
 /**
  * Parse a mute list event (kind 10001)
+ * Private entries are read only with the signer of the list's author
  */
-function parseMuteList(event: NostrEvent): MuteItem[] {
-  const items: MuteItem[] = [];
-
-  for (const tag of event.tags) {
-    const [type, value, reason] = tag;
-
-    // Check if it's a valid mute type
-    if (type === 'p' || type === 't' || type === 'word' || type === 'e') {
-      if (value) {
-        items.push({
-          type: type as MuteType,
-          value,
-          reason,
-          createdAt: event.created_at
-        });
-      }
+async function parseMuteList(event: NostrEvent, signer?: NostrSigner): Promise<ParsedMuteList> {
+  const publicItems = parseMuteTags(event.tags, event.created_at);
+  if (!event.content) {
+    return { items: publicItems, privateReadable: true };
+  }
+  if (!signer) {
+    return { items: publicItems, privateReadable: false };
+  }
+
+  try {
+    let tags = decryptedEntries.get(event.id);
+    if (!tags) {
+      tags = await decryptMuteContent(event, signer);
+      decryptedEntries.set(event.id, tags);
     }
+    const privateItems = parseMuteTags(tags, event.created_at, true);
+    return { items: mergeMuteItems(publicItems, privateItems), privateReadable: true };
+  } catch (error) {
+    debugWarn('[useModeration] Could not decrypt private mute entries:', error);
+    return { items: publicItems, privateReadable: false };
+  }
+}
+
+/**
+ * Fetch and parse the current user's own mute list
+ */
+async function fetchOwnMuteList(nostr: NStore, user: NUser): Promise<ParsedMuteList & { event?: NostrEvent }> {
+  const signal = AbortSignal.timeout(5000);
+  const events = await nostr.query([{
+    kinds: [10001],
+    authors: [user.pubkey],
+    limit: 1
+  }], { signal });
+
+  const event = events.sort((a, b) => b.created_at - a.created_at)[0];
+  if (!event) {
+    return { items: [], privateReadable: true };
   }
+  return { event, ...await parseMuteList(event, user.signer) };
+}
 
-  return items;
+/**
+ * Build the next mute list event: public items as tags, private ones encrypted in content
+ * Expired temporary mutes are left out. If the old private entries couldn't be read,
+ * they're carried over untouched.
+ */
+async function buildMuteList(items: MuteItem[], current: ParsedMuteList & { event?: NostrEvent }, user: NUser) {
+  const now = Math.floor(Date.now() / 1000);
+  const active = items.filter(item => !isMuteExpired(item, now));
+  const tags = active.filter(item => !item.private).map(toMuteTag);
+  const content = current.privateReadable
+    ? await encryptMuteContent(active.filter(item => item.private).map(toMuteTag), user.pubkey, user.signer)
+    : current.event?.content ?? '';
+
+  return { kind: 10001, content, tags };
 }
 
 /**
  * Hook to fetch user's mute list
+ * The user's own list includes their private entries
  */
 export function useMuteList(pubkey?: string) {
   const { nostr } = useNostr();
   const { user } = useCurrentUser();
   const targetPubkey = pubkey || user?.pubkey;
+  const signer = targetPubkey === user?.pubkey ? user?.signer : undefined;
 
   return useQuery({
     queryKey: ['mute-list', targetPubkey],
@@ -81,7 +136,7 @@ export function useMuteList(pubkey?: string) {
 
       console.log('[useMuteList] Latest mute list event:', latestEvent);
 
-      const items = parseMuteList(latestEvent);
+      const { items } = await parseMuteList(latestEvent, signer);
       console.log('[useMuteList] Parsed', items.length, 'mute items:', items);
 
       return items;
@@ -94,10 +149,12 @@ export function useMuteList(pubkey?: string) {
 
 /**
  * Hook to add item to mute list
+ * Private items are NIP-44 encrypted into the list's content instead of being public tags.
+ * With a duration (seconds) the mute is temporary.
  */
 export function useMuteItem() {
   const { nostr } = useNostr();
-  const { mutate: publishEvent } = useNostrPublish();
+  const { mutateAsync: publishEvent } = useNostrPublish();
   const queryClient = useQueryClient();
   const { user } = useCurrentUser();
 
@@ -105,57 +162,44 @@ export function useMuteItem() {
     mutationFn: async ({
       type,
       value,
-      reason
+      reason,
+      isPrivate = false,
+      duration
     }: {
       type: MuteType;
       value: string;
       reason?: string;
+      isPrivate?: boolean;
+      duration?: number;
     }) => {
       if (!user) throw new Error('Must be logged in to mute content');
 
-      // Fetch current mute list
-      const signal = AbortSignal.timeout(5000);
-      const events = await nostr.query([{
-        kinds: [10001],
-        authors: [user.pubkey],
-        limit: 1
-      }], { signal });
+      const current = await fetchOwnMuteList(nostr, user);
 
-      // Get existing items
-      let existingItems: MuteItem[] = [];
-      if (events.length > 0) {
-        existingItems = parseMuteList(events[0]);
+      if (isPrivate && !current.privateReadable) {
+        throw new Error('Your private mutes could not be decrypted, so new ones cannot be added');
       }
 
-      // Check if already muted
-      const alreadyMuted = existingItems.some(
-        item => item.type === type && item.value === value
-      );
+      const now = Math.floor(Date.now() / 1000);
+      const expireAt = duration ? now + duration : undefined;
 
-      if (alreadyMuted) {
-        return; // Already in mute list
+      // Already muted the same way - nothing to do. Muted another way - replace it.
+      const existing = current.items.find(item => item.type === type && item.value === value);
+      if (existing && !!existing.private === isPrivate && existing.expireAt === expireAt) {
+        return;
       }
 
-      // Build tags with new item
-      const tags: string[][] = [];
-
-      // Add existing items
-      existingItems.forEach(item => {
-        const tag = [item.type, item.value];
-        if (item.reason) tag.push(item.reason);
-        tags.push(tag);
+      const items = current.items.filter(item => item !== existing);
+      items.push({
+        type,
+        value,
+        reason,
+        createdAt: now,
+        ...(expireAt && { expireAt }),
+        ...(isPrivate && { private: true }),
       });
 
-      // Add new item
-      const newTag = [type, value];
-      if (reason) newTag.push(reason);
-      tags.push(newTag);
-
-      await publishEvent({
-        kind: 10001,
-        content: '',
-        tags
-      });
+      await publishEvent(await buildMuteList(items, current, user));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['mute-list'] });
@@ -168,7 +212,7 @@ export function useMuteItem() {
  */
 export function useUnmuteItem() {
   const { nostr } = useNostr();
-  const { mutate: publishEvent } = useNostrPublish();
+  const { mutateAsync: publishEvent } = useNostrPublish();
   const queryClient = useQueryClient();
   const { user } = useCurrentUser();
 
@@ -182,37 +226,18 @@ export function useUnmuteItem() {
     }) => {
       if (!user) throw new Error('Must be logged in to unmute content');
 
-      // Fetch current mute list
-      const signal = AbortSignal.timeout(5000);
-      const events = await nostr.query([{
-        kinds: [10001],
-        authors: [user.pubkey],
-        limit: 1
-      }], { signal });
+      const current = await fetchOwnMuteList(nostr, user);
 
-      if (events.length === 0) {
+      if (!current.event) {
         return; // No mute list exists
       }
 
-      const existingItems = parseMuteList(events[0]);
-
       // Filter out the item to unmute
-      const updatedItems = existingItems.filter(
+      const updatedItems = current.items.filter(
         item => !(item.type === type && item.value === value)
       );
 
-      // Build tags
-      const tags: string[][] = updatedItems.map(item => {
-        const tag = [item.type, item.value];
-        if (item.reason) tag.push(item.reason);
-        return tag;
-      });
-
-      await publishEvent({
-        kind: 10001,
-        content: '',
-        tags
-      });
+      await publishEvent(await buildMuteList(updatedItems, current, user));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['mute-list'] });
@@ -301,11 +326,90 @@ export function useReportHistory() {
   });
 }
 
+/**
+ * Hook to fetch the most recent labels and reports of the moderators the user subscribes to, for an overview
+ * Moderating content uses useContentLabelerVerdicts, which asks about the content itself.
+ */
+export function useLabelerVerdicts() {
+  const { nostr } = useNostr();
+  const { config } = useAppContext();
+  const labelers = useMemo(() => config.labelers ?? [], [config.labelers]);
+
+  return useQuery({
+    queryKey: ['labeler-verdicts', labelers],
+    queryFn: async (context): Promise<LabelerVerdict[]> => {
+      const signal = AbortSignal.any([
+        context.signal,
+        AbortSignal.timeout(5000)
+      ]);
+
+      const events = await nostr.query([{
+        kinds: LABELER_KINDS,
+        authors: labelers,
+        limit: 500
+      }], { signal });
+
+      return parseLabelerEvents(events, labelers);
+    },
+    enabled: labelers.length > 0,
+    staleTime: 300000, // 5 minutes
+    gcTime: 600000, // 10 minutes
+  });
+}
+
+function combineVerdicts(results: UseQueryResult<LabelerVerdict[]>[]): LabelerVerdict[] {
+  return results.flatMap(result => result.data ?? []);
+}
+
+/**
+ * Hook to fetch subscribed moderators' labels and reports about the content being shown
+ * Takes the content a page at a time, so earlier pages stay cached as a feed grows and no query is
+ * cut short by how much the moderators have published elsewhere.
+ */
+export function useContentLabelerVerdicts(pages: LabelTarget[][]) {
+  const { nostr } = useNostr();
+  const { config } = useAppContext();
+  const labelers = useMemo(() => config.labelers ?? [], [config.labelers]);
+
+  return useQueries({
+    queries: pages.map(targets => ({
+      queryKey: ['labeler-verdicts', labelers, targets],
+      queryFn: async ({ signal: querySignal }: { signal: AbortSignal }): Promise<LabelerVerdict[]> => {
+        const signal = AbortSignal.any([
+          querySignal,
+          AbortSignal.timeout(5000)
+        ]);
+
+        const events = await nostr.query(getLabelerFilters(labelers, targets), { signal });
+        return parseLabelerEvents(events, labelers);
+      },
+      enabled: labelers.length > 0 && targets.length > 0,
+      staleTime: 300000, // 5 minutes
+      gcTime: 600000, // 10 minutes
+    })),
+    combine: combineVerdicts,
+  });
+}
+
+// Temporary mutes stop applying when they expire, before the list is next republished
+function getActiveMutes(muteList: MuteItem[]): MuteItem[] {
+  const now = Math.floor(Date.now() / 1000);
+  return muteList.filter(item => !isMuteExpired(item, now));
+}
+
 /**
  * Hook to check if content should be filtered
+ * Pass the content about to be checked, a page at a time, so subscribed moderators' verdicts on it are fetched.
  */
-export function useContentModeration() {
+export function useContentModeration(labelTargets: LabelTarget[][] = []) {
   const { data: muteList = [] } = useMuteList();
+  const { data: reports = [] } = useReportHistory();
+  const verdicts = useContentLabelerVerdicts(labelTargets);
+  const verdictIndex = useMemo(() => indexVerdicts(verdicts), [verdicts]);
+  const { user } = useCurrentUser();
+  const { config } = useAppContext();
+  const policy = useMemo(() => getSeverityPolicy(config.severityPolicy), [config.severityPolicy]);
+  const showSensitive = config.showSensitiveContent ?? false;
 
   // Debug: Log mute list when it changes
   console.log('[useContentModeration] Mute list loaded:', muteList.length, 'items', muteList);
@@ -313,81 +417,122 @@ export function useContentModeration() {
   const checkContent = useCallback((content: {
     pubkey?: string;
     eventId?: string;
+    address?: string;
     hashtags?: string[];
     text?: string;
+    contentWarning?: string;
+    labels?: ContentLabel[];
   }): ModerationResult => {
     const matchingItems: MuteItem[] = [];
     const reasons: ContentFilterReason[] = [];
+    const activeMutes = getActiveMutes(muteList);
 
     // Check if user is muted
     if (content.pubkey) {
-      const mutedUser = muteList.find(
+      const mutedUser = activeMutes.find(
         item => item.type === MuteType.USER && item.value === content.pubkey
       );
       if (mutedUser) {
         console.log('[useContentModeration] MATCHED muted user:', content.pubkey, mutedUser);
         matchingItems.push(mutedUser);
-        reasons.push(ContentFilterReason.OTHER);
+        reasons.push(getMuteReason(mutedUser));
       }
     }
 
     // Check if event is muted
     if (content.eventId) {
-      const mutedEvent = muteList.find(
+      const mutedEvent = activeMutes.find(
         item => item.type === MuteType.EVENT && item.value === content.eventId
       );
       if (mutedEvent) {
         console.log('[useContentModeration] MATCHED muted event:', content.eventId);
         matchingItems.push(mutedEvent);
-        reasons.push(ContentFilterReason.OTHER);
+        reasons.push(getMuteReason(mutedEvent));
       }
     }
 
     // Check hashtags
     if (content.hashtags) {
       for (const hashtag of content.hashtags) {
-        const mutedHashtag = muteList.find(
+        const mutedHashtag = activeMutes.find(
           item => item.type === MuteType.HASHTAG &&
                   item.value.toLowerCase() === hashtag.toLowerCase()
         );
         if (mutedHashtag) {
           console.log('[useContentModeration] MATCHED muted hashtag:', hashtag);
           matchingItems.push(mutedHashtag);
-          reasons.push(ContentFilterReason.OTHER);
+          reasons.push(getMuteReason(mutedHashtag));
         }
       }
     }
 
     // Check keywords in text
     if (content.text) {
-      const keywords = muteList.filter(item => item.type === MuteType.KEYWORD);
+      const keywords = activeMutes.filter(item => item.type === MuteType.KEYWORD);
       const lowerText = content.text.toLowerCase();
 
       for (const keyword of keywords) {
         if (lowerText.includes(keyword.value.toLowerCase())) {
           console.log('[useContentModeration] MATCHED muted keyword:', keyword.value);
           matchingItems.push(keyword);
-          reasons.push(ContentFilterReason.OTHER);
+          reasons.push(getMuteReason(keyword));
         }
       }
     }
 
-    const shouldFilter = matchingItems.length > 0;
-    const severity = shouldFilter ? ContentSeverity.HIDE : ContentSeverity.INFO;
+    // Content the user reported is treated by the reason they gave
+    for (const report of reports) {
+      // A report of one video names its author too, but only covers that video
+      const matches = report.eventId
+        ? report.eventId === content.eventId
+        : !!report.pubkey && report.pubkey === content.pubkey;
+      if (matches) {
+        reasons.push(report.reason);
+      }
+    }
+
+    // Labels and reports from subscribed moderators
+    const matchingVerdicts = findVerdicts(verdictIndex, content);
+    reasons.push(...matchingVerdicts.map(verdict => verdict.reason));
+    const labelers = Array.from(new Set(matchingVerdicts.map(verdict => verdict.labeler)));
+
+    // The author's own content warning and labels
+    const selfLabels = gradeSelfLabels(content.contentWarning, content.labels, {
+      policy,
+      showSensitive,
+      loggedIn: !!user,
+    });
+
+    const uniqueReasons = Array.from(new Set([...reasons, ...selfLabels.reasons]));
+    const severity = worstSeverity(gradeSeverity(reasons, policy), selfLabels.severity);
+    const shouldFilter = isHiddenSeverity(severity);
+
+    let warningMessage: string | undefined;
+    if (shouldFilter) {
+      const causes = matchingItems.map(i => i.reason || 'muted');
+      if (labelers.length > 0) causes.push('moderator label');
+      if (causes.length === 0 && selfLabels.reasons.length > 0) causes.push('labelled sensitive');
+      warningMessage = `Content filtered: ${causes.join(', ') || 'reported'}`;
+    } else if (severity === ContentSeverity.WARNING) {
+      const warned = uniqueReasons
+        .filter(reason => policy[reason] === ContentSeverity.WARNING)
+        .map(reason => REPORT_REASON_LABELS[reason]);
+      if (content.contentWarning) warned.unshift(content.contentWarning);
+      warningMessage = `Content warning: ${warned.join(', ') || 'sensitive content'}`;
+    }
 
     return {
       shouldFilter,
       severity,
-      reasons: Array.from(new Set(reasons)),
+      reasons: uniqueReasons,
       matchingItems,
-      warningMessage: shouldFilter
-        ? `Content filtered: ${matchingItems.map(i => i.reason || 'muted').join(', ')}`
-        : undefined
+      ...(labelers.length > 0 && { labelers }),
+      warningMessage
     };
-  }, [muteList]);
+  }, [muteList, reports, verdictIndex, policy, showSensitive, user]);
 
   const isMuted = useCallback((pubkey: string) => {
-    return muteList.some(
+    return getActiveMutes(muteList).some(
       item => item.type === MuteType.USER && item.value === pubkey
     );
   }, [muteList]);
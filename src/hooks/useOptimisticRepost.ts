@@ -11,7 +11,8 @@ import type { VideoSocialMetrics } from '@/hooks/useVideoSocialMetrics';
 interface OptimisticRepostParams {
   videoId: string;
   videoPubkey: string;
-  vineId: string;
+  videoKind: number;
+  vineId: string | null;
   userPubkey: string;
   isCurrentlyReposted: boolean;
   currentRepostEventId: string | null;
@@ -33,6 +34,7 @@ export function useOptimisticRepost() {
   const toggleRepost = async ({
     videoId,
     videoPubkey,
+    videoKind,
     vineId,
     userPubkey,
     isCurrentlyReposted,
@@ -90,7 +92,9 @@ export function useOptimisticRepost() {
         // Actually publish the repost event
         const event = await repostVideo({
           originalPubkey: videoPubkey,
-          vineId: vineId,
+          vineId,
+          videoId,
+          videoKind,
         });
 
         // Update with real event ID
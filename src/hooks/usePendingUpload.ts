@@ -0,0 +1,18 @@
+// ABOUTME: Hook for the current user's interrupted video publish, if any
+// ABOUTME: Reads the IndexedDB checkpoint written by useVideoUpload so the upload page can offer to resume
+
+import { useQuery } from '@tanstack/react-query';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { pendingUploadStore } from '@/lib/pendingUploadStore';
+
+export function usePendingUpload() {
+  const { user } = useCurrentUser();
+
+  return useQuery({
+    queryKey: ['pending-upload', user?.pubkey ?? ''],
+    queryFn: () => pendingUploadStore.load(user!.pubkey),
+    enabled: !!user,
+    staleTime: Infinity, // Only changes through this tab's own uploads
+    gcTime: 0,
+  });
+}
@@ -5,7 +5,8 @@
 import { useQuery } from '@tanstack/react-query';
 import { useNostr } from '@nostrify/react';
 import type { ProfileStats } from '@/components/ProfileHeader';
-import { VIDEO_KINDS } from '@/types/video';
+import { VIDEO_KINDS, REPOST_KINDS } from '@/types/video';
+import { videoWorker } from '@/lib/videoWorker';
 import { debugLog } from '@/lib/debug';
 
 /**
@@ -26,7 +27,7 @@ export function useProfileStats(pubkey: string) {
         // Optimized: Single batched query for all profile data
         // Combine multiple filters into one WebSocket request
         const allEvents = await nostr.query([
-          // 1. User's videos (kind 34236 - NIP-71)
+          // 1. User's videos (kinds 21, 22, 34236 - NIP-71)
           {
             kinds: VIDEO_KINDS,
             authors: [pubkey],
@@ -41,7 +42,8 @@ export function useProfileStats(pubkey: string) {
         ], { signal });
 
         // Separate events by type
-        const videoEvents = allEvents.filter(e => VIDEO_KINDS.includes(e.kind));
+        // Relays leave video signatures to the video worker
+        const videoEvents = await videoWorker.verify(allEvents.filter(e => VIDEO_KINDS.includes(e.kind)));
         const userContactList = allEvents.filter(e => e.kind === 3 && e.pubkey === pubkey);
 
         // Calculate video count
@@ -54,7 +56,7 @@ export function useProfileStats(pubkey: string) {
         let totalViews = 0;
         if (videoIds.length > 0) {
           const socialInteractions = await nostr.query([{
-            kinds: [6, 7, 9735], // reposts, reactions, zap receipts
+            kinds: [...REPOST_KINDS, 7, 9735], // reposts, reactions, zap receipts
             '#e': videoIds, // Events referencing user's videos
             limit: 2000, // Large limit to capture all interactions
           }], { signal });
@@ -63,7 +65,7 @@ export function useProfileStats(pubkey: string) {
           totalViews = socialInteractions.filter(event => {
             return (
               event.kind === 7 && (event.content === '+' || event.content === '❤️' || event.content === '👍') ||
-              event.kind === 6 ||
+              REPOST_KINDS.includes(event.kind) ||
               event.kind === 9735
             );
           }).length;
@@ -1,20 +1,30 @@
 // ABOUTME: Hook for publishing video events (kind 34236) to Nostr
-// ABOUTME: Handles video metadata creation and event signing with proper tags
+// ABOUTME: Handles video metadata creation and event signing with proper tags, or queues it for later
 
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useNostrPublish } from '@/hooks/useNostrPublish';
-import { VIDEO_KIND } from '@/types/video';
-import type { VideoMetadata } from '@/types/video';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useRelaySets } from '@/hooks/useRelaySets';
+import { scheduledPostStore } from '@/lib/scheduledPostStore';
+import { VIDEO_KIND, REPOST_KIND, GENERIC_REPOST_KIND } from '@/types/video';
+import type { VideoKind, VideoMetadata } from '@/types/video';
 
 interface PublishVideoOptions {
   content: string;
   videoUrl: string;
   thumbnailUrl?: string;
   title?: string;
-  duration?: number;
+  duration?: number; // seconds
   dimensions?: string;
+  mimeType?: string;
+  hash?: string; // sha256 of the video file
+  size?: number; // bytes
+  blurhash?: string;
+  fallbackUrls?: string[]; // Mirrors of the same file on other Blossom servers
   hashtags?: string[];
+  kind?: VideoKind;
   vineId?: string; // Optional, will generate if not provided
+  publishAt?: number; // Unix seconds - a future time queues the signed event instead of broadcasting it
 }
 
 /**
@@ -54,6 +64,9 @@ function buildImetaTag(metadata: VideoMetadata): string[] {
   if (metadata.hash) {
     tag.push('x', metadata.hash);
   }
+  for (const url of metadata.fallbackUrls ?? []) {
+    tag.push('fallback', url);
+  }
 
   return tag;
 }
@@ -63,6 +76,9 @@ function buildImetaTag(metadata: VideoMetadata): string[] {
  */
 export function usePublishVideo() {
   const { mutateAsync: publishEvent } = useNostrPublish();
+  const { user } = useCurrentUser();
+  const { publishRelays } = useRelaySets();
+  const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async (options: PublishVideoOptions) => {
@@ -73,24 +89,43 @@ export function usePublishVideo() {
         title,
         duration = 6,
         dimensions = '480x480',
+        mimeType = videoUrl.endsWith('.gif') ? 'image/gif' : 'video/mp4',
+        hash,
+        size,
+        blurhash,
+        fallbackUrls,
         hashtags = [],
-        vineId = generateVineId()
+        kind = VIDEO_KIND,
+        vineId = generateVineId(),
+        publishAt,
       } = options;
 
+      const now = Math.floor(Date.now() / 1000);
+      const isScheduled = publishAt !== undefined && publishAt > now;
+      if (isScheduled && kind !== VIDEO_KIND) {
+        throw new Error('Only addressable videos can be scheduled');
+      }
+
       // Build tags according to NIP-71
       const tags: string[][] = [
-        ['d', vineId], // Required for addressability
         ['title', title || 'Untitled'], // Required by NIP-71
-        ['published_at', String(Math.floor(Date.now() / 1000))] // Required by NIP-71
+        ['published_at', String(isScheduled ? publishAt : now)] // Required by NIP-71
       ];
+      if (kind === VIDEO_KIND) {
+        tags.unshift(['d', vineId]); // Required for addressability
+      }
 
       // Add video metadata (required imeta tag)
       const videoMetadata: VideoMetadata = {
         url: videoUrl,
-        mimeType: videoUrl.endsWith('.gif') ? 'image/gif' : 'video/mp4',
+        mimeType,
         dimensions,
         duration,
-        thumbnailUrl
+        thumbnailUrl,
+        blurhash,
+        size,
+        hash,
+        fallbackUrls,
       };
 
       tags.push(buildImetaTag(videoMetadata));
@@ -113,9 +148,30 @@ export function usePublishVideo() {
       // Add client tag for attribution
       tags.push(['client', 'divine-web']);
 
+      if (isScheduled) {
+        if (!user) {
+          throw new Error('User is not logged in');
+        }
+
+        // Signed now while the signer is at hand, broadcast by the scheduler when it's due.
+        // created_at matches published_at so relays and feeds treat it as new when it goes out
+        const event = await user.signer.signEvent({ kind, content, tags, created_at: publishAt });
+        await scheduledPostStore.save({
+          id: vineId,
+          pubkey: user.pubkey,
+          event,
+          publishAt,
+          relays: publishRelays,
+          attempts: 0,
+          createdAt: Date.now(),
+        });
+        queryClient.invalidateQueries({ queryKey: ['scheduled-posts', user.pubkey] });
+        return event;
+      }
+
       // Publish the event
       const event = await publishEvent({
-        kind: VIDEO_KIND,
+        kind,
         content,
         tags
       });
@@ -127,6 +183,8 @@ export function usePublishVideo() {
 
 /**
  * Hook to publish a repost of a video
+ * Addressable videos (34236) are reposted with kind 6 and an 'a' tag,
+ * regular NIP-71 videos (21/22) with a NIP-18 generic repost (kind 16)
  */
 export function useRepostVideo() {
   const { mutateAsync: publishEvent } = useNostrPublish();
@@ -134,21 +192,45 @@ export function useRepostVideo() {
   return useMutation({
     mutationFn: async ({
       originalPubkey,
-      vineId
+      vineId,
+      videoId,
+      videoKind = VIDEO_KIND
     }: {
       originalPubkey: string;
-      vineId: string;
+      vineId?: string | null;
+      videoId?: string;
+      videoKind?: number;
     }) => {
-      const tags: string[][] = [
-        ['a', `${VIDEO_KIND}:${originalPubkey}:${vineId}`],
-        ['p', originalPubkey],
-        ['client', 'divine-web']
-      ];
+      if (videoKind === VIDEO_KIND) {
+        if (!vineId) {
+          throw new Error('Addressable videos require a vineId to repost');
+        }
+
+        return publishEvent({
+          kind: REPOST_KIND,
+          content: '',
+          tags: [
+            ['a', `${VIDEO_KIND}:${originalPubkey}:${vineId}`],
+            ['k', String(VIDEO_KIND)], // Lets live feeds ask for video reposts only
+            ['p', originalPubkey],
+            ['client', 'divine-web']
+          ]
+        });
+      }
+
+      if (!videoId) {
+        throw new Error('Regular video events require an event ID to repost');
+      }
 
       const event = await publishEvent({
-        kind: 6, // Repost kind
+        kind: GENERIC_REPOST_KIND,
         content: '',
-        tags
+        tags: [
+          ['e', videoId],
+          ['k', String(videoKind)],
+          ['p', originalPubkey],
+          ['client', 'divine-web']
+        ]
       });
 
       return event;
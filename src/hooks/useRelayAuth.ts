@@ -0,0 +1,34 @@
+// ABOUTME: React hooks for NIP-42 relay authentication state and per-relay preferences
+// ABOUTME: Exposes which relays are authenticated or waiting on the user, and saves always/ask/never choices
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { useAppContext } from '@/hooks/useAppContext';
+import { DEFAULT_RELAY_AUTH_PREFERENCE, relayAuth, type RelayAuthPreference, type RelayAuthSnapshot } from '@/lib/relayAuth';
+
+/**
+ * Live authentication state of every relay that has challenged us
+ */
+export function useRelayAuth(): RelayAuthSnapshot {
+  return useSyncExternalStore(relayAuth.subscribe, relayAuth.getSnapshot);
+}
+
+/**
+ * Read and save per-relay authentication preferences
+ */
+export function useRelayAuthPreferences() {
+  const { config, updateConfig } = useAppContext();
+
+  const getPreference = useCallback(
+    (url: string): RelayAuthPreference => config.relayAuth?.[url] ?? DEFAULT_RELAY_AUTH_PREFERENCE,
+    [config.relayAuth]
+  );
+
+  const setPreference = useCallback((url: string, preference: RelayAuthPreference) => {
+    updateConfig(current => ({
+      ...current,
+      relayAuth: { ...current.relayAuth, [url]: preference },
+    }));
+  }, [updateConfig]);
+
+  return { getPreference, setPreference };
+}
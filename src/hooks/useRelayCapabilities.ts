@@ -1,11 +1,22 @@
 // ABOUTME: React hook for detecting and using relay capabilities
 // ABOUTME: Provides graceful fallback when relays don't support NIP-50
 
-import { useQuery } from '@tanstack/react-query';
+import { useQueries, useQuery } from '@tanstack/react-query';
 import { useAppContext } from '@/hooks/useAppContext';
+import { useRelaySets } from '@/hooks/useRelaySets';
 import { detectRelayCapabilities, shouldUseNIP50, getEffectiveSortMode, type RelayCapabilities } from '@/lib/relayCapabilities';
 import type { SortMode } from '@/types/nostr';
 
+function relayCapabilitiesQuery(relayUrl: string) {
+  return {
+    queryKey: ['relay-capabilities', relayUrl],
+    queryFn: () => detectRelayCapabilities(relayUrl, { probe: true }),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: 1,
+  };
+}
+
 /**
  * Hook to detect relay capabilities
  */
@@ -13,13 +24,7 @@ export function useRelayCapabilities(relayUrl?: string) {
   const { config } = useAppContext();
   const effectiveRelayUrl = relayUrl || config.relayUrl;
 
-  return useQuery<RelayCapabilities>({
-    queryKey: ['relay-capabilities', effectiveRelayUrl],
-    queryFn: () => detectRelayCapabilities(effectiveRelayUrl),
-    staleTime: 5 * 60 * 1000, // 5 minutes
-    gcTime: 30 * 60 * 1000, // 30 minutes
-    retry: 1,
-  });
+  return useQuery<RelayCapabilities>(relayCapabilitiesQuery(effectiveRelayUrl));
 }
 
 /**
@@ -39,20 +44,22 @@ export function useNIP50Support(relayUrl?: string): boolean {
 }
 
 /**
- * Hook to get effective sort mode with fallback
+ * Hook to get effective sort mode with fallback, across the user's search relays
+ * Returns the requested mode if any relay supports it - relays that don't get the filter
+ * rewritten by the NostrProvider router - otherwise the best fallback any relay offers
  */
 export function useEffectiveSortMode(
-  requestedMode: SortMode,
-  relayUrl?: string
+  requestedMode: SortMode | undefined,
+  relayUrls?: string[]
 ): SortMode | undefined {
-  const { config } = useAppContext();
-  const effectiveRelayUrl = relayUrl || config.relayUrl;
-  const supportsNIP50 = useNIP50Support(effectiveRelayUrl);
+  const { searchRelays } = useRelaySets();
+  const urls = relayUrls ?? searchRelays;
+  const results = useQueries({ queries: urls.map(relayCapabilitiesQuery) });
 
-  // If relay doesn't support NIP-50, return undefined (triggers client-side sorting)
-  if (!supportsNIP50) {
+  if (!requestedMode) {
     return undefined;
   }
 
-  return getEffectiveSortMode(effectiveRelayUrl, requestedMode) || requestedMode;
+  const modes = urls.map((url, i) => getEffectiveSortMode(url, requestedMode, results[i].data ?? null));
+  return modes.includes(requestedMode) ? requestedMode : modes.find(Boolean);
 }
@@ -0,0 +1,12 @@
+// ABOUTME: React hook exposing live relay health from the relay health monitor
+// ABOUTME: Re-renders when relay state, timings or messages change
+
+import { useSyncExternalStore } from 'react';
+import { relayHealth, type RelayHealth } from '@/lib/relayHealth';
+
+/**
+ * Health of every relay the pool has talked to
+ */
+export function useRelayHealth(): RelayHealth[] {
+  return useSyncExternalStore(relayHealth.subscribe, relayHealth.getSnapshot);
+}
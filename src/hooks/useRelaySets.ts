@@ -0,0 +1,108 @@
+// ABOUTME: Hooks for the user's relay set and their NIP-65 relay list (kind 10002)
+// ABOUTME: Local changes are saved to app config and published so other clients and the outbox model see them
+
+import { useCallback, useMemo } from 'react';
+import { useNostr } from '@nostrify/react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { NostrEvent } from '@nostrify/nostrify';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useNostrPublish } from '@/hooks/useNostrPublish';
+import { RELAY_LIST_KIND } from '@/lib/outbox';
+import {
+  DEFAULT_MAX_PUBLISH_RELAYS,
+  buildRelayListTags,
+  getConfiguredRelays,
+  getPublishRelayUrls,
+  getRelaysWithRole,
+  type RelayEntry,
+} from '@/lib/relaySets';
+
+export const relayListQueryKey = (pubkey: string | undefined) => ['relay-list', pubkey ?? ''];
+
+/**
+ * The relays the app reads from, publishes to and searches, with a setter that saves them locally
+ */
+export function useRelaySets() {
+  const { config, updateConfig, presetRelays } = useAppContext();
+
+  const relays = useMemo(
+    () => getConfiguredRelays({ relays: config.relays, relayUrl: config.relayUrl, relayUrls: config.relayUrls }),
+    [config.relays, config.relayUrl, config.relayUrls]
+  );
+
+  const setRelays = useCallback((next: RelayEntry[]) => {
+    updateConfig(current => ({
+      ...current,
+      relays: next,
+      relaysUpdatedAt: Math.floor(Date.now() / 1000),
+      // Keep the legacy single relay pointing at a relay that's still in use
+      relayUrl: next.find(relay => relay.read)?.url ?? next[0]?.url ?? current.relayUrl,
+    }));
+  }, [updateConfig]);
+
+  const setMaxPublishRelays = useCallback((maxPublishRelays: number) => {
+    updateConfig(current => ({ ...current, maxPublishRelays }));
+  }, [updateConfig]);
+
+  const maxPublishRelays = config.maxPublishRelays ?? DEFAULT_MAX_PUBLISH_RELAYS;
+
+  return {
+    relays,
+    readRelays: getRelaysWithRole(relays, 'read'),
+    writeRelays: getRelaysWithRole(relays, 'write'),
+    searchRelays: getRelaysWithRole(relays, 'search'),
+    // The relays an event is published to, as the event router picks them before outbox additions
+    publishRelays: getPublishRelayUrls(relays, { presets: (presetRelays ?? []).map(({ url }) => url), max: maxPublishRelays }),
+    maxPublishRelays,
+    setRelays,
+    setMaxPublishRelays,
+  };
+}
+
+/**
+ * A user's latest NIP-65 relay list event, or null if they haven't published one
+ */
+export function useRelayList(pubkey: string | undefined) {
+  const { nostr } = useNostr();
+
+  return useQuery({
+    queryKey: relayListQueryKey(pubkey),
+    queryFn: async ({ signal }): Promise<NostrEvent | null> => {
+      if (!pubkey) return null;
+      const events = await nostr.query(
+        [{ kinds: [RELAY_LIST_KIND], authors: [pubkey], limit: 1 }],
+        { signal: AbortSignal.any([signal, AbortSignal.timeout(5000)]) }
+      );
+      return events.sort((a, b) => b.created_at - a.created_at)[0] ?? null;
+    },
+    enabled: !!pubkey,
+    staleTime: 10 * 60 * 1000, // Relay lists rarely change
+    gcTime: 60 * 60 * 1000,
+  });
+}
+
+/**
+ * Publish the read and write relays of a relay set as the current user's NIP-65 list
+ */
+export function usePublishRelayList() {
+  const { mutateAsync: publishEvent } = useNostrPublish();
+  const queryClient = useQueryClient();
+  const { user } = useCurrentUser();
+
+  return useMutation({
+    mutationFn: async (relays: RelayEntry[]) => {
+      if (!user) throw new Error('Must be logged in to publish a relay list');
+
+      return publishEvent({
+        kind: RELAY_LIST_KIND,
+        content: '',
+        tags: buildRelayListTags(relays),
+      });
+    },
+    onSuccess: (event) => {
+      if (!user) return;
+      queryClient.setQueryData(relayListQueryKey(user.pubkey), event);
+    },
+  });
+}
@@ -0,0 +1,99 @@
+// ABOUTME: Hooks for the current user's queue of scheduled video posts
+// ABOUTME: Lists, reschedules (re-signing with the new time) and cancels posts held in IndexedDB
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useToast } from '@/hooks/useToast';
+import { scheduledPostStore } from '@/lib/scheduledPostStore';
+import { debugLog, debugError } from '@/lib/debug';
+
+export function useScheduledPosts() {
+  const { user } = useCurrentUser();
+
+  return useQuery({
+    queryKey: ['scheduled-posts', user?.pubkey ?? ''],
+    queryFn: () => scheduledPostStore.list(user!.pubkey),
+    enabled: !!user,
+    staleTime: Infinity, // Invalidated by the publish, reschedule, cancel and broadcast paths
+  });
+}
+
+/**
+ * Move a scheduled post to a new time
+ * published_at is covered by the signature, so the event is signed again
+ */
+export function useReschedulePost() {
+  const { user } = useCurrentUser();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, publishAt }: { id: string; publishAt: number }) => {
+      if (!user) {
+        throw new Error('Not logged in');
+      }
+      if (publishAt <= Math.floor(Date.now() / 1000)) {
+        throw new Error('Pick a time in the future');
+      }
+
+      const post = await scheduledPostStore.get(id);
+      if (!post || post.pubkey !== user.pubkey) {
+        throw new Error('This post is no longer scheduled');
+      }
+
+      const { kind, content, tags } = post.event;
+      const event = await user.signer.signEvent({
+        kind,
+        content,
+        tags: tags.map(tag => tag[0] === 'published_at' ? ['published_at', String(publishAt)] : tag),
+        created_at: publishAt,
+      });
+
+      debugLog(`[useReschedulePost] Moving ${id} to ${new Date(publishAt * 1000).toISOString()}`);
+      await scheduledPostStore.save({ ...post, event, publishAt, attempts: 0, lastError: undefined });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scheduled-posts', user?.pubkey] });
+      toast({
+        title: 'Post Rescheduled',
+        description: 'Your vine will go out at the new time.',
+      });
+    },
+    onError: (error: Error) => {
+      debugError('[useReschedulePost] Error rescheduling post:', error);
+      toast({
+        title: 'Reschedule Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/**
+ * Drop a scheduled post - it was never broadcast, so there is nothing to delete on relays
+ */
+export function useCancelScheduledPost() {
+  const { user } = useCurrentUser();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => scheduledPostStore.remove(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scheduled-posts', user?.pubkey] });
+      toast({
+        title: 'Post Cancelled',
+        description: 'The scheduled vine was removed.',
+      });
+    },
+    onError: (error: Error) => {
+      debugError('[useCancelScheduledPost] Error cancelling post:', error);
+      toast({
+        title: 'Cancel Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -6,6 +6,7 @@ import { useQuery } from '@tanstack/react-query';
 import { useMemo } from 'react';
 import type { NostrEvent } from '@nostrify/nostrify';
 import { VIDEO_KINDS } from '@/types/video';
+import { videoWorker } from '@/lib/videoWorker';
 
 interface UseSearchHashtagsOptions {
   query: string;
@@ -87,11 +88,11 @@ export function useSearchHashtags(options: UseSearchHashtagsOptions) {
       // Get recent videos to extract hashtags from
       const since = Math.floor(Date.now() / 1000) - (daysBack * 24 * 60 * 60);
       
-      const events = await nostr.query([{
+      const events = await videoWorker.verify(await nostr.query([{
         kinds: VIDEO_KINDS,
         since,
         limit: 100, // Reduced for performance while maintaining decent hashtag coverage
-      }], { signal });
+      }], { signal }));
       
       // Extract and count hashtags
       const hashtagCounts = extractHashtagCounts(events);
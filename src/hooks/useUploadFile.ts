@@ -1,26 +1,90 @@
-import { useMutation } from "@tanstack/react-query";
-import { BlossomUploader } from '@nostrify/nostrify/uploaders';
+import { useNostr } from "@nostrify/react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 
 import { useCurrentUser } from "./useCurrentUser";
+import { blossomServersQueryOptions } from "./useBlossomServers";
+import {
+  DEFAULT_BLOSSOM_SERVER,
+  getBlossomBlobUrl,
+  hasBlob,
+  mirrorBlob,
+  uploadBlob,
+  type BlobDescriptor,
+} from "@/lib/blossom";
+import { debugError, debugLog } from "@/lib/debug";
+import { sha256Hex } from "@/lib/mediaIntegrity";
+
+export interface UploadFileOptions {
+  file: File;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
 
 export function useUploadFile() {
+  const { nostr } = useNostr();
   const { user } = useCurrentUser();
+  const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (file: File) => {
+    mutationFn: async (input: File | UploadFileOptions) => {
+      const { file, onProgress, signal } = input instanceof File ? { file: input } as UploadFileOptions : input;
+
       if (!user) {
         throw new Error('Must be logged in to upload files');
       }
 
-      const uploader = new BlossomUploader({
-        servers: [
-          'https://blossom.divine.video/',
-        ],
-        signer: user.signer,
-      });
+      // The user's kind 10063 list, in priority order
+      let servers: string[] = [];
+      try {
+        servers = await queryClient.fetchQuery(blossomServersQueryOptions(nostr, user.pubkey));
+      } catch (error) {
+        debugError('[useUploadFile] Failed to load Blossom server list, using default', error);
+      }
+      if (servers.length === 0) {
+        servers = [DEFAULT_BLOSSOM_SERVER];
+      }
+
+      // Upload once to the primary server, then have the others mirror it (BUD-04)
+      const [primary, ...mirrors] = servers;
+      const hash = await sha256Hex(await file.arrayBuffer());
+
+      let descriptor: BlobDescriptor;
+      if (await hasBlob(primary, hash, signal)) {
+        // Already stored, e.g. when resuming an interrupted publish
+        debugLog(`[useUploadFile] ${primary} already has ${hash}, skipping upload`);
+        descriptor = { url: getBlossomBlobUrl(primary, hash, file.name), sha256: hash, size: file.size, type: file.type };
+        onProgress?.(1);
+      } else {
+        descriptor = await uploadBlob(primary, file, hash, user.signer, { onProgress, signal });
+      }
+
+      const tags = [
+        ['url', descriptor.url],
+        ['x', descriptor.sha256],
+        ['ox', descriptor.sha256],
+        ['size', descriptor.size.toString()],
+      ];
+      if (descriptor.type) {
+        tags.push(['m', descriptor.type]);
+      }
+
+      if (mirrors.length > 0) {
+        const results = await Promise.allSettled(
+          mirrors.map(server => mirrorBlob(server, descriptor.url, hash, user.signer, AbortSignal.timeout(30000)))
+        );
+
+        results.forEach((result, i) => {
+          if (result.status === 'fulfilled') {
+            if (result.value !== descriptor.url) tags.push(['fallback', result.value]);
+          } else {
+            // Mirroring is best-effort - the primary copy is enough to publish
+            debugError(`[useUploadFile] Mirror to ${mirrors[i]} failed`, result.reason);
+          }
+        });
+        debugLog(`[useUploadFile] Uploaded to ${primary}, mirrored to ${results.filter(r => r.status === 'fulfilled').length}/${mirrors.length} servers`);
+      }
 
-      const tags = await uploader.upload(file);
       return tags;
     },
   });
-}
\ No newline at end of file
+}
@@ -1,16 +1,19 @@
 // ABOUTME: Hook for querying and managing video events from Nostr relays
-// ABOUTME: Handles video events (kind 34236) and Kind 6 reposts with proper parsing
-// ABOUTME: Supports auto-refresh for home and recent feeds matching Flutter app behavior
+// ABOUTME: Handles video events (kinds 21, 22, 34236) and Kind 6/16 reposts with proper parsing
+// ABOUTME: Home and recent feeds collect new videos and reposts over a live subscription, shown on request
 
 import { useNostr } from '@nostrify/react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useCurrentUser } from '@/hooks/useCurrentUser';
 import { useFollowList } from '@/hooks/useFollowList';
-import { useEffect } from 'react';
+import { useLiveVideos } from '@/hooks/useLiveVideos';
 import type { NostrEvent, NostrFilter } from '@nostrify/nostrify';
-import { VIDEO_KINDS, REPOST_KIND, type ParsedVideoData } from '@/types/video';
+import { VIDEO_KINDS, REPOST_KINDS, type ParsedVideoData } from '@/types/video';
 import type { NIP50Filter } from '@/types/nostr';
-import { parseVideoEvent, getVineId, getThumbnailUrl, getLoopCount, getOriginalVineTimestamp, getProofModeData, getOriginalLikeCount, getOriginalRepostCount, getOriginalCommentCount, getOriginPlatform, isVineMigrated, getLatestRepostTime, validateVideoEvent } from '@/lib/videoParser';
+import { getLatestRepostTime } from '@/lib/videoParser';
+import { fetchRepostedVideos } from '@/lib/repostedVideos';
+import { videoWorker } from '@/lib/videoWorker';
+import { prependVideos } from '@/lib/liveFeed';
 import { debugLog, debugError, verboseLog } from '@/lib/debug';
 import type { SortMode } from '@/types/nostr';
 
@@ -36,9 +39,9 @@ async function getReactionCounts(
   if (videoIds.length === 0) return {};
 
   try {
-    // Query for reactions (kind 7) and reposts (kind 6) to these videos
+    // Query for reactions (kind 7) and reposts (kinds 6 and 16) to these videos
     const reactions = await nostr.query([{
-      kinds: [6, 7], // Reposts and reactions
+      kinds: [...REPOST_KINDS, 7], // Reposts and reactions
       '#e': videoIds,
       since, // Only count recent reactions
       limit: 100 // Optimized for performance
@@ -62,239 +65,26 @@ async function getReactionCounts(
 
 /**
  * Parse video events and handle reposts with deduplication
- * NEW: Aggregates reposts by video ID instead of creating duplicate entries
+ * Reposts are aggregated onto the video they point at; the parsing itself runs in the video worker
  */
 async function parseVideoEvents(
   events: NostrEvent[],
   nostr: { query: (filters: NostrFilter[], options: { signal: AbortSignal }) => Promise<NostrEvent[]> },
   sortChronologically = false
 ): Promise<ParsedVideoData[]> {
-  // Map to store videos by their unique ID (vineId or event ID)
-  const videoMap = new Map<string, ParsedVideoData>();
-
-  // Separate videos and reposts
-  const videoEvents = events.filter(e => VIDEO_KINDS.includes(e.kind));
-  const repostEvents = events.filter(e => e.kind === REPOST_KIND);
-
-  debugLog(`[useVideoEvents] Processing ${videoEvents.length} videos and ${repostEvents.length} reposts`);
-
-  let validVideos = 0;
-  let invalidVideos = 0;
-
-  // Process direct video events - add to map by vineId
-  for (const event of videoEvents) {
-    if (!validateVideoEvent(event)) {
-      invalidVideos++;
-      continue;
-    }
-
-    const videoEvent = parseVideoEvent(event);
-    if (!videoEvent) {
-      invalidVideos++;
-      continue;
-    }
-
-    // Get vineId from d tag (required for kind 34236)
-    const vineId = getVineId(event)!;
-
-    const videoUrl = videoEvent.videoMetadata?.url;
-    if (!videoUrl) {
-      debugError(`[useVideoEvents] No video URL in metadata for event ${event.id}:`, videoEvent.videoMetadata);
-      invalidVideos++;
-      continue;
-    }
-
-    validVideos++;
-
-    // NEW: Use vineId as the unique key for deduplication
-    const uniqueKey = vineId;
-
-    // If we already have this video, skip (keep the first one)
-    if (videoMap.has(uniqueKey)) {
-      debugLog(`[useVideoEvents] Skipping duplicate video with vineId ${vineId}`);
-      continue;
-    }
-
-    videoMap.set(uniqueKey, {
-      id: event.id,
-      pubkey: event.pubkey,
-      kind: event.kind as 34236,
-      createdAt: event.created_at,
-      originalVineTimestamp: getOriginalVineTimestamp(event),
-      content: event.content,
-      videoUrl,
-      fallbackVideoUrls: videoEvent.videoMetadata?.fallbackUrls,
-      hlsUrl: videoEvent.videoMetadata?.hlsUrl,
-      thumbnailUrl: getThumbnailUrl(videoEvent),
-      blurhash: videoEvent.videoMetadata?.blurhash,
-      title: videoEvent.title,
-      duration: videoEvent.videoMetadata?.duration,
-      hashtags: videoEvent.hashtags || [],
-      vineId,
-      loopCount: getLoopCount(event),
-      likeCount: getOriginalLikeCount(event),
-      repostCount: getOriginalRepostCount(event),
-      commentCount: getOriginalCommentCount(event),
-      proofMode: getProofModeData(event),
-      origin: getOriginPlatform(event),
-      isVineMigrated: isVineMigrated(event),
-      reposts: [], // Initialize empty reposts array
-      originalEvent: event // Store original event for source viewing
-    });
-  }
-
-  debugLog(`[useVideoEvents] Parsed ${validVideos} valid videos (${videoMap.size} unique), ${invalidVideos} invalid`);
-
-  // Process reposts - NEW: Aggregate as metadata instead of creating duplicates
-  let repostsFetched = 0;
-  let repostsSkipped = 0;
-  let repostsAggregated = 0;
-
-  for (const repost of repostEvents) {
-    // Extract 'a' tag for addressable event reference
-    const aTag = repost.tags.find(tag => tag[0] === 'a');
-    if (!aTag?.[1]) {
-      repostsSkipped++;
-      continue;
-    }
-
-    // Parse addressable coordinate
-    const [kind, pubkey, dTag] = aTag[1].split(':');
-    const kindNum = parseInt(kind, 10);
-    if (!VIDEO_KINDS.includes(kindNum) || !pubkey || !dTag) {
-      repostsSkipped++;
-      continue;
-    }
-
-    // The unique key is the vineId (dTag)
-    const vineId = dTag;
-
-    // Check if we already have this video in our map
-    let videoData = videoMap.get(vineId);
-
-    if (!videoData) {
-      // Need to fetch the original video
-      let originalVideo = videoEvents.find(e =>
-        e.pubkey === pubkey && getVineId(e) === vineId
-      );
-
-      if (!originalVideo) {
-        // Fetch from relay
-        try {
-          const signal = AbortSignal.timeout(2000);
-          const events = await nostr.query([{
-            kinds: VIDEO_KINDS,
-            authors: [pubkey],
-            '#d': [vineId],
-            limit: 1
-          }], { signal });
-
-          originalVideo = events[0];
-          repostsFetched++;
-        } catch {
-          repostsSkipped++;
-          continue;
-        }
-      }
-
-      if (!originalVideo || !validateVideoEvent(originalVideo)) {
-        repostsSkipped++;
-        continue;
-      }
-
-      const videoEvent = parseVideoEvent(originalVideo);
-      if (!videoEvent) {
-        repostsSkipped++;
-        continue;
-      }
-
-      const videoUrl = videoEvent.videoMetadata?.url;
-      if (!videoUrl) {
-        debugError(`[useVideoEvents] No video URL in repost metadata for event ${originalVideo.id}:`, videoEvent.videoMetadata);
-        repostsSkipped++;
-        continue;
-      }
-
-      // Create new video entry
-      videoData = {
-        id: originalVideo.id,
-        pubkey: originalVideo.pubkey,
-        kind: originalVideo.kind as 21 | 22 | 34236,
-        createdAt: originalVideo.created_at,
-        originalVineTimestamp: getOriginalVineTimestamp(originalVideo),
-        content: originalVideo.content,
-        videoUrl,
-        fallbackVideoUrls: videoEvent.videoMetadata?.fallbackUrls,
-        hlsUrl: videoEvent.videoMetadata?.hlsUrl,
-        thumbnailUrl: getThumbnailUrl(videoEvent),
-        blurhash: videoEvent.videoMetadata?.blurhash,
-        title: videoEvent.title,
-        duration: videoEvent.videoMetadata?.duration,
-        hashtags: videoEvent.hashtags || [],
-        vineId,
-        loopCount: getLoopCount(originalVideo),
-        likeCount: getOriginalLikeCount(originalVideo),
-        repostCount: getOriginalRepostCount(originalVideo),
-        commentCount: getOriginalCommentCount(originalVideo),
-        proofMode: getProofModeData(originalVideo),
-        origin: getOriginPlatform(originalVideo),
-        isVineMigrated: isVineMigrated(originalVideo),
-        reposts: [],
-        originalEvent: originalVideo // Store original event for source viewing
-      };
-
-      videoMap.set(vineId, videoData);
-    }
-
-    // Add repost metadata to the video
-    videoData.reposts.push({
-      eventId: repost.id,
-      reposterPubkey: repost.pubkey,
-      repostedAt: repost.created_at
-    });
-
-    repostsAggregated++;
-  }
+  const originals = await fetchRepostedVideos(events, nostr);
+  const videos = await videoWorker.parse([...events, ...originals], {
+    // Chronological feeds go by latest repost time; others by loop count, then time
+    sort: sortChronologically ? 'chronological' : 'loops',
+  });
 
-  debugLog(`[useVideoEvents] Processed reposts: ${repostsFetched} fetched, ${repostsAggregated} aggregated, ${repostsSkipped} skipped`);
-
-  // Convert map to array
-  const parsedVideos = Array.from(videoMap.values());
-
-  // Sort videos based on mode
-  if (sortChronologically) {
-    // Sort by time only (most recent first) for chronological feeds
-    // Use latest repost time if video has been reposted
-    return parsedVideos.sort((a, b) => {
-      const timeA = a.reposts.length > 0
-        ? Math.max(...a.reposts.map(r => r.repostedAt), a.createdAt)
-        : a.createdAt;
-      const timeB = b.reposts.length > 0
-        ? Math.max(...b.reposts.map(r => r.repostedAt), b.createdAt)
-        : b.createdAt;
-      return timeB - timeA;
-    });
-  } else {
-    // Sort by loop count (highest first), then by created_at for ties
-    return parsedVideos.sort((a, b) => {
-      // First sort by loop count
-      const loopDiff = (b.loopCount || 0) - (a.loopCount || 0);
-      if (loopDiff !== 0) return loopDiff;
-
-      // Then by time for ties (use latest repost time if available)
-      const timeA = a.reposts.length > 0
-        ? Math.max(...a.reposts.map(r => r.repostedAt), a.createdAt)
-        : a.createdAt;
-      const timeB = b.reposts.length > 0
-        ? Math.max(...b.reposts.map(r => r.repostedAt), b.createdAt)
-        : b.createdAt;
-      return timeB - timeA;
-    });
-  }
+  debugLog(`[useVideoEvents] Parsed ${videos.length} videos from ${events.length} events, ${originals.length} reposted originals fetched`);
+  return videos;
 }
 
 /**
- * Hook to fetch video events with auto-refresh support
+ * Hook to fetch video events
+ * Home and recent feeds add new videos to the top as they're published
  */
 export function useVideoEvents(options: UseVideoEventsOptions = {}) {
   const { nostr } = useNostr();
@@ -303,9 +93,12 @@ export function useVideoEvents(options: UseVideoEventsOptions = {}) {
 
   // Get follow list for home feed - this is cached and auto-refetches
   const { data: followList } = useFollowList();
+  const queryClient = useQueryClient();
+
+  const queryKey = ['video-events', feedType, hashtag, pubkey, limit, until, sortMode, user?.pubkey, followList, filter];
 
   const queryResult = useQuery({
-    queryKey: ['video-events', feedType, hashtag, pubkey, limit, until, sortMode, user?.pubkey, followList, filter],
+    queryKey,
     queryFn: async (context) => {
       const startTime = performance.now();
       verboseLog(`[useVideoEvents] ========== Starting query for ${feedType} feed ==========`);
@@ -403,7 +196,7 @@ export function useVideoEvents(options: UseVideoEventsOptions = {}) {
         // Only query reposts if we don't have enough videos and NOT doing a direct ID lookup
         // Skip repost queries when using NIP-50 sorting (relay handles it efficiently)
         if (events.length < limit && feedType !== 'profile' && !isDirectIdLookup && !shouldSortByPopularity) {
-          const repostFilter = { ...baseFilter, kinds: [REPOST_KIND], limit: 15 }; // Optimized for performance
+          const repostFilter = { ...baseFilter, kinds: REPOST_KINDS, limit: 15 }; // Optimized for performance
           const repostStartTime = performance.now();
           repostEvents = await nostr.query([repostFilter], { signal });
           debugLog(`[useVideoEvents] Repost query took ${(performance.now() - repostStartTime).toFixed(0)}ms, got ${repostEvents.length} events`);
@@ -481,33 +274,20 @@ export function useVideoEvents(options: UseVideoEventsOptions = {}) {
     enabled: (feedType !== 'home' || !!user?.pubkey) && (feedType !== 'profile' || !!pubkey), // Only run home feed if user is logged in, and profile feed if pubkey is provided
   });
 
-  // Auto-refresh logic matching Flutter app behavior
-  useEffect(() => {
-    if (!queryResult.data) return; // Don't start refresh until initial load
-
-    let intervalId: NodeJS.Timeout | null = null;
-
-    // Set up auto-refresh based on feed type
-    if (feedType === 'home') {
-      // Home feed: Refresh every 10 minutes (matching Flutter)
-      intervalId = setInterval(() => {
-        debugLog('[useVideoEvents] Auto-refreshing home feed (10 min interval)');
-        queryResult.refetch();
-      }, 10 * 60 * 1000); // 10 minutes
-    } else if (feedType === 'recent') {
-      // Recent feed: Refresh every 30 seconds (matching Flutter)
-      intervalId = setInterval(() => {
-        debugLog('[useVideoEvents] Auto-refreshing recent feed (30 sec interval)');
-        queryResult.refetch();
-      }, 30 * 1000); // 30 seconds
-    }
-
-    return () => {
-      if (intervalId) {
-        clearInterval(intervalId);
-      }
-    };
-  }, [feedType, queryResult.data, queryResult.refetch]);
+  // Live updates replace the old polling (home every 10 min, recent every 30 s) for the first page
+  const isLiveFeed = !until && !filter && queryResult.data !== undefined &&
+    (feedType === 'recent' || (feedType === 'home' && !!followList && followList.length > 0));
+  const liveFilter: NostrFilter = feedType === 'home' ? { authors: followList } : {};
+
+  // New arrivals wait in newVideos until showNewVideos() puts them on top, so the list doesn't shift under the reader
+  const { pendingVideos, clearPending } = useLiveVideos(isLiveFeed ? liveFilter : undefined, { includeReposts: true });
+
+  const showNewVideos = () => {
+    queryClient.setQueryData<ParsedVideoData[]>(queryKey, (current) =>
+      current && prependVideos([current], pendingVideos)[0]
+    );
+    clearPending();
+  };
 
-  return queryResult;
+  return { ...queryResult, newVideos: pendingVideos, showNewVideos };
 }
@@ -3,6 +3,8 @@
 
 import { useQuery } from '@tanstack/react-query';
 import { useNostr } from '@nostrify/react';
+import type { NostrFilter } from '@nostrify/nostrify';
+import { VIDEO_KIND, REPOST_KINDS } from '@/types/video';
 
 export interface VideoSocialMetrics {
   likeCount: number;
@@ -18,8 +20,9 @@ export interface VideoSocialMetrics {
  * @param videoId - The video event ID
  * @param videoPubkey - The video author's pubkey (required for addressable events)
  * @param vineId - The video's vineId (d tag) for addressable events
+ * @param videoKind - The video's kind; comments on kinds 21/22 are queried by event ID
  */
-export function useVideoSocialMetrics(videoId: string, videoPubkey?: string, vineId?: string | null) {
+export function useVideoSocialMetrics(videoId: string, videoPubkey?: string, vineId?: string | null, videoKind: number = VIDEO_KIND) {
   const { nostr } = useNostr();
 
   return useQuery({
@@ -29,22 +32,31 @@ export function useVideoSocialMetrics(videoId: string, videoPubkey?: string, vin
 
       try {
         // For kind 34236 (addressable videos), we need to query by both #e and #a tags
-        // - #e tag: Used by likes (kind 7) and reposts (kind 6)
+        // - #e tag: Used by likes (kind 7) and reposts (kinds 6 and 16)
         // - #a tag: Used by comments (kind 1111) for addressable events
-        const filters = [
+        // Regular kind 21/22 videos have no address, so comments reference them by #e
+        const filters: NostrFilter[] = [
           {
-            kinds: [6, 7, 9735], // reposts, reactions, zap receipts
+            kinds: [...REPOST_KINDS, 7, 9735], // reposts, reactions, zap receipts
             '#e': [videoId], // Standard event references
             limit: 500,
           }
         ];
 
-        // Add addressable event filter for comments if we have the required data
-        if (videoPubkey && vineId) {
-          const addressableId = `34236:${videoPubkey}:${vineId}`;
+        if (videoKind === VIDEO_KIND) {
+          // Add addressable event filter for comments if we have the required data
+          if (videoPubkey && vineId) {
+            const addressableId = `${VIDEO_KIND}:${videoPubkey}:${vineId}`;
+            filters.push({
+              kinds: [1111], // NIP-22 comments
+              '#a': [addressableId], // Addressable event references
+              limit: 500,
+            });
+          }
+        } else {
           filters.push({
             kinds: [1111], // NIP-22 comments
-            '#a': [addressableId], // Addressable event references
+            '#e': [videoId], // Top-level comments on regular events
             limit: 500,
           });
         }
@@ -67,6 +79,7 @@ export function useVideoSocialMetrics(videoId: string, videoPubkey?: string, vin
               break;
 
             case 6: // Repost events
+            case 16: // Generic repost events (kinds 21/22)
               repostCount++;
               break;
 
@@ -131,7 +144,7 @@ export function useVideoUserInteractions(videoId: string, userPubkey?: string) {
         // Query for user's interactions with this video
         const events = await nostr.query([
           {
-            kinds: [6, 7], // reposts, reactions
+            kinds: [...REPOST_KINDS, 7], // reposts, reactions
             authors: [userPubkey],
             '#e': [videoId],
             limit: 10,
@@ -170,7 +183,7 @@ export function useVideoUserInteractions(videoId: string, userPubkey?: string) {
             hasLiked = true;
             likeEventId = event.id;
           }
-          if (event.kind === 6) {
+          if (REPOST_KINDS.includes(event.kind)) {
             hasReposted = true;
             repostEventId = event.id;
           }
@@ -1,16 +1,29 @@
 // ABOUTME: Hook for combining video segments and uploading to Blossom servers
-// ABOUTME: Handles multi-segment video compilation and upload progress tracking
+// ABOUTME: Handles multi-segment video compilation, upload progress and resumable upload checkpoints
 
 import { useState, useCallback } from 'react';
 import { useMutation } from '@tanstack/react-query';
 import { useUploadFile } from '@/hooks/useUploadFile';
 import { useToast } from '@/hooks/useToast';
+import { pendingUploadStore, type PendingUpload } from '@/lib/pendingUploadStore';
+import { concatVideoSegments } from '@/lib/videoConcat';
+import { MAX_VINE_DURATION } from '@/types/video';
+
+const VIDEO_PROGRESS_SHARE = 0.9; // The thumbnail upload takes the remaining 10%
 
 interface VideoSegment {
   blob: Blob;
   blobUrl: string;
 }
 
+/** A single video file ready to publish, after combining or trimming */
+export interface PreparedVideo {
+  blob: Blob;
+  duration: number; // milliseconds
+  width: number;
+  height: number;
+}
+
 interface CombineResult {
   blob: Blob;
   blobUrl: string;
@@ -22,20 +35,40 @@ export function useVideoUpload() {
   const { mutateAsync: uploadFile } = useUploadFile();
   const [uploadProgress, setUploadProgress] = useState(0);
 
+  // Get video duration from blob
+  const getVideoDuration = useCallback((blob: Blob): Promise<number> => {
+    return new Promise((resolve, reject) => {
+      const video = document.createElement('video');
+      video.preload = 'metadata';
+
+      video.onloadedmetadata = () => {
+        window.URL.revokeObjectURL(video.src);
+        resolve(video.duration * 1000); // Convert to milliseconds
+      };
+
+      video.onerror = () => {
+        window.URL.revokeObjectURL(video.src);
+        reject(new Error('Failed to load video metadata'));
+      };
+
+      video.src = URL.createObjectURL(blob);
+    });
+  }, []);
+
   // Combine video segments into a single video
   const combineSegments = useCallback(async (segments: VideoSegment[]): Promise<CombineResult> => {
     if (segments.length === 0) {
       throw new Error('No segments to combine');
     }
 
-    // If only one segment, return it directly
-    if (segments.length === 1) {
+    // Non-WebM single segments are already a complete file
+    if (segments.length === 1 && !segments[0].blob.type.startsWith('video/webm')) {
       const blob = segments[0].blob;
       const blobUrl = segments[0].blobUrl;
-      
+
       // Get duration from blob using video element
       const duration = await getVideoDuration(blob);
-      
+
       return {
         blob,
         blobUrl,
@@ -43,78 +76,72 @@ export function useVideoUpload() {
       };
     }
 
-    // For multiple segments, we need to combine them
-    // For now, we'll use a simple approach: create a new video from all blobs
-    // In production, you'd want to use FFmpeg.wasm for proper video concatenation
-    
+    // WebM segments are remuxed even when there's only one, since MediaRecorder
+    // output has no Duration and would report Infinity
     try {
-      // Check if FFmpeg.wasm is available (optional enhancement)
-      // For MVP, we'll just use the first segment and warn the user
-      toast({
-        title: 'Multi-segment Recording',
-        description: 'Multiple segments detected. Using first segment only. Full segment merging coming soon!',
-        variant: 'default',
-      });
-
-      const blob = segments[0].blob;
-      const blobUrl = segments[0].blobUrl;
-      const duration = await getVideoDuration(blob);
+      const { blob, duration } = await concatVideoSegments(
+        segments.map(segment => segment.blob),
+        MAX_VINE_DURATION
+      );
 
       return {
         blob,
-        blobUrl,
+        blobUrl: URL.createObjectURL(blob),
         duration,
       };
     } catch (error) {
       console.error('Failed to combine segments:', error);
       throw new Error('Failed to combine video segments');
     }
-  }, [toast]);
-
-  // Get video duration from blob
-  const getVideoDuration = useCallback((blob: Blob): Promise<number> => {
-    return new Promise((resolve, reject) => {
-      const video = document.createElement('video');
-      video.preload = 'metadata';
-
-      video.onloadedmetadata = () => {
-        window.URL.revokeObjectURL(video.src);
-        resolve(video.duration * 1000); // Convert to milliseconds
-      };
-
-      video.onerror = () => {
-        window.URL.revokeObjectURL(video.src);
-        reject(new Error('Failed to load video metadata'));
-      };
-
-      video.src = URL.createObjectURL(blob);
-    });
-  }, []);
+  }, [getVideoDuration]);
 
   // Convert blob to File object for upload
   const blobToFile = useCallback((blob: Blob, filename: string): File => {
     return new File([blob], filename, { type: blob.type });
   }, []);
 
-  // Upload combined video
+  // Upload the video and its thumbnail, checkpointing each finished step so a reload can resume
   const uploadVideoMutation = useMutation({
-    mutationFn: async (params: { blob: Blob; filename?: string }) => {
-      const { blob, filename = `vine-${Date.now()}.webm` } = params;
-      const file = blobToFile(blob, filename);
-
-      // Upload to Blossom
-      const tags = await uploadFile(file);
+    mutationFn: async (params: { upload: Omit<PendingUpload, 'updatedAt'>; filename?: string }) => {
+      const upload = { ...params.upload };
+      await pendingUploadStore.save(upload);
+
+      if (!upload.videoTags) {
+        const { video } = upload;
+        // Re-recorded segments may not be WebM - keep the extension in line with the content
+        const extension = video.type.startsWith('video/mp4') ? 'mp4' : video.type.startsWith('video/quicktime') ? 'mov' : 'webm';
+        const filename = (params.filename ?? `vine-${Date.now()}.webm`).replace(/\.\w+$/, `.${extension}`);
+
+        // Upload to Blossom
+        upload.videoTags = await uploadFile({
+          file: blobToFile(video, filename),
+          onProgress: (fraction) => setUploadProgress(VIDEO_PROGRESS_SHARE * fraction),
+        });
+        await pendingUploadStore.save(upload);
+      }
+      setUploadProgress(VIDEO_PROGRESS_SHARE);
+
+      if (upload.thumbnail && !upload.thumbnailUrl) {
+        const [[, thumbnailUrl]] = await uploadFile({
+          file: blobToFile(upload.thumbnail, `vine-${Date.now()}-thumb.${upload.thumbnail.type === 'image/webp' ? 'webp' : 'jpg'}`),
+          onProgress: (fraction) => setUploadProgress(VIDEO_PROGRESS_SHARE + (1 - VIDEO_PROGRESS_SHARE) * fraction),
+        });
+        upload.thumbnailUrl = thumbnailUrl;
+        await pendingUploadStore.save(upload);
+      }
+      setUploadProgress(1);
 
       // Extract URL from tags
-      // Tags format: [['url', 'https://...'], ['m', 'video/webm'], ...]
-      const urlTag = tags.find((tag: string[]) => tag[0] === 'url');
+      // Tags format: [['url', 'https://...'], ['x', '<sha256>'], ['size', '123'], ...]
+      const urlTag = upload.videoTags.find((tag: string[]) => tag[0] === 'url');
       if (!urlTag || !urlTag[1]) {
         throw new Error('Upload succeeded but no URL returned');
       }
 
       return {
         url: urlTag[1],
-        tags,
+        tags: upload.videoTags,
+        thumbnailUrl: upload.thumbnailUrl,
       };
     },
     onError: (error) => {
@@ -128,44 +155,22 @@ export function useVideoUpload() {
   });
 
   // Upload video with progress tracking
-  const uploadVideo = useCallback(async (params: {
-    segments: VideoSegment[];
-    filename?: string;
-  }): Promise<{ url: string; tags: string[][]; duration: number }> => {
-    setUploadProgress(0);
+  const uploadVideo = useCallback(async (
+    upload: Omit<PendingUpload, 'updatedAt'>,
+    filename?: string
+  ): Promise<{ url: string; tags: string[][]; thumbnailUrl?: string }> => {
+    setUploadProgress(upload.videoTags ? VIDEO_PROGRESS_SHARE : 0);
 
     try {
-      // Step 1: Combine segments (25% of progress)
-      setUploadProgress(0.1);
-      const combined = await combineSegments(params.segments);
-      setUploadProgress(0.25);
-
-      // Step 2: Upload video (75% of progress)
-      const result = await uploadVideoMutation.mutateAsync({
-        blob: combined.blob,
-        filename: params.filename,
-      });
-      setUploadProgress(1);
-
-      // Clean up blob URLs
-      params.segments.forEach(segment => {
-        URL.revokeObjectURL(segment.blobUrl);
-      });
-      if (combined.blobUrl !== params.segments[0].blobUrl) {
-        URL.revokeObjectURL(combined.blobUrl);
-      }
-
-      return {
-        ...result,
-        duration: combined.duration,
-      };
+      return await uploadVideoMutation.mutateAsync({ upload, filename });
     } catch (error) {
       setUploadProgress(0);
       throw error;
     }
-  }, [combineSegments, uploadVideoMutation]);
+  }, [uploadVideoMutation]);
 
   return {
+    combineSegments,
     uploadVideo,
     uploadProgress,
     isUploading: uploadVideoMutation.isPending,
@@ -0,0 +1,85 @@
+// ABOUTME: Tests for Blossom server list parsing and hash-addressed blob URLs
+// ABOUTME: Verifies kind 10063 parsing, URL normalization and mirror URL construction
+
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import {
+  buildBlossomServerListTags,
+  parseBlossomServerList,
+  getSha256FromUrl,
+  getBlossomBlobUrl,
+  getBlossomEndpoint,
+  getBlossomFallbackUrls,
+} from './blossom';
+
+const hash = 'f'.repeat(64);
+
+describe('blossom', () => {
+  describe('parseBlossomServerList', () => {
+    it('should return normalized, deduplicated servers in order', () => {
+      const event: NostrEvent = {
+        id: '',
+        pubkey: '',
+        created_at: 0,
+        kind: 10063,
+        content: '',
+        tags: [
+          ['server', 'https://blossom.example.com'],
+          ['server', 'https://cdn.example.org/media/'],
+          ['server', 'https://blossom.example.com/'],
+          ['server', 'not a url'],
+          ['r', 'wss://relay.example.com'],
+        ],
+        sig: '',
+      };
+
+      expect(parseBlossomServerList(event)).toEqual([
+        'https://blossom.example.com/',
+        'https://cdn.example.org/media/',
+      ]);
+    });
+  });
+
+  describe('buildBlossomServerListTags', () => {
+    it('should drop invalid and duplicate servers', () => {
+      expect(buildBlossomServerListTags([
+        'https://a.example.com',
+        'ftp://b.example.com',
+        'https://a.example.com/',
+        'https://c.example.com/',
+      ])).toEqual([
+        ['server', 'https://a.example.com/'],
+        ['server', 'https://c.example.com/'],
+      ]);
+    });
+  });
+
+  describe('getSha256FromUrl', () => {
+    it('should extract the hash from blob URLs', () => {
+      expect(getSha256FromUrl(`https://blossom.example.com/${hash}.mp4`)).toBe(hash);
+      expect(getSha256FromUrl('https://cdn.example.com/video.mp4')).toBeNull();
+    });
+  });
+
+  describe('getBlossomBlobUrl', () => {
+    it('should keep the original file extension', () => {
+      expect(getBlossomBlobUrl('https://blossom.example.com', hash, 'https://dead.example.com/v.mp4?x=1'))
+        .toBe(`https://blossom.example.com/${hash}.mp4`);
+    });
+  });
+
+  describe('getBlossomEndpoint', () => {
+    it('should keep the path of servers hosted under a sub-path', () => {
+      expect(getBlossomEndpoint('https://example.com/blossom', 'mirror')).toBe('https://example.com/blossom/mirror');
+      expect(getBlossomEndpoint('https://blossom.example.com/', 'upload')).toBe('https://blossom.example.com/upload');
+    });
+  });
+
+  describe('getBlossomFallbackUrls', () => {
+    it('should skip the original URL', () => {
+      const original = `https://blossom.example.com/${hash}.mp4`;
+      expect(getBlossomFallbackUrls(original, hash, ['https://blossom.example.com', 'https://mirror.example.com']))
+        .toEqual([`https://mirror.example.com/${hash}.mp4`]);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+// ABOUTME: Blossom (BUD-01/BUD-03) helpers for server lists and hash-addressed blob URLs
+// ABOUTME: Parses kind 10063 user server lists and builds /<sha256> URLs on alternate servers
+
+import type { NostrEvent, NostrFilter, NostrSigner } from '@nostrify/nostrify';
+
+/** Kind 10063 - BUD-03 user server list */
+export const BLOSSOM_SERVER_LIST_KIND = 10063;
+
+/** Default Blossom server used when a user has no server list */
+export const DEFAULT_BLOSSOM_SERVER = 'https://blossom.divine.video/';
+
+/**
+ * Normalize a server URL to origin + path with a trailing slash
+ * Returns null for anything that isn't an http(s) URL
+ */
+export function normalizeBlossomServer(server: string): string | null {
+  try {
+    const url = new URL(server.trim());
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    const path = url.pathname.endsWith('/') ? url.pathname : `${url.pathname}/`;
+    return `${url.origin}${path}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a kind 10063 event into an ordered, deduplicated list of server URLs
+ * Format: ["server", "https://blossom.example.com"]
+ */
+export function parseBlossomServerList(event: NostrEvent): string[] {
+  if (event.kind !== BLOSSOM_SERVER_LIST_KIND) return [];
+
+  const servers: string[] = [];
+  for (const tag of event.tags) {
+    if (tag[0] !== 'server' || !tag[1]) continue;
+    const server = normalizeBlossomServer(tag[1]);
+    if (server && !servers.includes(server)) {
+      servers.push(server);
+    }
+  }
+
+  return servers;
+}
+
+/**
+ * Extract the sha256 hash from a Blossom blob URL (https://server/<sha256>.ext)
+ */
+export function getSha256FromUrl(url: string): string | null {
+  try {
+    const { pathname } = new URL(url);
+    const match = pathname.match(/\/([0-9a-f]{64})(?:\.[a-z0-9]+)?$/i);
+    return match ? match[1].toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the BUD-01 GET /<sha256> URL for a blob on a server, keeping the original extension
+ */
+export function getBlossomBlobUrl(server: string, hash: string, originalUrl?: string): string {
+  const base = normalizeBlossomServer(server) ?? server;
+  let extension = '';
+  if (originalUrl) {
+    const match = originalUrl.match(/\.([a-z0-9]{2,5})(?:[?#].*)?$/i);
+    if (match) extension = `.${match[1].toLowerCase()}`;
+  }
+  return `${base}${hash}${extension}`;
+}
+
+/**
+ * Resolve a BUD endpoint (e.g. "upload") under a server, keeping any sub-path the server is hosted at
+ */
+export function getBlossomEndpoint(server: string, endpoint: string): string {
+  return new URL(endpoint, normalizeBlossomServer(server) ?? server).toString();
+}
+
+/**
+ * Build the tags for a kind 10063 server list event, dropping invalid and duplicate servers
+ */
+export function buildBlossomServerListTags(servers: string[]): string[][] {
+  const tags: string[][] = [];
+  for (const server of servers) {
+    const normalized = normalizeBlossomServer(server);
+    if (normalized && !tags.some(([, url]) => url === normalized)) {
+      tags.push(['server', normalized]);
+    }
+  }
+  return tags;
+}
+
+/** BUD-02 blob descriptor returned by upload and mirror endpoints */
+export interface BlobDescriptor {
+  url: string;
+  sha256: string;
+  size: number;
+  type?: string;
+}
+
+/**
+ * Sign a BUD-02 authorization header for an upload or mirror of one blob
+ */
+async function createUploadAuth(signer: NostrSigner, hash: string, content: string, size?: number): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const tags = [
+    ['t', 'upload'],
+    ['x', hash],
+    ['expiration', (now + 60).toString()],
+  ];
+  if (size !== undefined) tags.push(['size', size.toString()]);
+
+  const auth = await signer.signEvent({ kind: 24242, content, created_at: now, tags });
+  return `Nostr ${btoa(JSON.stringify(auth))}`;
+}
+
+/**
+ * Check whether a server already stores a blob (BUD-01 HEAD /<sha256>)
+ */
+export async function hasBlob(server: string, hash: string, signal?: AbortSignal): Promise<boolean> {
+  try {
+    const response = await fetch(getBlossomBlobUrl(server, hash), { method: 'HEAD', signal });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Upload a file to a server (BUD-02 PUT /upload), reporting progress as a 0-1 fraction
+ * Uses XMLHttpRequest because fetch has no upload progress events
+ */
+export async function uploadBlob(
+  server: string,
+  file: File,
+  hash: string,
+  signer: NostrSigner,
+  options: { onProgress?: (fraction: number) => void; signal?: AbortSignal } = {}
+): Promise<BlobDescriptor> {
+  const authorization = await createUploadAuth(signer, hash, `Upload ${file.name}`, file.size);
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', getBlossomEndpoint(server, 'upload'));
+    xhr.setRequestHeader('authorization', authorization);
+    if (file.type) xhr.setRequestHeader('content-type', file.type);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) options.onProgress?.(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        const reason = xhr.getResponseHeader('x-reason');
+        reject(new Error(`Upload to ${server} failed: ${xhr.status}${reason ? ` ${reason}` : ''}`));
+        return;
+      }
+      try {
+        const descriptor = JSON.parse(xhr.responseText) as BlobDescriptor;
+        if (!descriptor.url || descriptor.sha256 !== hash) {
+          throw new Error('unexpected blob descriptor');
+        }
+        resolve(descriptor);
+      } catch (error) {
+        reject(new Error(`Upload to ${server} returned an invalid response: ${error instanceof Error ? error.message : error}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error(`Upload to ${server} failed: network error`));
+    xhr.onabort = () => reject(new DOMException('Upload aborted', 'AbortError'));
+    options.signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+
+    xhr.send(file);
+  });
+}
+
+/**
+ * Ask a server to copy a blob from another server (BUD-04 PUT /mirror)
+ * Returns the URL of the mirrored blob
+ */
+export async function mirrorBlob(
+  server: string,
+  sourceUrl: string,
+  hash: string,
+  signer: NostrSigner,
+  signal?: AbortSignal
+): Promise<string> {
+  const authorization = await createUploadAuth(signer, hash, `Mirror ${hash}`);
+
+  const response = await fetch(getBlossomEndpoint(server, 'mirror'), {
+    method: 'PUT',
+    body: JSON.stringify({ url: sourceUrl }),
+    headers: {
+      authorization,
+      'content-type': 'application/json',
+    },
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Mirror to ${server} failed: ${response.status} ${response.statusText}`);
+  }
+
+  const descriptor = await response.json() as Partial<BlobDescriptor>;
+  if (descriptor.sha256 && descriptor.sha256 !== hash) {
+    throw new Error(`Mirror to ${server} returned a different hash: ${descriptor.sha256}`);
+  }
+
+  return descriptor.url || getBlossomBlobUrl(server, hash, sourceUrl);
+}
+
+/**
+ * Fetch a user's Blossom server list (kind 10063)
+ * Returns an empty list if the user hasn't published one
+ */
+export async function fetchBlossomServers(
+  nostr: { query: (filters: NostrFilter[], options: { signal: AbortSignal }) => Promise<NostrEvent[]> },
+  pubkey: string,
+  signal: AbortSignal
+): Promise<string[]> {
+  const events = await nostr.query(
+    [{ kinds: [BLOSSOM_SERVER_LIST_KIND], authors: [pubkey], limit: 1 }],
+    { signal }
+  );
+
+  const latest = events.sort((a, b) => b.created_at - a.created_at)[0];
+  return latest ? parseBlossomServerList(latest) : [];
+}
+
+/**
+ * Candidate URLs for a blob: the original URL first, then the same hash on each server
+ */
+export function getBlossomFallbackUrls(originalUrl: string, hash: string, servers: string[]): string[] {
+  const urls = [originalUrl];
+  for (const server of servers) {
+    const url = getBlossomBlobUrl(server, hash, originalUrl);
+    if (!urls.includes(url)) urls.push(url);
+  }
+  return urls.slice(1);
+}
@@ -0,0 +1,36 @@
+// ABOUTME: Tests for per-kind cache policies
+// ABOUTME: Verifies which queries are cacheable, how policies combine, and freshness decisions
+
+import { describe, it, expect } from 'vitest';
+import { VIDEO_KINDS } from '@/types/video';
+import { CACHE_POLICIES, getCacheDecision, getQueryPolicy } from './cachePolicies';
+
+describe('getQueryPolicy', () => {
+  it('is undefined for kinds without a policy, kindless filters and searches', () => {
+    expect(getQueryPolicy([{ kinds: [0] }, { kinds: [1] }])).toBeUndefined();
+    expect(getQueryPolicy([{ ids: ['abc'] }])).toBeUndefined();
+    expect(getQueryPolicy([{ kinds: [34236], search: 'sort:hot' }])).toBeUndefined();
+  });
+
+  it('combines kinds into the strictest policy', () => {
+    const policy = getQueryPolicy([{ kinds: [0, 7] }]);
+
+    expect(policy?.ttl).toBe(CACHE_POLICIES[7].ttl);
+    expect(policy?.cacheFirst).toBe(false);
+  });
+
+  it('covers every video kind, so feed queries fall back to the cache', () => {
+    expect(getQueryPolicy([{ kinds: VIDEO_KINDS }])).toEqual(CACHE_POLICIES[34236]);
+  });
+});
+
+describe('getCacheDecision', () => {
+  const policy = { ttl: 1000, staleWhileRevalidate: 5000, maxEntries: 10, cacheFirst: true };
+
+  it('moves from fresh to stale to expired, and treats unknown age as stale', () => {
+    expect(getCacheDecision(policy, 500)).toBe('fresh');
+    expect(getCacheDecision(policy, 3000)).toBe('stale');
+    expect(getCacheDecision(policy, 6000)).toBe('expired');
+    expect(getCacheDecision(policy, undefined)).toBe('stale');
+  });
+});
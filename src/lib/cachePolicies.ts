@@ -0,0 +1,77 @@
+// ABOUTME: Per-kind caching policies for the cache-aware Nostr client
+// ABOUTME: Each cached kind sets how long results stay fresh, how long stale ones are still served, and its size cap
+
+import type { NostrFilter } from '@nostrify/nostrify';
+import { VIDEO_KINDS } from '@/types/video';
+
+export interface CachePolicy {
+  ttl: number; // ms cached results are fresh and relays aren't asked
+  staleWhileRevalidate: number; // ms past ttl that cached results are still served while refreshing
+  maxEntries: number; // Most events of this kind kept in the persistent cache
+  cacheFirst: boolean; // Serve cached results before asking relays; otherwise only when relays fail
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const VIDEO_POLICY: CachePolicy = { ttl: 2 * MINUTE, staleWhileRevalidate: 24 * HOUR, maxEntries: 10000, cacheFirst: false };
+
+export const CACHE_POLICIES: Record<number, CachePolicy> = {
+  0: { ttl: 10 * MINUTE, staleWhileRevalidate: 7 * 24 * HOUR, maxEntries: 5000, cacheFirst: true }, // Profiles
+  3: { ttl: 5 * MINUTE, staleWhileRevalidate: 7 * 24 * HOUR, maxEntries: 1000, cacheFirst: true }, // Contact lists
+  5: { ttl: MINUTE, staleWhileRevalidate: HOUR, maxEntries: 5000, cacheFirst: false }, // Deletions
+  7: { ttl: MINUTE, staleWhileRevalidate: HOUR, maxEntries: 20000, cacheFirst: false }, // Reactions
+  9735: { ttl: MINUTE, staleWhileRevalidate: HOUR, maxEntries: 5000, cacheFirst: false }, // Zap receipts
+  10001: { ttl: 5 * MINUTE, staleWhileRevalidate: 7 * 24 * HOUR, maxEntries: 1000, cacheFirst: true }, // Mute lists
+  10002: { ttl: 30 * MINUTE, staleWhileRevalidate: 7 * 24 * HOUR, maxEntries: 5000, cacheFirst: true }, // Relay lists
+  30005: { ttl: 5 * MINUTE, staleWhileRevalidate: 24 * HOUR, maxEntries: 2000, cacheFirst: true }, // Video lists
+  // Videos: feeds ask for all video kinds together, so they share one policy
+  ...Object.fromEntries(VIDEO_KINDS.map(kind => [kind, VIDEO_POLICY])),
+};
+
+/**
+ * The policy for a single kind, if it's cached at all
+ */
+export function getKindPolicy(kind: number): CachePolicy | undefined {
+  return CACHE_POLICIES[kind];
+}
+
+/**
+ * The policy for a whole query: the strictest of its kinds' policies
+ * Returns undefined when any filter can't be answered from the cache - no kinds, an
+ * uncached kind, or a NIP-50 search the cache can't evaluate
+ */
+export function getQueryPolicy(filters: NostrFilter[]): CachePolicy | undefined {
+  const policies: CachePolicy[] = [];
+
+  for (const filter of filters) {
+    if (!filter.kinds?.length || filter.search) return undefined;
+    for (const kind of filter.kinds) {
+      const policy = getKindPolicy(kind);
+      if (!policy) return undefined;
+      policies.push(policy);
+    }
+  }
+
+  if (policies.length === 0) return undefined;
+
+  return {
+    ttl: Math.min(...policies.map(policy => policy.ttl)),
+    staleWhileRevalidate: Math.min(...policies.map(policy => policy.staleWhileRevalidate)),
+    maxEntries: Math.min(...policies.map(policy => policy.maxEntries)),
+    cacheFirst: policies.every(policy => policy.cacheFirst),
+  };
+}
+
+export type CacheDecision = 'fresh' | 'stale' | 'expired';
+
+/**
+ * How to treat cached results fetched `age` ms ago
+ * Results we have no fetch time for (e.g. from before a reload) count as stale
+ */
+export function getCacheDecision(policy: CachePolicy, age: number | undefined): CacheDecision {
+  if (age === undefined) return 'stale';
+  if (age < policy.ttl) return 'fresh';
+  if (age < policy.ttl + policy.staleWhileRevalidate) return 'stale';
+  return 'expired';
+}
@@ -1,15 +1,22 @@
 // ABOUTME: Cache-aware Nostr client wrapper that checks cache before querying relays
-// ABOUTME: Automatically caches query results and published events
+// ABOUTME: Per-kind policies decide what is cached, for how long, and whether the cache or relays answer first
 
 import type { NostrEvent, NostrFilter } from '@nostrify/nostrify';
 import { eventCache } from './eventCache';
-import { debugLog } from './debug';
+import { getCacheDecision, getKindPolicy, getQueryPolicy } from './cachePolicies';
+import { debugLog, debugWarn } from './debug';
 
 interface NostrClient {
   query: (filters: NostrFilter[], opts?: { signal?: AbortSignal }) => Promise<NostrEvent[]>;
   event: (event: NostrEvent) => Promise<void>;
 }
 
+const PRUNE_INTERVAL = 10 * 60 * 1000; // ms between size checks of each kind
+
+// When each query was last answered by relays, keyed by its filters
+const fetchedAt = new Map<string, number>();
+const lastPruned = new Map<number, number>();
+
 /**
  * Wrap a Nostr client with caching layer
  * Preserves all original methods while adding caching to query and event
@@ -17,40 +24,51 @@ interface NostrClient {
 export function createCachedNostr<T extends NostrClient>(baseNostr: T): T {
   const cachedNostr = Object.create(baseNostr) as T;
 
-  // Wrap query method with cache-first logic
+  // Wrap query method with policy-driven cache logic
   cachedNostr.query = async (filters: NostrFilter[], opts?: { signal?: AbortSignal }): Promise<NostrEvent[]> => {
     debugLog('[CachedNostr] Query with filters:', filters);
 
-    // Check if this is a profile/contact query that should be cached
-    const isProfileQuery = filters.some(f => f.kinds?.includes(0));
-    const isContactQuery = filters.some(f => f.kinds?.includes(3));
-    const isCacheable = isProfileQuery || isContactQuery;
+    const policy = getQueryPolicy(filters);
+    const key = JSON.stringify(filters);
 
-    // Try cache first for cacheable queries
-    if (isCacheable) {
+    // Cache-first kinds: fresh results skip relays, stale ones are served while relays refresh them
+    if (policy?.cacheFirst) {
       const cachedResults = await eventCache.query(filters);
       if (cachedResults.length > 0) {
-        debugLog(`[CachedNostr] Cache hit: ${cachedResults.length} events`);
-
-        // Return cached results immediately, then update in background
-        _queryAndCacheInBackground(baseNostr.query.bind(baseNostr), filters, opts);
-
-        return cachedResults;
+        const lastFetched = fetchedAt.get(key);
+        const decision = getCacheDecision(policy, lastFetched === undefined ? undefined : Date.now() - lastFetched);
+        debugLog(`[CachedNostr] Cache hit (${decision}): ${cachedResults.length} events`);
+
+        if (decision === 'fresh') {
+          return cachedResults;
+        }
+        if (decision === 'stale') {
+          _queryAndCacheInBackground(baseNostr.query.bind(baseNostr), filters, opts);
+          return cachedResults;
+        }
       } else {
         debugLog('[CachedNostr] Cache miss, querying relay');
       }
     }
 
-    // Query from relay
-    const results = await baseNostr.query(filters, opts);
-    debugLog(`[CachedNostr] Relay returned ${results.length} events`);
-
-    // Cache the results if cacheable
-    if (isCacheable && results.length > 0) {
-      await cacheResults(results);
+    try {
+      // Query from relay
+      const results = await baseNostr.query(filters, opts);
+      debugLog(`[CachedNostr] Relay returned ${results.length} events`);
+      fetchedAt.set(key, Date.now());
+      cacheResults(results);
+      return results;
+    } catch (err) {
+      // Relays failed - whatever the cache still has beats nothing
+      if (policy) {
+        const cachedResults = await eventCache.query(filters);
+        if (cachedResults.length > 0) {
+          debugLog(`[CachedNostr] Relay query failed, serving ${cachedResults.length} cached events`);
+          return cachedResults;
+        }
+      }
+      throw err;
     }
-
-    return results;
   };
 
   // Wrap event method to cache published events
@@ -58,9 +76,11 @@ export function createCachedNostr<T extends NostrClient>(baseNostr: T): T {
     // Publish to relay
     await baseNostr.event(event);
 
-    // Cache the event
-    await eventCache.event(event);
-    debugLog('[CachedNostr] Event published and cached:', event.id);
+    // Cache the event (deletions purge what they delete)
+    if (getKindPolicy(event.kind)) {
+      await eventCache.event(event);
+      debugLog('[CachedNostr] Event published and cached:', event.id);
+    }
   };
 
   return cachedNostr;
@@ -76,6 +96,7 @@ async function _queryAndCacheInBackground(
 ): Promise<void> {
   try {
     const results = await queryFn(filters, opts);
+    fetchedAt.set(JSON.stringify(filters), Date.now());
     await cacheResults(results);
     debugLog(`[CachedNostr] Background cache update: ${results.length} events`);
   } catch (err) {
@@ -84,10 +105,29 @@ async function _queryAndCacheInBackground(
 }
 
 /**
- * Cache multiple events
+ * Cache the events of kinds that have a policy, then keep those kinds within their size caps
  */
 async function cacheResults(events: NostrEvent[]): Promise<void> {
-  for (const event of events) {
-    await eventCache.event(event);
+  const kinds = new Set<number>();
+
+  try {
+    for (const event of events) {
+      if (!getKindPolicy(event.kind)) continue;
+      await eventCache.event(event);
+      kinds.add(event.kind);
+    }
+
+    for (const kind of kinds) {
+      const now = Date.now();
+      if (now - (lastPruned.get(kind) ?? 0) < PRUNE_INTERVAL) continue;
+      lastPruned.set(kind, now);
+
+      const removed = await eventCache.prune(kind, getKindPolicy(kind)!.maxEntries);
+      if (removed > 0) {
+        debugLog(`[CachedNostr] Pruned ${removed} oldest kind ${kind} events`);
+      }
+    }
+  } catch (err) {
+    debugWarn('[CachedNostr] Failed to cache events:', err);
   }
 }
@@ -0,0 +1,68 @@
+// ABOUTME: Tests for the per-reason content severity policy
+// ABOUTME: Verifies user overrides, fixed reasons, mute reason mapping, self-labels and grading to the worst severity
+
+import { describe, it, expect } from 'vitest';
+import { ContentFilterReason, ContentSeverity, MuteType } from '@/types/moderation';
+import { getMuteReason, getSelfLabelReasons, getSeverityPolicy, gradeSelfLabels, gradeSeverity, isHiddenSeverity } from './contentSeverity';
+
+describe('contentSeverity', () => {
+  it('applies overrides except to fixed reasons', () => {
+    const policy = getSeverityPolicy({
+      [ContentFilterReason.SPAM]: ContentSeverity.WARNING,
+      [ContentFilterReason.CSAM]: ContentSeverity.INFO,
+    });
+
+    expect(policy[ContentFilterReason.SPAM]).toBe(ContentSeverity.WARNING);
+    expect(policy[ContentFilterReason.CSAM]).toBe(ContentSeverity.BLOCK);
+  });
+
+  it('grades to the most severe reason and only hides HIDE and BLOCK', () => {
+    const policy = getSeverityPolicy();
+
+    expect(gradeSeverity([], policy)).toBe(ContentSeverity.INFO);
+    expect(gradeSeverity([ContentFilterReason.SEXUAL_CONTENT], policy)).toBe(ContentSeverity.WARNING);
+    expect(gradeSeverity([ContentFilterReason.SEXUAL_CONTENT, ContentFilterReason.SPAM], policy)).toBe(ContentSeverity.HIDE);
+    expect(isHiddenSeverity(ContentSeverity.WARNING)).toBe(false);
+    expect(isHiddenSeverity(ContentSeverity.BLOCK)).toBe(true);
+  });
+
+  it('maps mute reasons that name a filter reason, and others to OTHER', () => {
+    const mute = { type: MuteType.USER, value: 'pk', createdAt: 1 };
+
+    expect(getMuteReason({ ...mute, reason: 'spam' })).toBe(ContentFilterReason.SPAM);
+    expect(getMuteReason({ ...mute, reason: 'Muted from video' })).toBe(ContentFilterReason.OTHER);
+  });
+
+  it('blurs self-labelled videos, hides NSFW from logged-out viewers and honours the sensitive toggle', () => {
+    const policy = getSeverityPolicy();
+    const nsfw = [{ namespace: 'content-warning', value: 'nsfw' }];
+    const viewer = { policy, showSensitive: false, loggedIn: true };
+
+    expect(gradeSelfLabels(undefined, [{ namespace: 'ugc', value: 'funny' }], viewer).severity).toBe(ContentSeverity.INFO);
+    expect(gradeSelfLabels('', [], viewer).severity).toBe(ContentSeverity.WARNING);
+    expect(gradeSelfLabels(undefined, nsfw, viewer)).toEqual({
+      severity: ContentSeverity.WARNING,
+      reasons: [ContentFilterReason.SEXUAL_CONTENT],
+    });
+    expect(gradeSelfLabels(undefined, nsfw, { ...viewer, loggedIn: false }).severity).toBe(ContentSeverity.HIDE);
+    expect(gradeSelfLabels('gore', [], { ...viewer, loggedIn: false }).severity).toBe(ContentSeverity.WARNING);
+    expect(gradeSelfLabels(undefined, nsfw, { ...viewer, loggedIn: false, showSensitive: true }).severity).toBe(ContentSeverity.INFO);
+  });
+
+  it('matches each namespace\'s vocabulary exactly rather than by substring', () => {
+    expect(getSelfLabelReasons('Essex, young adult fiction', [
+      { namespace: 'content-warning', value: 'graphic design' },
+      { namespace: 'ugc', value: 'nsfw' },
+    ])).toEqual([]);
+    expect(getSelfLabelReasons('Nudity, gore', [
+      { namespace: 'social.nos.ontology', value: 'NS-spam' },
+    ])).toEqual([ContentFilterReason.SEXUAL_CONTENT, ContentFilterReason.VIOLENCE, ContentFilterReason.SPAM]);
+  });
+
+  it('blocks CSAM labels even when sensitive content is shown', () => {
+    const viewer = { policy: getSeverityPolicy(), showSensitive: true, loggedIn: true };
+
+    expect(gradeSelfLabels(undefined, [{ namespace: 'social.nos.ontology', value: 'NS-csam' }], viewer).severity)
+      .toBe(ContentSeverity.BLOCK);
+  });
+});
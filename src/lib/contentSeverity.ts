@@ -0,0 +1,148 @@
+// ABOUTME: Per-reason severity policy for moderated content, with user overrides from app config
+// ABOUTME: Grades filter reasons, including those from NIP-36/NIP-32 self-labels, to the most severe treatment
+
+import { ContentFilterReason, ContentSeverity, type MuteItem, type SeverityPolicy } from '@/types/moderation';
+import type { ContentLabel } from '@/types/video';
+
+const SEVERITY_RANK: Record<ContentSeverity, number> = {
+  [ContentSeverity.INFO]: 0,
+  [ContentSeverity.WARNING]: 1,
+  [ContentSeverity.HIDE]: 2,
+  [ContentSeverity.BLOCK]: 3,
+};
+
+export const DEFAULT_SEVERITY_POLICY: SeverityPolicy = {
+  [ContentFilterReason.SPAM]: ContentSeverity.HIDE,
+  [ContentFilterReason.HARASSMENT]: ContentSeverity.HIDE,
+  [ContentFilterReason.VIOLENCE]: ContentSeverity.WARNING,
+  [ContentFilterReason.SEXUAL_CONTENT]: ContentSeverity.WARNING,
+  [ContentFilterReason.COPYRIGHT]: ContentSeverity.HIDE,
+  [ContentFilterReason.FALSE_INFO]: ContentSeverity.WARNING,
+  [ContentFilterReason.CSAM]: ContentSeverity.BLOCK,
+  [ContentFilterReason.AI_GENERATED]: ContentSeverity.WARNING,
+  [ContentFilterReason.IMPERSONATION]: ContentSeverity.HIDE,
+  [ContentFilterReason.ILLEGAL]: ContentSeverity.BLOCK,
+  [ContentFilterReason.OTHER]: ContentSeverity.HIDE, // Plain mutes
+};
+
+/**
+ * Reasons whose severity can't be lowered by the user
+ */
+export const FIXED_SEVERITY_REASONS: ContentFilterReason[] = [ContentFilterReason.CSAM];
+
+/**
+ * The default policy with the user's overrides applied
+ */
+export function getSeverityPolicy(overrides: Partial<SeverityPolicy> = {}): SeverityPolicy {
+  const policy = { ...DEFAULT_SEVERITY_POLICY, ...overrides };
+  for (const reason of FIXED_SEVERITY_REASONS) {
+    policy[reason] = DEFAULT_SEVERITY_POLICY[reason];
+  }
+  return policy;
+}
+
+/**
+ * The filter reason a mute stands for: its reason when that names one (e.g. "spam"), otherwise OTHER
+ */
+export function getMuteReason(item: MuteItem): ContentFilterReason {
+  const reasons: string[] = Object.values(ContentFilterReason);
+  return item.reason && reasons.includes(item.reason) ? item.reason as ContentFilterReason : ContentFilterReason.OTHER;
+}
+
+// Content-warning words clients use, in the content-warning label namespace and as NIP-36 reasons
+const CONTENT_WARNING_REASONS = new Map<string, ContentFilterReason>([
+  ['nsfw', ContentFilterReason.SEXUAL_CONTENT],
+  ['nudity', ContentFilterReason.SEXUAL_CONTENT],
+  ['nude', ContentFilterReason.SEXUAL_CONTENT],
+  ['sexual', ContentFilterReason.SEXUAL_CONTENT],
+  ['sexual-content', ContentFilterReason.SEXUAL_CONTENT],
+  ['porn', ContentFilterReason.SEXUAL_CONTENT],
+  ['explicit', ContentFilterReason.SEXUAL_CONTENT],
+  ['adult', ContentFilterReason.SEXUAL_CONTENT],
+  ['violence', ContentFilterReason.VIOLENCE],
+  ['gore', ContentFilterReason.VIOLENCE],
+  ['graphic-violence', ContentFilterReason.VIOLENCE],
+  ['ai', ContentFilterReason.AI_GENERATED],
+  ['ai-generated', ContentFilterReason.AI_GENERATED],
+  ['spam', ContentFilterReason.SPAM],
+  ['csam', ContentFilterReason.CSAM],
+]);
+
+// The "NS-" prefixed social.nos.ontology labels, which is how we publish our own reasons
+const ONTOLOGY_REASONS = new Map<string, ContentFilterReason>(
+  Object.values(ContentFilterReason).map(reason => [`ns-${reason}`, reason])
+);
+
+// Label namespaces whose vocabulary we understand; labels in any other namespace (e.g. ugc) aren't about moderation
+const NAMESPACE_REASONS = new Map<string, Map<string, ContentFilterReason>>([
+  ['content-warning', CONTENT_WARNING_REASONS],
+  ['social.nos.ontology', ONTOLOGY_REASONS],
+]);
+
+/**
+ * The filter reason a NIP-32 label stands for, matching its namespace's vocabulary exactly
+ */
+export function getLabelReason({ namespace, value }: ContentLabel): ContentFilterReason | undefined {
+  return NAMESPACE_REASONS.get(namespace)?.get(value.trim().toLowerCase());
+}
+
+/**
+ * The filter reasons a video's own content warning and labels name
+ * A NIP-36 reason is free text, so only the comma-separated terms that are content-warning words count;
+ * anything else still earns the generic warning without naming a reason.
+ */
+export function getSelfLabelReasons(contentWarning: string | undefined, labels: ContentLabel[] = []): ContentFilterReason[] {
+  const warningTerms = (contentWarning ?? '').split(/[,;]/).map(term => term.trim().toLowerCase());
+  const reasons = [
+    ...warningTerms.map(term => CONTENT_WARNING_REASONS.get(term)),
+    ...labels.map(getLabelReason),
+  ].filter((reason): reason is ContentFilterReason => !!reason && reason !== ContentFilterReason.OTHER);
+  return Array.from(new Set(reasons));
+}
+
+/**
+ * The most severe of the given severities; INFO when there are none
+ */
+export function worstSeverity(...severities: ContentSeverity[]): ContentSeverity {
+  return severities.reduce<ContentSeverity>(
+    (worst, severity) => SEVERITY_RANK[severity] > SEVERITY_RANK[worst] ? severity : worst,
+    ContentSeverity.INFO
+  );
+}
+
+/**
+ * The most severe treatment any of the reasons calls for; INFO when there are none
+ */
+export function gradeSeverity(reasons: ContentFilterReason[], policy: SeverityPolicy): ContentSeverity {
+  return worstSeverity(...reasons.map(reason => policy[reason]));
+}
+
+/**
+ * How a video's own content warning and labels are treated
+ * Flagged content is at least blurred unless the viewer allows sensitive content; sexual content
+ * is hidden outright from logged-out viewers. CSAM labels (e.g. NS-csam) are blocked whatever the setting.
+ */
+export function gradeSelfLabels(
+  contentWarning: string | undefined,
+  labels: ContentLabel[] = [],
+  { policy, showSensitive, loggedIn }: { policy: SeverityPolicy; showSensitive: boolean; loggedIn: boolean }
+): { severity: ContentSeverity; reasons: ContentFilterReason[] } {
+  const reasons = getSelfLabelReasons(contentWarning, labels);
+  if (contentWarning === undefined && reasons.length === 0) {
+    return { severity: ContentSeverity.INFO, reasons };
+  }
+  if (showSensitive) {
+    return { severity: gradeSeverity(reasons.filter(reason => FIXED_SEVERITY_REASONS.includes(reason)), policy), reasons };
+  }
+  if (!loggedIn && reasons.includes(ContentFilterReason.SEXUAL_CONTENT)) {
+    return { severity: ContentSeverity.HIDE, reasons };
+  }
+  return { severity: worstSeverity(ContentSeverity.WARNING, gradeSeverity(reasons, policy)), reasons };
+}
+
+/**
+ * Whether content at this severity is kept out of feeds, rather than shown or shown behind a warning
+ */
+export function isHiddenSeverity(severity: ContentSeverity): boolean {
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[ContentSeverity.HIDE];
+}
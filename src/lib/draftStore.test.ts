@@ -0,0 +1,27 @@
+// ABOUTME: Tests for draft expiry under the storage quota
+// ABOUTME: Verifies oldest-first eviction and that the draft being saved is always kept
+
+import { describe, it, expect } from 'vitest';
+import { selectDraftsToExpire } from './draftStore';
+
+describe('selectDraftsToExpire', () => {
+  const drafts = [
+    { id: 'newest', size: 40, updatedAt: 3000 },
+    { id: 'oldest', size: 30, updatedAt: 1000 },
+    { id: 'middle', size: 50, updatedAt: 2000 },
+  ];
+
+  it('keeps everything under the quota', () => {
+    expect(selectDraftsToExpire(drafts, 120)).toEqual([]);
+  });
+
+  it('expires the least recently edited drafts first', () => {
+    expect(selectDraftsToExpire(drafts, 100)).toEqual(['oldest']);
+    expect(selectDraftsToExpire(drafts, 60)).toEqual(['oldest', 'middle']);
+  });
+
+  it('never expires the draft being saved', () => {
+    expect(selectDraftsToExpire(drafts, 60, 'oldest')).toEqual(['middle', 'newest']);
+    expect(selectDraftsToExpire(drafts, 10, 'newest')).toEqual(['oldest', 'middle']);
+  });
+});
@@ -0,0 +1,114 @@
+// ABOUTME: IndexedDB persistence for video drafts - recorded segments plus title, caption and hashtags
+// ABOUTME: Evicts the least recently edited drafts once their total size passes the storage quota
+
+import { debugLog } from './debug';
+import { IndexedDBObjectStore } from './indexedDBObjectStore';
+
+export interface DraftSegment {
+  blob: Blob;
+  duration: number; // milliseconds
+}
+
+export interface VideoDraft {
+  id: string;
+  pubkey: string;
+  segments: DraftSegment[];
+  stage: 'recording' | 'metadata'; // Where resuming picks up
+  title: string;
+  description: string;
+  hashtags: string[];
+  size: number; // Total bytes of all segments
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type DraftInput = Omit<VideoDraft, 'size' | 'createdAt' | 'updatedAt'>;
+
+export const DEFAULT_DRAFT_QUOTA_MB = 200;
+
+/**
+ * Pick the drafts to delete so the rest fit in quotaBytes, oldest edit first
+ * The draft being saved (keepId) is never picked, even if it alone is over quota
+ */
+export function selectDraftsToExpire(
+  drafts: Pick<VideoDraft, 'id' | 'size' | 'updatedAt'>[],
+  quotaBytes: number,
+  keepId?: string
+): string[] {
+  let total = drafts.reduce((sum, draft) => sum + draft.size, 0);
+  const expired: string[] = [];
+
+  for (const draft of [...drafts].sort((a, b) => a.updatedAt - b.updatedAt)) {
+    if (total <= quotaBytes) break;
+    if (draft.id === keepId) continue;
+    expired.push(draft.id);
+    total -= draft.size;
+  }
+
+  return expired;
+}
+
+export function generateDraftId(): string {
+  return `draft-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+class DraftStore extends IndexedDBObjectStore {
+  constructor() {
+    // Without IndexedDB recording still works, drafts just aren't kept
+    super({ dbName: 'video_drafts', version: 1, storeName: 'drafts', keyPath: 'id', indexes: ['pubkey'], logName: 'DraftStore' });
+  }
+
+  /** An account's drafts, most recently edited first */
+  async list(pubkey: string): Promise<VideoDraft[]> {
+    const drafts = await this.request<VideoDraft[]>('readonly', store => store.index('pubkey').getAll(pubkey)) ?? [];
+    return drafts.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async get(id: string): Promise<VideoDraft | undefined> {
+    return this.request<VideoDraft>('readonly', store => store.get(id));
+  }
+
+  /**
+   * Save a draft, then expire old drafts (of any account on this device) that no longer fit the quota
+   */
+  async save(draft: DraftInput, quotaBytes: number): Promise<string[]> {
+    const existing = await this.get(draft.id);
+    const now = Date.now();
+    await this.request('readwrite', store => store.put({
+      ...draft,
+      size: draft.segments.reduce((sum, segment) => sum + segment.blob.size, 0),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    } satisfies VideoDraft));
+
+    return this.enforceQuota(quotaBytes, draft.id);
+  }
+
+  /**
+   * Delete the oldest drafts until the rest fit in quotaBytes, keeping keepId
+   * Returns the ids that were expired
+   */
+  async enforceQuota(quotaBytes: number, keepId?: string): Promise<string[]> {
+    const all = await this.request<VideoDraft[]>('readonly', store => store.getAll()) ?? [];
+    const expired = selectDraftsToExpire(all, quotaBytes, keepId);
+    for (const id of expired) {
+      await this.remove(id);
+    }
+    if (expired.length > 0) {
+      debugLog(`[DraftStore] Expired ${expired.length} old drafts to stay under ${quotaBytes} bytes`);
+    }
+    return expired;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  /** Bytes used by all drafts on this device */
+  async usage(): Promise<number> {
+    const all = await this.request<VideoDraft[]>('readonly', store => store.getAll()) ?? [];
+    return all.reduce((sum, draft) => sum + draft.size, 0);
+  }
+}
+
+export const draftStore = new DraftStore();
@@ -1,22 +1,56 @@
 // ABOUTME: Persistent event cache using IndexedDB and in-memory NCache
-// ABOUTME: Automatically caches user's own events and frequently accessed events
+// ABOUTME: Keeps one row per replaceable/addressable event, indexes common tags, and evicts under a byte budget
 
 import type { NostrEvent, NostrFilter, NStore } from '@nostrify/nostrify';
-import { NCache } from '@nostrify/nostrify';
+import { NCache, NKinds } from '@nostrify/nostrify';
+import {
+  INDEXED_TAGS,
+  SYNC_STATE_KEY,
+  getCacheBudget,
+  getReplaceKey,
+  isNewerEvent,
+  selectEventsToEvict,
+  toStoredEvent,
+  type StoredEvent,
+  type StoredEventMeta,
+} from './eventCacheRecords';
+import { debugLog, debugWarn } from './debug';
 
 const DB_NAME = 'nostr_events';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = 'events';
 
+const TOUCH_INTERVAL = 60 * 60 * 1000; // ms between access time updates of an event
+const EVICTION_WRITE_INTERVAL = 500; // Writes between eviction passes
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
 /**
  * IndexedDB-backed persistent event store
  */
 class IndexedDBStore implements NStore {
   private db: IDBDatabase | null = null;
   private initPromise: Promise<void>;
+  private writesSinceEviction = 0;
 
   constructor() {
     this.initPromise = this.init();
+    this.initPromise
+      .then(() => this.evict())
+      .catch(error => debugWarn('[EventCache] Startup eviction failed:', error));
   }
 
   private async init(): Promise<void> {
@@ -32,16 +66,27 @@ class IndexedDBStore implements NStore {
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
 
-        // Create events object store with indexes for efficient querying
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-
-          // Indexes for common query patterns
-          store.createIndex('pubkey', 'pubkey', { unique: false });
-          store.createIndex('kind', 'kind', { unique: false });
-          store.createIndex('created_at', 'created_at', { unique: false });
-          store.createIndex('pubkey_kind', ['pubkey', 'kind'], { unique: false });
+        // Version 1 stored bare events without index fields - it's only a cache, so start over,
+        // along with the sync progress that assumed those events were here
+        if (db.objectStoreNames.contains(STORE_NAME)) {
+          db.deleteObjectStore(STORE_NAME);
+          try {
+            localStorage.removeItem(SYNC_STATE_KEY);
+          } catch (error) {
+            debugWarn('[EventCache] Failed to reset sync state:', error);
+          }
         }
+
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+
+        // Indexes for common query patterns
+        store.createIndex('pubkey', 'pubkey', { unique: false });
+        store.createIndex('kind', 'kind', { unique: false });
+        store.createIndex('created_at', 'created_at', { unique: false });
+        store.createIndex('pubkey_kind', ['pubkey', 'kind'], { unique: false });
+        store.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+        store.createIndex('replaceKey', 'replaceKey', { unique: true });
+        store.createIndex('accessedAt', 'accessedAt', { unique: false });
       };
     });
   }
@@ -56,14 +101,29 @@ class IndexedDBStore implements NStore {
 
   async event(event: NostrEvent): Promise<void> {
     const db = await this.ensureDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.put(event);
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const done = transactionDone(transaction);
+    const record = toStoredEvent(event, Date.now());
+
+    // Replaceable and addressable events: only replace on newer
+    if (record.replaceKey) {
+      const existing = await promisify<StoredEvent | undefined>(store.index('replaceKey').get(record.replaceKey));
+      if (existing && (existing.id === event.id || isNewerEvent(existing.event, event))) {
+        return done;
+      }
+      if (existing) {
+        store.delete(existing.id);
+      }
+    }
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
+    store.put(record);
+    await done;
+
+    if (++this.writesSinceEviction >= EVICTION_WRITE_INTERVAL) {
+      this.writesSinceEviction = 0;
+      this.evict().catch(error => debugWarn('[EventCache] Eviction failed:', error));
+    }
   }
 
   async query(filters: NostrFilter[]): Promise<NostrEvent[]> {
@@ -85,48 +145,74 @@ class IndexedDBStore implements NStore {
   }
 
   private async queryFilter(db: IDBDatabase, filter: NostrFilter): Promise<NostrEvent[]> {
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([STORE_NAME], 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const events: NostrEvent[] = [];
-
-      // Use indexes when possible for better performance
-      let request: IDBRequest;
-
-      if (filter.authors && filter.authors.length === 1 && filter.kinds && filter.kinds.length === 1) {
-        // Use compound index for pubkey + kind
-        const index = store.index('pubkey_kind');
-        request = index.openCursor(IDBKeyRange.only([filter.authors[0], filter.kinds[0]]));
-      } else if (filter.authors && filter.authors.length === 1) {
-        // Use pubkey index
-        const index = store.index('pubkey');
-        request = index.openCursor(IDBKeyRange.only(filter.authors[0]));
-      } else if (filter.kinds && filter.kinds.length === 1) {
-        // Use kind index
-        const index = store.index('kind');
-        request = index.openCursor(IDBKeyRange.only(filter.kinds[0]));
-      } else {
-        // Full table scan for complex queries
-        request = store.openCursor();
-      }
+    const transaction = db.transaction([STORE_NAME], 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const candidates = await this.getCandidates(store, filter);
+
+    const matches = Array.from(new Map(candidates.map(record => [record.id, record])).values())
+      .filter(record => this.matchesFilter(record.event, filter))
+      .sort((a, b) => b.created_at - a.created_at);
+
+    // Apply limit
+    const limited = filter.limit ? matches.slice(0, filter.limit) : matches;
+    this.touch(db, limited);
+    return limited.map(record => record.event);
+  }
 
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
-        if (cursor) {
-          const evt = cursor.value as NostrEvent;
-          if (this.matchesFilter(evt, filter)) {
-            events.push(evt);
-          }
-          cursor.continue();
-        } else {
-          // Apply limit
-          const limited = filter.limit ? events.slice(0, filter.limit) : events;
-          resolve(limited);
+  /**
+   * Read the rows that might match, using the narrowest index the filter allows
+   */
+  private async getCandidates(store: IDBObjectStore, filter: NostrFilter): Promise<StoredEvent[]> {
+    const getAll = async (source: IDBObjectStore | IDBIndex, keys: IDBValidKey[]) => {
+      const results = await Promise.all(keys.map(key => promisify<StoredEvent[]>(source.getAll(key))));
+      return results.flat();
+    };
+
+    if (filter.ids) {
+      const records = await Promise.all(filter.ids.map(id => promisify<StoredEvent | undefined>(store.get(id))));
+      return records.filter((record): record is StoredEvent => !!record);
+    }
+
+    const tag = INDEXED_TAGS.find(name => filter[`#${name}`]?.length);
+    if (tag) {
+      return getAll(store.index('tags'), filter[`#${tag}`]!.map(value => `${tag}:${value}`));
+    }
+
+    if (filter.authors && filter.kinds) {
+      const kinds = filter.kinds;
+      return getAll(store.index('pubkey_kind'), filter.authors.flatMap(author => kinds.map(kind => [author, kind])));
+    }
+    if (filter.authors) {
+      return getAll(store.index('pubkey'), filter.authors);
+    }
+    if (filter.kinds) {
+      return getAll(store.index('kind'), filter.kinds);
+    }
+
+    // Full table scan for filters without an indexed field
+    return promisify<StoredEvent[]>(store.getAll());
+  }
+
+  /**
+   * Record that events were read, for least-recently-used eviction
+   * Only rows still present are updated, so a deleted or replaced event isn't written back
+   */
+  private touch(db: IDBDatabase, records: StoredEvent[]): void {
+    const now = Date.now();
+    const stale = records.filter(record => now - record.accessedAt > TOUCH_INTERVAL);
+    if (stale.length === 0) return;
+
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    for (const { id } of stale) {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (request.result) {
+          store.put({ ...request.result, accessedAt: now });
         }
       };
-
-      request.onerror = () => reject(request.error);
-    });
+    }
+    transactionDone(transaction).catch(error => debugWarn('[EventCache] Failed to update access times:', error));
   }
 
   private matchesFilter(event: NostrEvent, filter: NostrFilter): boolean {
@@ -195,6 +281,57 @@ class IndexedDBStore implements NStore {
     return { count: events.length };
   }
 
+  /**
+   * Size and access time of every row, without keeping the events in memory
+   */
+  private async readMeta(db: IDBDatabase): Promise<StoredEventMeta[]> {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME], 'readonly');
+      const request = transaction.objectStore(STORE_NAME).openCursor();
+      const meta: StoredEventMeta[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          const { id, size, accessedAt } = cursor.value as StoredEvent;
+          meta.push({ id, size, accessedAt });
+          cursor.continue();
+        } else {
+          resolve(meta);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Evict stale and least recently read events until the cache fits its byte budget
+   * Returns how many events were removed
+   */
+  async evict(): Promise<number> {
+    const db = await this.ensureDB();
+    const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+    const budget = getCacheBudget(estimate);
+    const ids = selectEventsToEvict(await this.readMeta(db), budget, Date.now());
+    if (ids.length === 0) return 0;
+
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+
+    debugLog(`[EventCache] Evicted ${ids.length} events to stay under ${Math.round(budget / 1024 / 1024)} MB`);
+    return ids.length;
+  }
+
+  /**
+   * Number of cached events and their approximate size in bytes
+   */
+  async usage(): Promise<{ events: number; bytes: number }> {
+    const meta = await this.readMeta(await this.ensureDB());
+    return { events: meta.length, bytes: meta.reduce((sum, record) => sum + record.size, 0) };
+  }
+
   /**
    * Clear all events from IndexedDB (useful for testing or reset)
    */
@@ -224,11 +361,93 @@ export class HybridEventCache implements NStore {
   }
 
   async event(event: NostrEvent): Promise<void> {
-    // Add to both caches
+    if (event.kind === 5) {
+      await this.applyDeletion(event);
+    } else if (await this.isDeleted(event)) {
+      return;
+    }
+
+    // Add to both caches (both keep only the latest replaceable/addressable version)
     this.memoryCache.add(event);
     await this.persistentStore.event(event);
   }
 
+  /**
+   * NIP-09: remove the events a deletion names, if they're by the deletion's author
+   */
+  private async applyDeletion(deletion: NostrEvent): Promise<void> {
+    const filters: NostrFilter[] = [];
+
+    const ids = deletion.tags.filter(([name, value]) => name === 'e' && value).map(([, id]) => id);
+    if (ids.length > 0) {
+      filters.push({ ids, authors: [deletion.pubkey] });
+    }
+
+    for (const [name, coordinate] of deletion.tags) {
+      if (name !== 'a' || !coordinate) continue;
+      const [kind, pubkey, d = ''] = coordinate.split(':');
+      if (pubkey !== deletion.pubkey) continue;
+
+      // Versions published after the deletion survive it
+      const filter: NostrFilter = { kinds: [Number(kind)], authors: [pubkey], until: deletion.created_at };
+      if (NKinds.addressable(Number(kind))) {
+        filter['#d'] = [d];
+      }
+      filters.push(filter);
+    }
+
+    if (filters.length > 0) {
+      await this.remove(filters);
+    }
+  }
+
+  /**
+   * Whether a cached deletion names this event, so a relay sending it again doesn't bring it back
+   * The cached kind 5 events are the tombstones.
+   */
+  private async isDeleted(event: NostrEvent): Promise<boolean> {
+    const filters: NostrFilter[] = [{ kinds: [5], authors: [event.pubkey], '#e': [event.id], limit: 1 }];
+
+    const coordinate = getReplaceKey(event);
+    if (coordinate) {
+      // Only deletions at or after this version cover it
+      filters.push({ kinds: [5], authors: [event.pubkey], '#a': [coordinate], since: event.created_at, limit: 1 });
+    }
+
+    const deletions = await this.persistentStore.query(filters);
+    if (deletions.length > 0) {
+      debugLog(`[EventCache] Not caching deleted event ${event.id}`);
+    }
+    return deletions.length > 0;
+  }
+
+  /**
+   * Keep only the newest maxEntries events of a kind in the persistent store
+   * Returns how many events were removed
+   */
+  async prune(kind: number, maxEntries: number): Promise<number> {
+    const events = await this.persistentStore.query([{ kinds: [kind] }]);
+    const excess = events.slice(maxEntries);
+    if (excess.length > 0) {
+      await this.remove([{ ids: excess.map(event => event.id) }]);
+    }
+    return excess.length;
+  }
+
+  /**
+   * Evict stale and least recently read events until the cache fits its byte budget
+   */
+  evict(): Promise<number> {
+    return this.persistentStore.evict();
+  }
+
+  /**
+   * Number of persistently cached events and their approximate size in bytes
+   */
+  usage(): Promise<{ events: number; bytes: number }> {
+    return this.persistentStore.usage();
+  }
+
   async query(filters: NostrFilter[]): Promise<NostrEvent[]> {
     // Try memory cache first
     const memoryResults = await this.memoryCache.query(filters);
@@ -0,0 +1,42 @@
+// ABOUTME: Tests for the persistent event cache's record layout and eviction rules
+// ABOUTME: Verifies replace keys, indexed tag keys, the storage budget and eviction order
+
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import { MAX_EVENT_AGE, getCacheBudget, getReplaceKey, getTagKeys, selectEventsToEvict } from './eventCacheRecords';
+
+function makeEvent(kind: number, tags: string[][] = []): NostrEvent {
+  return { id: 'id', pubkey: 'pk', kind, created_at: 1, tags, content: '', sig: 'sig' };
+}
+
+describe('event cache records', () => {
+  it('keys replaceable and addressable events, and indexes only d, t, a and e tags', () => {
+    expect(getReplaceKey(makeEvent(0))).toBe('0:pk:');
+    expect(getReplaceKey(makeEvent(34236, [['d', 'vine']]))).toBe('34236:pk:vine');
+    expect(getReplaceKey(makeEvent(1))).toBeUndefined();
+
+    const event = makeEvent(1111, [['e', 'x'], ['e', 'x'], ['t', 'cats'], ['p', 'someone']]);
+    expect(getTagKeys(event)).toEqual(['e:x', 't:cats']);
+  });
+
+  it('budgets a share of the quota, halved under storage pressure', () => {
+    const MB = 1024 * 1024;
+
+    expect(getCacheBudget(undefined)).toBe(100 * MB);
+    expect(getCacheBudget({ quota: 100 * MB, usage: 0 })).toBe(20 * MB);
+    expect(getCacheBudget({ quota: 100 * MB, usage: 95 * MB })).toBe(10 * MB);
+  });
+
+  it('evicts long-unread events first, then the least recently read until under budget', () => {
+    const now = MAX_EVENT_AGE * 2;
+    const records = [
+      { id: 'old', size: 10, accessedAt: 0 },
+      { id: 'recent', size: 10, accessedAt: now - 1 },
+      { id: 'older', size: 10, accessedAt: now - 100 },
+      { id: 'newest', size: 10, accessedAt: now },
+    ];
+
+    expect(selectEventsToEvict(records, 20, now)).toEqual(['old', 'older']);
+    expect(selectEventsToEvict(records, 100, now)).toEqual(['old']);
+  });
+});
@@ -0,0 +1,107 @@
+// ABOUTME: Record layout, index keys and eviction choices for the persistent event cache
+// ABOUTME: Kept free of storage code so replacement and eviction rules can be tested directly
+
+import { NKinds, type NostrEvent } from '@nostrify/nostrify';
+
+export const INDEXED_TAGS = ['d', 't', 'a', 'e'];
+
+// localStorage key of the sync engine's per-relay progress, which only holds while the cached events do
+export const SYNC_STATE_KEY = 'event_sync_state';
+
+const MAX_CACHE_BYTES = 100 * 1024 * 1024;
+const CACHE_QUOTA_SHARE = 0.2; // Most of the origin's quota the event cache may use
+const STORAGE_PRESSURE = 0.9; // Origin usage (share of quota) past which the budget is halved
+export const MAX_EVENT_AGE = 30 * 24 * 60 * 60 * 1000; // ms an event may go unread before it's evicted
+
+export interface StoredEvent {
+  id: string;
+  pubkey: string;
+  kind: number;
+  created_at: number;
+  event: NostrEvent;
+  tags: string[]; // "name:value" for each indexed tag
+  replaceKey?: string; // "kind:pubkey:d", only one row per key is kept
+  accessedAt: number;
+  size: number; // Approximate bytes
+}
+
+export type StoredEventMeta = Pick<StoredEvent, 'id' | 'size' | 'accessedAt'>;
+
+/**
+ * The key all versions of a replaceable or addressable event share
+ */
+export function getReplaceKey(event: NostrEvent): string | undefined {
+  if (NKinds.replaceable(event.kind)) {
+    return `${event.kind}:${event.pubkey}:`;
+  }
+  if (NKinds.addressable(event.kind)) {
+    return `${event.kind}:${event.pubkey}:${event.tags.find(([name]) => name === 'd')?.[1] ?? ''}`;
+  }
+  return undefined;
+}
+
+export function getTagKeys(event: NostrEvent): string[] {
+  const keys = event.tags
+    .filter(([name, value]) => INDEXED_TAGS.includes(name) && value !== undefined)
+    .map(([name, value]) => `${name}:${value}`);
+  return [...new Set(keys)];
+}
+
+export function toStoredEvent(event: NostrEvent, now: number): StoredEvent {
+  return {
+    id: event.id,
+    pubkey: event.pubkey,
+    kind: event.kind,
+    created_at: event.created_at,
+    event,
+    tags: getTagKeys(event),
+    replaceKey: getReplaceKey(event),
+    accessedAt: now,
+    size: JSON.stringify(event).length,
+  };
+}
+
+/**
+ * Whether a replaces b: newer, or as new with the lower ID (NIP-01)
+ */
+export function isNewerEvent(a: NostrEvent, b: NostrEvent): boolean {
+  return a.created_at > b.created_at || (a.created_at === b.created_at && a.id < b.id);
+}
+
+/**
+ * Bytes the event cache may use, from navigator.storage.estimate() where available
+ */
+export function getCacheBudget(estimate?: { quota?: number; usage?: number }): number {
+  if (!estimate?.quota) return MAX_CACHE_BYTES;
+
+  const budget = Math.min(MAX_CACHE_BYTES, estimate.quota * CACHE_QUOTA_SHARE);
+  const underPressure = (estimate.usage ?? 0) > estimate.quota * STORAGE_PRESSURE;
+  return underPressure ? budget / 2 : budget;
+}
+
+/**
+ * Pick events to evict: everything unread for MAX_EVENT_AGE, then least recently read
+ * until the rest fit in budgetBytes
+ */
+export function selectEventsToEvict(records: StoredEventMeta[], budgetBytes: number, now: number): string[] {
+  const evicted: string[] = [];
+  let total = 0;
+  const kept: StoredEventMeta[] = [];
+
+  for (const record of records) {
+    if (now - record.accessedAt > MAX_EVENT_AGE) {
+      evicted.push(record.id);
+    } else {
+      kept.push(record);
+      total += record.size;
+    }
+  }
+
+  for (const record of kept.sort((a, b) => a.accessedAt - b.accessedAt)) {
+    if (total <= budgetBytes) break;
+    evicted.push(record.id);
+    total -= record.size;
+  }
+
+  return evicted;
+}
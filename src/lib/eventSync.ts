@@ -0,0 +1,253 @@
+// ABOUTME: Keeps a local replica of followed accounts' videos and the reactions and comments on them
+// ABOUTME: Reconciles with relays over NIP-77 negentropy where supported, otherwise catches up with since queries
+
+import type { NostrEvent, NostrFilter, NStore } from '@nostrify/nostrify';
+import { eventCache } from '@/lib/eventCache';
+import { SYNC_STATE_KEY } from '@/lib/eventCacheRecords';
+import { Negentropy, NegentropyStorage } from '@/lib/negentropy';
+import { detectRelayCapabilities } from '@/lib/relayCapabilities';
+import { VIDEO_KINDS } from '@/types/video';
+import { debugLog, debugWarn } from '@/lib/debug';
+
+const SYNC_WINDOW = 30 * 24 * 60 * 60; // Seconds of history kept in the replica
+const NEGENTROPY_TIMEOUT = 20_000; // ms for a whole reconciliation
+const FETCH_TIMEOUT = 10_000; // ms per batch of missing events
+const FETCH_BATCH_SIZE = 100; // IDs per REQ
+const CATCH_UP_LIMIT = 500;
+const CATCH_UP_OVERLAP = 5 * 60; // Seconds re-read before the last sync, for events that arrived late
+
+interface SyncRelay {
+  query(filters: NostrFilter[], opts?: { signal?: AbortSignal }): Promise<NostrEvent[]>;
+}
+
+export interface SyncTarget {
+  url: string;
+  relay: SyncRelay; // The pool's connection, so catch-up and fetches get AUTH and health tracking
+}
+
+export interface SyncResult {
+  url: string;
+  filter: string;
+  method: 'negentropy' | 'since';
+  fetched: number;
+  error?: string;
+}
+
+/**
+ * What the replica holds: follows' videos, reactions to them, and comments on their videos
+ */
+export function getSyncFilters(follows: string[], since: number): Record<string, NostrFilter> {
+  return {
+    videos: { kinds: VIDEO_KINDS, authors: follows, since },
+    reactions: { kinds: [7], '#p': follows, since },
+    comments: { kinds: [1111], '#P': follows, '#K': VIDEO_KINDS.map(String), since },
+  };
+}
+
+// Cheap, stable hash so a changed follow list starts a fresh catch-up
+function hashFollows(follows: string[]): string {
+  let hash = 5381;
+  for (const char of [...follows].sort().join()) {
+    hash = ((hash * 33) ^ char.charCodeAt(0)) >>> 0;
+  }
+  return hash.toString(36);
+}
+
+/**
+ * Reconcile filter with one relay over NIP-77, returning the IDs only the relay has
+ */
+function reconcile(url: string, filter: NostrFilter, negentropy: Negentropy): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const subId = `sync-${Math.random().toString(36).slice(2, 10)}`;
+    const need: string[] = [];
+    let socket: WebSocket | undefined;
+    let done = false;
+
+    const finish = (error?: Error) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(['NEG-CLOSE', subId]));
+      }
+      socket?.close();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(need);
+      }
+    };
+    const timer = setTimeout(() => finish(new Error('Negentropy sync timed out')), NEGENTROPY_TIMEOUT);
+
+    try {
+      socket = new WebSocket(url);
+    } catch (error) {
+      finish(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    socket.onopen = () => socket!.send(JSON.stringify(['NEG-OPEN', subId, filter, negentropy.initiate()]));
+    socket.onerror = () => finish(new Error('Relay connection failed'));
+    socket.onclose = () => finish(new Error('Relay closed the connection'));
+    socket.onmessage = (message) => {
+      let msg: unknown[];
+      try {
+        msg = JSON.parse(message.data);
+      } catch {
+        return; // Ignore malformed relay messages
+      }
+
+      // Relays without NIP-77 answer an unknown message type with a NOTICE
+      if (msg[0] === 'NOTICE') {
+        finish(new Error(`Relay notice: ${msg[1]}`));
+      } else if (msg[1] !== subId) {
+        return;
+      } else if (msg[0] === 'NEG-ERR') {
+        finish(new Error(`NEG-ERR: ${msg[2]}`));
+      } else if (msg[0] === 'NEG-MSG' && typeof msg[2] === 'string') {
+        try {
+          const { next, need: missing } = negentropy.reconcile(msg[2]);
+          need.push(...missing);
+          if (next) {
+            socket!.send(JSON.stringify(['NEG-MSG', subId, next]));
+          } else {
+            finish();
+          }
+        } catch (error) {
+          finish(error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+    };
+  });
+}
+
+/**
+ * Sync engine for the local replica
+ * State (when each relay was last synced for each filter) is kept in localStorage
+ */
+class EventSyncEngine {
+  private running: Promise<SyncResult[]> | null = null;
+
+  constructor(private store: NStore) {}
+
+  /**
+   * Bring the replica up to date with each relay. Concurrent calls share one run.
+   */
+  sync(follows: string[], targets: SyncTarget[]): Promise<SyncResult[]> {
+    if (!this.running) {
+      this.running = this.run(follows, targets).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Query the replica, newest first
+   */
+  async queryReplica(filter: NostrFilter): Promise<NostrEvent[]> {
+    const { limit, ...unlimited } = filter;
+    // The store applies limits before sorting, so sort here first
+    const events = await this.store.query([unlimited]);
+    const sorted = events.sort((a, b) => b.created_at - a.created_at);
+    return limit ? sorted.slice(0, limit) : sorted;
+  }
+
+  /**
+   * Forget when each relay was last synced, e.g. after the cache holding the replica is cleared
+   */
+  reset(): void {
+    try {
+      localStorage.removeItem(SYNC_STATE_KEY);
+    } catch (error) {
+      debugWarn('[EventSync] Failed to reset sync state:', error);
+    }
+  }
+
+  private async run(follows: string[], targets: SyncTarget[]): Promise<SyncResult[]> {
+    const now = Math.floor(Date.now() / 1000);
+    const filters = getSyncFilters(follows, now - SYNC_WINDOW);
+    const followsHash = hashFollows(follows);
+    const state = this.loadState();
+    const results: SyncResult[] = [];
+
+    for (const { url, relay } of targets) {
+      const capabilities = await detectRelayCapabilities(url);
+      const supportsNegentropy = capabilities.supportedNips.includes(77);
+
+      for (const [name, filter] of Object.entries(filters)) {
+        const stateKey = `${url}|${name}|${followsHash}`;
+        let result: SyncResult | undefined;
+
+        if (supportsNegentropy) {
+          try {
+            result = { url, filter: name, method: 'negentropy', fetched: await this.syncNegentropy(url, relay, filter) };
+          } catch (error) {
+            debugWarn(`[EventSync] Negentropy sync with ${url} failed, catching up instead:`, error);
+          }
+        }
+
+        if (!result) {
+          try {
+            const since = Math.max(filter.since!, (state[stateKey] ?? 0) - CATCH_UP_OVERLAP);
+            result = { url, filter: name, method: 'since', fetched: await this.catchUp(relay, { ...filter, since }) };
+          } catch (error) {
+            debugWarn(`[EventSync] Catch-up with ${url} failed:`, error);
+            results.push({ url, filter: name, method: 'since', fetched: 0, error: error instanceof Error ? error.message : String(error) });
+            continue;
+          }
+        }
+
+        state[stateKey] = now;
+        results.push(result);
+        debugLog(`[EventSync] ${url} ${name}: ${result.fetched} events via ${result.method}`);
+      }
+    }
+
+    this.saveState(state);
+    return results;
+  }
+
+  private async syncNegentropy(url: string, relay: SyncRelay, filter: NostrFilter): Promise<number> {
+    const local = await this.store.query([filter]);
+    const need = await reconcile(url, filter, new Negentropy(new NegentropyStorage(local)));
+
+    let fetched = 0;
+    for (let i = 0; i < need.length; i += FETCH_BATCH_SIZE) {
+      const ids = need.slice(i, i + FETCH_BATCH_SIZE);
+      const events = await relay.query([{ ids, limit: ids.length }], { signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+      fetched += await this.save(events);
+    }
+    return fetched;
+  }
+
+  private async catchUp(relay: SyncRelay, filter: NostrFilter): Promise<number> {
+    const events = await relay.query([{ ...filter, limit: CATCH_UP_LIMIT }], { signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+    return this.save(events);
+  }
+
+  private async save(events: NostrEvent[]): Promise<number> {
+    for (const event of events) {
+      await this.store.event(event);
+    }
+    return events.length;
+  }
+
+  private loadState(): Record<string, number> {
+    try {
+      return JSON.parse(localStorage.getItem(SYNC_STATE_KEY) ?? '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private saveState(state: Record<string, number>): void {
+    try {
+      localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+    } catch (error) {
+      debugWarn('[EventSync] Failed to save sync state:', error);
+    }
+  }
+}
+
+export const eventSync = new EventSyncEngine(eventCache);
@@ -35,4 +35,28 @@ export function formatDuration(seconds: number): string {
 export function formatViewCount(count: number): string {
   const formatted = formatCount(count);
   return count === 1 ? `${formatted} view` : `${formatted} views`;
-}
\ No newline at end of file
+}
+/**
+ * Format unix seconds as a local "YYYY-MM-DDTHH:mm" value for datetime-local inputs
+ */
+export function formatDateTimeLocal(seconds: number): string {
+  const date = new Date(seconds * 1000);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Format a byte count as B, KB, MB or GB
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) {
+    return `${(bytes / 1024 ** 3).toFixed(1).replace(/\.0$/, '')} GB`;
+  }
+  if (bytes >= 1024 ** 2) {
+    return `${(bytes / 1024 ** 2).toFixed(1).replace(/\.0$/, '')} MB`;
+  }
+  if (bytes >= 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${bytes} B`;
+}
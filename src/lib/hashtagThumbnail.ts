@@ -1,6 +1,7 @@
 import type { NostrEvent, NostrFilter } from '@nostrify/nostrify';
 import { VIDEO_KINDS } from '@/types/video';
 import { parseVideoEvent, getThumbnailUrl } from '@/lib/videoParser';
+import { videoWorker } from '@/lib/videoWorker';
 import { debugLog } from '@/lib/debug';
 
 export interface NostrClientLike {
@@ -59,7 +60,8 @@ export async function resolveHashtagThumbnail(
   };
 
   debugLog('[resolveHashtagThumbnail] Querying for hashtag:', hashtag, 'with filter:', filter);
-  const events = await nostr.query([filter], { signal });
+  // Relays leave video signatures to the video worker
+  const events = await videoWorker.verify(await nostr.query([filter], { signal }));
   debugLog('[resolveHashtagThumbnail] Got', events.length, 'events for hashtag:', hashtag);
 
   const tryParseForThumbnail = (evs: NostrEvent[]) => {
@@ -79,7 +81,7 @@ export async function resolveHashtagThumbnail(
   // Fallback: broader query, then filter by content hashtag match
   try {
     const broadFilter: NostrFilter = { kinds: VIDEO_KINDS, limit: 30 };
-    const broadEvents = await nostr.query([broadFilter], { signal });
+    const broadEvents = await videoWorker.verify(await nostr.query([broadFilter], { signal }));
     const lower = hashtag.toLowerCase();
     const matched = broadEvents.filter((e) => (` ${e.content} `).toLowerCase().includes(`#${lower}`));
     thumb = tryParseForThumbnail(matched);
@@ -0,0 +1,75 @@
+// ABOUTME: Base class for the app's small single-store IndexedDB databases (drafts, pending uploads, scheduled posts)
+// ABOUTME: Opens the database lazily, creates the store and its indexes, and wraps requests in promises
+
+import { debugWarn } from './debug';
+
+export interface ObjectStoreOptions {
+  dbName: string;
+  version: number;
+  storeName: string;
+  keyPath: string;
+  indexes?: string[]; // Non-unique indexes on fields of the same name
+  logName: string;
+  /** Throw this instead of quietly returning undefined when IndexedDB can't be used or a request fails */
+  unavailableError?: string;
+}
+
+export class IndexedDBObjectStore {
+  private db: IDBDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+
+  constructor(private options: ObjectStoreOptions) {}
+
+  private init(): Promise<void> {
+    const { dbName, version, storeName, keyPath, indexes = [], logName } = this.options;
+
+    this.initPromise ??= new Promise((resolve) => {
+      const request = indexedDB.open(dbName, version);
+
+      request.onerror = () => {
+        debugWarn(`[${logName}] IndexedDB initialization failed:`, request.error);
+        resolve();
+      };
+
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(storeName)) {
+          const store = db.createObjectStore(storeName, { keyPath });
+          for (const index of indexes) {
+            store.createIndex(index, index, { unique: false });
+          }
+        }
+      };
+    });
+    return this.initPromise;
+  }
+
+  protected async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T | undefined> {
+    const { storeName, logName, unavailableError } = this.options;
+
+    await this.init();
+    if (!this.db) {
+      if (unavailableError) throw new Error(unavailableError);
+      return undefined;
+    }
+
+    const db = this.db;
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => {
+        if (unavailableError) {
+          reject(request.error);
+          return;
+        }
+        debugWarn(`[${logName}] Request failed:`, request.error);
+        resolve(undefined);
+      };
+    });
+  }
+}
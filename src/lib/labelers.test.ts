@@ -0,0 +1,60 @@
+// ABOUTME: Tests for reading subscribed moderators' labels and reports
+// ABOUTME: Verifies reason mapping, target selection, labeler filtering and verdict lookup
+
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import { ContentFilterReason } from '@/types/moderation';
+import { findVerdicts, getLabelerFilters, indexVerdicts, parseLabelerEvents, toFilterReason } from './labelers';
+
+const MOD = 'm'.repeat(64);
+
+function makeEvent(kind: number, tags: string[][], pubkey = MOD): NostrEvent {
+  return { id: `${kind}-${tags.length}`, pubkey, created_at: 100, kind, content: '', tags, sig: '' };
+}
+
+describe('labelers', () => {
+  it('maps our reasons, nos.social labels and NIP-56 report types, and ignores other labels', () => {
+    expect(toFilterReason('spam')).toBe(ContentFilterReason.SPAM);
+    expect(toFilterReason('NS-harassment', 'social.nos.ontology')).toBe(ContentFilterReason.HARASSMENT);
+    expect(toFilterReason('nudity')).toBe(ContentFilterReason.SEXUAL_CONTENT);
+    expect(toFilterReason('funny')).toBeUndefined();
+    expect(toFilterReason('graphic design', 'content-warning')).toBeUndefined();
+    expect(toFilterReason('NS-violence', 'ugc')).toBeUndefined();
+  });
+
+  it('reads reports about events rather than their authors, and reports about users', () => {
+    const verdicts = parseLabelerEvents([
+      makeEvent(1984, [['e', 'note', 'spam'], ['p', 'author']]),
+      makeEvent(1984, [['p', 'troll', 'impersonation']]),
+      makeEvent(1984, [['p', 'ignored', 'spam']], 'x'.repeat(64)),
+    ], [MOD]);
+
+    expect(verdicts.map(({ eventId, pubkey, reason }) => ({ eventId, pubkey, reason }))).toEqual([
+      { eventId: 'note', pubkey: undefined, reason: ContentFilterReason.SPAM },
+      { eventId: undefined, pubkey: 'troll', reason: ContentFilterReason.IMPERSONATION },
+    ]);
+  });
+
+  it('reads labels on addressable videos and finds them by coordinate', () => {
+    const address = `34236:${'a'.repeat(64)}:vine`;
+    const verdicts = parseLabelerEvents([
+      makeEvent(1985, [['L', 'social.nos.ontology'], ['l', 'NS-violence', 'social.nos.ontology'], ['a', address]]),
+      makeEvent(1985, [['l', 'funny'], ['e', 'other']]),
+    ], [MOD]);
+    const index = indexVerdicts(verdicts);
+
+    expect(findVerdicts(index, { eventId: 'other', address }).map(verdict => verdict.reason)).toEqual([
+      ContentFilterReason.VIOLENCE,
+    ]);
+  });
+
+  it('asks only about the given content, leaving out target kinds it has none of', () => {
+    expect(getLabelerFilters([MOD], [
+      { eventId: 'note', pubkey: 'author' },
+      { eventId: 'other', pubkey: 'author' },
+    ])).toEqual([
+      { kinds: [1984, 1985], authors: [MOD], '#e': ['note', 'other'] },
+      { kinds: [1984, 1985], authors: [MOD], '#p': ['author'] },
+    ]);
+  });
+});
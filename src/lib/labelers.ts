@@ -0,0 +1,158 @@
+// ABOUTME: Reads NIP-32 labels (kind 1985) and NIP-56 reports (kind 1984) from subscribed moderators
+// ABOUTME: Turns them into per-target verdicts with a filter reason, indexed for lookup while moderating feeds
+
+import type { NostrEvent, NostrFilter } from '@nostrify/nostrify';
+import { ContentFilterReason, type LabelerVerdict } from '@/types/moderation';
+import { getLabelReason } from '@/lib/contentSeverity';
+import type { ParsedVideoData } from '@/types/video';
+import { getVideoCoordinate } from '@/lib/videoParser';
+
+export const LABELER_KINDS = [1984, 1985];
+
+/**
+ * What a label or report can be about: an event, an addressable coordinate or a user
+ */
+export type LabelTarget = Pick<LabelerVerdict, 'eventId' | 'pubkey' | 'address'>;
+
+const FILTER_REASONS: string[] = Object.values(ContentFilterReason);
+
+// NIP-56 report types that aren't also filter reasons
+const REPORT_TYPE_REASONS = new Map<string, ContentFilterReason>([
+  ['nudity', ContentFilterReason.SEXUAL_CONTENT],
+  ['malware', ContentFilterReason.ILLEGAL],
+  ['profanity', ContentFilterReason.HARASSMENT],
+]);
+
+/**
+ * The filter reason a report type or label stands for, or undefined for values that aren't about moderation
+ * Without a namespace the value is a report type: NIP-56 types or our own reasons, which our reports give.
+ * With one it's a NIP-32 label, matched against that namespace's vocabulary.
+ */
+export function toFilterReason(value: string, namespace?: string): ContentFilterReason | undefined {
+  if (namespace !== undefined) return getLabelReason({ namespace, value });
+
+  const normalized = value.trim().toLowerCase();
+  if (FILTER_REASONS.includes(normalized)) return normalized as ContentFilterReason;
+  return REPORT_TYPE_REASONS.get(normalized);
+}
+
+/**
+ * The targets a video can be labelled or reported by
+ */
+export function getVideoLabelTarget(video: ParsedVideoData): LabelTarget {
+  return {
+    eventId: video.id,
+    pubkey: video.pubkey,
+    address: video.vineId ? getVideoCoordinate(video.kind, video.pubkey, video.vineId) : undefined,
+  };
+}
+
+/**
+ * What a label or report event is about
+ * When it names events, any p tags are just their authors; otherwise it's about the users themselves.
+ */
+function getTargets(event: NostrEvent): LabelTarget[] {
+  const events = event.tags.filter(([name, value]) => (name === 'e' || name === 'a') && value);
+  if (events.length > 0) {
+    return events.map(([name, value]) => name === 'e' ? { eventId: value } : { address: value });
+  }
+  return event.tags
+    .filter(([name, value]) => name === 'p' && value)
+    .map(([, pubkey]) => ({ pubkey }));
+}
+
+/**
+ * The reasons an event gives: report types on its target tags, then its l labels
+ */
+function getReasons(event: NostrEvent): ContentFilterReason[] {
+  const reportTypes = event.kind === 1984
+    ? event.tags.filter(([name, , type]) => ['e', 'a', 'p'].includes(name) && type).map(tag => toFilterReason(tag[2]))
+    : [];
+  // Labels without a namespace are in NIP-32's catch-all ugc namespace
+  const labels = event.tags
+    .filter(([name, value]) => name === 'l' && value)
+    .map(tag => toFilterReason(tag[1], tag[2] || 'ugc'));
+
+  const reasons = [...reportTypes, ...labels].filter((reason): reason is ContentFilterReason => !!reason);
+
+  // A report that gives no type we know is still a report
+  if (reasons.length === 0 && event.kind === 1984) {
+    reasons.push(ContentFilterReason.OTHER);
+  }
+  return Array.from(new Set(reasons));
+}
+
+/**
+ * Filters for the given labelers' labels and reports about a batch of content: its events, coordinates and authors
+ */
+export function getLabelerFilters(
+  labelers: string[],
+  targets: LabelTarget[]
+): NostrFilter[] {
+  const unique = (values: (string | undefined)[]) => Array.from(new Set(values.filter((value): value is string => !!value)));
+  const eventIds = unique(targets.map(target => target.eventId));
+  const addresses = unique(targets.map(target => target.address));
+  const pubkeys = unique(targets.map(target => target.pubkey));
+
+  const base = { kinds: LABELER_KINDS, authors: labelers };
+  return [
+    ...(eventIds.length > 0 ? [{ ...base, '#e': eventIds }] : []),
+    ...(addresses.length > 0 ? [{ ...base, '#a': addresses }] : []),
+    ...(pubkeys.length > 0 ? [{ ...base, '#p': pubkeys }] : []),
+  ];
+}
+
+/**
+ * Turn labeler events into one verdict per target and reason, keeping only events by the given labelers
+ */
+export function parseLabelerEvents(events: NostrEvent[], labelers: string[]): LabelerVerdict[] {
+  const verdicts: LabelerVerdict[] = [];
+
+  for (const event of events) {
+    if (!LABELER_KINDS.includes(event.kind) || !labelers.includes(event.pubkey)) continue;
+
+    for (const reason of getReasons(event)) {
+      for (const target of getTargets(event)) {
+        verdicts.push({ id: event.id, labeler: event.pubkey, reason, createdAt: event.created_at, ...target });
+      }
+    }
+  }
+
+  return verdicts;
+}
+
+export interface VerdictIndex {
+  byEvent: Map<string, LabelerVerdict[]>;
+  byPubkey: Map<string, LabelerVerdict[]>;
+  byAddress: Map<string, LabelerVerdict[]>;
+}
+
+function addTo(map: Map<string, LabelerVerdict[]>, key: string, verdict: LabelerVerdict) {
+  const list = map.get(key);
+  if (list) list.push(verdict);
+  else map.set(key, [verdict]);
+}
+
+export function indexVerdicts(verdicts: LabelerVerdict[]): VerdictIndex {
+  const index: VerdictIndex = { byEvent: new Map(), byPubkey: new Map(), byAddress: new Map() };
+  for (const verdict of verdicts) {
+    if (verdict.eventId) addTo(index.byEvent, verdict.eventId, verdict);
+    if (verdict.pubkey) addTo(index.byPubkey, verdict.pubkey, verdict);
+    if (verdict.address) addTo(index.byAddress, verdict.address, verdict);
+  }
+  return index;
+}
+
+/**
+ * Verdicts on a piece of content, its addressable coordinate or its author
+ */
+export function findVerdicts(
+  index: VerdictIndex,
+  content: LabelTarget
+): LabelerVerdict[] {
+  return [
+    ...(content.eventId ? index.byEvent.get(content.eventId) ?? [] : []),
+    ...(content.address ? index.byAddress.get(content.address) ?? [] : []),
+    ...(content.pubkey ? index.byPubkey.get(content.pubkey) ?? [] : []),
+  ];
+}
@@ -0,0 +1,61 @@
+// ABOUTME: Tests for live feed helpers
+// ABOUTME: Verifies streaming filters, merging of new videos and reposts, and prepending into paged feeds
+
+import { describe, it, expect } from 'vitest';
+import type { ParsedVideoData } from '@/types/video';
+import { getLiveVideoFilters, mergeNewVideos, prependVideos, toLiveFilter } from './liveFeed';
+
+function video(id: string, createdAt: number, reposts: ParsedVideoData['reposts'] = []): ParsedVideoData {
+  return {
+    id,
+    pubkey: 'pubkey',
+    kind: 34236,
+    createdAt,
+    content: '',
+    videoUrl: `https://cdn.example.com/${id}.mp4`,
+    hashtags: [],
+    vineId: id,
+    isVineMigrated: false,
+    reposts,
+  };
+}
+
+describe('toLiveFilter', () => {
+  it('drops paging and sorting and starts at since', () => {
+    expect(toLiveFilter({ kinds: [34236], authors: ['a'], limit: 20, until: 100, search: 'sort:hot' }, 200))
+      .toEqual({ kinds: [34236], authors: ['a'], since: 200 });
+  });
+});
+
+describe('getLiveVideoFilters', () => {
+  it('asks unscoped feeds for video reposts only, by their k tag', () => {
+    expect(getLiveVideoFilters({}, true)).toEqual([
+      { kinds: [34236, 22, 21] },
+      { kinds: [16], '#k': ['34236', '22', '21'] },
+      { kinds: [6], '#k': ['34236'] },
+    ]);
+    expect(getLiveVideoFilters({ authors: ['a'] }, true)[2]).toEqual({ authors: ['a'], kinds: [6] });
+    expect(getLiveVideoFilters({ '#t': ['cats'] }, false)).toEqual([{ '#t': ['cats'], kinds: [34236, 22, 21] }]);
+  });
+});
+
+describe('mergeNewVideos', () => {
+  it('keeps one entry per video with all its reposts, newest activity first', () => {
+    const repostA = { eventId: 'r1', reposterPubkey: 'alice', repostedAt: 300 };
+    const repostB = { eventId: 'r2', reposterPubkey: 'bob', repostedAt: 400 };
+
+    const merged = mergeNewVideos([video('old', 100, [repostA]), video('new', 350)], [video('old', 100, [repostB])]);
+
+    expect(merged.map(v => v.id)).toEqual(['old', 'new']);
+    expect(merged[0].reposts).toEqual([repostA, repostB]);
+  });
+});
+
+describe('prependVideos', () => {
+  it('moves videos already in the feed to the top of the first page', () => {
+    const pages = [[video('a', 300), video('b', 200)], [video('c', 100)]];
+
+    expect(prependVideos(pages, [video('c', 100, [{ eventId: 'r', reposterPubkey: 'alice', repostedAt: 400 }])])
+      .map(page => page.map(v => v.id))).toEqual([['c', 'a', 'b'], []]);
+  });
+});
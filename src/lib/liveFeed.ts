@@ -0,0 +1,68 @@
+// ABOUTME: Helpers for live feed subscriptions - turning page filters into streaming filters and merging new videos
+// ABOUTME: New videos are held back and prepended on request so the feed doesn't shift under the reader
+
+import type { NostrFilter } from '@nostrify/nostrify';
+import { VIDEO_KIND, VIDEO_KINDS, REPOST_KIND, GENERIC_REPOST_KIND, type ParsedVideoData } from '@/types/video';
+import { getLatestRepostTime, getParsedVideoKey } from '@/lib/videoParser';
+
+/**
+ * Turn a page filter into one that only matches events from `since` on
+ * Paging and NIP-50 sorting don't apply to a live stream
+ */
+export function toLiveFilter(filter: NostrFilter, since: number): NostrFilter {
+  const { limit: _limit, until: _until, search: _search, ...live } = filter;
+  return { ...live, since };
+}
+
+/**
+ * Streaming filters for new videos matching base (without kinds), and optionally reposts of videos
+ * Reposts are narrowed to video kinds by their k tag. Unscoped feeds need that, or every repost of
+ * a note on the relays would stream in; kind 6 reposts by given authors are few enough to take whole,
+ * which keeps reposts from clients that leave out the k tag.
+ */
+export function getLiveVideoFilters(base: NostrFilter, includeReposts: boolean): NostrFilter[] {
+  if (!includeReposts) return [{ ...base, kinds: VIDEO_KINDS }];
+
+  return [
+    { ...base, kinds: VIDEO_KINDS },
+    { ...base, kinds: [GENERIC_REPOST_KIND], '#k': VIDEO_KINDS.map(String) },
+    base.authors ? { ...base, kinds: [REPOST_KIND] } : { ...base, kinds: [REPOST_KIND], '#k': [String(VIDEO_KIND)] },
+  ];
+}
+
+/**
+ * Add newly arrived videos to the pending list, newest first
+ * A video that arrives again (e.g. reposted by someone else) keeps one entry with all its reposts
+ */
+export function mergeNewVideos(pending: ParsedVideoData[], incoming: ParsedVideoData[]): ParsedVideoData[] {
+  const byKey = new Map(pending.map(video => [getParsedVideoKey(video), video]));
+
+  for (const video of incoming) {
+    const existing = byKey.get(getParsedVideoKey(video));
+    if (!existing) {
+      byKey.set(getParsedVideoKey(video), video);
+      continue;
+    }
+
+    const reposts = [...existing.reposts];
+    for (const repost of video.reposts) {
+      if (!reposts.some(r => r.eventId === repost.eventId)) reposts.push(repost);
+    }
+    const newer = video.createdAt > existing.createdAt ? video : existing;
+    byKey.set(getParsedVideoKey(video), { ...newer, reposts });
+  }
+
+  return [...byKey.values()].sort((a, b) => getLatestRepostTime(b) - getLatestRepostTime(a));
+}
+
+/**
+ * Put new videos at the top of a paged feed, moving older copies up from any page
+ * with their reposts combined
+ */
+export function prependVideos(pages: ParsedVideoData[][], incoming: ParsedVideoData[]): ParsedVideoData[][] {
+  if (incoming.length === 0) return pages;
+  const keys = new Set(incoming.map(getParsedVideoKey));
+  const olderCopies = pages.flat().filter(video => keys.has(getParsedVideoKey(video)));
+  const remaining = pages.map(videos => videos.filter(video => !keys.has(getParsedVideoKey(video))));
+  return [[...mergeNewVideos(olderCopies, incoming), ...(remaining[0] ?? [])], ...remaining.slice(1)];
+}
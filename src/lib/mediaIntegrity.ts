@@ -0,0 +1,101 @@
+// ABOUTME: Verifies downloaded media against the sha256 hash declared in the imeta 'x' field
+// ABOUTME: Hashes with SubtleCrypto and retries the same hash on alternate Blossom servers when a URL is dead
+
+import { getBlossomFallbackUrls } from '@/lib/blossom';
+import { debugLog } from '@/lib/debug';
+
+export type MediaIntegrityStatus = 'verified' | 'mismatch' | 'unreachable';
+
+export interface MediaIntegrityResult {
+  status: MediaIntegrityStatus;
+  expectedHash: string;
+  /** Hash of the bytes actually received (absent when nothing could be downloaded) */
+  actualHash?: string;
+  /** URL whose bytes were hashed */
+  url?: string;
+  /** True when the original URL was dead and the blob came from an alternate Blossom server */
+  fromMirror?: boolean;
+}
+
+interface VerifyMediaOptions {
+  url: string;
+  expectedHash: string;
+  /** Lazily resolves the author's Blossom servers - only called if the original URL is dead */
+  getAlternateServers?: () => Promise<string[]>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Hex-encoded SHA-256 of a buffer
+ */
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Download a URL and hash its bytes
+ * Returns null if the URL is unreachable (network error or non-2xx response)
+ */
+async function hashRemoteBlob(url: string, signal?: AbortSignal): Promise<string | null> {
+  try {
+    const response = await fetch(url, { signal, mode: 'cors' });
+    if (!response.ok) {
+      debugLog(`[mediaIntegrity] ${url} returned ${response.status}`);
+      return null;
+    }
+    return await sha256Hex(await response.arrayBuffer());
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    debugLog(`[mediaIntegrity] Failed to fetch ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Verify that a media URL serves the bytes its event declares
+ * If the URL is dead, the same hash is requested from each alternate Blossom server (BUD-01 GET /<sha256>)
+ */
+export async function verifyMediaIntegrity({
+  url,
+  expectedHash,
+  getAlternateServers,
+  signal,
+}: VerifyMediaOptions): Promise<MediaIntegrityResult> {
+  const expected = expectedHash.toLowerCase();
+
+  const check = async (candidate: string, fromMirror: boolean): Promise<MediaIntegrityResult | null> => {
+    const actualHash = await hashRemoteBlob(candidate, signal);
+    if (actualHash === null) return null;
+
+    const result: MediaIntegrityResult = {
+      status: actualHash === expected ? 'verified' : 'mismatch',
+      expectedHash: expected,
+      actualHash,
+      url: candidate,
+      fromMirror,
+    };
+
+    if (result.status === 'mismatch') {
+      console.warn(`[mediaIntegrity] Hash mismatch for ${candidate}: expected ${expected}, got ${actualHash}`);
+    }
+
+    return result;
+  };
+
+  const primary = await check(url, false);
+  if (primary) return primary;
+
+  const servers = getAlternateServers ? await getAlternateServers().catch(() => []) : [];
+  for (const mirrorUrl of getBlossomFallbackUrls(url, expected, servers)) {
+    const mirror = await check(mirrorUrl, true);
+    // A mirror serving the wrong bytes doesn't tell us anything about the original, keep looking
+    if (mirror?.status === 'verified') return mirror;
+    if (mirror) debugLog(`[mediaIntegrity] Mirror ${mirrorUrl} served mismatched bytes, trying next server`);
+  }
+
+  console.warn(`[mediaIntegrity] Could not download ${url} or any Blossom mirror for hash ${expected}`);
+  return { status: 'unreachable', expectedHash: expected };
+}
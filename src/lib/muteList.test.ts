@@ -0,0 +1,61 @@
+// ABOUTME: Tests for NIP-51 mute list parsing with private entries
+// ABOUTME: Verifies tag parsing, expiry markers, public/private merging and the NIP-44 / NIP-04 content formats
+
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent, NostrSigner } from '@nostrify/nostrify';
+import { MuteType } from '@/types/moderation';
+import { decryptMuteContent, encryptMuteContent, isMuteExpired, mergeMuteItems, parseMuteTags, toMuteTag } from './muteList';
+
+// Reversible stand-in for encryption, tagged with the scheme used
+const signer = {
+  getPublicKey: async () => 'me',
+  signEvent: async () => { throw new Error('unused'); },
+  nip44: {
+    encrypt: async (_pubkey: string, plaintext: string) => btoa(plaintext),
+    decrypt: async (_pubkey: string, ciphertext: string) => atob(ciphertext),
+  },
+  nip04: {
+    encrypt: async (_pubkey: string, plaintext: string) => `${btoa(plaintext)}?iv=abc`,
+    decrypt: async (_pubkey: string, ciphertext: string) => atob(ciphertext.split('?iv=')[0]),
+  },
+} as NostrSigner;
+
+function makeList(content: string): NostrEvent {
+  return { id: 'list', pubkey: 'me', created_at: 1, kind: 10001, tags: [['p', 'alice']], content, sig: '' };
+}
+
+describe('muteList', () => {
+  it('parses mute tags and prefers public entries when merging', () => {
+    const publicItems = parseMuteTags([['p', 'alice'], ['client', 'x'], ['t', 'spam', 'why']], 1);
+    const privateItems = parseMuteTags([['p', 'alice'], ['word', 'secret']], 1, true);
+
+    expect(publicItems.map(item => item.type)).toEqual([MuteType.USER, MuteType.HASHTAG]);
+    expect(mergeMuteItems(publicItems, privateItems).map(item => [item.value, !!item.private])).toEqual([
+      ['alice', false],
+      ['spam', false],
+      ['secret', true],
+    ]);
+  });
+
+  it('round-trips expiry after the reason and tells when it has passed', () => {
+    const [item] = parseMuteTags([['p', 'alice', 'expiration:2000']], 1);
+    const [withReason] = parseMuteTags([['t', 'spam', 'noisy', 'expiration:2000']], 1);
+
+    expect(item.reason).toBeUndefined();
+    expect(toMuteTag(withReason)).toEqual(['t', 'spam', 'noisy', 'expiration:2000']);
+    expect(isMuteExpired(item, 1999)).toBe(false);
+    expect(isMuteExpired(item, 2000)).toBe(true);
+  });
+
+  it('round-trips private entries through NIP-44 content', async () => {
+    const content = await encryptMuteContent([['word', 'secret']], 'me', signer);
+
+    expect(await decryptMuteContent(makeList(content), signer)).toEqual([['word', 'secret']]);
+  });
+
+  it('still reads NIP-04 content', async () => {
+    const content = await signer.nip04!.encrypt('me', JSON.stringify([['p', 'bob']]));
+
+    expect(await decryptMuteContent(makeList(content), signer)).toEqual([['p', 'bob']]);
+  });
+});
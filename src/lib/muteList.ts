@@ -0,0 +1,107 @@
+// ABOUTME: Reads and writes NIP-51 mute lists (kind 10001) with public tags and encrypted private entries
+// ABOUTME: Private entries are NIP-44 encrypted to ourselves in content; temporary mutes carry an expiration marker
+
+import type { NostrEvent, NostrSigner } from '@nostrify/nostrify';
+import { MuteType, type MuteItem } from '@/types/moderation';
+
+const MUTE_TYPES: string[] = Object.values(MuteType);
+const EXPIRATION_PREFIX = 'expiration:';
+
+/**
+ * Turn a tag's trailing elements into reason and expiry
+ * The expiry is an extra "expiration:<unix time>" element after the reason, which clients
+ * that don't know it treat as one more opaque tag value
+ */
+function parseTagExtras(extras: string[]): Pick<MuteItem, 'reason' | 'expireAt'> {
+  let reason: string | undefined;
+  let expireAt: number | undefined;
+
+  for (const extra of extras) {
+    if (extra.startsWith(EXPIRATION_PREFIX)) {
+      const time = Number(extra.slice(EXPIRATION_PREFIX.length));
+      if (Number.isFinite(time) && time > 0) expireAt = time;
+    } else if (extra && reason === undefined) {
+      reason = extra;
+    }
+  }
+
+  return { reason, ...(expireAt !== undefined && { expireAt }) };
+}
+
+/**
+ * Turn mute list tags into mute items
+ */
+export function parseMuteTags(tags: string[][], createdAt: number, isPrivate = false): MuteItem[] {
+  const items: MuteItem[] = [];
+
+  for (const [type, value, ...extras] of tags) {
+    if (MUTE_TYPES.includes(type) && value) {
+      items.push({
+        type: type as MuteType,
+        value,
+        ...parseTagExtras(extras),
+        createdAt,
+        ...(isPrivate && { private: true }),
+      });
+    }
+  }
+
+  return items;
+}
+
+export function toMuteTag(item: MuteItem): string[] {
+  const tag = [item.type, item.value];
+  if (item.reason) tag.push(item.reason);
+  if (item.expireAt) tag.push(`${EXPIRATION_PREFIX}${item.expireAt}`);
+  return tag;
+}
+
+/**
+ * Whether a temporary mute has run out (now in unix seconds)
+ */
+export function isMuteExpired(item: MuteItem, now: number): boolean {
+  return item.expireAt !== undefined && item.expireAt <= now;
+}
+
+/**
+ * Public entries first; a private entry for something already muted publicly is dropped
+ */
+export function mergeMuteItems(publicItems: MuteItem[], privateItems: MuteItem[]): MuteItem[] {
+  const seen = new Set(publicItems.map(item => `${item.type}:${item.value}`));
+  return [...publicItems, ...privateItems.filter(item => !seen.has(`${item.type}:${item.value}`))];
+}
+
+// NIP-04 payloads are "<base64>?iv=<base64>"; NIP-44 payloads are plain base64
+function isNip04(content: string): boolean {
+  return content.includes('?iv=');
+}
+
+/**
+ * Decrypt the private entries of our own mute list
+ * Throws when the signer can't decrypt the format used
+ */
+export async function decryptMuteContent(event: NostrEvent, signer: NostrSigner): Promise<string[][]> {
+  if (!event.content) return [];
+
+  let plaintext: string;
+  if (isNip04(event.content)) {
+    if (!signer.nip04) throw new Error('Signer does not support NIP-04 decryption');
+    plaintext = await signer.nip04.decrypt(event.pubkey, event.content);
+  } else {
+    if (!signer.nip44) throw new Error('Signer does not support NIP-44 decryption');
+    plaintext = await signer.nip44.decrypt(event.pubkey, event.content);
+  }
+
+  const tags: unknown = JSON.parse(plaintext);
+  if (!Array.isArray(tags)) throw new Error('Private mute entries are not a tag list');
+  return tags.filter((tag): tag is string[] => Array.isArray(tag) && tag.every(value => typeof value === 'string'));
+}
+
+/**
+ * Encrypt private entries to ourselves with NIP-44
+ */
+export async function encryptMuteContent(tags: string[][], pubkey: string, signer: NostrSigner): Promise<string> {
+  if (tags.length === 0) return '';
+  if (!signer.nip44) throw new Error('Your signer does not support NIP-44 encryption, so private mutes are unavailable');
+  return signer.nip44.encrypt(pubkey, JSON.stringify(tags));
+}
@@ -0,0 +1,38 @@
+// ABOUTME: Tests for the NIP-77 negentropy client
+// ABOUTME: Verifies ID list reconciliation and fingerprint comparison of larger sets
+
+import { describe, it, expect } from 'vitest';
+import { Negentropy, NegentropyStorage } from './negentropy';
+
+const id = (n: number) => n.toString(16).padStart(64, '0');
+const items = (count: number) => Array.from({ length: count }, (_, i) => ({ id: id(i + 1), created_at: 1000 + i }));
+
+describe('Negentropy', () => {
+  it('finds the IDs each side is missing from an ID list', () => {
+    const negentropy = new Negentropy(new NegentropyStorage([
+      { id: id(1), created_at: 1 },
+      { id: id(2), created_at: 2 },
+      { id: id(3), created_at: 3 },
+    ]));
+    negentropy.initiate();
+
+    // Version, upper bound of infinity, ID list mode with two IDs
+    const relayMessage = '61' + '00' + '00' + '02' + '02' + id(2) + id(4);
+
+    expect(negentropy.reconcile(relayMessage)).toEqual({ next: null, have: [id(1), id(3)], need: [id(4)] });
+  });
+
+  it('finishes when every fingerprint matches', () => {
+    const relay = new Negentropy(new NegentropyStorage(items(40)));
+    const client = new Negentropy(new NegentropyStorage(items(40)));
+
+    expect(client.reconcile(relay.initiate())).toEqual({ next: null, have: [], need: [] });
+  });
+
+  it('asks for a closer look at ranges whose fingerprints differ', () => {
+    const relay = new Negentropy(new NegentropyStorage([...items(40), { id: id(99), created_at: 1010 }]));
+    const client = new Negentropy(new NegentropyStorage(items(40)));
+
+    expect(client.reconcile(relay.initiate()).next).not.toBeNull();
+  });
+});
@@ -0,0 +1,276 @@
+// ABOUTME: NIP-77 negentropy set reconciliation (protocol version 1), client side
+// ABOUTME: Compares fingerprints of (created_at, id) ranges with a relay so only the missing events are transferred
+
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+
+const PROTOCOL_VERSION = 0x61;
+const ID_SIZE = 32;
+const FINGERPRINT_SIZE = 16;
+const BUCKETS = 16; // Ranges a mismatched range is split into
+const MAX_TIMESTAMP = Number.MAX_SAFE_INTEGER; // Encoded as 0, meaning "infinity"
+
+const MODE = {
+  skip: 0,
+  fingerprint: 1,
+  idList: 2,
+} as const;
+
+interface Bound {
+  timestamp: number;
+  id: Uint8Array;
+}
+
+export interface ReconcileResult {
+  next: string | null; // Message to send back, or null when reconciliation is complete
+  have: string[]; // IDs only we have
+  need: string[]; // IDs only the relay has
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+function compareBounds(a: Bound, b: Bound): number {
+  return a.timestamp - b.timestamp || compareBytes(a.id, b.id);
+}
+
+function encodeVarInt(n: number): number[] {
+  if (n === 0) return [0];
+  const out: number[] = [];
+  while (n > 0) {
+    out.unshift(n % 128);
+    n = Math.floor(n / 128);
+  }
+  for (let i = 0; i < out.length - 1; i++) out[i] |= 0x80;
+  return out;
+}
+
+class Reader {
+  private pos = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  get remaining(): number {
+    return this.bytes.length - this.pos;
+  }
+
+  byte(): number {
+    if (this.remaining < 1) throw new Error('Negentropy message ended unexpectedly');
+    return this.bytes[this.pos++];
+  }
+
+  take(n: number): Uint8Array {
+    if (this.remaining < n) throw new Error('Negentropy message ended unexpectedly');
+    const out = this.bytes.slice(this.pos, this.pos + n);
+    this.pos += n;
+    return out;
+  }
+
+  varInt(): number {
+    let n = 0;
+    for (;;) {
+      const byte = this.byte();
+      n = n * 128 + (byte & 0x7f);
+      if (!(byte & 0x80)) return n;
+    }
+  }
+}
+
+/**
+ * The local side of a reconciliation: items sorted by timestamp, then ID
+ */
+export class NegentropyStorage {
+  private items: Bound[];
+
+  constructor(events: { id: string; created_at: number }[]) {
+    this.items = events
+      .map(event => ({ timestamp: event.created_at, id: hexToBytes(event.id) }))
+      .sort(compareBounds);
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  get(index: number): Bound {
+    return this.items[index];
+  }
+
+  /** Index of the first item in [begin, end) that isn't below bound */
+  findLowerBound(begin: number, end: number, bound: Bound): number {
+    while (begin < end) {
+      const mid = (begin + end) >>> 1;
+      if (compareBounds(this.items[mid], bound) < 0) {
+        begin = mid + 1;
+      } else {
+        end = mid;
+      }
+    }
+    return begin;
+  }
+
+  /** Sum of the IDs as 256-bit little-endian integers and the count, hashed */
+  fingerprint(begin: number, end: number): Uint8Array {
+    const sum = new Uint8Array(ID_SIZE);
+    for (let i = begin; i < end; i++) {
+      const id = this.items[i].id;
+      let carry = 0;
+      for (let j = 0; j < ID_SIZE; j++) {
+        const total = sum[j] + id[j] + carry;
+        sum[j] = total & 0xff;
+        carry = total >> 8;
+      }
+    }
+    return sha256(new Uint8Array([...sum, ...encodeVarInt(end - begin)])).slice(0, FINGERPRINT_SIZE);
+  }
+}
+
+/**
+ * Initiator of a negentropy reconciliation
+ * Send initiate() in NEG-OPEN, then pass each NEG-MSG to reconcile() until it returns no next message
+ */
+export class Negentropy {
+  private lastTimestampIn = 0;
+  private lastTimestampOut = 0;
+
+  constructor(private storage: NegentropyStorage) {}
+
+  initiate(): string {
+    this.lastTimestampOut = 0;
+    const out = [PROTOCOL_VERSION];
+    this.splitRange(0, this.storage.size, { timestamp: MAX_TIMESTAMP, id: new Uint8Array(0) }, out);
+    return bytesToHex(new Uint8Array(out));
+  }
+
+  reconcile(message: string): ReconcileResult {
+    const reader = new Reader(hexToBytes(message));
+    this.lastTimestampIn = 0;
+    this.lastTimestampOut = 0;
+
+    const version = reader.byte();
+    if (version !== PROTOCOL_VERSION) {
+      throw new Error(`Unsupported negentropy protocol version 0x${version.toString(16)}`);
+    }
+
+    const out = [PROTOCOL_VERSION];
+    const have: string[] = [];
+    const need: string[] = [];
+    let prevIndex = 0;
+    let prevBound: Bound = { timestamp: 0, id: new Uint8Array(0) };
+    let skip = false;
+
+    while (reader.remaining > 0) {
+      const range: number[] = [];
+      // Matching ranges are only written out when a range that needs work follows them
+      const flushSkip = () => {
+        if (!skip) return;
+        skip = false;
+        range.push(...this.encodeBound(prevBound), ...encodeVarInt(MODE.skip));
+      };
+
+      const bound = this.decodeBound(reader);
+      const mode = reader.varInt();
+      const lower = prevIndex;
+      const upper = this.storage.findLowerBound(prevIndex, this.storage.size, bound);
+
+      if (mode === MODE.skip) {
+        skip = true;
+      } else if (mode === MODE.fingerprint) {
+        const theirs = reader.take(FINGERPRINT_SIZE);
+        if (compareBytes(theirs, this.storage.fingerprint(lower, upper)) === 0) {
+          skip = true;
+        } else {
+          flushSkip();
+          this.splitRange(lower, upper, bound, range);
+        }
+      } else if (mode === MODE.idList) {
+        const theirs = new Set<string>();
+        const count = reader.varInt();
+        for (let i = 0; i < count; i++) theirs.add(bytesToHex(reader.take(ID_SIZE)));
+
+        for (let i = lower; i < upper; i++) {
+          const id = bytesToHex(this.storage.get(i).id);
+          if (!theirs.delete(id)) have.push(id);
+        }
+        need.push(...theirs);
+        skip = true;
+      } else {
+        throw new Error(`Unknown negentropy range mode ${mode}`);
+      }
+
+      out.push(...range);
+      prevIndex = upper;
+      prevBound = bound;
+    }
+
+    return { next: out.length > 1 ? bytesToHex(new Uint8Array(out)) : null, have, need };
+  }
+
+  /** Describe [lower, upper) as an ID list when small, otherwise as fingerprinted buckets */
+  private splitRange(lower: number, upper: number, upperBound: Bound, out: number[]): void {
+    const count = upper - lower;
+
+    if (count < BUCKETS * 2) {
+      out.push(...this.encodeBound(upperBound), ...encodeVarInt(MODE.idList), ...encodeVarInt(count));
+      for (let i = lower; i < upper; i++) out.push(...this.storage.get(i).id);
+      return;
+    }
+
+    const perBucket = Math.floor(count / BUCKETS);
+    const withExtra = count % BUCKETS;
+    let current = lower;
+
+    for (let i = 0; i < BUCKETS; i++) {
+      const size = perBucket + (i < withExtra ? 1 : 0);
+      const fingerprint = this.storage.fingerprint(current, current + size);
+      current += size;
+
+      const bound = current === upper
+        ? upperBound
+        : this.minimalBound(this.storage.get(current - 1), this.storage.get(current));
+      out.push(...this.encodeBound(bound), ...encodeVarInt(MODE.fingerprint), ...fingerprint);
+    }
+  }
+
+  /** Shortest bound that sorts after prev and not after curr */
+  private minimalBound(prev: Bound, curr: Bound): Bound {
+    if (curr.timestamp !== prev.timestamp) {
+      return { timestamp: curr.timestamp, id: new Uint8Array(0) };
+    }
+    let shared = 0;
+    while (shared < ID_SIZE && curr.id[shared] === prev.id[shared]) shared++;
+    return { timestamp: curr.timestamp, id: curr.id.slice(0, shared + 1) };
+  }
+
+  // Timestamps are delta-encoded within a message, +1 so that 0 can mean infinity
+  private encodeBound(bound: Bound): number[] {
+    let timestamp: number[];
+    if (bound.timestamp === MAX_TIMESTAMP) {
+      this.lastTimestampOut = MAX_TIMESTAMP;
+      timestamp = encodeVarInt(0);
+    } else {
+      timestamp = encodeVarInt(bound.timestamp - this.lastTimestampOut + 1);
+      this.lastTimestampOut = bound.timestamp;
+    }
+    return [...timestamp, ...encodeVarInt(bound.id.length), ...bound.id];
+  }
+
+  private decodeBound(reader: Reader): Bound {
+    const encoded = reader.varInt();
+    let timestamp = encoded === 0 ? MAX_TIMESTAMP : encoded - 1;
+    if (this.lastTimestampIn === MAX_TIMESTAMP || timestamp === MAX_TIMESTAMP) {
+      timestamp = MAX_TIMESTAMP;
+    } else {
+      timestamp += this.lastTimestampIn;
+    }
+    this.lastTimestampIn = timestamp;
+
+    const length = reader.varInt();
+    if (length > ID_SIZE) throw new Error('Negentropy bound ID is too long');
+    return { timestamp, id: reader.take(length) };
+  }
+}
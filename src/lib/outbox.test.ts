@@ -0,0 +1,103 @@
+// ABOUTME: Tests for NIP-65 relay list parsing and outbox routing
+// ABOUTME: Verifies read/write markers, per-author filter narrowing and the fan-out caps
+
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import {
+  normalizeRelayUrl,
+  parseRelayList,
+  routeFiltersToOutbox,
+  selectPublishRelays,
+  getPublishPubkeys,
+  type RelayList,
+} from './outbox';
+
+function event(kind: number, tags: string[][], pubkey = 'author'): NostrEvent {
+  return { id: 'id', pubkey, created_at: 0, kind, tags, content: '', sig: '' };
+}
+
+const DEFAULT = 'wss://relay.divine.video';
+const limits = { relaysPerAuthor: 2, maxRelays: 2 };
+
+describe('normalizeRelayUrl', () => {
+  it('normalizes secure websocket URLs and rejects others', () => {
+    expect(normalizeRelayUrl('wss://Relay.Example.com/')).toBe('wss://relay.example.com');
+    expect(normalizeRelayUrl('ws://insecure.example.com')).toBeNull();
+    expect(normalizeRelayUrl('not a url')).toBeNull();
+  });
+});
+
+describe('parseRelayList', () => {
+  it('splits relays by read/write marker, unmarked meaning both', () => {
+    const list = parseRelayList(event(10002, [
+      ['r', 'wss://both.example.com'],
+      ['r', 'wss://read.example.com', 'read'],
+      ['r', 'wss://write.example.com/', 'write'],
+    ]));
+
+    expect(list.read).toEqual(['wss://both.example.com', 'wss://read.example.com']);
+    expect(list.write).toEqual(['wss://both.example.com', 'wss://write.example.com']);
+  });
+});
+
+describe('routeFiltersToOutbox', () => {
+  const writeRelays: Record<string, string[]> = {
+    alice: ['wss://a.example.com', 'wss://shared.example.com', 'wss://extra.example.com'],
+    bob: ['wss://shared.example.com', DEFAULT],
+    carol: ['wss://c.example.com'],
+  };
+
+  it('keeps the full filter on default relays and narrows authors on outbox relays', () => {
+    const routes = routeFiltersToOutbox(
+      [{ kinds: [34236], authors: ['alice', 'bob', 'dave'] }],
+      [DEFAULT],
+      pubkey => writeRelays[pubkey],
+      { relaysPerAuthor: 2, maxRelays: 10 }
+    );
+
+    expect(routes.get(DEFAULT)).toEqual([{ kinds: [34236], authors: ['alice', 'bob', 'dave'] }]);
+    expect(routes.get('wss://shared.example.com')).toEqual([{ kinds: [34236], authors: ['alice', 'bob'] }]);
+    expect(routes.get('wss://a.example.com')).toEqual([{ kinds: [34236], authors: ['alice'] }]);
+    expect(routes.has('wss://extra.example.com')).toBe(false); // Beyond relaysPerAuthor
+  });
+
+  it('caps fan-out, preferring relays that cover the most authors', () => {
+    const routes = routeFiltersToOutbox(
+      [{ kinds: [34236], authors: ['alice', 'bob', 'carol'] }],
+      [DEFAULT],
+      pubkey => writeRelays[pubkey],
+      limits
+    );
+
+    expect([...routes.keys()]).toHaveLength(3);
+    expect(routes.has('wss://shared.example.com')).toBe(true);
+  });
+
+  it('leaves filters without authors on the defaults', () => {
+    const routes = routeFiltersToOutbox([{ kinds: [34236], limit: 20 }], [DEFAULT], () => ['wss://x.example.com'], limits);
+    expect([...routes.keys()]).toEqual([DEFAULT]);
+  });
+});
+
+describe('selectPublishRelays', () => {
+  const lists: Record<string, RelayList> = {
+    author: { read: [], write: ['wss://mine.example.com'] },
+    friend: { read: ['wss://inbox.example.com'], write: ['wss://friend-out.example.com'] },
+  };
+
+  it("adds the author's write relays and tagged users' read relays", () => {
+    const relays = selectPublishRelays(event(1111, [['p', 'friend']]), [DEFAULT], pubkey => lists[pubkey], { relaysPerAuthor: 2, maxRelays: 5 });
+    expect(relays).toEqual([DEFAULT, 'wss://mine.example.com', 'wss://inbox.example.com']);
+  });
+
+  it('ignores p tags on lists like contact lists', () => {
+    const relays = selectPublishRelays(event(3, [['p', 'friend']]), [DEFAULT], pubkey => lists[pubkey], limits);
+    expect(relays).toEqual([DEFAULT, 'wss://mine.example.com']);
+    expect(getPublishPubkeys(event(3, [['p', 'friend']]), 10)).toEqual(['author']);
+  });
+
+  it('caps the relays added beyond the base set', () => {
+    const relays = selectPublishRelays(event(7, [['p', 'friend']]), [DEFAULT], pubkey => lists[pubkey], { relaysPerAuthor: 2, maxRelays: 1 });
+    expect(relays).toEqual([DEFAULT, 'wss://mine.example.com']);
+  });
+});
@@ -0,0 +1,154 @@
+// ABOUTME: NIP-65 relay list parsing and outbox-model routing of filters and events
+// ABOUTME: Sends author-scoped filters to authors' write relays and events to tagged users' read relays, with fan-out caps
+
+import type { NostrEvent, NostrFilter } from '@nostrify/nostrify';
+
+export const RELAY_LIST_KIND = 10002;
+
+export interface RelayList {
+  read: string[];
+  write: string[];
+}
+
+export interface OutboxLimits {
+  relaysPerAuthor: number; // How many of each user's relays to use
+  maxRelays: number; // Extra relays one request or publish may fan out to, beyond the defaults
+}
+
+/**
+ * Normalize a relay URL, or return null for anything that isn't a secure websocket
+ */
+export function normalizeRelayUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== 'wss:') return null;
+    return `wss://${parsed.host}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a kind 10002 event - an 'r' tag with no marker is both read and write
+ */
+export function parseRelayList(event: NostrEvent): RelayList {
+  const read = new Set<string>();
+  const write = new Set<string>();
+
+  for (const [name, url, marker] of event.tags) {
+    if (name !== 'r' || !url) continue;
+    const normalized = normalizeRelayUrl(url);
+    if (!normalized) continue;
+
+    if (marker !== 'write') read.add(normalized);
+    if (marker !== 'read') write.add(normalized);
+  }
+
+  return { read: [...read], write: [...write] };
+}
+
+/**
+ * Route filters to the default relays plus each author's write relays
+ * Defaults always get the whole filter so nothing is lost if an author's relays are down;
+ * outbox relays get the filter narrowed to the authors that write there. When more relays are
+ * wanted than maxRelays allows, the ones covering the most authors win.
+ */
+export function routeFiltersToOutbox(
+  filters: NostrFilter[],
+  defaultRelays: string[],
+  getWriteRelays: (pubkey: string) => string[] | undefined,
+  limits: OutboxLimits
+): Map<string, NostrFilter[]> {
+  const result = new Map<string, NostrFilter[]>();
+  for (const url of defaultRelays) {
+    result.set(url, [...filters]);
+  }
+
+  // relay -> filter index -> authors to ask that relay for
+  const candidates = new Map<string, Map<number, Set<string>>>();
+  filters.forEach((filter, index) => {
+    for (const author of filter.authors ?? []) {
+      const relays = (getWriteRelays(author) ?? [])
+        .filter(url => !defaultRelays.includes(url))
+        .slice(0, limits.relaysPerAuthor);
+
+      for (const url of relays) {
+        const byFilter = candidates.get(url) ?? new Map<number, Set<string>>();
+        const authors = byFilter.get(index) ?? new Set<string>();
+        authors.add(author);
+        byFilter.set(index, authors);
+        candidates.set(url, byFilter);
+      }
+    }
+  });
+
+  const coverage = (byFilter: Map<number, Set<string>>) =>
+    [...byFilter.values()].reduce((sum, authors) => sum + authors.size, 0);
+
+  const selected = [...candidates.entries()]
+    .sort(([, a], [, b]) => coverage(b) - coverage(a))
+    .slice(0, limits.maxRelays);
+
+  for (const [url, byFilter] of selected) {
+    result.set(url, [...byFilter.entries()].map(([index, authors]) => ({
+      ...filters[index],
+      authors: [...authors],
+    })));
+  }
+
+  return result;
+}
+
+/**
+ * Whether p tags on this kind mean "notify these people" (replies, mentions, reactions)
+ * rather than membership, as in contact lists and other replaceable lists
+ */
+export function notifiesTaggedUsers(kind: number): boolean {
+  return kind !== 3 && !(kind >= 10000 && kind < 20000) && !(kind >= 30000 && kind < 40000);
+}
+
+/**
+ * Pick relays to publish an event to: the base relays, the author's write relays,
+ * and the read relays of users it replies to or mentions
+ */
+export function selectPublishRelays(
+  event: NostrEvent,
+  baseRelays: string[],
+  relayLists: (pubkey: string) => RelayList | undefined,
+  limits: OutboxLimits
+): string[] {
+  const base = new Set(baseRelays);
+  const extra = new Set<string>();
+
+  const add = (urls: string[] | undefined) => {
+    for (const url of (urls ?? []).slice(0, limits.relaysPerAuthor)) {
+      if (extra.size >= limits.maxRelays) return;
+      if (!base.has(url)) extra.add(url);
+    }
+  };
+
+  add(relayLists(event.pubkey)?.write);
+
+  if (notifiesTaggedUsers(event.kind)) {
+    const tagged = new Set(event.tags.filter(([name, value]) => name === 'p' && value && value !== event.pubkey).map(([, value]) => value));
+    for (const pubkey of tagged) {
+      add(relayLists(pubkey)?.read);
+    }
+  }
+
+  return [...base, ...extra];
+}
+
+/**
+ * Pubkeys whose relay lists are needed to publish this event
+ */
+export function getPublishPubkeys(event: NostrEvent, maxTagged: number): string[] {
+  const pubkeys = new Set([event.pubkey]);
+  if (notifiesTaggedUsers(event.kind)) {
+    for (const [name, value] of event.tags) {
+      if (pubkeys.size > maxTagged) break;
+      if (name === 'p' && value) pubkeys.add(value);
+    }
+  }
+  return [...pubkeys];
+}
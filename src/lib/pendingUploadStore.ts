@@ -0,0 +1,45 @@
+// ABOUTME: IndexedDB persistence for an in-progress video publish, one per account
+// ABOUTME: Keeps the prepared video, thumbnail, form fields and finished upload steps so a reload can resume
+
+import { debugLog } from './debug';
+import { IndexedDBObjectStore } from './indexedDBObjectStore';
+
+export interface PendingUpload {
+  pubkey: string;
+  video: Blob;
+  duration: number; // milliseconds
+  width: number;
+  height: number;
+  thumbnail?: Blob;
+  thumbnailTime?: number; // milliseconds into the video the thumbnail was taken
+  blurhash?: string;
+  title: string;
+  description: string;
+  hashtags: string[];
+  // Set as each upload finishes, so resuming skips completed work
+  videoTags?: string[][];
+  thumbnailUrl?: string;
+  updatedAt: number;
+}
+
+class PendingUploadStore extends IndexedDBObjectStore {
+  constructor() {
+    // Without IndexedDB uploads still work, they just can't be resumed
+    super({ dbName: 'pending_uploads', version: 1, storeName: 'uploads', keyPath: 'pubkey', logName: 'PendingUploadStore' });
+  }
+
+  async load(pubkey: string): Promise<PendingUpload | null> {
+    return (await this.request<PendingUpload>('readonly', store => store.get(pubkey))) ?? null;
+  }
+
+  async save(upload: Omit<PendingUpload, 'updatedAt'>): Promise<void> {
+    await this.request('readwrite', store => store.put({ ...upload, updatedAt: Date.now() }));
+    debugLog(`[PendingUploadStore] Saved pending upload for ${upload.pubkey}`);
+  }
+
+  async clear(pubkey: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(pubkey));
+  }
+}
+
+export const pendingUploadStore = new PendingUploadStore();
@@ -0,0 +1,62 @@
+// ABOUTME: Tests for NIP-42 relay authentication
+// ABOUTME: Verifies kind 22242 events, always/ask/never preferences and authenticated status tracking
+
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent, NostrSigner } from '@nostrify/nostrify';
+import { RelayAuthenticator, RELAY_AUTH_KIND } from './relayAuth';
+
+const URL = 'wss://private.example.com';
+
+const signer: NostrSigner = {
+  getPublicKey: async () => 'pubkey',
+  signEvent: async (event) => ({ ...event, id: 'auth-id', pubkey: 'pubkey', sig: 'sig' }),
+};
+
+function message(auth: RelayAuthenticator, data: unknown[]) {
+  auth.handleLog({ ns: 'relay.ws.message', url: URL, data });
+}
+
+describe('RelayAuthenticator', () => {
+  it('signs a kind 22242 event right away for "always" relays', async () => {
+    const auth = new RelayAuthenticator();
+    const retried: string[] = [];
+    auth.onAuthenticated(url => retried.push(url));
+    auth.configure(signer, { [URL]: 'always' });
+
+    const event: NostrEvent = await auth.handleChallenge(URL, 'challenge-1');
+    expect(event.kind).toBe(RELAY_AUTH_KIND);
+    expect(event.tags).toEqual([['relay', URL], ['challenge', 'challenge-1']]);
+
+    message(auth, ['OK', 'auth-id', true, '']);
+    expect(auth.getSnapshot().relays).toEqual([{ url: URL, status: 'authenticated' }]);
+    expect(retried).toEqual([]); // Nothing was refused, so nothing needs retrying
+  });
+
+  it('asks only once the relay refuses something with auth-required', async () => {
+    const auth = new RelayAuthenticator();
+    auth.configure(signer, {});
+
+    const pending = auth.handleChallenge(URL, 'challenge-1');
+    expect(auth.getSnapshot().prompts).toEqual([]);
+
+    message(auth, ['CLOSED', 'sub1', 'auth-required: private list']);
+    expect(auth.getSnapshot().prompts).toEqual([URL]);
+
+    const retried: string[] = [];
+    auth.onAuthenticated(url => retried.push(url));
+    auth.respond(URL, true);
+    await expect(pending).resolves.toMatchObject({ kind: RELAY_AUTH_KIND });
+    expect(auth.getSnapshot().prompts).toEqual([]);
+
+    message(auth, ['OK', 'auth-id', true, '']);
+    expect(retried).toEqual([URL]);
+  });
+
+  it('declines for "never" relays', async () => {
+    const auth = new RelayAuthenticator();
+    auth.configure(signer, { [URL]: 'never' });
+
+    await expect(auth.handleChallenge(URL, 'challenge-1')).rejects.toThrow('Authentication declined');
+    expect(auth.getSnapshot().relays[0].status).toBe('denied');
+  });
+});
@@ -0,0 +1,229 @@
+// ABOUTME: NIP-42 relay authentication - answers AUTH challenges with kind 22242 events from the user's signer
+// ABOUTME: Honours per-relay always/ask/never preferences and tracks which relays the user is authenticated to
+
+import type { NostrEvent, NostrSigner } from '@nostrify/nostrify';
+import type { RelayLog } from './relayHealth';
+import { debugLog, debugWarn } from './debug';
+
+export const RELAY_AUTH_KIND = 22242;
+
+export type RelayAuthPreference = 'always' | 'ask' | 'never';
+export type RelayAuthStatus = 'challenged' | 'pending' | 'authenticated' | 'denied' | 'failed';
+
+export interface RelayAuthState {
+  url: string;
+  status: RelayAuthStatus;
+  message?: string; // The relay's reason when authentication failed
+}
+
+export interface RelayAuthSnapshot {
+  relays: RelayAuthState[];
+  prompts: string[]; // Relays waiting for the user to allow or deny authentication
+}
+
+interface Challenge {
+  challenge: string;
+  resolve: (event: NostrEvent) => void;
+  reject: (error: Error) => void;
+  eventId?: string;
+}
+
+export const DEFAULT_RELAY_AUTH_PREFERENCE: RelayAuthPreference = 'ask';
+
+/**
+ * Build the unsigned kind 22242 event answering a relay's challenge
+ */
+export function buildAuthEvent(relayUrl: string, challenge: string): Omit<NostrEvent, 'id' | 'pubkey' | 'sig'> {
+  return {
+    kind: RELAY_AUTH_KIND,
+    content: '',
+    tags: [['relay', relayUrl], ['challenge', challenge]],
+    created_at: Math.floor(Date.now() / 1000),
+  };
+}
+
+function isAuthRequired(reason: unknown): boolean {
+  return typeof reason === 'string' && reason.startsWith('auth-required:');
+}
+
+export class RelayAuthenticator {
+  private signer?: NostrSigner;
+  private preferences: Record<string, RelayAuthPreference> = {};
+  private challenges = new Map<string, Challenge>();
+  private states = new Map<string, RelayAuthState>();
+  private prompts: string[] = [];
+  private listeners = new Set<() => void>();
+  private refusedAt = new Map<string, number>(); // When each relay first refused us with auth-required this connection
+  private authenticatedListeners = new Set<(url: string, refusedAt: number) => void>();
+  private snapshot: RelayAuthSnapshot = { relays: [], prompts: [] };
+
+  /** Update the signer and per-relay preferences from the current login and app config */
+  configure(signer: NostrSigner | undefined, preferences: Record<string, RelayAuthPreference>): void {
+    this.signer = signer;
+    this.preferences = preferences;
+
+    // Apply preference changes to challenges already waiting
+    for (const url of [...this.prompts]) {
+      const preference = this.getPreference(url);
+      if (preference === 'always') {
+        this.respond(url, true);
+      } else if (preference === 'never' || !signer) {
+        this.respond(url, false);
+      }
+    }
+  }
+
+  getPreference(url: string): RelayAuthPreference {
+    return this.preferences[url] ?? DEFAULT_RELAY_AUTH_PREFERENCE;
+  }
+
+  /**
+   * Answer an AUTH challenge - pass this as NRelay1's `auth` option
+   * With "ask", the answer waits until the relay actually refuses something with auth-required,
+   * so relays that challenge every connection don't prompt the user for nothing.
+   */
+  handleChallenge = (url: string, challenge: string): Promise<NostrEvent> => {
+    this.challenges.get(url)?.reject(new Error('Superseded by a new AUTH challenge'));
+
+    return new Promise<NostrEvent>((resolve, reject) => {
+      this.challenges.set(url, { challenge, resolve, reject });
+      this.setState(url, { url, status: 'challenged' });
+
+      const preference = this.getPreference(url);
+      if (preference === 'always') {
+        this.authenticate(url);
+      } else if (preference === 'never') {
+        this.deny(url);
+      }
+    });
+  };
+
+  /**
+   * Watch relay messages for auth-required refusals and the relay's OK for our AUTH event
+   */
+  handleLog(log: RelayLog): void {
+    if (typeof log.url !== 'string') return;
+    const url = log.url;
+
+    if (log.ns === 'relay.ws.state' && log.state === 'close') {
+      // Authentication only lasts as long as the connection
+      this.challenges.get(url)?.reject(new Error('Relay connection closed'));
+      this.challenges.delete(url);
+      this.refusedAt.delete(url);
+      this.prompts = this.prompts.filter(prompt => prompt !== url);
+      if (this.states.delete(url)) this.changed();
+      return;
+    }
+
+    if (log.ns !== 'relay.ws.message' || !Array.isArray(log.data)) return;
+    const [type, id, okOrReason, message] = log.data as unknown[];
+
+    const challenge = this.challenges.get(url);
+    if (type === 'OK' && challenge?.eventId && id === challenge.eventId) {
+      this.challenges.delete(url);
+      if (okOrReason === true) {
+        debugLog(`[relayAuth] Authenticated to ${url}`);
+        this.setState(url, { url, status: 'authenticated' });
+        // Only relays that turned something away have anything to retry
+        const refusedAt = this.refusedAt.get(url);
+        this.refusedAt.delete(url);
+        if (refusedAt !== undefined) {
+          for (const listener of this.authenticatedListeners) listener(url, refusedAt);
+        }
+      } else {
+        debugWarn(`[relayAuth] ${url} rejected authentication:`, message);
+        this.setState(url, { url, status: 'failed', message: typeof message === 'string' ? message : undefined });
+      }
+      return;
+    }
+
+    const refused = (type === 'CLOSED' && isAuthRequired(okOrReason)) || (type === 'OK' && okOrReason === false && isAuthRequired(message));
+    if (refused && !this.refusedAt.has(url)) {
+      this.refusedAt.set(url, Date.now());
+    }
+    if (refused && challenge && !challenge.eventId && this.states.get(url)?.status === 'challenged') {
+      if (this.signer && !this.prompts.includes(url)) {
+        this.prompts = [...this.prompts, url];
+        this.changed();
+      }
+    }
+  }
+
+  /** The user's answer to a prompt */
+  respond(url: string, allow: boolean): void {
+    this.prompts = this.prompts.filter(prompt => prompt !== url);
+    if (allow) {
+      this.authenticate(url);
+    } else {
+      this.deny(url);
+    }
+    this.changed();
+  }
+
+  /**
+   * Call when a relay accepts authentication after refusing something with auth-required,
+   * with the time of the first refusal, e.g. to retry the queries it refused
+   */
+  onAuthenticated(listener: (url: string, refusedAt: number) => void): () => void {
+    this.authenticatedListeners.add(listener);
+    return () => {
+      this.authenticatedListeners.delete(listener);
+    };
+  }
+
+  getSnapshot = (): RelayAuthSnapshot => this.snapshot;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private async authenticate(url: string): Promise<void> {
+    const challenge = this.challenges.get(url);
+    if (!challenge || challenge.eventId) return;
+
+    if (!this.signer) {
+      this.fail(url, challenge, 'Not logged in');
+      return;
+    }
+
+    try {
+      const event = await this.signer.signEvent(buildAuthEvent(url, challenge.challenge));
+      if (this.challenges.get(url) !== challenge) return; // Superseded while signing
+      challenge.eventId = event.id;
+      this.setState(url, { url, status: 'pending' });
+      challenge.resolve(event);
+    } catch (error) {
+      this.fail(url, challenge, error instanceof Error ? error.message : 'Signing failed');
+    }
+  }
+
+  private deny(url: string): void {
+    const challenge = this.challenges.get(url);
+    if (!challenge) return;
+    this.challenges.delete(url);
+    challenge.reject(new Error('Authentication declined'));
+    this.setState(url, { url, status: 'denied' });
+  }
+
+  private fail(url: string, challenge: Challenge, message: string): void {
+    debugWarn(`[relayAuth] Could not authenticate to ${url}:`, message);
+    this.challenges.delete(url);
+    challenge.reject(new Error(message));
+    this.setState(url, { url, status: 'failed', message });
+  }
+
+  private setState(url: string, state: RelayAuthState): void {
+    this.states.set(url, state);
+    this.changed();
+  }
+
+  private changed(): void {
+    this.snapshot = { relays: [...this.states.values()], prompts: [...this.prompts] };
+    for (const listener of this.listeners) listener();
+  }
+}
+
+export const relayAuth = new RelayAuthenticator();
@@ -0,0 +1,86 @@
+// ABOUTME: Tests for NIP-11 relay information parsing and per-relay filter adaptation
+// ABOUTME: Verifies sort-mode fallback, search dropping and max_limit clamping
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseRelayInformation,
+  getRelayInfoUrl,
+  getEffectiveSortMode,
+  adaptFilterToRelay,
+  type RelayCapabilities,
+} from './relayCapabilities';
+
+function capabilities(overrides: Partial<RelayCapabilities> = {}): RelayCapabilities {
+  return {
+    url: 'wss://relay.example.com',
+    supportsNIP50: true,
+    supportedSortModes: ['hot', 'top'],
+    supportsSearch: true,
+    supportedNips: [1, 11, 50],
+    authRequired: false,
+    paymentRequired: false,
+    detectedAt: Date.now(),
+    probed: false,
+    ...overrides,
+  };
+}
+
+const plain = capabilities({ supportsNIP50: false, supportedSortModes: [], supportsSearch: false, supportedNips: [1, 11] });
+
+describe('parseRelayInformation', () => {
+  it('reads supported NIPs, limitations and software', () => {
+    const info = parseRelayInformation({
+      software: 'git+https://github.com/hoytech/strfry.git',
+      version: '1.0.0',
+      supported_nips: [1, 11, '50'],
+      limitation: { max_limit: 500, auth_required: true },
+    });
+
+    expect(info.supportedNips).toEqual([1, 11, 50]);
+    expect(info.limitation).toEqual({ maxLimit: 500, authRequired: true, paymentRequired: false });
+    expect(info.version).toBe('1.0.0');
+  });
+
+  it('tolerates missing and malformed fields', () => {
+    const info = parseRelayInformation({ supported_nips: 'all', limitation: null, version: 2 });
+    expect(info.supportedNips).toEqual([]);
+    expect(info.limitation.maxLimit).toBeUndefined();
+    expect(info.version).toBeUndefined();
+  });
+});
+
+describe('getRelayInfoUrl', () => {
+  it('maps websocket URLs to HTTP', () => {
+    expect(getRelayInfoUrl('wss://relay.example.com/')).toBe('https://relay.example.com/');
+    expect(getRelayInfoUrl('ws://localhost:7777')).toBe('http://localhost:7777');
+  });
+});
+
+describe('getEffectiveSortMode', () => {
+  it('falls back to hot, then to chronological', () => {
+    expect(getEffectiveSortMode('wss://relay.example.com', 'top', capabilities())).toBe('top');
+    expect(getEffectiveSortMode('wss://relay.example.com', 'rising', capabilities())).toBe('hot');
+    expect(getEffectiveSortMode('wss://relay.example.com', 'hot', plain)).toBeUndefined();
+  });
+});
+
+describe('adaptFilterToRelay', () => {
+  it('drops the sort directive on relays without NIP-50', () => {
+    expect(adaptFilterToRelay({ kinds: [34236], search: 'sort:hot', limit: 20 }, 'wss://relay.example.com', plain))
+      .toEqual({ kinds: [34236], limit: 20 });
+  });
+
+  it('swaps unsupported sort modes and keeps search text', () => {
+    expect(adaptFilterToRelay({ kinds: [34236], search: 'sort:rising cats' }, 'wss://relay.example.com', capabilities()))
+      .toEqual({ kinds: [34236], search: 'sort:hot cats' });
+  });
+
+  it('skips text searches on relays that cannot search', () => {
+    expect(adaptFilterToRelay({ kinds: [34236], search: 'cats' }, 'wss://relay.example.com', plain)).toBeNull();
+  });
+
+  it('clamps the limit to max_limit', () => {
+    expect(adaptFilterToRelay({ kinds: [34236], limit: 1000 }, 'wss://relay.example.com', capabilities({ maxLimit: 100 })))
+      .toEqual({ kinds: [34236], limit: 100 });
+  });
+});
@@ -1,89 +1,232 @@
-// ABOUTME: Relay capability detection for NIP-50 search and other features
-// ABOUTME: Provides graceful fallback when relays don't support advanced features
+// ABOUTME: Relay capability detection from NIP-11 relay information documents
+// ABOUTME: Reads supported NIPs and limits, optionally probes NIP-50 sort directives, and adapts filters per relay
 
-import type { SortMode } from '@/types/nostr';
+import type { NostrFilter } from '@nostrify/nostrify';
+import type { NIP50Filter, SortMode } from '@/types/nostr';
+import { VIDEO_KINDS } from '@/types/video';
+import { debugLog, debugWarn } from '@/lib/debug';
 
 export interface RelayCapabilities {
   url: string;
   supportsNIP50: boolean;
   supportedSortModes: SortMode[];
   supportsSearch: boolean;
+  supportedNips: number[];
+  maxLimit?: number; // Most events the relay returns per filter
+  authRequired: boolean;
+  paymentRequired: boolean;
+  software?: string;
+  version?: string;
   detectedAt: number;
-  error?: string;
+  probed: boolean; // Sort modes were tested against the relay rather than assumed from NIP-50 support
+  error?: string; // Set when the NIP-11 document couldn't be read and known-relay defaults were used
 }
 
+/** The parts of a NIP-11 relay information document we use */
+export interface RelayInformation {
+  name?: string;
+  software?: string;
+  version?: string;
+  supportedNips: number[];
+  limitation: {
+    maxLimit?: number;
+    authRequired: boolean;
+    paymentRequired: boolean;
+  };
+}
+
+export const ALL_SORT_MODES: SortMode[] = ['hot', 'top', 'rising', 'controversial'];
+
 // Cache relay capabilities (5 minutes)
 const CACHE_DURATION = 5 * 60 * 1000;
+const NIP11_TIMEOUT = 5000;
+const PROBE_TIMEOUT = 5000;
 const capabilitiesCache = new Map<string, RelayCapabilities>();
+const inflight = new Map<string, Promise<RelayCapabilities>>();
+
+// Relays known to support NIP-50 sort directives - used until (or if) detection doesn't work
+const KNOWN_NIP50_RELAYS = [
+  'relay.divine.video',
+  'relay.nostr.band',
+  'relay.nostr.wine',
+  'relay.openvine.co',
+  'relay2.openvine.co',
+  'relay3.openvine.co',
+];
+
+function isKnownNIP50Relay(relayUrl: string): boolean {
+  return KNOWN_NIP50_RELAYS.some(known => relayUrl.includes(known));
+}
 
 /**
- * Test if relay supports NIP-50 search by sending a test query
+ * The HTTP(S) URL a relay serves its NIP-11 document from
  */
-async function testNIP50Support(relayUrl: string): Promise<boolean> {
-  try {
-    // We'll use the Nostr client to test this
-    // For now, assume relay.divine.video and similar support it
-    // This is a placeholder - full implementation would actually query the relay
-
-    // Known relays with NIP-50 support (including OpenVine relays)
-    const knownNIP50Relays = [
-      'relay.divine.video',
-      'relay.nostr.band',
-      'relay.nostr.wine',
-      'relay.openvine.co',
-      'relay2.openvine.co',
-      'relay3.openvine.co',
-    ];
-
-    return knownNIP50Relays.some(known => relayUrl.includes(known));
-  } catch {
-    return false;
-  }
+export function getRelayInfoUrl(relayUrl: string): string {
+  return relayUrl.replace(/^wss:\/\//i, 'https://').replace(/^ws:\/\//i, 'http://');
 }
 
 /**
- * Detect relay capabilities
+ * Parse a NIP-11 document, ignoring fields with unexpected types
  */
-export async function detectRelayCapabilities(relayUrl: string): Promise<RelayCapabilities> {
-  // Check cache first
-  const cached = capabilitiesCache.get(relayUrl);
-  if (cached && Date.now() - cached.detectedAt < CACHE_DURATION) {
-    return cached;
+export function parseRelayInformation(doc: unknown): RelayInformation {
+  const info = (doc && typeof doc === 'object' ? doc : {}) as Record<string, unknown>;
+  const limitation = (info.limitation && typeof info.limitation === 'object' ? info.limitation : {}) as Record<string, unknown>;
+  const asString = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+  return {
+    name: asString(info.name),
+    software: asString(info.software),
+    version: asString(info.version),
+    supportedNips: Array.isArray(info.supported_nips)
+      ? info.supported_nips.map(Number).filter(Number.isInteger)
+      : [],
+    limitation: {
+      maxLimit: typeof limitation.max_limit === 'number' && limitation.max_limit > 0 ? limitation.max_limit : undefined,
+      authRequired: limitation.auth_required === true,
+      paymentRequired: limitation.payment_required === true,
+    },
+  };
+}
+
+async function fetchRelayInformation(relayUrl: string): Promise<RelayInformation> {
+  const response = await fetch(getRelayInfoUrl(relayUrl), {
+    headers: { Accept: 'application/nostr+json' },
+    signal: AbortSignal.timeout(NIP11_TIMEOUT),
+  });
+  if (!response.ok) {
+    throw new Error(`NIP-11 request failed: HTTP ${response.status}`);
   }
+  return parseRelayInformation(await response.json());
+}
 
+/**
+ * Check which sort directives a relay honours by asking for one video per mode
+ * A relay that only does plain text search treats "sort:hot" as words and finds nothing,
+ * so a mode counts as supported only if it returns an event. Modes that time out are kept.
+ */
+async function probeSortModes(relayUrl: string, modes: SortMode[]): Promise<SortMode[]> {
+  return new Promise((resolve) => {
+    const results = new Map<string, boolean>();
+    let socket: WebSocket;
+
+    const finish = () => {
+      clearTimeout(timer);
+      socket?.close();
+      resolve(modes.filter(mode => results.get(mode) !== false));
+    };
+    const timer = setTimeout(finish, PROBE_TIMEOUT);
+
+    try {
+      socket = new WebSocket(relayUrl);
+    } catch {
+      finish();
+      return;
+    }
+
+    socket.onopen = () => {
+      for (const mode of modes) {
+        socket.send(JSON.stringify(['REQ', `probe-${mode}`, { kinds: VIDEO_KINDS, search: `sort:${mode}`, limit: 1 }]));
+      }
+    };
+    socket.onerror = () => finish();
+    socket.onmessage = (message) => {
+      try {
+        const [type, subId] = JSON.parse(message.data);
+        const mode = typeof subId === 'string' && subId.startsWith('probe-') ? subId.slice('probe-'.length) : undefined;
+        if (!mode || results.has(mode)) return;
+
+        if (type === 'EVENT') {
+          results.set(mode, true);
+        } else if (type === 'EOSE' || type === 'CLOSED') {
+          results.set(mode, false);
+        }
+        if (type === 'EVENT' || type === 'EOSE') {
+          socket.send(JSON.stringify(['CLOSE', subId]));
+        }
+        if (results.size === modes.length) finish();
+      } catch {
+        // Ignore malformed relay messages
+      }
+    };
+  });
+}
+
+async function detect(relayUrl: string, probe: boolean): Promise<RelayCapabilities> {
   try {
-    // Test NIP-50 support
-    const supportsNIP50 = await testNIP50Support(relayUrl);
+    const info = await fetchRelayInformation(relayUrl);
+    const supportsNIP50 = info.supportedNips.includes(50);
+    const supportedSortModes = supportsNIP50
+      ? (probe ? await probeSortModes(relayUrl, ALL_SORT_MODES) : ALL_SORT_MODES)
+      : [];
 
-    const capabilities: RelayCapabilities = {
+    debugLog(`[relayCapabilities] ${relayUrl}: ${info.software ?? 'unknown'} ${info.version ?? ''}, NIPs ${info.supportedNips.join(',')}, sort ${supportedSortModes.join(',') || 'none'}`);
+
+    return {
       url: relayUrl,
       supportsNIP50,
-      supportedSortModes: supportsNIP50 ? ['hot', 'top', 'rising', 'controversial'] : [],
+      supportedSortModes,
       supportsSearch: supportsNIP50,
+      supportedNips: info.supportedNips,
+      maxLimit: info.limitation.maxLimit,
+      authRequired: info.limitation.authRequired,
+      paymentRequired: info.limitation.paymentRequired,
+      software: info.software,
+      version: info.version,
       detectedAt: Date.now(),
+      probed: probe,
     };
-
-    // Cache the result
-    capabilitiesCache.set(relayUrl, capabilities);
-
-    return capabilities;
   } catch (error) {
-    const fallbackCapabilities: RelayCapabilities = {
+    debugWarn(`[relayCapabilities] Could not read NIP-11 document for ${relayUrl}:`, error);
+
+    // Fall back to what we know about the relay rather than disabling sorting outright
+    const supportsNIP50 = isKnownNIP50Relay(relayUrl);
+    return {
       url: relayUrl,
-      supportsNIP50: false,
-      supportedSortModes: [],
-      supportsSearch: false,
+      supportsNIP50,
+      supportedSortModes: supportsNIP50 ? ALL_SORT_MODES : [],
+      supportsSearch: supportsNIP50,
+      supportedNips: [],
+      authRequired: false,
+      paymentRequired: false,
       detectedAt: Date.now(),
+      probed: probe, // Nothing more a probe could learn until the cache expires
       error: error instanceof Error ? error.message : 'Unknown error',
     };
+  }
+}
+
+/**
+ * Detect relay capabilities
+ * With probe, sort directives are tested against the relay instead of assumed from NIP-50 support
+ */
+export async function detectRelayCapabilities(
+  relayUrl: string,
+  { probe = false }: { probe?: boolean } = {}
+): Promise<RelayCapabilities> {
+  // Check cache first; a probe replaces capabilities that were only assumed
+  const cached = getRelayCapabilities(relayUrl);
+  if (cached && (cached.probed || !probe)) {
+    return cached;
+  }
 
-    capabilitiesCache.set(relayUrl, fallbackCapabilities);
-    return fallbackCapabilities;
+  // Detections with and without probing are tracked apart so a probe never settles for an unprobed result
+  const key = probe ? `${relayUrl}#probe` : relayUrl;
+  let pending = inflight.get(key) ?? (probe ? undefined : inflight.get(`${relayUrl}#probe`));
+  if (!pending) {
+    pending = detect(relayUrl, probe).then(capabilities => {
+      // Don't let a plain detection that finished late replace a probed one
+      const current = getRelayCapabilities(relayUrl);
+      if (current?.probed && !capabilities.probed) return current;
+      capabilitiesCache.set(relayUrl, capabilities);
+      return capabilities;
+    }).finally(() => inflight.delete(key));
+    inflight.set(key, pending);
   }
+  return pending;
 }
 
 /**
- * Get cached capabilities or detect them
+ * Get cached capabilities, or null if they haven't been detected recently
  */
 export function getRelayCapabilities(relayUrl: string): RelayCapabilities | null {
   const cached = capabilitiesCache.get(relayUrl);
@@ -112,15 +255,7 @@ export function shouldUseNIP50(relayUrl: string): boolean {
 
   // If we don't have cached capabilities yet, optimistically assume support for known relays
   if (!capabilities) {
-    const knownNIP50Relays = [
-      'relay.divine.video',
-      'relay.nostr.band',
-      'relay.nostr.wine',
-      'relay.openvine.co',
-      'relay2.openvine.co',
-      'relay3.openvine.co',
-    ];
-    return knownNIP50Relays.some(known => relayUrl.includes(known));
+    return isKnownNIP50Relay(relayUrl);
   }
 
   return capabilities.supportsNIP50;
@@ -132,15 +267,15 @@ export function shouldUseNIP50(relayUrl: string): boolean {
  */
 export function getEffectiveSortMode(
   relayUrl: string,
-  requestedMode: SortMode
+  requestedMode: SortMode,
+  capabilities = getRelayCapabilities(relayUrl)
 ): SortMode | undefined {
-  const capabilities = getRelayCapabilities(relayUrl);
-
-  if (!capabilities || !capabilities.supportsNIP50) {
+  if (!capabilities) {
     // Optimistically try for known relays
-    if (shouldUseNIP50(relayUrl)) {
-      return requestedMode;
-    }
+    return isKnownNIP50Relay(relayUrl) ? requestedMode : undefined;
+  }
+
+  if (!capabilities.supportsNIP50) {
     return undefined;
   }
 
@@ -151,3 +286,39 @@ export function getEffectiveSortMode(
   // Fallback to 'hot' if requested mode not supported
   return capabilities.supportedSortModes.includes('hot') ? 'hot' : undefined;
 }
+
+/**
+ * Rewrite a filter for one relay: swap or drop sort directives it doesn't support
+ * and clamp the limit to its max_limit. Returns null when the relay can't answer the
+ * filter meaningfully (a text search on a relay without NIP-50).
+ */
+export function adaptFilterToRelay(
+  filter: NostrFilter,
+  relayUrl: string,
+  capabilities = getRelayCapabilities(relayUrl)
+): NostrFilter | null {
+  const adapted: NIP50Filter = { ...filter };
+
+  if (adapted.search) {
+    const sortMatch = adapted.search.match(/(?:^|\s)sort:(\S+)/);
+    const text = adapted.search.replace(/(?:^|\s)sort:\S+/, '').trim();
+
+    if (sortMatch) {
+      const sortMode = getEffectiveSortMode(relayUrl, sortMatch[1] as SortMode, capabilities);
+      adapted.search = [sortMode && `sort:${sortMode}`, text].filter(Boolean).join(' ');
+    }
+
+    if (text && capabilities && !capabilities.supportsSearch) {
+      return null;
+    }
+    if (!adapted.search) {
+      delete adapted.search; // Chronological fallback
+    }
+  }
+
+  if (capabilities?.maxLimit && adapted.limit && adapted.limit > capabilities.maxLimit) {
+    adapted.limit = capabilities.maxLimit;
+  }
+
+  return adapted;
+}
@@ -0,0 +1,98 @@
+// ABOUTME: Tests for relay health tracking from NRelay1 logs
+// ABOUTME: Verifies latency measurement, demotion after failures, failover and recovery
+
+import { describe, it, expect, vi } from 'vitest';
+import { RelayHealthMonitor, type RelayLog } from './relayHealth';
+
+const A = 'wss://a.example.com';
+const B = 'wss://b.example.com';
+const BACKUP = 'wss://backup.example.com';
+
+function log(url: string, ns: string, fields: Record<string, unknown> = {}): RelayLog {
+  return { level: 'trace', ns, url, ...fields };
+}
+
+function req(monitor: RelayHealthMonitor, url: string, subId: string, now: number) {
+  monitor.record(log(url, 'relay.ws.send', { data: ['REQ', subId, { kinds: [34236] }] }), now);
+}
+
+function message(monitor: RelayHealthMonitor, url: string, data: unknown[], now: number) {
+  monitor.record(log(url, 'relay.ws.message', { data }), now);
+}
+
+describe('RelayHealthMonitor', () => {
+  it('measures latency to the first event and EOSE', () => {
+    vi.useFakeTimers();
+    const monitor = new RelayHealthMonitor();
+
+    req(monitor, A, 'sub1', 1000);
+    message(monitor, A, ['EVENT', 'sub1', {}], 1200);
+    message(monitor, A, ['EOSE', 'sub1'], 1500);
+    vi.runAllTimers();
+
+    const health = monitor.getHealth(A)!;
+    expect(health.latency).toBe(200);
+    expect(health.eoseTime).toBe(500);
+    expect(health.status).toBe('healthy');
+    vi.useRealTimers();
+  });
+
+  it('demotes a relay after repeated timeouts and fails over', () => {
+    const monitor = new RelayHealthMonitor();
+    for (let i = 0; i < 3; i++) {
+      req(monitor, A, `sub${i}`, 0);
+    }
+
+    expect(monitor.isDemoted(A, 11_000)).toBe(true);
+    expect(monitor.selectRelays([A, B], [], 11_000)).toEqual([B]);
+    expect(monitor.selectRelays([A], [A, BACKUP], 11_000)).toEqual([BACKUP]);
+  });
+
+  it('counts REQs we abandon after waiting as timeouts, but not ones closed early', () => {
+    vi.useFakeTimers();
+    const monitor = new RelayHealthMonitor();
+    const close = (subId: string, now: number) =>
+      monitor.record(log(A, 'relay.ws.send', { data: ['CLOSE', subId] }), now);
+
+    req(monitor, A, 'early', 0);
+    close('early', 1000);
+    for (let i = 0; i < 3; i++) {
+      req(monitor, A, `sub${i}`, 0);
+      close(`sub${i}`, 5000);
+    }
+
+    vi.runAllTimers();
+
+    expect(monitor.getHealth(A)!.timeouts).toBe(3);
+    expect(monitor.isDemoted(A, 5000)).toBe(true);
+    vi.useRealTimers();
+  });
+
+  it('keeps CLOSED reasons and counts them as failures', () => {
+    vi.useFakeTimers();
+    const monitor = new RelayHealthMonitor();
+    req(monitor, A, 'sub1', 0);
+    message(monitor, A, ['CLOSED', 'sub1', 'rate-limited: slow down'], 100);
+    vi.runAllTimers();
+
+    const health = monitor.getHealth(A)!;
+    expect(health.closedReasons.map(({ message }) => message)).toEqual(['rate-limited: slow down']);
+    expect(health.status).toBe('degraded');
+    vi.useRealTimers();
+  });
+
+  it('recovers after the cooldown or a reconnect', () => {
+    const monitor = new RelayHealthMonitor();
+    for (let i = 0; i < 3; i++) {
+      monitor.record(log(A, 'relay.ws.error'), 0);
+    }
+    expect(monitor.isDemoted(A, 1000)).toBe(true);
+    expect(monitor.isDemoted(A, 31_000)).toBe(false);
+
+    for (let i = 0; i < 3; i++) {
+      monitor.record(log(A, 'relay.ws.error'), 40_000);
+    }
+    monitor.record(log(A, 'relay.ws.state', { state: 'open' }), 41_000);
+    expect(monitor.isDemoted(A, 41_000)).toBe(false);
+  });
+});
@@ -0,0 +1,329 @@
+// ABOUTME: Tracks connection state, REQ latency, EOSE timing, notices and CLOSED reasons for each relay
+// ABOUTME: Fed from NRelay1 logs; demotes failing or slow relays for a cooldown so the router can fail over
+
+import { performanceMonitor } from './performanceMonitoring';
+import { debugWarn } from './debug';
+
+export type RelayConnectionState = 'idle' | 'open' | 'closed' | 'reconnecting' | 'error';
+export type RelayHealthStatus = 'healthy' | 'degraded' | 'down';
+
+export interface RelayMessage {
+  message: string;
+  at: number;
+}
+
+export interface RelayHealth {
+  url: string;
+  state: RelayConnectionState;
+  status: RelayHealthStatus;
+  latency?: number; // Median ms from REQ to the first event (or EOSE if there were none)
+  eoseTime?: number; // Median ms from REQ to EOSE
+  reqCount: number;
+  eoseCount: number;
+  timeouts: number; // REQs that never reached EOSE
+  errors: number; // WebSocket errors and reconnect attempts
+  consecutiveFailures: number;
+  notices: RelayMessage[];
+  closedReasons: RelayMessage[];
+  demotedUntil?: number;
+  lastActivity?: number;
+}
+
+/** The fields of an NRelay1 log entry we read - NRelay1 adds the relay URL to each one */
+export interface RelayLog {
+  ns: string;
+  url?: unknown;
+  [key: string]: unknown;
+}
+
+interface PendingReq {
+  sentAt: number;
+  firstEventAt?: number;
+}
+
+interface RelayRecord extends RelayHealth {
+  pending: Map<string, PendingReq>;
+  latencies: number[];
+  eoseTimes: number[];
+}
+
+const REQ_TIMEOUT = 10_000; // ms without EOSE before a REQ counts as failed
+const ABANDON_TIMEOUT = 4_000; // ms after which a REQ we close before EOSE counts as timed out - app queries give up at 5s
+const FAILURE_THRESHOLD = 3; // Consecutive failures before a relay is demoted
+const SLOW_THRESHOLD = 3_000; // Median latency above this is degraded
+const DEMOTE_LATENCY = 8_000; // Median EOSE time above this demotes the relay
+const DEMOTION_COOLDOWN = 30_000; // ms a demoted relay gets no traffic before being retried
+const SAMPLE_SIZE = 10; // Recent REQs used for medians
+const MESSAGE_HISTORY = 10; // Notices and CLOSED reasons kept per relay
+const NOTIFY_INTERVAL = 500; // ms between change notifications
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function pushLimited<T>(list: T[], item: T, limit: number) {
+  list.push(item);
+  if (list.length > limit) list.shift();
+}
+
+export class RelayHealthMonitor {
+  private relays = new Map<string, RelayRecord>();
+  private listeners = new Set<() => void>();
+  private snapshot: RelayHealth[] = [];
+  private notifyTimer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Record an NRelay1 log entry - pass this to the relay's `log` option
+   */
+  record(log: RelayLog, now = Date.now()): void {
+    if (typeof log.url !== 'string') return;
+    const relay = this.getRecord(log.url);
+    this.expirePending(relay, now);
+
+    switch (log.ns) {
+      case 'relay.ws.state':
+        this.handleState(relay, log.state, now);
+        break;
+      case 'relay.ws.retry':
+        relay.state = 'reconnecting';
+        relay.errors++;
+        this.recordFailure(relay, now, 'reconnect attempt');
+        break;
+      case 'relay.ws.error':
+        relay.state = 'error';
+        relay.errors++;
+        this.recordFailure(relay, now, 'websocket error');
+        break;
+      case 'relay.ws.send':
+        if (Array.isArray(log.data)) this.handleSend(relay, log.data, now);
+        return; // Nothing visible changes until the relay answers
+      case 'relay.ws.message':
+        if (Array.isArray(log.data)) this.handleMessage(relay, log.data, now);
+        break;
+      default:
+        return;
+    }
+
+    this.changed();
+  }
+
+  /**
+   * Whether a relay is currently demoted and should get no traffic
+   */
+  isDemoted(url: string, now = Date.now()): boolean {
+    const relay = this.relays.get(url);
+    if (!relay) return false;
+    this.expirePending(relay, now);
+    return !!relay.demotedUntil && relay.demotedUntil > now;
+  }
+
+  /**
+   * Pick relays to query: the preferred relays that aren't demoted, else healthy fallbacks,
+   * else the preferred relays anyway so requests keep trying until something recovers
+   */
+  selectRelays(preferred: string[], fallbacks: string[] = [], now = Date.now()): string[] {
+    const healthy = preferred.filter(url => !this.isDemoted(url, now));
+    if (healthy.length > 0) return healthy;
+
+    const backups = fallbacks
+      .filter(url => !preferred.includes(url) && !this.isDemoted(url, now))
+      .slice(0, Math.max(preferred.length, 1));
+    if (backups.length > 0) {
+      debugWarn('[relayHealth] All preferred relays are demoted, failing over to', backups);
+      return backups;
+    }
+
+    return preferred;
+  }
+
+  getHealth(url: string): RelayHealth | undefined {
+    return this.getSnapshot().find(relay => relay.url === url);
+  }
+
+  /** Current health of every relay seen, stable between changes for useSyncExternalStore */
+  getSnapshot = (): RelayHealth[] => this.snapshot;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /** Forget a relay's history, e.g. to retry a demoted relay right away */
+  reset(url?: string): void {
+    if (url) {
+      this.relays.delete(url);
+    } else {
+      this.relays.clear();
+    }
+    this.changed();
+  }
+
+  private getRecord(url: string): RelayRecord {
+    let relay = this.relays.get(url);
+    if (!relay) {
+      relay = {
+        url,
+        state: 'idle',
+        status: 'healthy',
+        reqCount: 0,
+        eoseCount: 0,
+        timeouts: 0,
+        errors: 0,
+        consecutiveFailures: 0,
+        notices: [],
+        closedReasons: [],
+        pending: new Map(),
+        latencies: [],
+        eoseTimes: [],
+      };
+      this.relays.set(url, relay);
+    }
+    return relay;
+  }
+
+  private handleState(relay: RelayRecord, state: unknown, now: number) {
+    if (state === 'open') {
+      // A fresh connection gets a fresh chance - slow or failing relays are demoted again quickly
+      relay.state = 'open';
+      relay.consecutiveFailures = 0;
+      relay.demotedUntil = undefined;
+      relay.lastActivity = now;
+    } else if (state === 'close') {
+      relay.state = 'closed';
+    } else if (state === 'reconnect') {
+      relay.state = 'reconnecting';
+    }
+  }
+
+  private handleSend(relay: RelayRecord, [type, subId]: unknown[], now: number) {
+    if (typeof subId !== 'string') return;
+    if (type === 'REQ') {
+      relay.pending.set(subId, { sentAt: now });
+      relay.reqCount++;
+    } else if (type === 'CLOSE') {
+      const req = relay.pending.get(subId);
+      relay.pending.delete(subId);
+      // Closed by us before EOSE: soon after sending it's not the relay's fault, but a query
+      // that gave up waiting means the relay never answered
+      if (req && now - req.sentAt >= ABANDON_TIMEOUT) {
+        relay.timeouts++;
+        this.recordFailure(relay, now, `REQ ${subId} abandoned without EOSE`);
+        this.changed();
+      }
+    }
+  }
+
+  private handleMessage(relay: RelayRecord, [type, subId, reason]: unknown[], now: number) {
+    relay.lastActivity = now;
+
+    if (type === 'NOTICE') {
+      pushLimited(relay.notices, { message: String(subId), at: now }, MESSAGE_HISTORY);
+      return;
+    }
+    if (typeof subId !== 'string') return;
+    const req = relay.pending.get(subId);
+
+    if (type === 'EVENT' && req && !req.firstEventAt) {
+      req.firstEventAt = now;
+    } else if (type === 'EOSE' && req) {
+      relay.pending.delete(subId);
+      const eoseTime = now - req.sentAt;
+      const latency = (req.firstEventAt ?? now) - req.sentAt;
+
+      pushLimited(relay.eoseTimes, eoseTime, SAMPLE_SIZE);
+      pushLimited(relay.latencies, latency, SAMPLE_SIZE);
+      relay.eoseCount++;
+      relay.consecutiveFailures = 0;
+
+      performanceMonitor.recordMetric('relay_eose', eoseTime, { relayUrl: relay.url });
+      performanceMonitor.recordMetric('relay_latency', latency, { relayUrl: relay.url });
+
+      const medianEose = median(relay.eoseTimes)!;
+      if (relay.eoseTimes.length >= FAILURE_THRESHOLD && medianEose > DEMOTE_LATENCY) {
+        this.demote(relay, now, `median EOSE ${medianEose}ms`);
+      } else {
+        relay.demotedUntil = undefined;
+      }
+    } else if (type === 'CLOSED') {
+      pushLimited(relay.closedReasons, { message: typeof reason === 'string' && reason ? reason : '(no reason)', at: now }, MESSAGE_HISTORY);
+      if (req) {
+        relay.pending.delete(subId);
+        // Refusals pending NIP-42 authentication are the user's choice, not the relay failing
+        if (typeof reason !== 'string' || !reason.startsWith('auth-required:')) {
+          this.recordFailure(relay, now, `CLOSED ${reason}`);
+        }
+      }
+    }
+  }
+
+  private expirePending(relay: RelayRecord, now: number) {
+    let expired = false;
+    for (const [subId, req] of relay.pending) {
+      if (now - req.sentAt > REQ_TIMEOUT) {
+        relay.pending.delete(subId);
+        relay.timeouts++;
+        this.recordFailure(relay, now, `REQ ${subId} timed out`);
+        expired = true;
+      }
+    }
+    if (expired) this.changed();
+  }
+
+  private recordFailure(relay: RelayRecord, now: number, reason: string) {
+    relay.consecutiveFailures++;
+    if (relay.consecutiveFailures >= FAILURE_THRESHOLD) {
+      this.demote(relay, now, reason);
+    }
+  }
+
+  private demote(relay: RelayRecord, now: number, reason: string) {
+    if (!relay.demotedUntil || relay.demotedUntil <= now) {
+      debugWarn(`[relayHealth] Demoting ${relay.url} for ${DEMOTION_COOLDOWN / 1000}s: ${reason}`);
+    }
+    relay.demotedUntil = now + DEMOTION_COOLDOWN;
+  }
+
+  private changed() {
+    this.notifyTimer ??= setTimeout(() => {
+      this.notifyTimer = undefined;
+      this.snapshot = [...this.relays.values()].map(relay => this.toHealth(relay));
+      for (const listener of this.listeners) listener();
+    }, NOTIFY_INTERVAL);
+  }
+
+  private toHealth(relay: RelayRecord): RelayHealth {
+    const latency = median(relay.latencies);
+    const eoseTime = median(relay.eoseTimes);
+    const now = Date.now();
+
+    let status: RelayHealthStatus = 'healthy';
+    if ((relay.demotedUntil && relay.demotedUntil > now) || relay.consecutiveFailures >= FAILURE_THRESHOLD) {
+      status = 'down';
+    } else if (relay.consecutiveFailures > 0 || relay.state === 'error' || (latency ?? 0) > SLOW_THRESHOLD) {
+      status = 'degraded';
+    }
+
+    return {
+      url: relay.url,
+      state: relay.state,
+      status,
+      latency,
+      eoseTime,
+      reqCount: relay.reqCount,
+      eoseCount: relay.eoseCount,
+      timeouts: relay.timeouts,
+      errors: relay.errors,
+      consecutiveFailures: relay.consecutiveFailures,
+      notices: [...relay.notices],
+      closedReasons: [...relay.closedReasons],
+      demotedUntil: relay.demotedUntil,
+      lastActivity: relay.lastActivity,
+    };
+  }
+}
+
+export const relayHealth = new RelayHealthMonitor();
@@ -0,0 +1,134 @@
+// ABOUTME: Looks up users' NIP-65 relay lists for outbox routing
+// ABOUTME: Serves from memory, then the persistent eventCache, then fetches missing lists from indexer relays
+
+import type { NostrEvent, NostrFilter } from '@nostrify/nostrify';
+import { eventCache } from './eventCache';
+import { RELAY_LIST_KIND, parseRelayList, type RelayList } from './outbox';
+import { debugLog, debugWarn } from './debug';
+
+const REFRESH_AFTER = 60 * 60 * 1000; // ms - relay lists rarely change
+const FETCH_BATCH_SIZE = 200; // Authors per relay-list query
+
+interface CachedRelayList {
+  list: RelayList | null; // null when the user has no relay list
+  fetchedAt: number; // 0 for lists only known from the persistent cache
+}
+
+export class RelayListResolver {
+  private lists = new Map<string, CachedRelayList>();
+  private inflight = new Map<string, Promise<void>>();
+
+  constructor(
+    private fetchRelayLists: (filter: NostrFilter, signal: AbortSignal) => Promise<NostrEvent[]>,
+    private waitTimeout = 1500 // ms a request waits for lists before routing without them
+  ) {}
+
+  /** A user's relay list if it's already known, without any lookup */
+  get(pubkey: string): RelayList | undefined {
+    return this.lists.get(pubkey)?.list ?? undefined;
+  }
+
+  /**
+   * Make relay lists for pubkeys available through get()
+   * Lists still loading after waitTimeout keep loading for later requests
+   */
+  async resolve(pubkeys: string[]): Promise<void> {
+    const unknown = pubkeys.filter(pubkey => !this.lists.has(pubkey));
+    if (unknown.length > 0) {
+      await this.loadFromCache(unknown);
+    }
+
+    const now = Date.now();
+    const stale = pubkeys.filter(pubkey => {
+      const cached = this.lists.get(pubkey);
+      return !this.inflight.has(pubkey) && (!cached || now - cached.fetchedAt > REFRESH_AFTER);
+    });
+    if (stale.length > 0) {
+      this.fetch(stale);
+    }
+
+    // Only wait on lookups for users we know nothing about - stale lists are still usable
+    const pending = pubkeys.filter(pubkey => !this.lists.has(pubkey)).map(pubkey => this.inflight.get(pubkey));
+    if (pending.length > 0) {
+      await Promise.race([
+        Promise.all(pending),
+        new Promise(resolve => setTimeout(resolve, this.waitTimeout)),
+      ]);
+    }
+  }
+
+  /** Remember a relay list seen elsewhere, e.g. one the user just published */
+  add(event: NostrEvent): void {
+    this.lists.set(event.pubkey, { list: parseRelayList(event), fetchedAt: Date.now() });
+  }
+
+  private async loadFromCache(pubkeys: string[]): Promise<void> {
+    try {
+      const events = await eventCache.query([{ kinds: [RELAY_LIST_KIND], authors: pubkeys }]);
+      for (const event of latestByAuthor(events)) {
+        this.lists.set(event.pubkey, { list: parseRelayList(event), fetchedAt: 0 });
+      }
+    } catch (error) {
+      debugWarn('[RelayListResolver] Failed to read cached relay lists:', error);
+    }
+  }
+
+  private fetch(pubkeys: string[]): void {
+    for (let i = 0; i < pubkeys.length; i += FETCH_BATCH_SIZE) {
+      const batch = pubkeys.slice(i, i + FETCH_BATCH_SIZE);
+      const promise = this.fetchBatch(batch).finally(() => {
+        for (const pubkey of batch) {
+          this.inflight.delete(pubkey);
+        }
+      });
+      for (const pubkey of batch) {
+        this.inflight.set(pubkey, promise);
+      }
+    }
+  }
+
+  private async fetchBatch(pubkeys: string[]): Promise<void> {
+    try {
+      const events = await this.fetchRelayLists(
+        { kinds: [RELAY_LIST_KIND], authors: pubkeys },
+        AbortSignal.timeout(5000)
+      );
+      const now = Date.now();
+      const found = new Set<string>();
+
+      for (const event of latestByAuthor(events)) {
+        found.add(event.pubkey);
+        this.lists.set(event.pubkey, { list: parseRelayList(event), fetchedAt: now });
+        eventCache.event(event).catch(error => debugWarn('[RelayListResolver] Failed to cache relay list:', error));
+      }
+
+      // Users without a list fall back to the default relays until the next refresh
+      for (const pubkey of pubkeys) {
+        if (!found.has(pubkey)) {
+          this.lists.set(pubkey, { list: this.lists.get(pubkey)?.list ?? null, fetchedAt: now });
+        }
+      }
+
+      debugLog(`[RelayListResolver] Fetched ${found.size}/${pubkeys.length} relay lists`);
+    } catch (error) {
+      debugWarn('[RelayListResolver] Failed to fetch relay lists:', error);
+      // Route without them rather than making every request wait on a failing lookup
+      for (const pubkey of pubkeys) {
+        if (!this.lists.has(pubkey)) {
+          this.lists.set(pubkey, { list: null, fetchedAt: Date.now() });
+        }
+      }
+    }
+  }
+}
+
+function latestByAuthor(events: NostrEvent[]): NostrEvent[] {
+  const latest = new Map<string, NostrEvent>();
+  for (const event of events) {
+    const current = latest.get(event.pubkey);
+    if (!current || event.created_at > current.created_at) {
+      latest.set(event.pubkey, event);
+    }
+  }
+  return [...latest.values()];
+}
@@ -0,0 +1,73 @@
+// ABOUTME: Tests for relay sets and their NIP-65 mapping
+// ABOUTME: Verifies legacy config fallback, role lookups, relay list tags and importing a published list
+
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import {
+  buildRelayListTags,
+  getConfiguredRelays,
+  getPublishRelayUrls,
+  getRelaysWithRole,
+  mergeRelayList,
+  parseRelayInput,
+  type RelayEntry,
+} from './relaySets';
+
+const VIDEO = 'wss://relay.divine.video';
+
+describe('getConfiguredRelays', () => {
+  it('falls back to the legacy relay URLs with every role', () => {
+    expect(getConfiguredRelays({ relayUrl: VIDEO })).toEqual([{ url: VIDEO, read: true, write: true, search: true }]);
+  });
+
+  it('falls back to all relays when none has a role', () => {
+    const relays: RelayEntry[] = [{ url: VIDEO, read: true, write: true, search: false }];
+    expect(getRelaysWithRole(relays, 'search')).toEqual([VIDEO]);
+  });
+});
+
+describe('getPublishRelayUrls', () => {
+  it('always includes the app relay, then tops up with presets to the cap', () => {
+    const relays: RelayEntry[] = [{ url: 'wss://mine.example', read: true, write: true, search: false }];
+
+    expect(getPublishRelayUrls(relays, { presets: ['wss://a.example', 'wss://b.example'], max: 3 }))
+      .toEqual([VIDEO, 'wss://mine.example', 'wss://a.example']);
+  });
+});
+
+describe('buildRelayListTags', () => {
+  it('marks read-only and write-only relays and leaves out search-only ones', () => {
+    expect(buildRelayListTags([
+      { url: 'wss://both.example.com', read: true, write: true, search: false },
+      { url: 'wss://inbox.example.com', read: true, write: false, search: false },
+      { url: 'wss://outbox.example.com', read: false, write: true, search: false },
+      { url: 'wss://search.example.com', read: false, write: false, search: true },
+    ])).toEqual([
+      ['r', 'wss://both.example.com'],
+      ['r', 'wss://inbox.example.com', 'read'],
+      ['r', 'wss://outbox.example.com', 'write'],
+    ]);
+  });
+});
+
+describe('mergeRelayList', () => {
+  it('takes read/write roles from the list and keeps search relays as they were', () => {
+    const event: NostrEvent = {
+      id: 'id', pubkey: 'pubkey', created_at: 0, kind: 10002, content: '', sig: '',
+      tags: [['r', 'wss://damus.example.com'], ['r', 'wss://inbox.example.com', 'read']],
+    };
+
+    expect(mergeRelayList(event, [{ url: VIDEO, read: true, write: true, search: true }])).toEqual([
+      { url: 'wss://damus.example.com', read: true, write: true, search: false },
+      { url: 'wss://inbox.example.com', read: true, write: false, search: false },
+      { url: VIDEO, read: true, write: true, search: true },
+    ]);
+  });
+});
+
+describe('parseRelayInput', () => {
+  it('accepts bare hostnames and rejects insecure relays', () => {
+    expect(parseRelayInput(' relay.example.com/ ')).toBe('wss://relay.example.com');
+    expect(parseRelayInput('ws://relay.example.com')).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+// ABOUTME: The user's relay set - relays marked read, write and/or search - and its mapping to NIP-65 relay lists
+// ABOUTME: Falls back to the legacy relayUrl/relayUrls config for users who haven't set up relays yet
+
+import type { NostrEvent } from '@nostrify/nostrify';
+import type { AppConfig } from '@/contexts/AppContext';
+import { PRIMARY_RELAY } from '@/config/relays';
+import { RELAY_LIST_KIND, normalizeRelayUrl, parseRelayList } from './outbox';
+
+export type RelayRole = 'read' | 'write' | 'search';
+
+export interface RelayEntry {
+  url: string;
+  read: boolean; // Feeds and other queries
+  write: boolean; // Where the user's events are published
+  search: boolean; // NIP-50 search and sorted feeds
+}
+
+export const RELAY_ROLES: RelayRole[] = ['read', 'write', 'search'];
+
+export const DEFAULT_MAX_PUBLISH_RELAYS = 5;
+
+/**
+ * The relays the app uses for this config, including legacy single-relay configs
+ */
+export function getConfiguredRelays(config: Pick<AppConfig, 'relays' | 'relayUrl' | 'relayUrls'>): RelayEntry[] {
+  if (config.relays && config.relays.length > 0) {
+    return config.relays;
+  }
+  return (config.relayUrls ?? [config.relayUrl]).map(url => ({ url, read: true, write: true, search: true }));
+}
+
+/**
+ * URLs of configured relays with a role, falling back to every configured relay
+ * so a set with no relay marked for a role still works
+ */
+export function getRelaysWithRole(relays: RelayEntry[], role: RelayRole): string[] {
+  const urls = relays.filter(relay => relay[role]).map(relay => relay.url);
+  return urls.length > 0 ? urls : relays.map(relay => relay.url);
+}
+
+/**
+ * Where the user's events are published before outbox additions: the app's own relay that feeds are
+ * read from, the user's write relays and any extra relays, topped up with preset relays to the cap
+ */
+export function getPublishRelayUrls(
+  relays: RelayEntry[],
+  { extra = [], presets = [], max }: { extra?: string[]; presets?: string[]; max: number }
+): string[] {
+  const urls = new Set<string>([PRIMARY_RELAY.url, ...getRelaysWithRole(relays, 'write'), ...extra]);
+  for (const url of presets) {
+    if (urls.size >= max) break;
+    urls.add(url);
+  }
+  return [...urls];
+}
+
+/**
+ * NIP-65 'r' tags for the read and write relays - search-only relays aren't part of NIP-65
+ */
+export function buildRelayListTags(relays: RelayEntry[]): string[][] {
+  return relays
+    .filter(relay => relay.read || relay.write)
+    .map(({ url, read, write }) => read && write ? ['r', url] : ['r', url, read ? 'read' : 'write']);
+}
+
+/**
+ * Apply a published relay list to the local relay set
+ * Read/write roles come from the list. Search relays missing from it are kept with their roles,
+ * so the video relays keep serving feeds and receiving posts for users whose list only has
+ * general-purpose relays.
+ */
+export function mergeRelayList(event: NostrEvent, current: RelayEntry[]): RelayEntry[] {
+  if (event.kind !== RELAY_LIST_KIND) return current;
+  const list = parseRelayList(event);
+  const urls = [...new Set([...list.read, ...list.write])];
+  if (urls.length === 0) return current;
+
+  const merged = urls.map(url => ({
+    url,
+    read: list.read.includes(url),
+    write: list.write.includes(url),
+    search: current.find(relay => relay.url === url)?.search ?? false,
+  }));
+
+  const searchRelays = current.filter(relay => relay.search && !urls.includes(relay.url));
+
+  return [...merged, ...searchRelays];
+}
+
+/**
+ * Normalize a relay URL typed by the user, accepting a bare hostname
+ */
+export function parseRelayInput(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  return normalizeRelayUrl(/^wss?:\/\//i.test(trimmed) ? trimmed : `wss://${trimmed}`);
+}
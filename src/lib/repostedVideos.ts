@@ -0,0 +1,39 @@
+// ABOUTME: Fetches the videos that a batch of reposts points at, in one query
+// ABOUTME: Shared by feed pages and live feeds, so reposts can be attached to their originals by the video pipeline
+
+import type { NostrEvent, NostrFilter } from '@nostrify/nostrify';
+import { VIDEO_KINDS, REPOST_KINDS } from '@/types/video';
+import { getVideoKey, getRepostTarget, getRepostTargetKey, type RepostTarget } from '@/lib/videoParser';
+
+interface NostrQueryable {
+  query: (filters: NostrFilter[], options: { signal: AbortSignal }) => Promise<NostrEvent[]>;
+}
+
+/**
+ * Fetch the originals of reposted videos that aren't among events
+ */
+export async function fetchRepostedVideos(events: NostrEvent[], nostr: NostrQueryable): Promise<NostrEvent[]> {
+  const present = new Set(events.filter(e => VIDEO_KINDS.includes(e.kind)).map(getVideoKey));
+  const targets = new Map<string, RepostTarget>();
+
+  for (const repost of events.filter(e => REPOST_KINDS.includes(e.kind))) {
+    // Resolve the 'a' tag (kind 34236) or 'e' + 'k' tags (kinds 21/22) to the reposted video
+    const target = getRepostTarget(repost);
+    const key = target && getRepostTargetKey(target);
+    if (target && key && !present.has(key)) {
+      targets.set(key, target);
+    }
+  }
+
+  if (targets.size === 0) return [];
+
+  const filters: NostrFilter[] = [...targets.values()].map(target => target.vineId
+    ? { kinds: [target.kind], authors: [target.pubkey!], '#d': [target.vineId], limit: 1 }
+    : { kinds: [target.kind], ids: [target.eventId!], limit: 1 });
+
+  try {
+    return await nostr.query(filters, { signal: AbortSignal.timeout(2000) });
+  } catch {
+    return [];
+  }
+}
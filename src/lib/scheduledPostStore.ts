@@ -0,0 +1,63 @@
+// ABOUTME: IndexedDB queue of signed video events waiting for their scheduled publish time
+// ABOUTME: Shared with public/sw.js, which broadcasts due posts when the service worker is woken
+
+import type { NostrEvent } from '@nostrify/nostrify';
+import { debugLog } from './debug';
+import { IndexedDBObjectStore } from './indexedDBObjectStore';
+
+export interface ScheduledPost {
+  id: string; // d tag of the video - stays the same when the post is re-signed for a new time
+  pubkey: string;
+  event: NostrEvent; // Signed but not yet broadcast
+  publishAt: number; // Unix seconds, matches the event's published_at and created_at
+  relays: string[]; // Where to broadcast, for the service worker which has no app config
+  attempts: number;
+  lastError?: string;
+  createdAt: number; // milliseconds
+}
+
+// Keep in sync with the copy in public/sw.js
+const DB_NAME = 'scheduled_posts';
+const DB_VERSION = 1;
+const STORE_NAME = 'posts';
+
+class ScheduledPostStore extends IndexedDBObjectStore {
+  constructor() {
+    super({
+      dbName: DB_NAME,
+      version: DB_VERSION,
+      storeName: STORE_NAME,
+      keyPath: 'id',
+      indexes: ['pubkey', 'publishAt'],
+      logName: 'ScheduledPostStore',
+      // Unlike a resumable upload, a post that can't be queued would silently never go out
+      unavailableError: 'Scheduled posts are unavailable in this browser',
+    });
+  }
+
+  /** Queued posts for an account, soonest first */
+  async list(pubkey: string): Promise<ScheduledPost[]> {
+    const posts = await this.request<ScheduledPost[]>('readonly', store => store.index('pubkey').getAll(pubkey)) ?? [];
+    return posts.sort((a, b) => a.publishAt - b.publishAt);
+  }
+
+  /** Posts of every account whose time has come */
+  async listDue(now = Math.floor(Date.now() / 1000)): Promise<ScheduledPost[]> {
+    return await this.request<ScheduledPost[]>('readonly', store => store.index('publishAt').getAll(IDBKeyRange.upperBound(now))) ?? [];
+  }
+
+  async get(id: string): Promise<ScheduledPost | undefined> {
+    return this.request<ScheduledPost>('readonly', store => store.get(id));
+  }
+
+  async save(post: ScheduledPost): Promise<void> {
+    await this.request('readwrite', store => store.put(post));
+    debugLog(`[ScheduledPostStore] Queued ${post.id} for ${new Date(post.publishAt * 1000).toISOString()}`);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+}
+
+export const scheduledPostStore = new ScheduledPostStore();
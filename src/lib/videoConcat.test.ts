@@ -0,0 +1,90 @@
+// ABOUTME: Tests for WebM segment concatenation
+// ABOUTME: Builds minimal MediaRecorder-style WebM files and checks the remuxed timeline and duration
+
+import { describe, it, expect } from 'vitest';
+import { concatWebmSegments, parseWebm } from './videoConcat';
+
+const UNKNOWN_SIZE = [0x01, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF];
+
+function id(value: number): number[] {
+  const bytes: number[] = [];
+  for (let v = value; v > 0; v = Math.floor(v / 256)) bytes.unshift(v % 256);
+  return bytes;
+}
+
+function element(elementId: number, payload: number[], unknownSize = false): number[] {
+  const size = unknownSize ? UNKNOWN_SIZE : [0x40 | (payload.length >> 8), payload.length & 0xFF];
+  return [...id(elementId), ...size, ...payload];
+}
+
+function uint(elementId: number, value: number): number[] {
+  return element(elementId, [(value >> 8) & 0xFF, value & 0xFF]);
+}
+
+function text(elementId: number, value: string): number[] {
+  return element(elementId, Array.from(new TextEncoder().encode(value)));
+}
+
+function simpleBlock(track: number, relativeTime: number): number[] {
+  return element(0xA3, [0x80 | track, (relativeTime >> 8) & 0xFF, relativeTime & 0xFF, 0x80, 0xAA]);
+}
+
+/** A live-written WebM like Chrome's MediaRecorder: unknown-size Segment and Clusters, no Duration */
+function recording(frameTimes: number[], codec = 'V_VP9'): Uint8Array {
+  const header = element(0x1A45DFA3, text(0x4282, 'webm'));
+  const info = element(0x1549A966, element(0x2AD7B1, [0x0F, 0x42, 0x40])); // 1ms ticks
+  const tracks = element(0x1654AE6B, element(0xAE, [
+    ...uint(0xD7, 1),
+    ...uint(0x83, 1),
+    ...text(0x86, codec),
+  ]));
+  const cluster = element(0x1F43B675, [
+    ...uint(0xE7, 0),
+    ...frameTimes.flatMap(t => simpleBlock(1, t)),
+  ], true);
+
+  return new Uint8Array([...header, ...element(0x18538067, [...info, ...tracks, ...cluster], true)]);
+}
+
+function blockTimes(data: Uint8Array): number[] {
+  return parseWebm(data).clusters.flatMap(c => c.blocks.map(b => b.time));
+}
+
+describe('videoConcat', () => {
+  describe('concatWebmSegments', () => {
+    it('should place each segment after the last frame of the previous one', () => {
+      const result = concatWebmSegments([
+        recording([0, 33, 66]),
+        recording([0, 33, 66]),
+      ]);
+
+      expect(blockTimes(result.data)).toEqual([0, 33, 66, 99, 132, 165]);
+      expect(result.duration).toBe(198);
+      expect(parseWebm(result.data).duration).toBe(198);
+    });
+
+    it('should give a single segment a real duration', () => {
+      const result = concatWebmSegments([recording([0, 40, 80, 120])]);
+
+      expect(result.duration).toBe(160);
+      expect(blockTimes(result.data)).toEqual([0, 40, 80, 120]);
+    });
+
+    it('should drop frames past the maximum duration', () => {
+      const result = concatWebmSegments([
+        recording([0, 40, 80]),
+        recording([0, 40, 80]),
+      ], 200);
+
+      expect(blockTimes(result.data)).toEqual([0, 40, 80, 120, 160]);
+      expect(result.duration).toBe(200);
+    });
+
+    it('should reject segments recorded with different codecs', () => {
+      expect(() => concatWebmSegments([
+        recording([0, 33], 'V_VP9'),
+        recording([0, 33], 'V_VP8'),
+      ])).toThrow('different tracks or codecs');
+    });
+  });
+});
@@ -0,0 +1,499 @@
+// ABOUTME: In-browser concatenation of MediaRecorder segments into a single video file
+// ABOUTME: Remuxes WebM clusters onto one timeline with a real Duration; re-records other formats via canvas
+
+/** EBML element IDs used by MediaRecorder WebM output (IDs include their length marker bits) */
+const EBML_ID = {
+  EBML: 0x1A45DFA3,
+  Segment: 0x18538067,
+  SeekHead: 0x114D9B74,
+  Info: 0x1549A966,
+  TimecodeScale: 0x2AD7B1,
+  Duration: 0x4489,
+  MuxingApp: 0x4D80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654AE6B,
+  TrackEntry: 0xAE,
+  TrackNumber: 0xD7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63A2,
+  Cluster: 0x1F43B675,
+  Timecode: 0xE7,
+  SimpleBlock: 0xA3,
+  BlockGroup: 0xA0,
+  Block: 0xA1,
+  Cues: 0x1C53BB6B,
+  Chapters: 0x1043A770,
+  Tags: 0x1254C367,
+  Attachments: 0x1941A469,
+} as const;
+
+/** Elements that can only appear directly inside Segment - they end an unknown-size Cluster */
+const SEGMENT_CHILD_IDS: number[] = [
+  EBML_ID.SeekHead,
+  EBML_ID.Info,
+  EBML_ID.Tracks,
+  EBML_ID.Cluster,
+  EBML_ID.Cues,
+  EBML_ID.Chapters,
+  EBML_ID.Tags,
+  EBML_ID.Attachments,
+];
+
+const VIDEO_TRACK_TYPE = 1;
+const DEFAULT_FRAME_DURATION_MS = 33;
+const WRITING_APP = 'divine-web';
+
+interface EbmlElement {
+  id: number;
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+export interface WebmBlock {
+  track: number;
+  time: number; // absolute, in TimecodeScale ticks
+  bytes: Uint8Array; // raw SimpleBlock or BlockGroup element
+}
+
+export interface WebmCluster {
+  timecode: number;
+  blocks: WebmBlock[];
+}
+
+export interface ParsedWebm {
+  header: Uint8Array; // raw EBML header element
+  timecodeScale: number; // nanoseconds per tick
+  duration?: number; // ticks, if the file declares one
+  tracks: Uint8Array; // raw Tracks element
+  trackSignature: string;
+  videoTrack?: number;
+  clusters: WebmCluster[];
+}
+
+export interface ConcatResult {
+  blob: Blob;
+  duration: number; // milliseconds
+}
+
+/**
+ * Read an EBML variable-length integer
+ * IDs keep their marker bits; sizes strip them and report all-ones as unknown (-1)
+ */
+function readVint(data: Uint8Array, pos: number, isId: boolean): { value: number; length: number } {
+  const first = data[pos];
+  if (first === undefined || first === 0) {
+    throw new Error(`Invalid EBML variable-length integer at byte ${pos}`);
+  }
+
+  let length = 1;
+  while (!(first & (0x80 >> (length - 1)))) length++;
+  if (pos + length > data.length) {
+    throw new Error(`Truncated EBML data at byte ${pos}`);
+  }
+
+  let value = isId ? first : first & (0xFF >> length);
+  let allOnes = value === (0xFF >> length);
+  for (let i = 1; i < length; i++) {
+    const byte = data[pos + i];
+    value = value * 256 + byte;
+    allOnes = allOnes && byte === 0xFF;
+  }
+
+  return { value: !isId && allOnes ? -1 : value, length };
+}
+
+function readElementHeader(data: Uint8Array, pos: number): { id: number; size: number; dataStart: number } {
+  const id = readVint(data, pos, true);
+  const size = readVint(data, pos + id.length, false);
+  return { id: id.value, size: size.value, dataStart: pos + id.length + size.length };
+}
+
+/** Read the children of an element, resolving unknown-size Segments and Clusters */
+function readChildren(data: Uint8Array, start: number, end: number): EbmlElement[] {
+  const children: EbmlElement[] = [];
+  let pos = start;
+
+  while (pos < end) {
+    const { id, size, dataStart } = readElementHeader(data, pos);
+    let elementEnd: number;
+
+    if (size !== -1) {
+      elementEnd = Math.min(dataStart + size, end);
+    } else if (id === EBML_ID.Cluster) {
+      // Live-written cluster: runs until the next top-level element
+      elementEnd = dataStart;
+      while (elementEnd < end) {
+        const child = readElementHeader(data, elementEnd);
+        if (SEGMENT_CHILD_IDS.includes(child.id) || child.size === -1) break;
+        elementEnd = child.dataStart + child.size;
+      }
+      elementEnd = Math.min(elementEnd, end);
+    } else {
+      elementEnd = end;
+    }
+
+    children.push({ id, start: pos, dataStart, end: elementEnd });
+    pos = elementEnd;
+  }
+
+  return children;
+}
+
+function readUint(data: Uint8Array, element: EbmlElement): number {
+  let value = 0;
+  for (let i = element.dataStart; i < element.end; i++) {
+    value = value * 256 + data[i];
+  }
+  return value;
+}
+
+function readFloat(data: Uint8Array, element: EbmlElement): number {
+  const view = new DataView(data.buffer, data.byteOffset + element.dataStart, element.end - element.dataStart);
+  return view.byteLength === 4 ? view.getFloat32(0) : view.getFloat64(0);
+}
+
+function toHex(data: Uint8Array, element: EbmlElement): string {
+  return Array.from(data.subarray(element.dataStart, element.end), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Track number and cluster-relative timecode from a Block/SimpleBlock payload */
+function readBlockHeader(data: Uint8Array, dataStart: number): { track: number; relativeTime: number } {
+  const track = readVint(data, dataStart, false);
+  const offset = dataStart + track.length;
+  const relativeTime = (data[offset] << 24 >> 16) | data[offset + 1]; // signed int16
+  return { track: track.value, relativeTime };
+}
+
+/**
+ * Parse the parts of a WebM file needed for concatenation
+ */
+export function parseWebm(data: Uint8Array): ParsedWebm {
+  const topLevel = readChildren(data, 0, data.length);
+  const headerElement = topLevel.find(e => e.id === EBML_ID.EBML);
+  const segment = topLevel.find(e => e.id === EBML_ID.Segment);
+  if (!headerElement || !segment) {
+    throw new Error('Not a WebM file');
+  }
+
+  const parsed: ParsedWebm = {
+    header: data.slice(headerElement.start, headerElement.end),
+    timecodeScale: 1_000_000,
+    tracks: new Uint8Array(0),
+    trackSignature: '',
+    clusters: [],
+  };
+
+  for (const element of readChildren(data, segment.dataStart, segment.end)) {
+    if (element.id === EBML_ID.Info) {
+      for (const child of readChildren(data, element.dataStart, element.end)) {
+        if (child.id === EBML_ID.TimecodeScale) parsed.timecodeScale = readUint(data, child);
+        if (child.id === EBML_ID.Duration) parsed.duration = readFloat(data, child);
+      }
+    } else if (element.id === EBML_ID.Tracks) {
+      parsed.tracks = data.slice(element.start, element.end);
+
+      const signatures: string[] = [];
+      for (const entry of readChildren(data, element.dataStart, element.end)) {
+        if (entry.id !== EBML_ID.TrackEntry) continue;
+        let number = 0, type = 0, codec = '', codecPrivate = '';
+        for (const field of readChildren(data, entry.dataStart, entry.end)) {
+          if (field.id === EBML_ID.TrackNumber) number = readUint(data, field);
+          if (field.id === EBML_ID.TrackType) type = readUint(data, field);
+          if (field.id === EBML_ID.CodecID) codec = new TextDecoder().decode(data.subarray(field.dataStart, field.end));
+          if (field.id === EBML_ID.CodecPrivate) codecPrivate = toHex(data, field);
+        }
+        if (type === VIDEO_TRACK_TYPE && parsed.videoTrack === undefined) parsed.videoTrack = number;
+        // Video dimensions may change between segments (camera switch) - VP8/VP9 keyframes carry their own size
+        signatures.push(`${number}:${type}:${codec}:${type === VIDEO_TRACK_TYPE ? '' : codecPrivate}`);
+      }
+      parsed.trackSignature = signatures.sort().join('|');
+    } else if (element.id === EBML_ID.Cluster) {
+      const cluster: WebmCluster = { timecode: 0, blocks: [] };
+      for (const child of readChildren(data, element.dataStart, element.end)) {
+        if (child.id === EBML_ID.Timecode) {
+          cluster.timecode = readUint(data, child);
+        } else if (child.id === EBML_ID.SimpleBlock || child.id === EBML_ID.BlockGroup) {
+          const blockStart = child.id === EBML_ID.SimpleBlock
+            ? child.dataStart
+            : readChildren(data, child.dataStart, child.end).find(e => e.id === EBML_ID.Block)?.dataStart;
+          if (blockStart === undefined) continue;
+
+          const { track, relativeTime } = readBlockHeader(data, blockStart);
+          cluster.blocks.push({
+            track,
+            time: relativeTime, // made absolute below, once the cluster timecode is known
+            bytes: data.slice(child.start, child.end),
+          });
+        }
+      }
+      cluster.blocks.forEach(block => { block.time += cluster.timecode; });
+      parsed.clusters.push(cluster);
+    }
+  }
+
+  if (!parsed.tracks.length) {
+    throw new Error('WebM file has no Tracks element');
+  }
+
+  return parsed;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function encodeId(id: number): Uint8Array {
+  const length = id > 0xFFFFFF ? 4 : id > 0xFFFF ? 3 : id > 0xFF ? 2 : 1;
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1, v = id; i >= 0; i--, v = Math.floor(v / 256)) bytes[i] = v % 256;
+  return bytes;
+}
+
+function encodeSize(size: number): Uint8Array {
+  let length = 1;
+  // All-ones is reserved for "unknown size"
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1, v = size; i >= 0; i--, v = Math.floor(v / 256)) bytes[i] = v % 256;
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+function encodeElement(id: number, payload: Uint8Array): Uint8Array {
+  return concatBytes([encodeId(id), encodeSize(payload.length), payload]);
+}
+
+function encodeUint(id: number, value: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let v = value; bytes.length === 0 || v > 0; v = Math.floor(v / 256)) bytes.unshift(v % 256);
+  return encodeElement(id, new Uint8Array(bytes));
+}
+
+function encodeFloat(id: number, value: number): Uint8Array {
+  const payload = new Uint8Array(8);
+  new DataView(payload.buffer).setFloat64(0, value);
+  return encodeElement(id, payload);
+}
+
+/** Typical frame interval of the video track, used to place the next segment after the last frame */
+function estimateFrameDuration(parsed: ParsedWebm, fallback: number): number {
+  const times = parsed.clusters
+    .flatMap(c => c.blocks)
+    .filter(b => parsed.videoTrack === undefined || b.track === parsed.videoTrack)
+    .map(b => b.time)
+    .sort((a, b) => a - b);
+
+  const gaps = times.slice(1).map((t, i) => t - times[i]).filter(gap => gap > 0).sort((a, b) => a - b);
+  return gaps.length ? gaps[Math.floor(gaps.length / 2)] : fallback;
+}
+
+/**
+ * Concatenate WebM files from separate MediaRecorder sessions into one file
+ * Each segment's clusters are shifted onto a shared timeline, blocks past maxDurationMs are dropped,
+ * and the result declares its real Duration (MediaRecorder output has none)
+ */
+export function concatWebmSegments(files: Uint8Array[], maxDurationMs?: number): { data: Uint8Array<ArrayBuffer>; duration: number } {
+  if (files.length === 0) {
+    throw new Error('No segments to combine');
+  }
+
+  const parsed = files.map(parseWebm);
+  const [first] = parsed;
+  for (const segment of parsed.slice(1)) {
+    if (segment.timecodeScale !== first.timecodeScale) {
+      throw new Error('Segments use different timecode scales');
+    }
+    if (segment.trackSignature !== first.trackSignature) {
+      throw new Error('Segments have different tracks or codecs');
+    }
+  }
+
+  const ticksPerMs = 1_000_000 / first.timecodeScale;
+  const maxTicks = maxDurationMs !== undefined ? maxDurationMs * ticksPerMs : Infinity;
+  const clusters: Uint8Array[] = [];
+  let offset = 0;
+  let end = 0;
+
+  for (const segment of parsed) {
+    const blocks = segment.clusters.flatMap(c => c.blocks);
+    if (blocks.length === 0) continue;
+
+    // Every segment starts at zero on its own timeline - rebase it to the end of the previous one
+    const base = Math.min(...segment.clusters.map(c => c.timecode), ...blocks.map(b => b.time));
+    const frameDuration = estimateFrameDuration(segment, DEFAULT_FRAME_DURATION_MS * ticksPerMs);
+
+    for (const cluster of segment.clusters) {
+      const kept = cluster.blocks.filter(b => b.time - base + offset < maxTicks);
+      if (kept.length === 0) continue;
+
+      clusters.push(encodeElement(EBML_ID.Cluster, concatBytes([
+        encodeUint(EBML_ID.Timecode, cluster.timecode - base + offset),
+        ...kept.map(b => b.bytes),
+      ])));
+    }
+
+    const lastTime = Math.max(...blocks.map(b => b.time)) - base;
+    offset += lastTime + frameDuration;
+    end = Math.min(offset, maxTicks);
+    if (offset >= maxTicks) break;
+  }
+
+  if (clusters.length === 0) {
+    throw new Error('Segments contain no media');
+  }
+
+  const info = encodeElement(EBML_ID.Info, concatBytes([
+    encodeUint(EBML_ID.TimecodeScale, first.timecodeScale),
+    encodeElement(EBML_ID.MuxingApp, new TextEncoder().encode(WRITING_APP)),
+    encodeElement(EBML_ID.WritingApp, new TextEncoder().encode(WRITING_APP)),
+    encodeFloat(EBML_ID.Duration, end),
+  ]));
+
+  const segment = encodeElement(EBML_ID.Segment, concatBytes([info, first.tracks, ...clusters]));
+
+  return {
+    data: concatBytes([first.header, segment]),
+    duration: end / ticksPerMs,
+  };
+}
+
+/**
+ * Combine recorded segments by playing them back onto a canvas and recording the result
+ * Used for containers we can't remux (Safari records MP4); runs in real time, which is fine for 6s clips
+ */
+async function rerecordSegments(blobs: Blob[], maxDurationMs?: number, startMs = 0): Promise<ConcatResult> {
+  const video = document.createElement('video');
+  video.playsInline = true;
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context unavailable');
+  }
+
+  // Route the audio into the recording instead of the speakers
+  const audioContext = new AudioContext();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  audioContext.createMediaElementSource(video).connect(audioDestination);
+
+  const stream = new MediaStream([
+    ...canvas.captureStream(30).getVideoTracks(),
+    ...audioDestination.stream.getAudioTracks(),
+  ]);
+  const recorder = new MediaRecorder(stream, { mimeType: blobs[0].type || undefined });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  let frameRequest = 0;
+  const drawFrame = () => {
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    frameRequest = requestAnimationFrame(drawFrame);
+  };
+
+  let startedAt = 0;
+  const limit = maxDurationMs ?? Infinity;
+
+  try {
+    await audioContext.resume();
+
+    for (const blob of blobs) {
+      const url = URL.createObjectURL(blob);
+      try {
+        video.src = url;
+        await new Promise<void>((resolve, reject) => {
+          video.onloadedmetadata = () => resolve();
+          video.onerror = () => reject(new Error('Failed to load segment'));
+        });
+
+        if (recorder.state === 'inactive') {
+          if (startMs > 0) {
+            await new Promise<void>((resolve) => {
+              video.onseeked = () => resolve();
+              video.currentTime = startMs / 1000;
+            });
+          }
+          canvas.width = video.videoWidth;
+          canvas.height = video.videoHeight;
+          recorder.start();
+          drawFrame();
+        }
+
+        await video.play();
+        startedAt ||= performance.now();
+        await new Promise<void>((resolve) => {
+          const remaining = limit - (performance.now() - startedAt);
+          const timer = setTimeout(resolve, Math.max(0, remaining));
+          video.onended = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        video.pause();
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+
+      if (performance.now() - startedAt >= limit) break;
+    }
+  } finally {
+    cancelAnimationFrame(frameRequest);
+    // onstop only fires for a recorder that started; a segment that failed before then leaves it inactive
+    if (recorder.state !== 'inactive') {
+      recorder.stop();
+      await stopped;
+    }
+    await audioContext.close();
+  }
+
+  return {
+    blob: new Blob(chunks, { type: recorder.mimeType }),
+    duration: Math.min(performance.now() - startedAt, limit),
+  };
+}
+
+/**
+ * Concatenate recorded segments into a single video, capped at maxDurationMs
+ * WebM segments are remuxed without re-encoding; anything else is re-recorded
+ */
+export async function concatVideoSegments(blobs: Blob[], maxDurationMs?: number): Promise<ConcatResult> {
+  if (blobs.length === 0) {
+    throw new Error('No segments to combine');
+  }
+
+  if (blobs.every(blob => blob.type.startsWith('video/webm'))) {
+    const files = await Promise.all(blobs.map(async blob => new Uint8Array(await blob.arrayBuffer())));
+    const { data, duration } = concatWebmSegments(files, maxDurationMs);
+    return {
+      blob: new Blob([data], { type: blobs[0].type }),
+      duration,
+    };
+  }
+
+  return rerecordSegments(blobs, maxDurationMs);
+}
+
+/**
+ * Cut a clip of at most durationMs starting at startMs out of a single video file
+ * Clips from the start of a WebM file are remuxed; anything else is re-recorded
+ */
+export async function trimVideo(blob: Blob, startMs: number, durationMs: number): Promise<ConcatResult> {
+  if (startMs <= 0 && blob.type.startsWith('video/webm')) {
+    try {
+      return await concatVideoSegments([blob], durationMs);
+    } catch {
+      // Not a WebM layout we can remux (e.g. a file from another muxer) - fall through
+    }
+  }
+
+  return rerecordSegments([blob], durationMs, startMs);
+}
@@ -0,0 +1,65 @@
+// ABOUTME: Tests for building replacement tags when editing a published video
+// ABOUTME: Verifies editable tags are replaced while d, published_at and media tags are kept
+
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import { buildEditedVideoTags } from './videoEdit';
+
+function videoEvent(tags: string[][]): NostrEvent {
+  return {
+    id: 'a'.repeat(64),
+    pubkey: 'b'.repeat(64),
+    created_at: 1700000000,
+    kind: 34236,
+    content: 'old description',
+    tags,
+    sig: 'c'.repeat(128),
+  };
+}
+
+describe('buildEditedVideoTags', () => {
+  it('should replace title, hashtags and alt while keeping other tags', () => {
+    const event = videoEvent([
+      ['d', 'vine-1'],
+      ['title', 'Old'],
+      ['published_at', '1690000000'],
+      ['imeta', 'url', 'https://cdn.example.com/v.mp4', 'x', 'f'.repeat(64)],
+      ['t', 'old'],
+      ['alt', 'old alt'],
+    ]);
+
+    const tags = buildEditedVideoTags(event, {
+      title: 'New',
+      description: 'new description',
+      hashtags: ['#cats', 'loop'],
+      altText: 'A cat jumping',
+    });
+
+    expect(tags).toEqual([
+      ['d', 'vine-1'],
+      ['published_at', '1690000000'],
+      ['imeta', 'url', 'https://cdn.example.com/v.mp4', 'x', 'f'.repeat(64)],
+      ['title', 'New'],
+      ['t', 'cats'],
+      ['t', 'loop'],
+      ['alt', 'A cat jumping'],
+    ]);
+  });
+
+  it('should swap the cover inside both imeta formats', () => {
+    const event = videoEvent([
+      ['imeta', 'url https://cdn.example.com/v.mp4', 'image https://cdn.example.com/old.jpg', 'blurhash OLD'],
+      ['imeta', 'url', 'https://cdn.example.com/v2.mp4', 'image', 'https://cdn.example.com/old.jpg'],
+    ]);
+
+    const tags = buildEditedVideoTags(event, {
+      title: 'T',
+      description: '',
+      hashtags: [],
+      thumbnail: { url: 'https://cdn.example.com/new.webp', blurhash: 'NEW' },
+    });
+
+    expect(tags[0]).toEqual(['imeta', 'url https://cdn.example.com/v.mp4', 'image https://cdn.example.com/new.webp', 'blurhash NEW']);
+    expect(tags[1]).toEqual(['imeta', 'url', 'https://cdn.example.com/v2.mp4', 'image', 'https://cdn.example.com/new.webp', 'blurhash', 'NEW']);
+  });
+});
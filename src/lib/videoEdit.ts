@@ -0,0 +1,57 @@
+// ABOUTME: Builds the replacement tags for an edited addressable video event
+// ABOUTME: Swaps title, hashtags, alt text and cover while keeping d, published_at and media tags
+
+import type { NostrEvent } from '@nostrify/nostrify';
+
+export interface VideoEdit {
+  title: string;
+  description: string;
+  hashtags: string[];
+  altText?: string;
+  thumbnail?: { url: string; blurhash?: string }; // New cover, already uploaded
+}
+
+/** Tags the edit dialog owns - everything else (d, published_at, imeta media, etc.) is kept as published */
+const EDITABLE_TAGS = ['title', 't', 'alt'];
+
+/**
+ * Replace image/blurhash inside an imeta tag, handling both the
+ * "key value" entry format and the flat key, value, key, value format
+ */
+function setImetaThumbnail(tag: string[], thumbnail: { url: string; blurhash?: string }): string[] {
+  const replaced = thumbnail.blurhash ? ['image', 'blurhash'] : ['image'];
+
+  if (tag[1]?.includes(' ')) {
+    const entries = tag.slice(1).filter(entry => !replaced.includes(entry.split(' ')[0]));
+    entries.push(`image ${thumbnail.url}`);
+    if (thumbnail.blurhash) entries.push(`blurhash ${thumbnail.blurhash}`);
+    return ['imeta', ...entries];
+  }
+
+  const result = ['imeta'];
+  for (let i = 1; i < tag.length - 1; i += 2) {
+    if (!replaced.includes(tag[i])) result.push(tag[i], tag[i + 1]);
+  }
+  result.push('image', thumbnail.url);
+  if (thumbnail.blurhash) result.push('blurhash', thumbnail.blurhash);
+  return result;
+}
+
+/**
+ * Build the replacement event's tags from the currently published event
+ */
+export function buildEditedVideoTags(event: NostrEvent, params: VideoEdit): string[][] {
+  const tags = event.tags
+    .filter(([name]) => !EDITABLE_TAGS.includes(name))
+    .map(tag => tag[0] === 'imeta' && params.thumbnail ? setImetaThumbnail(tag, params.thumbnail) : tag);
+
+  tags.push(['title', params.title]);
+  for (const hashtag of params.hashtags) {
+    tags.push(['t', hashtag.replace(/^#/, '')]);
+  }
+  if (params.altText?.trim()) {
+    tags.push(['alt', params.altText.trim()]);
+  }
+
+  return tags;
+}
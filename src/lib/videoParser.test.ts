@@ -0,0 +1,163 @@
+// ABOUTME: Tests for NIP-71 video event parsing across kinds 21, 22 and 34236
+// ABOUTME: Verifies validation, deduplication keys, self-labels and repost target resolution
+
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import {
+  validateVideoEvent,
+  parseVideoEvent,
+  parseVideoEvents,
+  getVideoKey,
+  getRepostTarget,
+  extractVideoVariants,
+} from './videoParser';
+
+function makeEvent(overrides: Partial<NostrEvent>): NostrEvent {
+  return {
+    id: 'e'.repeat(64),
+    pubkey: 'a'.repeat(64),
+    created_at: 1700000000,
+    kind: 34236,
+    content: '',
+    tags: [['imeta', 'url https://cdn.example.com/video.mp4', 'm video/mp4']],
+    sig: '',
+    ...overrides,
+  };
+}
+
+describe('videoParser', () => {
+  describe('validateVideoEvent', () => {
+    it('should require a d tag for kind 34236', () => {
+      expect(validateVideoEvent(makeEvent({ kind: 34236 }))).toBe(false);
+      expect(validateVideoEvent(makeEvent({
+        kind: 34236,
+        tags: [['d', 'vine-1'], ['imeta', 'url https://cdn.example.com/video.mp4']],
+      }))).toBe(true);
+    });
+
+    it('should accept kinds 21 and 22 without a d tag', () => {
+      expect(validateVideoEvent(makeEvent({ kind: 21 }))).toBe(true);
+      expect(validateVideoEvent(makeEvent({ kind: 22 }))).toBe(true);
+    });
+
+    it('should reject non-video kinds', () => {
+      expect(validateVideoEvent(makeEvent({ kind: 1 }))).toBe(false);
+    });
+  });
+
+  describe('parseVideoEvent', () => {
+    it('should preserve the NIP-71 kind', () => {
+      const parsed = parseVideoEvent(makeEvent({ kind: 22 }));
+      expect(parsed?.kind).toBe(22);
+      expect(parsed?.videoMetadata?.url).toBe('https://cdn.example.com/video.mp4');
+    });
+  });
+
+  describe('parseVideoEvents', () => {
+    it('should parse kind 22 videos with a null vineId', () => {
+      const [video] = parseVideoEvents([makeEvent({ kind: 22 })]);
+      expect(video.kind).toBe(22);
+      expect(video.vineId).toBeNull();
+    });
+
+    it('should read the content warning and self-labels', () => {
+      const [video] = parseVideoEvents([makeEvent({
+        kind: 22,
+        tags: [
+          ['imeta', 'url https://cdn.example.com/video.mp4'],
+          ['content-warning', 'gore'],
+          ['L', 'content-warning'],
+          ['l', 'nsfw', 'content-warning'],
+          ['l', 'funny'],
+        ],
+      })]);
+      expect(video.contentWarning).toBe('gore');
+      expect(video.labels).toEqual([
+        { namespace: 'content-warning', value: 'nsfw' },
+        { namespace: 'ugc', value: 'funny' },
+      ]);
+    });
+
+    it('should dedupe regular videos by event ID and addressable videos by d tag', () => {
+      const short1 = makeEvent({ id: '1'.repeat(64), kind: 22 });
+      const short2 = makeEvent({ id: '2'.repeat(64), kind: 22 });
+      const vine = makeEvent({
+        id: '3'.repeat(64),
+        tags: [['d', 'vine-1'], ['imeta', 'url https://cdn.example.com/video.mp4']],
+      });
+      const vineDuplicate = { ...vine, id: '4'.repeat(64) };
+
+      const videos = parseVideoEvents([short1, short2, short1, vine, vineDuplicate]);
+      expect(videos.map(v => v.id)).toEqual([short1.id, short2.id, vine.id]);
+    });
+  });
+
+  describe('extractVideoVariants', () => {
+    it('should keep every imeta rendition and skip HLS manifests', () => {
+      const event = makeEvent({
+        kind: 21,
+        tags: [
+          ['imeta', 'url https://cdn.example.com/1080.mp4', 'm video/mp4; codecs="hvc1"', 'dim 1080x1920', 'bitrate 4000000'],
+          ['imeta', 'url', 'https://cdn.example.com/480.mp4', 'm', 'video/mp4', 'dim', '480x854'],
+          ['imeta', 'url https://cdn.example.com/video.m3u8', 'm application/x-mpegURL'],
+        ],
+      });
+
+      expect(extractVideoVariants(event)).toEqual([
+        {
+          url: 'https://cdn.example.com/1080.mp4',
+          mimeType: 'video/mp4; codecs="hvc1"',
+          dimensions: '1080x1920',
+          bitrate: 4000000,
+          size: undefined,
+          hash: undefined,
+        },
+        {
+          url: 'https://cdn.example.com/480.mp4',
+          mimeType: 'video/mp4',
+          dimensions: '480x854',
+          bitrate: undefined,
+          size: undefined,
+          hash: undefined,
+        },
+      ]);
+      expect(parseVideoEvents([event])[0].variants).toHaveLength(2);
+    });
+  });
+
+  describe('getVideoKey', () => {
+    it('should use the coordinate when there is a d tag and the event ID otherwise', () => {
+      expect(getVideoKey(makeEvent({ tags: [['d', 'vine-1']] }))).toBe(`34236:${'a'.repeat(64)}:vine-1`);
+      expect(getVideoKey(makeEvent({ pubkey: 'b'.repeat(64), tags: [['d', 'vine-1']] })))
+        .not.toBe(getVideoKey(makeEvent({ tags: [['d', 'vine-1']] })));
+      expect(getVideoKey(makeEvent({ kind: 21 }))).toBe('e'.repeat(64));
+    });
+  });
+
+  describe('getRepostTarget', () => {
+    it('should resolve kind 6 reposts of addressable videos', () => {
+      const repost = makeEvent({
+        kind: 6,
+        tags: [['a', `34236:${'b'.repeat(64)}:vine-1`], ['p', 'b'.repeat(64)]],
+      });
+      expect(getRepostTarget(repost)).toEqual({ kind: 34236, pubkey: 'b'.repeat(64), vineId: 'vine-1' });
+    });
+
+    it('should resolve kind 16 generic reposts of regular videos', () => {
+      const repost = makeEvent({
+        kind: 16,
+        tags: [['e', 'c'.repeat(64)], ['k', '22'], ['p', 'b'.repeat(64)]],
+      });
+      expect(getRepostTarget(repost)).toEqual({ kind: 22, pubkey: 'b'.repeat(64), eventId: 'c'.repeat(64) });
+    });
+
+    it('should ignore reposts of non-video kinds', () => {
+      const repost = makeEvent({
+        kind: 16,
+        tags: [['e', 'c'.repeat(64)], ['k', '1']],
+      });
+      expect(getRepostTarget(repost)).toBeNull();
+      expect(getRepostTarget(makeEvent({ kind: 6, tags: [['e', 'c'.repeat(64)]] }))).toBeNull();
+    });
+  });
+});
@@ -2,8 +2,8 @@
 // ABOUTME: Extracts video URLs and metadata from multiple tag sources with fallback to content parsing
 
 import type { NostrEvent } from '@nostrify/nostrify';
-import { VIDEO_KINDS, type ParsedVideoData, type RepostMetadata } from '@/types/video';
-import type { VideoMetadata, VideoEvent, ProofModeData, ProofModeLevel } from '@/types/video';
+import { VIDEO_KIND, VIDEO_KINDS, REPOST_KINDS, type ContentLabel, type ParsedVideoData, type RepostMetadata } from '@/types/video';
+import type { VideoMetadata, VideoVariant, VideoEvent, VideoKind, ProofModeData, ProofModeLevel } from '@/types/video';
 
 // Common video file extensions - used only as hints, not requirements
 const _VIDEO_EXTENSIONS = ['.mp4', '.webm', '.mov', '.gif', '.m3u8', '.mpd', '.avi', '.mkv', '.ogv', '.ogg'];
@@ -36,10 +36,11 @@ function isValidVideoUrl(url: string): boolean {
  * Format 1: ["imeta", "url https://...", "m video/mp4"] - space-separated key-value
  * Format 2: ["imeta", "url", "https://...", "m", "video/mp4"] - separate elements
  */
-function parseImetaTag(tag: string[]): VideoMetadata | null {
+function parseImetaTag(tag: string[]): (VideoMetadata & { bitrate?: number }) | null {
   if (tag[0] !== 'imeta') return null;
 
   const metadata: VideoMetadata = { url: '' };
+  let bitrate: number | undefined;
 
   // Detect format: if tag[1] contains a space, it's Format 1
   const isFormat1 = tag[1] && tag[1].includes(' ');
@@ -88,6 +89,9 @@ function parseImetaTag(tag: string[]): VideoMetadata | null {
         case 'hls':
           metadata.hlsUrl = value;
           break;
+        case 'bitrate':
+          bitrate = parseInt(value);
+          break;
       }
     }
   } else {
@@ -128,11 +132,16 @@ function parseImetaTag(tag: string[]): VideoMetadata | null {
         case 'hls':
           metadata.hlsUrl = value;
           break;
+        case 'bitrate':
+          bitrate = parseInt(value);
+          break;
       }
     }
   }
 
-  return metadata.url ? metadata : null;
+  if (!metadata.url) return null;
+
+  return bitrate && !isNaN(bitrate) ? { ...metadata, bitrate } : metadata;
 }
 
 /**
@@ -232,6 +241,33 @@ function extractAllVideoUrls(event: NostrEvent): string[] {
   return urls.slice(0, 3);
 }
 
+/**
+ * Extract every imeta rendition of the video (NIP-71 allows one imeta tag per variant)
+ * HLS manifests are excluded since they are handled separately via hlsUrl
+ */
+export function extractVideoVariants(event: NostrEvent): VideoVariant[] {
+  const variants: VideoVariant[] = [];
+
+  for (const tag of event.tags) {
+    if (tag[0] !== 'imeta') continue;
+
+    const metadata = parseImetaTag(tag);
+    if (!metadata?.url || metadata.url.includes('.m3u8')) continue;
+    if (variants.some(v => v.url === metadata.url)) continue;
+
+    variants.push({
+      url: metadata.url,
+      mimeType: metadata.mimeType,
+      dimensions: metadata.dimensions,
+      bitrate: metadata.bitrate,
+      size: metadata.size,
+      hash: metadata.hash,
+    });
+  }
+
+  return variants;
+}
+
 /**
  * Extract video metadata from video event
  */
@@ -274,6 +310,12 @@ export function extractVideoMetadata(event: NostrEvent): VideoMetadata | null {
     metadata.fallbackUrls = fallbackUrls;
   }
 
+  // Keep all renditions so the player can negotiate resolution and codec
+  const variants = extractVideoVariants(event);
+  if (variants.length > 0) {
+    metadata.variants = variants;
+  }
+
   return metadata;
 }
 
@@ -300,7 +342,7 @@ export function parseVideoEvent(event: NostrEvent): VideoEvent | null {
   // Create VideoEvent
   const videoEvent: VideoEvent = {
     ...event,
-    kind: event.kind as 34236, // Kind 34236 Addressable Short Videos
+    kind: event.kind as VideoKind, // Kind 21/22 (NIP-71) or 34236 (addressable)
     videoMetadata,
     title,
     hashtags
@@ -317,6 +359,83 @@ export function getVineId(event: NostrEvent): string | null {
   return dTag?.[1] || null;
 }
 
+/**
+ * Check if a video kind is addressable (34236) rather than a regular NIP-71 event (21/22)
+ */
+export function isAddressableVideoKind(kind: number): boolean {
+  return kind === VIDEO_KIND;
+}
+
+/**
+ * The coordinate of an addressable video, as used in 'a' tags
+ */
+export function getVideoCoordinate(kind: number, pubkey: string, vineId: string): string {
+  return `${kind}:${pubkey}:${vineId}`;
+}
+
+/**
+ * Get the key used to deduplicate a video in feeds
+ * Addressable videos are keyed by their coordinate so newer versions replace older ones (d tags
+ * alone collide across authors), regular kind 21/22 videos have no d tag and are keyed by event ID
+ */
+export function getVideoKey(event: NostrEvent): string {
+  const vineId = getVineId(event);
+  return vineId ? getVideoCoordinate(event.kind, event.pubkey, vineId) : event.id;
+}
+
+/**
+ * getVideoKey for an already parsed video
+ */
+export function getParsedVideoKey(video: ParsedVideoData): string {
+  return video.vineId ? getVideoCoordinate(video.kind, video.pubkey, video.vineId) : video.id;
+}
+
+/**
+ * Reference to the video a repost points at
+ * Addressable videos are referenced by coordinate (a tag), regular videos by event ID (e tag)
+ */
+export interface RepostTarget {
+  kind: number;
+  pubkey?: string;
+  vineId?: string;
+  eventId?: string;
+}
+
+/**
+ * Extract the referenced video from a kind 6 or kind 16 repost
+ * Returns null if the repost doesn't reference a supported video kind
+ */
+export function getRepostTarget(repost: NostrEvent): RepostTarget | null {
+  if (!REPOST_KINDS.includes(repost.kind)) return null;
+
+  // Addressable reference: ["a", "34236:<pubkey>:<d>"]
+  const aTag = repost.tags.find(tag => tag[0] === 'a' && tag[1]);
+  if (aTag) {
+    const [kind, pubkey, vineId] = aTag[1].split(':');
+    const kindNum = parseInt(kind, 10);
+    if (!VIDEO_KINDS.includes(kindNum) || !pubkey || !vineId) return null;
+    return { kind: kindNum, pubkey, vineId };
+  }
+
+  // Event reference: ["e", "<id>"] with the reposted kind in ["k", "21"]
+  const eTag = repost.tags.find(tag => tag[0] === 'e' && tag[1]);
+  const kTag = repost.tags.find(tag => tag[0] === 'k' && tag[1]);
+  if (!eTag || !kTag) return null;
+
+  const kindNum = parseInt(kTag[1], 10);
+  if (!VIDEO_KINDS.includes(kindNum) || isAddressableVideoKind(kindNum)) return null;
+
+  const pTag = repost.tags.find(tag => tag[0] === 'p' && tag[1]);
+  return { kind: kindNum, pubkey: pTag?.[1], eventId: eTag[1] };
+}
+
+/**
+ * The getVideoKey of the video a repost points at
+ */
+export function getRepostTargetKey(target: RepostTarget): string {
+  return target.vineId ? getVideoCoordinate(target.kind, target.pubkey!, target.vineId) : target.eventId!;
+}
+
 /**
  * Get original publication timestamp from event tags
  * NOTE: This is the published_at tag (NIP-31) which can be used by ANY video
@@ -365,6 +484,25 @@ export function getOriginPlatform(event: NostrEvent): {
   };
 }
 
+/**
+ * Get the NIP-36 content warning: its reason, '' when the tag gives none, or undefined without one
+ * Format: ["content-warning", "optional reason"]
+ */
+export function getContentWarning(event: NostrEvent): string | undefined {
+  const warningTag = event.tags.find(tag => tag[0] === 'content-warning');
+  return warningTag ? (warningTag[1] ?? '') : undefined;
+}
+
+/**
+ * Get NIP-32 self-labels from l tags
+ * Format: ["L", namespace] + ["l", value, namespace]; labels without a namespace are "ugc"
+ */
+export function getSelfLabels(event: NostrEvent): ContentLabel[] {
+  return event.tags
+    .filter(tag => tag[0] === 'l' && tag[1])
+    .map(tag => ({ namespace: tag[2] || 'ugc', value: tag[1] }));
+}
+
 /**
  * Check if video is migrated from original Vine platform
  * Uses 'origin' tag, NOT 'published_at' tag
@@ -570,7 +708,8 @@ export function validateVideoEvent(event: NostrEvent): boolean {
   if (!VIDEO_KINDS.includes(event.kind)) return false;
 
   // Kind 34236 (addressable/replaceable event) MUST have d tag per NIP-33
-  if (event.kind === 34236) {
+  // Kinds 21/22 are regular events and are identified by their event ID
+  if (isAddressableVideoKind(event.kind)) {
     const vineId = getVineId(event);
     if (!vineId) {
       // Validation failure - missing required d tag
@@ -584,12 +723,14 @@ export function validateVideoEvent(event: NostrEvent): boolean {
 /**
  * Parse video events into standardized format
  * Centralized parsing function used by all video hooks
+ * Duplicates are dropped by getVideoKey (coordinate, or event ID for kinds 21/22)
  *
  * @param events - Array of NostrEvent objects to parse
  * @returns Array of ParsedVideoData objects
  */
 export function parseVideoEvents(events: NostrEvent[]): ParsedVideoData[] {
   const parsedVideos: ParsedVideoData[] = [];
+  const seenKeys = new Set<string>();
 
   for (const event of events) {
     if (!validateVideoEvent(event)) continue;
@@ -598,21 +739,27 @@ export function parseVideoEvents(events: NostrEvent[]): ParsedVideoData[] {
     if (!videoEvent) continue;
 
     const vineId = getVineId(event);
-    if (!vineId && event.kind === 34236) continue;
+    if (!vineId && isAddressableVideoKind(event.kind)) continue;
 
     const videoUrl = videoEvent.videoMetadata?.url;
     if (!videoUrl) continue;
 
+    const key = getVideoKey(event);
+    if (seenKeys.has(key)) continue;
+    seenKeys.add(key);
+
     parsedVideos.push({
       id: event.id,
       pubkey: event.pubkey,
-      kind: event.kind as 34236,
+      kind: event.kind as VideoKind,
       createdAt: event.created_at,
       originalVineTimestamp: getOriginalVineTimestamp(event),
       content: event.content,
       videoUrl,
       fallbackVideoUrls: videoEvent.videoMetadata?.fallbackUrls,
       hlsUrl: videoEvent.videoMetadata?.hlsUrl,
+      variants: videoEvent.videoMetadata?.variants,
+      hash: videoEvent.videoMetadata?.hash,
       thumbnailUrl: getThumbnailUrl(videoEvent),
       blurhash: videoEvent.videoMetadata?.blurhash,
       title: videoEvent.title,
@@ -626,6 +773,8 @@ export function parseVideoEvents(events: NostrEvent[]): ParsedVideoData[] {
       proofMode: getProofModeData(event),
       origin: getOriginPlatform(event),
       isVineMigrated: isVineMigrated(event),
+      contentWarning: getContentWarning(event),
+      labels: getSelfLabels(event),
       reposts: [],
       originalEvent: event
     });
@@ -0,0 +1,66 @@
+// ABOUTME: Tests for the video worker's verify/parse/dedupe/sort pipeline
+// ABOUTME: Verifies signature filtering, repost aggregation and both sort orders
+
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import { createVerifier, runVideoPipeline } from './videoPipeline';
+
+function makeVideo(id: string, vineId: string, createdAt: number, loops = 0): NostrEvent {
+  return {
+    id,
+    pubkey: 'a'.repeat(64),
+    created_at: createdAt,
+    kind: 34236,
+    content: '',
+    tags: [['d', vineId], ['imeta', `url https://cdn.example.com/${vineId}.mp4`], ['loops', String(loops)]],
+    sig: '',
+  };
+}
+
+function makeRepost(id: string, vineId: string, createdAt: number): NostrEvent {
+  return {
+    id,
+    pubkey: 'b'.repeat(64),
+    created_at: createdAt,
+    kind: 16,
+    content: '',
+    tags: [['a', `34236:${'a'.repeat(64)}:${vineId}`], ['k', '34236']],
+    sig: '',
+  };
+}
+
+describe('runVideoPipeline', () => {
+  it('drops events that fail verification and only checks each ID once', () => {
+    const checked: string[] = [];
+    const verify = createVerifier((event) => {
+      checked.push(event.id);
+      return event.id !== 'forged';
+    });
+    const events = [makeVideo('good', 'one', 100), makeVideo('forged', 'two', 100)];
+
+    expect(runVideoPipeline(events, {}, verify).map(video => video.id)).toEqual(['good']);
+    runVideoPipeline(events, {}, verify);
+    expect(checked).toEqual(['good', 'forged', 'forged']);
+  });
+
+  it('attaches reposts and sorts chronologically by latest repost', () => {
+    const events = [
+      makeVideo('newer', 'one', 200),
+      makeVideo('older', 'two', 100),
+      makeRepost('repost', 'two', 300),
+      makeRepost('repost', 'two', 300),
+      makeRepost('orphan', 'missing', 400),
+    ];
+
+    const videos = runVideoPipeline(events, { sort: 'chronological' }, () => true);
+
+    expect(videos.map(video => video.id)).toEqual(['older', 'newer']);
+    expect(videos[0].reposts).toHaveLength(1);
+  });
+
+  it('sorts by loop count when asked', () => {
+    const events = [makeVideo('few', 'one', 200, 5), makeVideo('many', 'two', 100, 50)];
+
+    expect(runVideoPipeline(events, { sort: 'loops' }, () => true).map(video => video.id)).toEqual(['many', 'few']);
+  });
+});
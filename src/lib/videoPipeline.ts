@@ -0,0 +1,100 @@
+// ABOUTME: Verify/parse/dedupe/sort pipeline for feed pages and the message types of the worker that runs it
+// ABOUTME: Free of browser APIs so the worker, its main-thread fallback and tests share one implementation
+
+import type { NostrEvent } from '@nostrify/nostrify';
+import { VIDEO_KINDS, REPOST_KINDS, type ParsedVideoData } from '@/types/video';
+import { getLatestRepostTime, getParsedVideoKey, getRepostTarget, getRepostTargetKey, parseVideoEvents } from '@/lib/videoParser';
+
+const MAX_VERIFIED_IDS = 10000; // Signatures remembered as valid, so cached events aren't checked twice
+
+/**
+ * Kinds whose signatures relays leave to the video worker, which checks them in batches
+ * Anything that queries these kinds must pass the events through videoWorker.parse or videoWorker.verify.
+ */
+export const WORKER_VERIFIED_KINDS = VIDEO_KINDS;
+
+export interface VideoPipelineOptions {
+  sort?: 'chronological' | 'loops'; // Leave unset to keep the order events arrived in
+}
+
+export type VideoWorkerTask =
+  | { type: 'verify'; events: NostrEvent[] }
+  | { type: 'parse'; events: NostrEvent[]; options: VideoPipelineOptions };
+
+export type VideoWorkerResult =
+  | { type: 'verify'; events: NostrEvent[] }
+  | { type: 'parse'; videos: ParsedVideoData[] }
+  | { type: 'error'; error: string };
+
+export type VideoWorkerRequest = VideoWorkerTask & { id: number };
+export type VideoWorkerResponse = VideoWorkerResult & { id: number };
+
+/**
+ * Wrap a signature check so each event ID is only checked once
+ */
+export function createVerifier(verifyEvent: (event: NostrEvent) => boolean): (event: NostrEvent) => boolean {
+  const verified = new Set<string>();
+
+  return (event) => {
+    if (verified.has(event.id)) return true;
+    if (!verifyEvent(event)) return false;
+
+    if (verified.size >= MAX_VERIFIED_IDS) {
+      // Sets iterate in insertion order, so this forgets the oldest
+      verified.delete(verified.values().next().value!);
+    }
+    verified.add(event.id);
+    return true;
+  };
+}
+
+// Time a video was last put in front of followers: published or reposted
+function getFeedTime(video: ParsedVideoData): number {
+  return Math.max(video.createdAt, getLatestRepostTime(video));
+}
+
+/**
+ * Turn a page of events into feed videos
+ * Events with bad signatures are dropped, videos are deduplicated by getVideoKey, and reposts
+ * are attached to the video they point at. Reposts of videos not in events are dropped, so
+ * callers fetch those originals first.
+ */
+export function runVideoPipeline(
+  events: NostrEvent[],
+  options: VideoPipelineOptions,
+  verify: (event: NostrEvent) => boolean
+): ParsedVideoData[] {
+  const valid = events.filter(verify);
+  const videos = parseVideoEvents(valid.filter(event => VIDEO_KINDS.includes(event.kind)));
+
+  const byKey = new Map(videos.map(video => [getParsedVideoKey(video), video]));
+  for (const repost of valid.filter(event => REPOST_KINDS.includes(event.kind))) {
+    const target = getRepostTarget(repost);
+    const video = target && byKey.get(getRepostTargetKey(target));
+    if (!video || video.reposts.some(existing => existing.eventId === repost.id)) continue;
+
+    video.reposts.push({ eventId: repost.id, reposterPubkey: repost.pubkey, repostedAt: repost.created_at });
+  }
+
+  if (options.sort === 'chronological') {
+    videos.sort((a, b) => getFeedTime(b) - getFeedTime(a));
+  } else if (options.sort === 'loops') {
+    videos.sort((a, b) => (b.loopCount || 0) - (a.loopCount || 0) || getFeedTime(b) - getFeedTime(a));
+  }
+
+  return videos;
+}
+
+/**
+ * Run one worker task
+ */
+export function handleVideoWorkerTask(task: VideoWorkerTask, verify: (event: NostrEvent) => boolean): VideoWorkerResult {
+  try {
+    if (task.type === 'verify') {
+      return { type: 'verify', events: task.events.filter(verify) };
+    }
+    return { type: 'parse', videos: runVideoPipeline(task.events, task.options, verify) };
+  } catch (error) {
+    return { type: 'error', error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,148 @@
+// ABOUTME: Video frame capture for thumbnails and blurhash placeholders
+// ABOUTME: Seeks a hidden video element to a timestamp and encodes the frame as WebP/JPEG plus blurhash
+
+import { encode } from 'blurhash';
+
+export interface VideoInfo {
+  duration: number; // milliseconds
+  width: number;
+  height: number;
+}
+
+export type ThumbnailFormat = 'image/webp' | 'image/jpeg';
+
+export interface CapturedFrame {
+  blob: Blob; // WebP or JPEG
+  time: number; // milliseconds into the video
+  width: number;
+  height: number;
+  blurhash: string;
+}
+
+const BLURHASH_SIZE = 32; // Longest side of the image blurhash is computed from
+const THUMBNAIL_QUALITY = 0.85;
+
+/**
+ * Load a video blob into a detached element and wait for its metadata
+ * The caller must revoke the element's object URL via releaseVideo()
+ */
+async function loadVideo(blob: Blob): Promise<HTMLVideoElement> {
+  const video = document.createElement('video');
+  video.preload = 'auto';
+  video.muted = true;
+  video.playsInline = true;
+
+  await new Promise<void>((resolve, reject) => {
+    video.onloadedmetadata = () => resolve();
+    video.onerror = () => reject(new Error('Failed to load video metadata'));
+    video.src = URL.createObjectURL(blob);
+  });
+
+  // WebM from MediaRecorder reports Infinity until the end has been seeked to
+  if (!Number.isFinite(video.duration)) {
+    await seek(video, Number.MAX_SAFE_INTEGER);
+    await seek(video, 0);
+  }
+
+  return video;
+}
+
+function releaseVideo(video: HTMLVideoElement) {
+  URL.revokeObjectURL(video.src);
+  video.removeAttribute('src');
+  video.load();
+}
+
+function seek(video: HTMLVideoElement, seconds: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error('Failed to seek video'));
+    video.currentTime = seconds;
+  });
+}
+
+/**
+ * Read duration and intrinsic dimensions of a video file
+ */
+export async function getVideoInfo(blob: Blob): Promise<VideoInfo> {
+  const video = await loadVideo(blob);
+  try {
+    return {
+      duration: video.duration * 1000,
+      width: video.videoWidth,
+      height: video.videoHeight,
+    };
+  } finally {
+    releaseVideo(video);
+  }
+}
+
+/**
+ * Compute a blurhash from a canvas, downscaling first since encoding is O(pixels)
+ */
+export function encodeCanvasBlurhash(source: HTMLCanvasElement): string {
+  const scale = BLURHASH_SIZE / Math.max(source.width, source.height);
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context unavailable');
+
+  context.drawImage(source, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+
+  // 4x3 components matches the portrait/square framing of most vines
+  return encode(data, width, height, 4, 3);
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: ThumbnailFormat): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      result => result ? resolve(result) : reject(new Error('Failed to encode thumbnail')),
+      type,
+      THUMBNAIL_QUALITY
+    );
+  });
+}
+
+/**
+ * Capture a frame of a video at timeMs as a poster image with its blurhash
+ * WebP is used when the browser can encode it (Safari can't), otherwise JPEG
+ */
+export async function captureVideoFrame(
+  blob: Blob,
+  timeMs: number,
+  format: ThumbnailFormat = 'image/webp'
+): Promise<CapturedFrame> {
+  const video = await loadVideo(blob);
+  try {
+    const seconds = Math.min(Math.max(0, timeMs / 1000), Math.max(0, video.duration - 0.05));
+    await seek(video, seconds);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D context unavailable');
+    context.drawImage(video, 0, 0);
+
+    let image = await canvasToBlob(canvas, format);
+    if (image.type !== format) {
+      // Unsupported types silently fall back to PNG - use JPEG instead
+      image = await canvasToBlob(canvas, 'image/jpeg');
+    }
+
+    return {
+      blob: image,
+      time: seconds * 1000,
+      width: canvas.width,
+      height: canvas.height,
+      blurhash: encodeCanvasBlurhash(canvas),
+    };
+  } finally {
+    releaseVideo(video);
+  }
+}
@@ -0,0 +1,73 @@
+// ABOUTME: Tests for NIP-71 imeta variant selection
+// ABOUTME: Verifies resolution matching, codec filtering and network caps
+
+import { describe, it, expect } from 'vitest';
+import type { VideoVariant } from '@/types/video';
+import { getVariantCodec, rankVideoVariants, type PlaybackEnvironment } from './videoVariants';
+
+const variants: VideoVariant[] = [
+  { url: 'https://cdn.example.com/1080-h264.mp4', mimeType: 'video/mp4; codecs="avc1.640028"', dimensions: '1080x1920' },
+  { url: 'https://cdn.example.com/720-h264.mp4', mimeType: 'video/mp4; codecs="avc1.64001f"', dimensions: '720x1280' },
+  { url: 'https://cdn.example.com/720-hevc.mp4', mimeType: 'video/mp4; codecs="hvc1.1.6.L93.B0"', dimensions: '720x1280' },
+  { url: 'https://cdn.example.com/480-h264.mp4', mimeType: 'video/mp4; codecs="avc1.42E01E"', dimensions: '480x854' },
+];
+
+function env(overrides: Partial<PlaybackEnvironment> = {}): PlaybackEnvironment {
+  return {
+    targetHeight: 700,
+    canPlayType: () => 'probably',
+    ...overrides,
+  };
+}
+
+describe('videoVariants', () => {
+  describe('getVariantCodec', () => {
+    it('should detect codecs from RFC 6381 strings', () => {
+      expect(getVariantCodec('video/mp4; codecs="av01.0.05M.08"')).toBe('av1');
+      expect(getVariantCodec('video/mp4; codecs="hev1.1.6.L93.B0"')).toBe('hevc');
+      expect(getVariantCodec('video/webm; codecs="vp9"')).toBe('vp9');
+      expect(getVariantCodec('video/mp4; codecs="avc1.42E01E"')).toBe('h264');
+      expect(getVariantCodec('video/mp4')).toBe('unknown');
+    });
+  });
+
+  describe('rankVideoVariants', () => {
+    it('should pick the smallest rendition covering the target, preferring efficient codecs', () => {
+      const ranked = rankVideoVariants(variants, env());
+      expect(ranked.map(v => v.url)).toEqual([
+        'https://cdn.example.com/720-hevc.mp4',
+        'https://cdn.example.com/720-h264.mp4',
+        'https://cdn.example.com/1080-h264.mp4',
+        'https://cdn.example.com/480-h264.mp4',
+      ]);
+    });
+
+    it('should drop codecs the browser cannot play', () => {
+      const ranked = rankVideoVariants(variants, env({
+        canPlayType: (type) => (type.includes('hvc1') ? '' : 'probably'),
+      }));
+      expect(ranked[0].url).toBe('https://cdn.example.com/720-h264.mp4');
+      expect(ranked.some(v => v.url.includes('hevc'))).toBe(false);
+    });
+
+    it('should respect the network height cap', () => {
+      const ranked = rankVideoVariants(variants, env({ targetHeight: 2000, maxHeight: 540 }));
+      expect(ranked[0].url).toBe('https://cdn.example.com/480-h264.mp4');
+      expect(ranked[ranked.length - 1].url).toBe('https://cdn.example.com/1080-h264.mp4');
+    });
+
+    it('should fall back to the largest rendition when none covers the target', () => {
+      const ranked = rankVideoVariants(variants, env({ targetHeight: 3000 }));
+      expect(ranked[0].url).toBe('https://cdn.example.com/1080-h264.mp4');
+    });
+
+    it('should rank variants without dimensions between sufficient and insufficient renditions', () => {
+      const unknown: VideoVariant = { url: 'https://cdn.example.com/unknown.mp4', mimeType: 'video/mp4; codecs="avc1.64001f"' };
+      const ranked = rankVideoVariants([...variants, unknown], env());
+      expect(ranked.map(v => v.url).slice(-2)).toEqual([
+        'https://cdn.example.com/unknown.mp4',
+        'https://cdn.example.com/480-h264.mp4',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+// ABOUTME: Selects the best NIP-71 imeta video variant for the current device and network
+// ABOUTME: Negotiates resolution against viewport size, codec support via canPlayType and navigator.connection
+
+import type { VideoVariant } from '@/types/video';
+
+export type VideoCodec = 'av1' | 'hevc' | 'vp9' | 'h264' | 'unknown';
+
+/**
+ * Snapshot of the playback capabilities used to rank variants
+ */
+export interface PlaybackEnvironment {
+  /** Target rendition height in device pixels (short side of the player) */
+  targetHeight: number;
+  /** Upper bound on rendition height imposed by the network connection */
+  maxHeight?: number;
+  /** Returns the result of HTMLMediaElement.canPlayType for a MIME type */
+  canPlayType: (mimeType: string) => CanPlayTypeResult;
+}
+
+// Preference order when two variants have the same resolution (more efficient codecs first)
+const CODEC_PREFERENCE: VideoCodec[] = ['av1', 'hevc', 'vp9', 'h264', 'unknown'];
+
+// Probe MIME types used when a variant declares a codec only through its container
+const CODEC_PROBES: Record<Exclude<VideoCodec, 'unknown'>, string> = {
+  av1: 'video/mp4; codecs="av01.0.05M.08"',
+  hevc: 'video/mp4; codecs="hvc1.1.6.L93.B0"',
+  vp9: 'video/webm; codecs="vp9"',
+  h264: 'video/mp4; codecs="avc1.42E01E"',
+};
+
+interface NetworkInformation {
+  effectiveType?: 'slow-2g' | '2g' | '3g' | '4g';
+  saveData?: boolean;
+  downlink?: number;
+}
+
+/**
+ * Detect the codec declared in a variant's MIME type
+ * Accepts both RFC 6381 codec strings (hvc1, av01...) and bare codec names
+ */
+export function getVariantCodec(mimeType?: string): VideoCodec {
+  if (!mimeType) return 'unknown';
+  const lower = mimeType.toLowerCase();
+
+  if (/av01|\bav1\b/.test(lower)) return 'av1';
+  if (/hvc1|hev1|hevc|h265/.test(lower)) return 'hevc';
+  if (/vp09|\bvp9\b/.test(lower)) return 'vp9';
+  if (/avc1|avc3|h264/.test(lower)) return 'h264';
+
+  return 'unknown';
+}
+
+/**
+ * Parse the 'dim' value (e.g. "1080x1920") into width and height
+ */
+export function parseDimensions(dimensions?: string): { width: number; height: number } | null {
+  if (!dimensions) return null;
+  const match = dimensions.match(/^(\d+)x(\d+)$/);
+  if (!match) return null;
+
+  const width = parseInt(match[1], 10);
+  const height = parseInt(match[2], 10);
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+/**
+ * Short side of a variant in pixels - 1080x1920 and 1920x1080 are both "1080p"
+ */
+function getVariantResolution(variant: VideoVariant): number | null {
+  const dims = parseDimensions(variant.dimensions);
+  return dims ? Math.min(dims.width, dims.height) : null;
+}
+
+/**
+ * Check whether the browser can decode a variant
+ * Variants without a MIME type are assumed playable and left to the video element
+ */
+export function isVariantPlayable(variant: VideoVariant, canPlayType: PlaybackEnvironment['canPlayType']): boolean {
+  if (!variant.mimeType) return true;
+
+  if (canPlayType(variant.mimeType) === '') return false;
+
+  // A bare container type ("video/mp4") says nothing about the codec, so probe it explicitly
+  const codec = getVariantCodec(variant.mimeType);
+  if (codec !== 'unknown' && !variant.mimeType.includes('codecs=')) {
+    return canPlayType(CODEC_PROBES[codec]) !== '';
+  }
+
+  return true;
+}
+
+/**
+ * Compute the rendition height cap for the current connection
+ */
+function getNetworkHeightCap(connection?: NetworkInformation): number | undefined {
+  if (!connection) return undefined;
+
+  if (connection.saveData) return 360;
+  if (connection.effectiveType === 'slow-2g' || connection.effectiveType === '2g') return 360;
+  if (connection.effectiveType === '3g') return 540;
+  if (typeof connection.downlink === 'number' && connection.downlink > 0 && connection.downlink < 1.5) return 540;
+
+  return undefined;
+}
+
+/**
+ * Read the playback environment from the browser
+ *
+ * @param video - Video element used for canPlayType probing (a detached element is created if omitted)
+ * @param playerHeight - Rendered short side of the player in CSS pixels (defaults to the viewport)
+ */
+export function detectPlaybackEnvironment(video?: HTMLVideoElement | null, playerHeight?: number): PlaybackEnvironment {
+  const probe = video ?? (typeof document !== 'undefined' ? document.createElement('video') : null);
+  const dpr = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+  const viewport = typeof window !== 'undefined'
+    ? Math.min(window.innerWidth, window.innerHeight)
+    : 720;
+
+  const connection = typeof navigator !== 'undefined'
+    ? (navigator as Navigator & { connection?: NetworkInformation }).connection
+    : undefined;
+
+  return {
+    targetHeight: Math.round((playerHeight || viewport) * dpr),
+    maxHeight: getNetworkHeightCap(connection),
+    canPlayType: (mimeType: string) => (probe ? probe.canPlayType(mimeType) : 'maybe'),
+  };
+}
+
+/**
+ * Order variants from best to worst for the given environment
+ * The first entry should be played; the rest are fallbacks tried in order on error.
+ * Unplayable codecs are dropped entirely.
+ */
+export function rankVideoVariants(variants: VideoVariant[], env: PlaybackEnvironment): VideoVariant[] {
+  const playable = variants.filter(v => isVariantPlayable(v, env.canPlayType));
+  if (playable.length <= 1) return playable;
+
+  const target = env.maxHeight ? Math.min(env.targetHeight, env.maxHeight) : env.targetHeight;
+
+  const score = (variant: VideoVariant): number => {
+    const resolution = getVariantResolution(variant);
+    // Variants without dimensions sit between sufficient and insufficient renditions
+    if (resolution === null) return 50_000;
+
+    // Exceeding the network cap is worse than any rendition under it
+    if (env.maxHeight && resolution > env.maxHeight) return 10_000_000 + resolution;
+
+    // Prefer the smallest rendition that covers the target, then the largest below it
+    return resolution >= target ? resolution - target : 100_000 + (target - resolution);
+  };
+
+  return [...playable].sort((a, b) => {
+    const scoreDiff = score(a) - score(b);
+    if (scoreDiff !== 0) return scoreDiff;
+
+    const codecDiff = CODEC_PREFERENCE.indexOf(getVariantCodec(a.mimeType)) -
+      CODEC_PREFERENCE.indexOf(getVariantCodec(b.mimeType));
+    if (codecDiff !== 0) return codecDiff;
+
+    // Same resolution and codec: lower bitrate loads faster
+    return (a.bitrate ?? Infinity) - (b.bitrate ?? Infinity);
+  });
+}
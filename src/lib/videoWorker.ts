@@ -0,0 +1,104 @@
+// ABOUTME: Main-thread client for the video pipeline worker
+// ABOUTME: Runs the same pipeline on the main thread where workers aren't available or the worker fails
+
+import type { NostrEvent } from '@nostrify/nostrify';
+import { verifyEvent } from 'nostr-tools';
+import type { ParsedVideoData } from '@/types/video';
+import {
+  createVerifier,
+  handleVideoWorkerTask,
+  type VideoPipelineOptions,
+  type VideoWorkerResponse,
+  type VideoWorkerResult,
+  type VideoWorkerTask,
+} from '@/lib/videoPipeline';
+import { debugWarn } from '@/lib/debug';
+
+interface PendingTask {
+  task: VideoWorkerTask;
+  resolve: (result: VideoWorkerResult) => void;
+}
+
+/**
+ * Sends feed pages to the worker and resolves with its results
+ */
+class VideoWorkerClient {
+  private worker: Worker | null | undefined; // undefined until first use, null once unavailable
+  private nextId = 1;
+  private pending = new Map<number, PendingTask>();
+  private verifyLocally = createVerifier(verifyEvent);
+
+  /**
+   * Verify, parse, deduplicate and sort a page of video and repost events
+   */
+  async parse(events: NostrEvent[], options: VideoPipelineOptions = {}): Promise<ParsedVideoData[]> {
+    if (events.length === 0) return [];
+    const result = await this.run({ type: 'parse', events, options });
+    if (result.type === 'error') throw new Error(result.error);
+    return result.type === 'parse' ? result.videos : [];
+  }
+
+  /**
+   * Drop events whose signatures don't check out
+   */
+  async verify(events: NostrEvent[]): Promise<NostrEvent[]> {
+    if (events.length === 0) return [];
+    const result = await this.run({ type: 'verify', events });
+    if (result.type === 'error') throw new Error(result.error);
+    return result.type === 'verify' ? result.events : [];
+  }
+
+  private run(task: VideoWorkerTask): Promise<VideoWorkerResult> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return Promise.resolve(handleVideoWorkerTask(task, this.verifyLocally));
+    }
+
+    return new Promise((resolve) => {
+      const id = this.nextId++;
+      this.pending.set(id, { task, resolve });
+      worker.postMessage({ id, ...task });
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker !== undefined) return this.worker;
+
+    if (typeof Worker === 'undefined') {
+      this.worker = null;
+      return null;
+    }
+
+    try {
+      const worker = new Worker(new URL('../workers/videoPipeline.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (message: MessageEvent<VideoWorkerResponse>) => {
+        const { id, ...result } = message.data;
+        this.pending.get(id)?.resolve(result);
+        this.pending.delete(id);
+      };
+      worker.onerror = (error) => {
+        debugWarn('[VideoWorker] Worker failed, parsing on the main thread:', error.message);
+        this.fallBack();
+      };
+      this.worker = worker;
+    } catch (error) {
+      debugWarn('[VideoWorker] Could not start worker, parsing on the main thread:', error);
+      this.worker = null;
+    }
+
+    return this.worker;
+  }
+
+  // Stop using the worker and finish what it was given here instead
+  private fallBack(): void {
+    this.worker?.terminate();
+    this.worker = null;
+
+    for (const { task, resolve } of this.pending.values()) {
+      resolve(handleVideoWorkerTask(task, this.verifyLocally));
+    }
+    this.pending.clear();
+  }
+}
+
+export const videoWorker = new VideoWorkerClient();
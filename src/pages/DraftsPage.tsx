@@ -0,0 +1,116 @@
+// ABOUTME: Lists the current user's saved video drafts on this device
+// ABOUTME: Resumes a draft in the upload flow or deletes it, and shows how much of the draft quota is used
+
+import { useEffect, useMemo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { FolderOpen, Loader2, Play, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useDeleteDraft, useDrafts } from '@/hooks/useDrafts';
+import { DEFAULT_DRAFT_QUOTA_MB, type VideoDraft } from '@/lib/draftStore';
+import { formatBytes } from '@/lib/formatUtils';
+
+function DraftPreview({ blob }: { blob: Blob }) {
+  const url = useMemo(() => URL.createObjectURL(blob), [blob]);
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+
+  return (
+    <video
+      src={url}
+      className="w-20 h-20 rounded-md object-cover bg-black flex-shrink-0"
+      preload="metadata"
+      playsInline
+      muted
+    />
+  );
+}
+
+function DraftCard({ draft }: { draft: VideoDraft }) {
+  const navigate = useNavigate();
+  const { mutate: deleteDraft, isPending: isDeleting } = useDeleteDraft();
+  const duration = draft.segments.reduce((sum, segment) => sum + segment.duration, 0);
+
+  return (
+    <Card>
+      <CardContent className="p-4 flex items-center gap-3">
+        {draft.segments[0] && <DraftPreview blob={draft.segments[0].blob} />}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="font-medium truncate">{draft.title || 'Untitled draft'}</p>
+            <Badge variant="secondary" className="flex-shrink-0">
+              {draft.stage === 'recording' ? 'Recording' : 'Ready to publish'}
+            </Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {draft.segments.length} clip{draft.segments.length !== 1 ? 's' : ''} • {(duration / 1000).toFixed(1)}s • {formatBytes(draft.size)}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Edited {formatDistanceToNow(draft.updatedAt, { addSuffix: true })}
+          </p>
+        </div>
+        <Button size="sm" onClick={() => navigate(`/upload?draft=${encodeURIComponent(draft.id)}`)}>
+          <Play className="mr-2 h-4 w-4" />
+          Resume
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={() => deleteDraft(draft.id)}
+          disabled={isDeleting}
+          aria-label="Delete draft"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function DraftsPage() {
+  const { config } = useAppContext();
+  const { data: drafts, isLoading } = useDrafts();
+  const used = drafts?.reduce((sum, draft) => sum + draft.size, 0) ?? 0;
+  const quotaMB = config.draftQuotaMB ?? DEFAULT_DRAFT_QUOTA_MB;
+
+  return (
+    <div className="container max-w-2xl mx-auto px-4 py-8">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold flex items-center gap-2 mb-2">
+          <FolderOpen className="h-8 w-8" />
+          Drafts
+        </h1>
+        <p className="text-muted-foreground">
+          Recordings are saved on this device as you work. When drafts use more than {quotaMB} MB,
+          the oldest are deleted - change the limit in <Link to="/settings/media" className="underline">Media Settings</Link>.
+        </p>
+        {!!drafts?.length && (
+          <p className="text-sm text-muted-foreground mt-1">
+            Your drafts use {formatBytes(used)}
+          </p>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : drafts?.length ? (
+        <div className="space-y-3">
+          {drafts.map(draft => <DraftCard key={draft.id} draft={draft} />)}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground space-y-4">
+            <p>No drafts yet</p>
+            <Button asChild>
+              <Link to="/upload">Create a Vine</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
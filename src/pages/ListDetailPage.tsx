@@ -21,8 +21,9 @@ import { formatDistanceToNow } from 'date-fns';
 import { useToast } from '@/hooks/useToast';
 import { getSafeProfileImage } from '@/lib/imageUtils';
 import type { NostrEvent, NostrFilter } from '@nostrify/nostrify';
-import { VIDEO_KINDS, type ParsedVideoData } from '@/types/video';
-import { parseVideoEvent, getVineId, getThumbnailUrl, getOriginalVineTimestamp, getLoopCount, getProofModeData, getOriginalLikeCount, getOriginalRepostCount, getOriginalCommentCount, getOriginPlatform, isVineMigrated } from '@/lib/videoParser';
+import { VIDEO_KINDS, type ParsedVideoData, type VideoKind } from '@/types/video';
+import { parseVideoEvent, getVineId, getThumbnailUrl, getOriginalVineTimestamp, getLoopCount, getProofModeData, getOriginalLikeCount, getOriginalRepostCount, getOriginalCommentCount, getOriginPlatform, isVineMigrated, getContentWarning, getSelfLabels } from '@/lib/videoParser';
+import { videoWorker } from '@/lib/videoWorker';
 
 interface VideoList {
   id: string;
@@ -131,7 +132,8 @@ async function fetchListVideos(
 
   if (filters.length === 0) return [];
 
-  const events = await nostr.query(filters, { signal });
+  // Relays leave video signatures to the video worker
+  const events = await videoWorker.verify(await nostr.query(filters, { signal }));
 
   // Parse and order videos according to list order
   const videoMap = new Map<string, ParsedVideoData>();
@@ -147,13 +149,15 @@ async function fetchListVideos(
     videoMap.set(key, {
       id: event.id,
       pubkey: event.pubkey,
-      kind: event.kind as 21 | 22 | 34236,
+      kind: event.kind as VideoKind,
       createdAt: event.created_at,
       originalVineTimestamp: getOriginalVineTimestamp(event),
       content: event.content,
       videoUrl: videoEvent.videoMetadata.url,
       fallbackVideoUrls: videoEvent.videoMetadata?.fallbackUrls,
       hlsUrl: videoEvent.videoMetadata?.hlsUrl,
+      variants: videoEvent.videoMetadata?.variants,
+      hash: videoEvent.videoMetadata?.hash,
       thumbnailUrl: getThumbnailUrl(videoEvent),
       title: videoEvent.title,
       duration: videoEvent.videoMetadata?.duration,
@@ -166,6 +170,8 @@ async function fetchListVideos(
       proofMode: getProofModeData(event),
       origin: getOriginPlatform(event),
       isVineMigrated: isVineMigrated(event),
+      contentWarning: getContentWarning(event),
+      labels: getSelfLabels(event),
       reposts: [] // List videos don't include repost data
     });
   });
@@ -0,0 +1,343 @@
+// ABOUTME: Settings page for media playback and storage preferences
+// ABOUTME: Controls media hash verification, the user's Blossom server list (kind 10063), draft storage and the event cache
+
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowDown, ArrowUp, Database, FileCheck, Film, FolderOpen, Plus, Server, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useBlossomServers, usePublishBlossomServers } from '@/hooks/useBlossomServers';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useToast } from '@/hooks/useToast';
+import { DEFAULT_BLOSSOM_SERVER, normalizeBlossomServer } from '@/lib/blossom';
+import { DEFAULT_DRAFT_QUOTA_MB, draftStore } from '@/lib/draftStore';
+import { eventCache } from '@/lib/eventCache';
+import { eventSync } from '@/lib/eventSync';
+import { formatBytes } from '@/lib/formatUtils';
+
+const DRAFT_QUOTA_OPTIONS = [50, 100, 200, 500, 1000]; // MB
+
+function BlossomServersCard() {
+  const { user } = useCurrentUser();
+  const { toast } = useToast();
+  const { data: servers = [], isLoading } = useBlossomServers(user?.pubkey);
+  const publishServers = usePublishBlossomServers();
+  const [newServer, setNewServer] = useState('');
+
+  const save = async (next: string[], successMessage: string) => {
+    try {
+      await publishServers.mutateAsync(next);
+      toast({
+        title: 'Blossom servers updated',
+        description: successMessage,
+      });
+      return true;
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Failed to update your server list. Please try again.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const handleAdd = async () => {
+    const server = normalizeBlossomServer(newServer);
+    if (!server) {
+      toast({
+        title: 'Error',
+        description: 'Please enter a valid https:// server URL',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (servers.includes(server)) {
+      setNewServer('');
+      return;
+    }
+
+    if (await save([...servers, server], `Added ${new URL(server).host}`)) {
+      setNewServer('');
+    }
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const next = [...servers];
+    const [server] = next.splice(index, 1);
+    next.splice(index + offset, 0, server);
+    save(next, index + offset === 0 ? `${new URL(server).host} is now your primary server` : 'Server order saved');
+  };
+
+  const handleRemove = (server: string) => {
+    save(servers.filter(s => s !== server), `Removed ${new URL(server).host}`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Server className="h-5 w-5" />
+          Blossom Servers
+        </CardTitle>
+        <CardDescription>
+          Uploads go to your first server and are mirrored to the rest. Other clients use this list
+          to find your videos if a link stops working.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : servers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You haven't published a server list yet. Uploads go to {new URL(DEFAULT_BLOSSOM_SERVER).host}.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {servers.map((server, index) => (
+              <li key={server} className="flex items-center gap-2 rounded-md border p-2">
+                <span className="flex-1 truncate font-mono text-sm">{server}</span>
+                {index === 0 && <Badge variant="secondary">Primary</Badge>}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleMove(index, -1)}
+                  disabled={index === 0 || publishServers.isPending}
+                  aria-label={`Move ${server} up`}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleMove(index, 1)}
+                  disabled={index === servers.length - 1 || publishServers.isPending}
+                  aria-label={`Move ${server} down`}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(server)}
+                  disabled={publishServers.isPending}
+                  aria-label={`Remove ${server}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="https://blossom.example.com"
+            value={newServer}
+            onChange={(e) => setNewServer(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          />
+          <Button onClick={handleAdd} disabled={!newServer.trim() || publishServers.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function DraftStorageCard() {
+  const { config, updateConfig } = useAppContext();
+  const queryClient = useQueryClient();
+  const quotaMB = config.draftQuotaMB ?? DEFAULT_DRAFT_QUOTA_MB;
+  const { data: usage } = useQuery({
+    queryKey: ['video-drafts', 'usage'],
+    queryFn: () => draftStore.usage(),
+  });
+
+  const setQuota = async (value: string) => {
+    const next = Number(value);
+    updateConfig(current => ({ ...current, draftQuotaMB: next }));
+    // Apply a smaller limit now rather than at the next save
+    await draftStore.enforceQuota(next * 1024 * 1024);
+    queryClient.invalidateQueries({ queryKey: ['video-drafts'] });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FolderOpen className="h-5 w-5" />
+          Draft Storage
+        </CardTitle>
+        <CardDescription>
+          Recordings are kept as drafts on this device until they're published. Past the limit,
+          the drafts edited longest ago are deleted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="draft-quota" className="font-medium">Storage limit</Label>
+            <p className="text-sm text-muted-foreground">
+              {usage !== undefined ? `${formatBytes(usage)} used by drafts of all accounts` : 'Checking usage...'}
+            </p>
+          </div>
+          <Select value={String(quotaMB)} onValueChange={setQuota}>
+            <SelectTrigger id="draft-quota" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DRAFT_QUOTA_OPTIONS.map(option => (
+                <SelectItem key={option} value={String(option)}>
+                  {option >= 1000 ? `${option / 1000} GB` : `${option} MB`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function EventCacheCard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [isClearing, setIsClearing] = useState(false);
+  const { data } = useQuery({
+    queryKey: ['event-cache', 'usage'],
+    queryFn: async () => ({
+      cache: await eventCache.usage(),
+      origin: await navigator.storage?.estimate?.().catch(() => undefined),
+    }),
+  });
+
+  const clearCache = async () => {
+    setIsClearing(true);
+    try {
+      await eventCache.clear();
+      // The replica is gone too, so the next sync starts over
+      eventSync.reset();
+      queryClient.invalidateQueries({ queryKey: ['event-cache'] });
+      toast({
+        title: 'Cache cleared',
+        description: 'Profiles, lists and videos will be fetched from relays again.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Failed to clear cache',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="h-5 w-5" />
+          Event Cache
+        </CardTitle>
+        <CardDescription>
+          Profiles, lists, videos and reactions are cached on this device so they load instantly and
+          work offline. Events that haven't been read in a while are removed as the cache fills up.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="font-medium">Storage usage</p>
+            <p className="text-sm text-muted-foreground">
+              {data
+                ? `${data.cache.events.toLocaleString()} events, ${formatBytes(data.cache.bytes)}`
+                : 'Checking usage...'}
+            </p>
+            {data?.origin?.quota !== undefined && (
+              <p className="text-sm text-muted-foreground">
+                {formatBytes(data.origin.usage ?? 0)} of {formatBytes(data.origin.quota)} used by this site
+              </p>
+            )}
+          </div>
+          <Button variant="outline" onClick={clearCache} disabled={isClearing}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear cache
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function MediaSettingsPage() {
+  const { config, updateConfig } = useAppContext();
+
+  const setVerifyMedia = (enabled: boolean) => {
+    updateConfig(current => ({ ...current, verifyMedia: enabled }));
+  };
+
+  return (
+    <div className="container max-w-4xl mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold flex items-center gap-2 mb-2">
+          <Film className="h-8 w-8" />
+          Media Settings
+        </h1>
+        <p className="text-muted-foreground">
+          Control how videos are stored, loaded and checked
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileCheck className="h-5 w-5" />
+              Media Integrity
+            </CardTitle>
+            <CardDescription>
+              Videos declare a sha256 hash of their file. Verifying downloads each video you see
+              and checks it against that hash, so it uses extra data.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="verify-media" className="font-medium">Verify media</Label>
+                <p className="text-sm text-muted-foreground">
+                  Show a badge on each video with the result. If a video's URL is dead, the same hash
+                  is looked up on the author's Blossom servers.
+                </p>
+              </div>
+              <Switch
+                id="verify-media"
+                checked={!!config.verifyMedia}
+                onCheckedChange={setVerifyMedia}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <BlossomServersCard />
+
+        <DraftStorageCard />
+
+        <EventCacheCard />
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 // ABOUTME: Settings page for content moderation
-// ABOUTME: Manage mute lists, view report history, and configure filtering
+// ABOUTME: Manage public and private mute list entries, per-reason content severity, and report history
 
 import { useState, useEffect } from 'react';
-import { useMuteList, useMuteItem, useUnmuteItem, useReportHistory } from '@/hooks/useModeration';
+import { useMuteList, useMuteItem, useUnmuteItem, useReportHistory, useLabelerVerdicts } from '@/hooks/useModeration';
 import { useCurrentUser } from '@/hooks/useCurrentUser';
 import { useAuthor } from '@/hooks/useAuthor';
 import { useNostr } from '@nostrify/react';
@@ -10,6 +10,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
@@ -23,19 +24,37 @@ import {
   Plus,
   Flag,
   Trash2,
-  AlertCircle
+  AlertCircle,
+  Lock,
+  SlidersHorizontal,
+  ShieldCheck,
+  Film,
+  Radio
 } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { useToast } from '@/hooks/useToast';
-import { MuteType, REPORT_REASON_LABELS } from '@/types/moderation';
+import { ContentFilterReason, ContentSeverity, MUTE_DURATIONS, MuteType, REPORT_REASON_LABELS, SEVERITY_LABELS, type LabelerVerdict, type MuteItem } from '@/types/moderation';
+import { FIXED_SEVERITY_REASONS, getSeverityPolicy, isHiddenSeverity } from '@/lib/contentSeverity';
+import { useAppContext } from '@/hooks/useAppContext';
+import { isMuteExpired } from '@/lib/muteList';
 import { genUserName } from '@/lib/genUserName';
 import { getSafeProfileImage } from '@/lib/imageUtils';
 import { formatDistanceToNow } from 'date-fns';
 import { nip19 } from 'nostr-tools';
 import type { NostrEvent } from '@nostrify/nostrify';
 
-function MutedUserItem({ pubkey, reason, onUnmute }: {
+// "expires in 3 days" for temporary mutes
+function formatExpiry(item: MuteItem): string | undefined {
+  return item.expireAt
+    ? `expires ${formatDistanceToNow(new Date(item.expireAt * 1000), { addSuffix: true })}`
+    : undefined;
+}
+
+function MutedUserItem({ pubkey, reason, isPrivate, expiry, onUnmute }: {
   pubkey: string;
   reason?: string;
+  isPrivate?: boolean;
+  expiry?: string;
   onUnmute: () => void;
 }) {
   const author = useAuthor(pubkey);
@@ -50,9 +69,12 @@ function MutedUserItem({ pubkey, reason, onUnmute }: {
           <AvatarFallback>{authorName[0]?.toUpperCase()}</AvatarFallback>
         </Avatar>
         <div>
-          <p className="font-medium">{authorName}</p>
-          {reason && (
-            <p className="text-xs text-muted-foreground">{reason}</p>
+          <p className="font-medium flex items-center gap-1">
+            {authorName}
+            {isPrivate && <Lock className="h-3 w-3 text-muted-foreground" aria-label="Private" />}
+          </p>
+          {(reason || expiry) && (
+            <p className="text-xs text-muted-foreground">{[reason, expiry].filter(Boolean).join(' · ')}</p>
           )}
         </div>
       </div>
@@ -70,11 +92,221 @@ function MutedUserItem({ pubkey, reason, onUnmute }: {
 
 
 
+function SeverityPolicyCard() {
+  const { config, updateConfig } = useAppContext();
+  const policy = getSeverityPolicy(config.severityPolicy);
+
+  const setSeverity = (reason: ContentFilterReason, severity: ContentSeverity) => {
+    updateConfig(current => ({
+      ...current,
+      severityPolicy: { ...current.severityPolicy, [reason]: severity },
+    }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Content Filters</CardTitle>
+        <CardDescription>
+          Choose how content is treated for each reason it was muted or reported for. Mutes
+          without one of these reasons count as "Other".
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between gap-4 pb-3 border-b">
+          <div>
+            <Label htmlFor="show-sensitive" className="font-medium">Show sensitive content</Label>
+            <p className="text-sm text-muted-foreground">
+              Show videos their authors marked with a content warning or sensitive label without blurring them.
+            </p>
+          </div>
+          <Switch
+            id="show-sensitive"
+            checked={config.showSensitiveContent ?? false}
+            onCheckedChange={(checked) => updateConfig(current => ({ ...current, showSensitiveContent: checked }))}
+          />
+        </div>
+        {Object.values(ContentFilterReason).map(reason => (
+          <div key={reason} className="flex items-center justify-between gap-4">
+            <Label htmlFor={`severity-${reason}`}>{REPORT_REASON_LABELS[reason]}</Label>
+            {FIXED_SEVERITY_REASONS.includes(reason) ? (
+              <span className="text-sm text-muted-foreground">Always blocked</span>
+            ) : (
+              <Select value={policy[reason]} onValueChange={(value) => setSeverity(reason, value as ContentSeverity)}>
+                <SelectTrigger id={`severity-${reason}`} className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(ContentSeverity).map(severity => (
+                    <SelectItem key={severity} value={severity}>
+                      {SEVERITY_LABELS[severity]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+// "Event 1a2b3c4d..." for what a labeler's verdict is about
+function describeVerdictTarget(verdict: LabelerVerdict): string {
+  if (verdict.eventId) return `Event: ${verdict.eventId.slice(0, 8)}...`;
+  if (verdict.address) return `Video: ${verdict.address.split(':').slice(2).join(':')}`;
+  return `User: ${verdict.pubkey?.slice(0, 8)}...`;
+}
+
+function LabelerItem({ pubkey, hidden, onRemove }: {
+  pubkey: string;
+  hidden: LabelerVerdict[];
+  onRemove: () => void;
+}) {
+  const author = useAuthor(pubkey);
+  const authorMetadata = author.data?.metadata;
+  const authorName = authorMetadata?.name || genUserName(pubkey);
+
+  return (
+    <div className="p-3 rounded-lg border space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Avatar className="h-10 w-10">
+            <AvatarImage src={getSafeProfileImage(authorMetadata?.picture)} />
+            <AvatarFallback>{authorName[0]?.toUpperCase()}</AvatarFallback>
+          </Avatar>
+          <div>
+            <p className="font-medium">{authorName}</p>
+            <p className="text-xs text-muted-foreground">
+              {hidden.length === 1 ? '1 item hidden' : `${hidden.length} items hidden`}
+            </p>
+          </div>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onRemove}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          Remove
+        </Button>
+      </div>
+      {hidden.length > 0 && (
+        <div className="space-y-1">
+          {hidden.slice(0, 10).map(verdict => (
+            <div key={`${verdict.id}-${verdict.reason}-${describeVerdictTarget(verdict)}`} className="flex items-center justify-between gap-2 text-xs">
+              <span className="font-mono text-muted-foreground truncate">{describeVerdictTarget(verdict)}</span>
+              <span className="flex items-center gap-2 shrink-0">
+                <Badge variant="secondary">{REPORT_REASON_LABELS[verdict.reason]}</Badge>
+                <span className="text-muted-foreground">
+                  {formatDistanceToNow(verdict.createdAt * 1000, { addSuffix: true })}
+                </span>
+              </span>
+            </div>
+          ))}
+          {hidden.length > 10 && (
+            <p className="text-xs text-muted-foreground">and {hidden.length - 10} more</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LabelersCard() {
+  const { config, updateConfig } = useAppContext();
+  const { toast } = useToast();
+  const { data: verdicts = [], isLoading } = useLabelerVerdicts();
+  const [labelerValue, setLabelerValue] = useState('');
+
+  const labelers = config.labelers ?? [];
+  const policy = getSeverityPolicy(config.severityPolicy);
+  const hidden = verdicts.filter(verdict => isHiddenSeverity(policy[verdict.reason]));
+
+  const handleAdd = () => {
+    let pubkey = labelerValue.trim();
+    try {
+      if (pubkey.startsWith('npub')) {
+        const decoded = nip19.decode(pubkey);
+        if (decoded.type === 'npub') pubkey = decoded.data;
+      }
+    } catch {
+      // Reported as invalid below
+    }
+
+    if (!/^[0-9a-f]{64}$/.test(pubkey)) {
+      toast({
+        title: 'Error',
+        description: 'Enter an npub or hex public key',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!labelers.includes(pubkey)) {
+      updateConfig(current => ({ ...current, labelers: [...(current.labelers ?? []), pubkey] }));
+      toast({
+        title: 'Subscribed',
+        description: 'Their labels and reports now filter your feeds',
+      });
+    }
+    setLabelerValue('');
+  };
+
+  const handleRemove = (pubkey: string) => {
+    updateConfig(current => ({
+      ...current,
+      labelers: (current.labelers ?? []).filter(labeler => labeler !== pubkey),
+    }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Trusted Moderators</CardTitle>
+        <CardDescription>
+          Apply the labels and reports of moderators you trust. What they flag is treated by your
+          Content Filters settings.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            placeholder="npub1... or hex public key"
+            value={labelerValue}
+            onChange={(e) => setLabelerValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          />
+          <Button onClick={handleAdd} disabled={!labelerValue.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+
+        {labelers.length > 0 ? (
+          <div className="space-y-2">
+            {isLoading && <Skeleton className="h-4 w-40" />}
+            {labelers.map(pubkey => (
+              <LabelerItem
+                key={pubkey}
+                pubkey={pubkey}
+                hidden={hidden.filter(verdict => verdict.labeler === pubkey)}
+                onRemove={() => handleRemove(pubkey)}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground py-8">
+            No trusted moderators
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function ModerationSettingsPage() {
   const { user } = useCurrentUser();
   const { nostr } = useNostr();
   const { toast } = useToast();
-  const { data: muteList = [], isLoading: muteListLoading } = useMuteList();
+  const { data: fullMuteList = [], isLoading: muteListLoading } = useMuteList();
   const { data: reportHistory = [] } = useReportHistory();
   const muteItem = useMuteItem();
   const unmuteItem = useUnmuteItem();
@@ -82,12 +314,18 @@ export default function ModerationSettingsPage() {
   const [muteType, setMuteType] = useState<MuteType>(MuteType.USER);
   const [muteValue, setMuteValue] = useState('');
   const [muteReason, setMuteReason] = useState('');
+  const [mutePrivately, setMutePrivately] = useState(false);
+  const [muteDuration, setMuteDuration] = useState(MUTE_DURATIONS[0].label);
   const [showDebug, setShowDebug] = useState(false);
   const [rawMuteEvent, setRawMuteEvent] = useState<NostrEvent | null>(null);
 
+  // Expired temporary mutes no longer apply; they're dropped the next time the list is published
+  const now = Math.floor(Date.now() / 1000);
+  const muteList = fullMuteList.filter(item => !isMuteExpired(item, now));
   const mutedUsers = muteList.filter(item => item.type === MuteType.USER);
   const mutedHashtags = muteList.filter(item => item.type === MuteType.HASHTAG);
   const mutedKeywords = muteList.filter(item => item.type === MuteType.KEYWORD);
+  const privateCount = muteList.filter(item => item.private).length;
 
   // Debug: Log state
   console.log('[ModerationSettingsPage] Render state:', {
@@ -162,7 +400,9 @@ export default function ModerationSettingsPage() {
       await muteItem.mutateAsync({
         type: muteType,
         value,
-        reason: muteReason.trim() || undefined
+        reason: muteReason.trim() || undefined,
+        isPrivate: mutePrivately,
+        duration: MUTE_DURATIONS.find(duration => duration.label === muteDuration)?.seconds
       });
 
       toast({
@@ -173,10 +413,10 @@ export default function ModerationSettingsPage() {
       // Reset form
       setMuteValue('');
       setMuteReason('');
-    } catch {
+    } catch (error) {
       toast({
         title: 'Error',
-        description: 'Failed to mute. Please try again.',
+        description: error instanceof Error ? error.message : 'Failed to mute. Please try again.',
         variant: 'destructive',
       });
     }
@@ -226,6 +466,16 @@ export default function ModerationSettingsPage() {
             <p className="text-muted-foreground">
               Control what content you see and report violations
             </p>
+            <p className="text-sm text-muted-foreground mt-1 flex gap-4">
+              <Link to="/settings/media" className="inline-flex items-center gap-1 underline">
+                <Film className="h-4 w-4" />
+                Media settings
+              </Link>
+              <Link to="/settings/relays" className="inline-flex items-center gap-1 underline">
+                <Radio className="h-4 w-4" />
+                Relay settings
+              </Link>
+            </p>
           </div>
           <Button
             variant="outline"
@@ -322,6 +572,11 @@ export default function ModerationSettingsPage() {
                 <div>
                   • <strong>{mutedKeywords.length}</strong> keywords muted
                 </div>
+                {privateCount > 0 && (
+                  <div>
+                    • <strong>{privateCount}</strong> of these are private
+                  </div>
+                )}
                 {muteList.length > 0 && (
                   <div className="text-green-600 dark:text-green-400 mt-2">
                     ✓ Content filtering is active across all feeds
@@ -339,11 +594,19 @@ export default function ModerationSettingsPage() {
       </Card>
 
       <Tabs defaultValue="mute-list" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="mute-list" className="gap-2">
             <UserX className="h-4 w-4" />
             <span className="hidden sm:inline">Mute List</span>
           </TabsTrigger>
+          <TabsTrigger value="filters" className="gap-2">
+            <SlidersHorizontal className="h-4 w-4" />
+            <span className="hidden sm:inline">Content Filters</span>
+          </TabsTrigger>
+          <TabsTrigger value="labelers" className="gap-2">
+            <ShieldCheck className="h-4 w-4" />
+            <span className="hidden sm:inline">Moderators</span>
+          </TabsTrigger>
           <TabsTrigger value="reports" className="gap-2">
             <Flag className="h-4 w-4" />
             <span className="hidden sm:inline">My Reports</span>
@@ -410,13 +673,45 @@ export default function ModerationSettingsPage() {
                 </div>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="mute-reason">Reason (optional)</Label>
-                <Input
-                  id="mute-reason"
-                  placeholder="Why are you muting this?"
-                  value={muteReason}
-                  onChange={(e) => setMuteReason(e.target.value)}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="mute-reason">Reason (optional)</Label>
+                  <Input
+                    id="mute-reason"
+                    placeholder="Why are you muting this?"
+                    value={muteReason}
+                    onChange={(e) => setMuteReason(e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="mute-duration">Duration</Label>
+                  <Select value={muteDuration} onValueChange={setMuteDuration}>
+                    <SelectTrigger id="mute-duration">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MUTE_DURATIONS.map(duration => (
+                        <SelectItem key={duration.label} value={duration.label}>
+                          {duration.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="mute-private" className="font-medium">Private</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Encrypt this entry so only you can see it. Public entries are visible to anyone.
+                  </p>
+                </div>
+                <Switch
+                  id="mute-private"
+                  checked={mutePrivately}
+                  onCheckedChange={setMutePrivately}
                 />
               </div>
 
@@ -449,6 +744,8 @@ export default function ModerationSettingsPage() {
                       key={item.value}
                       pubkey={item.value}
                       reason={item.reason}
+                      isPrivate={item.private}
+                      expiry={formatExpiry(item)}
                       onUnmute={() => handleUnmute(MuteType.USER, item.value)}
                     />
                   ))}
@@ -473,8 +770,9 @@ export default function ModerationSettingsPage() {
               {mutedHashtags.length > 0 ? (
                 <div className="flex flex-wrap gap-2">
                   {mutedHashtags.map((item) => (
-                    <Badge key={item.value} variant="secondary" className="gap-2">
+                    <Badge key={item.value} variant="secondary" className="gap-2" title={formatExpiry(item)}>
                       #{item.value}
+                      {item.private && <Lock className="h-3 w-3" aria-label="Private" />}
                       <button
                         onClick={() => handleUnmute(MuteType.HASHTAG, item.value)}
                         className="hover:text-destructive"
@@ -504,8 +802,9 @@ export default function ModerationSettingsPage() {
               {mutedKeywords.length > 0 ? (
                 <div className="flex flex-wrap gap-2">
                   {mutedKeywords.map((item) => (
-                    <Badge key={item.value} variant="secondary" className="gap-2">
+                    <Badge key={item.value} variant="secondary" className="gap-2" title={formatExpiry(item)}>
                       {item.value}
+                      {item.private && <Lock className="h-3 w-3" aria-label="Private" />}
                       <button
                         onClick={() => handleUnmute(MuteType.KEYWORD, item.value)}
                         className="hover:text-destructive"
@@ -576,6 +875,16 @@ export default function ModerationSettingsPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Content Filters Tab */}
+        <TabsContent value="filters" className="space-y-6">
+          <SeverityPolicyCard />
+        </TabsContent>
+
+        {/* Trusted Moderators Tab */}
+        <TabsContent value="labelers" className="space-y-6">
+          <LabelersCard />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -11,14 +11,17 @@ import { VideoGrid } from '@/components/VideoGrid';
 import { VideoFeed } from '@/components/VideoFeed';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { EditProfileDialog } from '@/components/EditProfileDialog';
 import { FollowListSafetyDialog } from '@/components/FollowListSafetyDialog';
+import { ScheduledPostsList } from '@/components/ScheduledPostsList';
 import { useAuthor } from '@/hooks/useAuthor';
 import { useCurrentUser } from '@/hooks/useCurrentUser';
 import { useVideoEvents } from '@/hooks/useVideoEvents';
 import { useProfileStats } from '@/hooks/useProfileStats';
 import { useFollowRelationship, useFollowUser, useUnfollowUser } from '@/hooks/useFollowRelationship';
 import { useFollowListSafetyCheck } from '@/hooks/useFollowListSafetyCheck';
+import { useScheduledPosts } from '@/hooks/useScheduledPosts';
 import { useLoginDialog } from '@/contexts/LoginDialogContext';
 import { genUserName } from '@/lib/genUserName';
 import { enhanceAuthorData } from '@/lib/generateProfile';
@@ -89,6 +92,9 @@ export function ProfilePage() {
   // Check if this is the current user's own profile
   const isOwnProfile = currentUser?.pubkey === pubkey;
 
+  // Scheduled posts live in this browser only, so the tab is just for the owner
+  const { data: scheduledPosts } = useScheduledPosts();
+
   // Get displayName for SEO
   const displayName = metadata?.display_name || metadata?.name || (pubkey ? genUserName(pubkey) : 'User');
 
@@ -217,70 +223,89 @@ export function ProfilePage() {
         />
 
         {/* Content Section */}
-        <div className="space-y-4">
-          {/* View Mode Toggle */}
-          <div className="flex items-center justify-between">
-            <div>
-              <h2 className="text-xl font-semibold">Videos</h2>
-              <p className="text-muted-foreground text-sm">
-                {stats ? `${stats.videosCount} videos` : 'Loading...'} from {displayName}
-              </p>
-            </div>
+        <Tabs defaultValue="videos" className="space-y-4">
+          {isOwnProfile && (
+            <TabsList className="grid w-full max-w-xs grid-cols-2">
+              <TabsTrigger value="videos">Videos</TabsTrigger>
+              <TabsTrigger value="scheduled">
+                Scheduled{scheduledPosts?.length ? ` (${scheduledPosts.length})` : ''}
+              </TabsTrigger>
+            </TabsList>
+          )}
 
-            <div className="flex items-center gap-2">
-              <Button
-                variant={viewMode === 'grid' ? 'default' : 'outline'}
-                size="sm"
-                onClick={() => setViewMode('grid')}
-                data-testid="grid-view-button"
-              >
-                <Grid className="w-4 h-4" />
-              </Button>
-              <Button
-                variant={viewMode === 'list' ? 'default' : 'outline'}
-                size="sm"
-                onClick={() => setViewMode('list')}
-                data-testid="list-view-button"
-              >
-                <List className="w-4 h-4" />
-              </Button>
-            </div>
-          </div>
+          <TabsContent value="videos" className="mt-0">
+            <div className="space-y-4">
+              {/* View Mode Toggle */}
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-xl font-semibold">Videos</h2>
+                  <p className="text-muted-foreground text-sm">
+                    {stats ? `${stats.videosCount} videos` : 'Loading...'} from {displayName}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant={viewMode === 'grid' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setViewMode('grid')}
+                    data-testid="grid-view-button"
+                  >
+                    <Grid className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant={viewMode === 'list' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setViewMode('list')}
+                    data-testid="list-view-button"
+                  >
+                    <List className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
 
-          {/* Videos Display */}
-          {videosLoading ? (
-            <div className="flex items-center justify-center py-12">
-              <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+              {/* Videos Display */}
+              {videosLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+                </div>
+              ) : videosError ? (
+                <Card className="border-destructive">
+                  <CardContent className="py-12 text-center">
+                    <p className="text-destructive mb-4">Failed to load videos</p>
+                    <Button variant="outline" onClick={() => window.location.reload()}>
+                      Try again
+                    </Button>
+                  </CardContent>
+                </Card>
+              ) : viewMode === 'grid' ? (
+                <VideoGrid
+                  videos={videos || []}
+                  loading={videosLoading}
+                  className="min-h-[200px]"
+                  navigationContext={{
+                    source: 'profile',
+                    pubkey: pubkey || undefined,
+                  }}
+                />
+              ) : (
+                <VideoFeed
+                  feedType="profile"
+                  pubkey={pubkey}
+                  data-testid="video-feed-profile"
+                  data-profile-testid={`feed-profile-${identifier}`}
+                  className="space-y-6"
+                />
+              )}
             </div>
-          ) : videosError ? (
-            <Card className="border-destructive">
-              <CardContent className="py-12 text-center">
-                <p className="text-destructive mb-4">Failed to load videos</p>
-                <Button variant="outline" onClick={() => window.location.reload()}>
-                  Try again
-                </Button>
-              </CardContent>
-            </Card>
-          ) : viewMode === 'grid' ? (
-            <VideoGrid
-              videos={videos || []}
-              loading={videosLoading}
-              className="min-h-[200px]"
-              navigationContext={{
-                source: 'profile',
-                pubkey: pubkey || undefined,
-              }}
-            />
-          ) : (
-            <VideoFeed
-              feedType="profile"
-              pubkey={pubkey}
-              data-testid="video-feed-profile"
-              data-profile-testid={`feed-profile-${identifier}`}
-              className="space-y-6"
-            />
+          </TabsContent>
+
+          {isOwnProfile && (
+            <TabsContent value="scheduled" className="mt-0">
+              <ScheduledPostsList />
+            </TabsContent>
           )}
-        </div>
+        </Tabs>
       </div>
     </div>
   );
@@ -0,0 +1,228 @@
+// ABOUTME: Settings page for managing the user's relays and what each one is used for
+// ABOUTME: Relays can be marked read, write or search; read/write changes are published as the NIP-65 relay list
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Activity, Plus, Radio, Send, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { usePublishRelayList, useRelayList, useRelaySets } from '@/hooks/useRelaySets';
+import { useToast } from '@/hooks/useToast';
+import { PRESET_RELAYS, toLegacyFormat } from '@/config/relays';
+import { RELAY_ROLES, mergeRelayList, parseRelayInput, type RelayEntry, type RelayRole } from '@/lib/relaySets';
+
+const MAX_PUBLISH_RELAY_OPTIONS = [1, 3, 5, 8, 10];
+
+const ROLE_LABELS: Record<RelayRole, string> = {
+  read: 'Read',
+  write: 'Write',
+  search: 'Search',
+};
+
+function RelaysCard() {
+  const { user } = useCurrentUser();
+  const { toast } = useToast();
+  const { config, presetRelays } = useAppContext();
+  const { relays: localRelays, setRelays } = useRelaySets();
+  const relayList = useRelayList(user?.pubkey);
+  const publishRelayList = usePublishRelayList();
+  const [newRelay, setNewRelay] = useState('');
+
+  // Edits start from the published list when it's newer than what's been imported, so they never drop
+  // relays set up in another app. Until it has loaded, publishing could overwrite it, so edits wait.
+  const remoteList = relayList.data;
+  const relays = remoteList && remoteList.created_at > (config.relaysUpdatedAt ?? 0)
+    ? mergeRelayList(remoteList, localRelays)
+    : localRelays;
+  const loadingRelayList = !!user && relayList.isLoading;
+
+  const suggestions = (presetRelays ?? toLegacyFormat(PRESET_RELAYS))
+    .filter(({ url }) => !relays.some(relay => relay.url === url));
+
+  const save = async (next: RelayEntry[]) => {
+    setRelays(next);
+    // A list that failed to load is left alone rather than replaced with this device's relays
+    if (!user || !relayList.isSuccess) return;
+
+    try {
+      await publishRelayList.mutateAsync(next);
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Your relays were saved on this device, but publishing your relay list failed.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleAdd = (input: string) => {
+    const url = parseRelayInput(input);
+    if (!url) {
+      toast({
+        title: 'Error',
+        description: 'Please enter a valid wss:// relay URL',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setNewRelay('');
+    if (relays.some(relay => relay.url === url)) return;
+
+    save([...relays, { url, read: true, write: true, search: false }]);
+  };
+
+  const handleToggle = (url: string, role: RelayRole, enabled: boolean) => {
+    save(relays.map(relay => relay.url === url ? { ...relay, [role]: enabled } : relay));
+  };
+
+  const handleRemove = (url: string) => {
+    save(relays.filter(relay => relay.url !== url));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Radio className="h-5 w-5" />
+          Your Relays
+        </CardTitle>
+        <CardDescription>
+          Feeds are loaded from read relays, your posts are published to write relays, and search
+          and sorted feeds use search relays.
+          {user && ' Read and write relays are published as your relay list so other apps can find your posts.'}
+          {loadingRelayList && ' Loading your published relay list...'}
+          {user && relayList.isError && ' Your published relay list could not be loaded, so changes are only saved on this device.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-2">
+          {relays.map(relay => (
+            <li key={relay.url} className="flex flex-wrap items-center gap-3 rounded-md border p-3">
+              <span className="flex-1 min-w-0 font-mono text-sm truncate">{relay.url}</span>
+              {RELAY_ROLES.map(role => (
+                <div key={role} className="flex items-center gap-1.5">
+                  <Checkbox
+                    id={`${relay.url}-${role}`}
+                    checked={relay[role]}
+                    disabled={loadingRelayList}
+                    onCheckedChange={(checked) => handleToggle(relay.url, role, checked === true)}
+                  />
+                  <Label htmlFor={`${relay.url}-${role}`} className="text-sm">{ROLE_LABELS[role]}</Label>
+                </div>
+              ))}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => handleRemove(relay.url)}
+                disabled={relays.length <= 1 || loadingRelayList}
+                aria-label={`Remove ${relay.url}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAdd(newRelay);
+          }}
+        >
+          <Input
+            value={newRelay}
+            onChange={(e) => setNewRelay(e.target.value)}
+            placeholder="wss://relay.example.com"
+            aria-label="Relay URL"
+          />
+          <Button type="submit" disabled={!newRelay.trim() || loadingRelayList}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </form>
+
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">Suggested:</span>
+            {suggestions.map(({ name, url }) => (
+              <Button key={url} variant="outline" size="sm" onClick={() => handleAdd(url)} disabled={loadingRelayList}>
+                <Plus className="h-3 w-3 mr-1" />
+                {name}
+              </Button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PublishingCard() {
+  const { maxPublishRelays, setMaxPublishRelays } = useRelaySets();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Send className="h-5 w-5" />
+          Publishing
+        </CardTitle>
+        <CardDescription>
+          Posts always go to your write relays and the Divine relay. Popular relays are added until this many relays are
+          reached, so your posts are easier to find. Your own and mentioned users' relays from their
+          relay lists are added on top.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="max-publish-relays" className="font-medium">Publish to at least</Label>
+          <Select value={String(maxPublishRelays)} onValueChange={(value) => setMaxPublishRelays(Number(value))}>
+            <SelectTrigger id="max-publish-relays" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MAX_PUBLISH_RELAY_OPTIONS.map(count => (
+                <SelectItem key={count} value={String(count)}>
+                  {count} {count === 1 ? 'relay' : 'relays'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function RelaySettingsPage() {
+  return (
+    <div className="container max-w-4xl mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold flex items-center gap-2 mb-2">
+          <Radio className="h-8 w-8" />
+          Relay Settings
+        </h1>
+        <p className="text-muted-foreground">
+          Choose the relays you read from, publish to and search.{' '}
+          <Link to="/relays" className="inline-flex items-center gap-1 underline">
+            <Activity className="h-4 w-4" />
+            See how they're performing
+          </Link>
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <RelaysCard />
+        <PublishingCard />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+// ABOUTME: Relay status dashboard showing connection state, latency and relay messages for every relay in the pool
+// ABOUTME: Shows demoted relays and NIP-42 authentication, with per-relay auth preferences and an immediate retry
+
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Activity, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useRelayAuth, useRelayAuthPreferences } from '@/hooks/useRelayAuth';
+import { useRelayHealth } from '@/hooks/useRelayHealth';
+import { useRelaySets } from '@/hooks/useRelaySets';
+import type { RelayAuthPreference, RelayAuthState } from '@/lib/relayAuth';
+import { relayHealth, type RelayHealth, type RelayMessage } from '@/lib/relayHealth';
+
+const STATUS_BADGE: Record<RelayHealth['status'], { label: string; variant: 'secondary' | 'outline' | 'destructive' }> = {
+  healthy: { label: 'Healthy', variant: 'secondary' },
+  degraded: { label: 'Degraded', variant: 'outline' },
+  down: { label: 'Down', variant: 'destructive' },
+};
+
+const AUTH_LABELS: Record<RelayAuthState['status'], string> = {
+  challenged: 'Auth requested',
+  pending: 'Authenticating',
+  authenticated: 'Authenticated',
+  denied: 'Auth declined',
+  failed: 'Auth failed',
+};
+
+function formatMs(ms?: number): string {
+  if (ms === undefined) return '-';
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+function MessageList({ title, messages }: { title: string; messages: RelayMessage[] }) {
+  if (messages.length === 0) return null;
+
+  return (
+    <div>
+      <p className="text-sm font-medium mb-1">{title}</p>
+      <ul className="space-y-1">
+        {[...messages].reverse().map(({ message, at }, index) => (
+          <li key={index} className="text-xs text-muted-foreground font-mono break-all">
+            <span className="mr-2">{formatDistanceToNow(at, { addSuffix: true })}</span>
+            {message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function AuthPreferenceSelect({ url }: { url: string }) {
+  const { getPreference, setPreference } = useRelayAuthPreferences();
+
+  return (
+    <Select value={getPreference(url)} onValueChange={(value) => setPreference(url, value as RelayAuthPreference)}>
+      <SelectTrigger className="w-40 h-8" aria-label="Authentication">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="always">Always sign in</SelectItem>
+        <SelectItem value="ask">Ask first</SelectItem>
+        <SelectItem value="never">Never sign in</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
+
+function RelayHealthCard({ health, auth, configured }: { health: RelayHealth; auth?: RelayAuthState; configured: boolean }) {
+  const badge = STATUS_BADGE[health.status];
+  const demoted = !!health.demotedUntil && health.demotedUntil > Date.now();
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base font-mono truncate">{health.url.replace(/^wss:\/\//, '')}</CardTitle>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {configured && <Badge variant="outline">Configured</Badge>}
+            {auth && (
+              <Badge variant={auth.status === 'authenticated' ? 'default' : 'outline'} title={auth.message}>
+                {AUTH_LABELS[auth.status]}
+              </Badge>
+            )}
+            <Badge variant={badge.variant}>{badge.label}</Badge>
+          </div>
+        </div>
+        <CardDescription>
+          Connection {health.state}
+          {health.lastActivity && ` · last message ${formatDistanceToNow(health.lastActivity, { addSuffix: true })}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+          <div>
+            <dt className="text-muted-foreground">Latency</dt>
+            <dd className="font-medium">{formatMs(health.latency)}</dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">EOSE</dt>
+            <dd className="font-medium">{formatMs(health.eoseTime)}</dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Requests</dt>
+            <dd className="font-medium">{health.eoseCount}/{health.reqCount} complete</dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Failures</dt>
+            <dd className="font-medium">{health.timeouts} timeouts, {health.errors} errors</dd>
+          </div>
+        </dl>
+
+        {demoted && (
+          <div className="flex items-center justify-between gap-2 rounded-md bg-muted p-3 text-sm">
+            <span>
+              Skipped while unhealthy - retrying {formatDistanceToNow(health.demotedUntil!, { addSuffix: true })}
+            </span>
+            <Button size="sm" variant="outline" onClick={() => relayHealth.reset(health.url)}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Retry now
+            </Button>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="text-muted-foreground">NIP-42 authentication</span>
+          <AuthPreferenceSelect url={health.url} />
+        </div>
+
+        <MessageList title="Notices" messages={health.notices} />
+        <MessageList title="Closed subscriptions" messages={health.closedReasons} />
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function RelayStatusPage() {
+  const { relays: configuredRelays } = useRelaySets();
+  const relays = useRelayHealth();
+  const { relays: authStates } = useRelayAuth();
+  const configuredUrls = configuredRelays.map(({ url }) => url);
+
+  // Re-render periodically so demotion countdowns and relative times stay current
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    const interval = setInterval(() => setTick(tick => tick + 1), 5000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Configured relays first, including ones the pool hasn't talked to yet
+  const unseen = configuredUrls
+    .filter(url => !relays.some(relay => relay.url === url))
+    .map((url): RelayHealth => ({
+      url,
+      state: 'idle',
+      status: 'healthy',
+      reqCount: 0,
+      eoseCount: 0,
+      timeouts: 0,
+      errors: 0,
+      consecutiveFailures: 0,
+      notices: [],
+      closedReasons: [],
+    }));
+  const sorted = [...unseen, ...relays].sort((a, b) =>
+    Number(configuredUrls.includes(b.url)) - Number(configuredUrls.includes(a.url))
+  );
+
+  return (
+    <div className="container max-w-4xl mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold flex items-center gap-2 mb-2">
+          <Activity className="h-8 w-8" />
+          Relay Status
+        </h1>
+        <p className="text-muted-foreground">
+          How each relay has responded during this session. Relays that keep failing or respond
+          slowly are skipped for a while, with requests going to healthy relays instead.
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        {sorted.map(health => (
+          <RelayHealthCard
+            key={health.url}
+            health={health}
+            auth={authStates.find(auth => auth.url === health.url)}
+            configured={configuredUrls.includes(health.url)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,26 +1,115 @@
 // ABOUTME: Main record page for recording and publishing videos
-// ABOUTME: Orchestrates camera recording, file recording, metadata input, and publishing flow
+// ABOUTME: Orchestrates camera recording or file selection, trimming, metadata input, publishing, drafts and resume
 
-import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { CameraRecorder } from '@/components/CameraRecorder';
-import { VideoMetadataForm } from '@/components/VideoMetadataForm';
+import { VideoMetadataForm, type VideoMetadataFieldValues } from '@/components/VideoMetadataForm';
+import { VideoTrimmer } from '@/components/VideoTrimmer';
 import { Button } from '@/components/ui/button';
-import { Camera } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Camera, FileVideo, FolderOpen, Loader2, RotateCcw, Trash2 } from 'lucide-react';
 import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useDraft, useDraftAutosave, useDrafts } from '@/hooks/useDrafts';
+import { usePendingUpload } from '@/hooks/usePendingUpload';
+import { useToast } from '@/hooks/useToast';
+import { useVideoUpload, type PreparedVideo } from '@/hooks/useVideoUpload';
+import { pendingUploadStore, type PendingUpload } from '@/lib/pendingUploadStore';
+import { generateDraftId, type DraftInput, type DraftSegment } from '@/lib/draftStore';
+import { getVideoInfo } from '@/lib/videoThumbnail';
+import { MAX_VINE_DURATION } from '@/types/video';
 
-type UploadStep = 'choose' | 'record' | 'metadata';
+type UploadStep = 'choose' | 'record' | 'processing' | 'trim' | 'metadata';
 
 interface RecordedSegment {
   blob: Blob;
   blobUrl: string;
 }
 
+const EMPTY_VALUES: VideoMetadataFieldValues = { title: '', description: '', hashtags: [] };
+
+async function toPreparedVideo(blob: Blob, duration?: number): Promise<PreparedVideo> {
+  const info = await getVideoInfo(blob);
+  return {
+    blob,
+    duration: duration ?? info.duration,
+    width: info.width,
+    height: info.height,
+  };
+}
+
 export function UploadPage() {
   const navigate = useNavigate();
   const { user } = useCurrentUser();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [step, setStep] = useState<UploadStep>('choose');
-  const [recordedSegments, setRecordedSegments] = useState<RecordedSegment[]>([]);
+  const [sourceFile, setSourceFile] = useState<{ blob: Blob; duration: number } | null>(null);
+  const [prepared, setPrepared] = useState<PreparedVideo | null>(null);
+  const [resume, setResume] = useState<PendingUpload | undefined>();
+  const { data: pendingUpload } = usePendingUpload();
+  const { combineSegments } = useVideoUpload();
+
+  // Draft being recorded or edited - auto-saved to IndexedDB as it changes
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftSegments, setDraftSegments] = useState<DraftSegment[]>([]);
+  const [draftValues, setDraftValues] = useState(EMPTY_VALUES);
+  const [initialValues, setInitialValues] = useState<VideoMetadataFieldValues | undefined>();
+  const { data: drafts } = useDrafts();
+  const { data: resumeDraft } = useDraft(searchParams.get('draft'));
+  const resumedDraftRef = useRef<string | null>(null);
+
+  const draft = useMemo<DraftInput | null>(() => {
+    if (!user || !draftId || draftSegments.length === 0) return null;
+    return {
+      id: draftId,
+      pubkey: user.pubkey,
+      segments: draftSegments,
+      stage: step === 'metadata' ? 'metadata' : 'recording',
+      ...draftValues,
+    };
+  }, [user, draftId, draftSegments, step, draftValues]);
+  const { discardDraft } = useDraftAutosave(draft);
+
+  // Opened from the drafts page with ?draft=<id>
+  useEffect(() => {
+    if (!resumeDraft || resumedDraftRef.current === resumeDraft.id) return;
+    resumedDraftRef.current = resumeDraft.id;
+    setSearchParams({}, { replace: true });
+    if (resumeDraft.pubkey !== user?.pubkey) return;
+
+    const values = { title: resumeDraft.title, description: resumeDraft.description, hashtags: resumeDraft.hashtags };
+    setDraftId(resumeDraft.id);
+    setDraftSegments(resumeDraft.segments);
+    setDraftValues(values);
+    setInitialValues(values);
+    setResume(undefined);
+
+    if (resumeDraft.stage === 'recording') {
+      setStep('record');
+      return;
+    }
+
+    setStep('processing');
+    combineSegments(resumeDraft.segments.map(({ blob }) => ({ blob, blobUrl: '' })))
+      .then(combined => toPreparedVideo(combined.blob, combined.duration))
+      .then(video => {
+        setPrepared(video);
+        setStep('metadata');
+      })
+      .catch(error => {
+        console.error('Failed to restore draft:', error);
+        toast({
+          title: 'Could Not Open Draft',
+          description: error instanceof Error ? error.message : 'Failed to read the draft video',
+          variant: 'destructive',
+        });
+        setStep('choose');
+      });
+  }, [resumeDraft, user?.pubkey, setSearchParams, combineSegments, toast]);
 
   // Require login to record
   if (!user) {
@@ -40,34 +129,120 @@ export function UploadPage() {
     );
   }
 
+  const showPrepareError = (error: unknown) => {
+    console.error('Failed to prepare video:', error);
+    toast({
+      title: 'Could Not Use Video',
+      description: error instanceof Error ? error.message : 'Failed to read this video',
+      variant: 'destructive',
+    });
+    setStep('choose');
+  };
+
+  // Move on to the metadata step with a single ready-to-upload file
+  const handlePrepared = async (blob: Blob, duration?: number) => {
+    setPrepared(await toPreparedVideo(blob, duration));
+    setResume(undefined);
+    setStep('metadata');
+  };
+
+  // Picked files have no clips, so their draft keeps the prepared file as a single segment
+  const handleFilePrepared = async (blob: Blob, duration?: number) => {
+    const video = await toPreparedVideo(blob, duration);
+    setDraftId(generateDraftId());
+    setDraftSegments([{ blob: video.blob, duration: video.duration }]);
+    setDraftValues(EMPTY_VALUES);
+    setInitialValues(undefined);
+    setPrepared(video);
+    setResume(undefined);
+    setStep('metadata');
+  };
+
+  const startRecording = () => {
+    setDraftId(generateDraftId());
+    setDraftSegments([]);
+    setDraftValues(EMPTY_VALUES);
+    setInitialValues(undefined);
+    setStep('record');
+  };
+
   // Handle recording completion
-  const handleRecordingComplete = (segments: RecordedSegment[]) => {
-    setRecordedSegments(segments);
+  const handleRecordingComplete = async (segments: RecordedSegment[]) => {
+    setStep('processing');
+    try {
+      const combined = await combineSegments(segments);
+      segments.forEach(segment => URL.revokeObjectURL(segment.blobUrl));
+      await handlePrepared(combined.blob, combined.duration);
+    } catch (error) {
+      showPrepareError(error);
+    }
+  };
+
+  // Handle a picked file - long videos go through the trimmer
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+    setStep('processing');
+    try {
+      const info = await getVideoInfo(file);
+      if (info.duration > MAX_VINE_DURATION) {
+        setSourceFile({ blob: file, duration: info.duration });
+        setStep('trim');
+      } else {
+        await handleFilePrepared(file, info.duration);
+      }
+    } catch (error) {
+      showPrepareError(error);
+    }
+  };
+
+  const handleResume = (upload: PendingUpload) => {
+    setDraftId(null);
+    setPrepared({
+      blob: upload.video,
+      duration: upload.duration,
+      width: upload.width,
+      height: upload.height,
+    });
+    setResume(upload);
     setStep('metadata');
   };
 
+  const handleDiscardPending = async () => {
+    await pendingUploadStore.clear(user.pubkey);
+    queryClient.removeQueries({ queryKey: ['pending-upload', user.pubkey] });
+  };
+
   // Handle publish completion
   const handlePublished = () => {
-    // Clean up recorded segments
-    recordedSegments.forEach(segment => {
-      URL.revokeObjectURL(segment.blobUrl);
-    });
-    setRecordedSegments([]);
+    if (draftId) {
+      discardDraft(draftId);
+    }
+    setDraftId(null);
+    setDraftSegments([]);
+    setPrepared(null);
+    setResume(undefined);
     setStep('choose');
 
     // Navigate to home to see the published video
     navigate('/');
   };
 
-  // Handle cancel
+  // Handle cancel - anything recorded stays in drafts
   const handleCancel = () => {
-    // Clean up recorded segments
-    recordedSegments.forEach(segment => {
-      URL.revokeObjectURL(segment.blobUrl);
-    });
-    setRecordedSegments([]);
-
+    if (draft) {
+      toast({
+        title: 'Draft Saved',
+        description: 'Pick it up again from your drafts.',
+      });
+    }
+    setDraftId(null);
+    setDraftSegments([]);
+    setPrepared(null);
+    setSourceFile(null);
+    setResume(undefined);
     setStep('choose');
+    // A failed publish leaves a checkpoint behind - show it on the choose screen
+    queryClient.invalidateQueries({ queryKey: ['pending-upload', user.pubkey] });
   };
 
   // Choose record method
@@ -77,18 +252,65 @@ export function UploadPage() {
         <div className="text-center space-y-6">
           <h1 className="text-3xl font-bold">Create a Vine</h1>
           <p className="text-muted-foreground">
-            Record a 6-second looping video to share with the world
+            Record or upload a 6-second looping video to share with the world
           </p>
 
+          {pendingUpload && (
+            <Card>
+              <CardContent className="p-4 flex items-center gap-3 text-left">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{pendingUpload.title || 'Untitled vine'}</p>
+                  <p className="text-sm text-muted-foreground">
+                    Unfinished upload from {new Date(pendingUpload.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                <Button size="sm" onClick={() => handleResume(pendingUpload)}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Resume
+                </Button>
+                <Button size="icon" variant="ghost" onClick={handleDiscardPending} aria-label="Discard unfinished upload">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
           <div className="space-y-3 pt-4">
             <Button
-              onClick={() => setStep('record')}
+              onClick={startRecording}
               className="w-full h-16 text-lg"
               size="lg"
             >
               <Camera className="mr-2 h-5 w-5" />
               Record with Camera
             </Button>
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full h-16 text-lg"
+              size="lg"
+              variant="outline"
+            >
+              <FileVideo className="mr-2 h-5 w-5" />
+              Choose a Video File
+            </Button>
+            {!!drafts?.length && (
+              <Button asChild className="w-full h-16 text-lg" size="lg" variant="ghost">
+                <Link to="/drafts">
+                  <FolderOpen className="mr-2 h-5 w-5" />
+                  Drafts ({drafts.length})
+                </Link>
+              </Button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="video/*"
+              className="hidden"
+              onChange={(e) => {
+                handleFileSelected(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
           </div>
 
           <div className="pt-6">
@@ -110,15 +332,45 @@ export function UploadPage() {
       <CameraRecorder
         onRecordingComplete={handleRecordingComplete}
         onCancel={handleCancel}
+        initialSegments={draftSegments}
+        onSegmentsChange={setDraftSegments}
+      />
+    );
+  }
+
+  if (step === 'processing') {
+    return (
+      <div className="container max-w-lg mx-auto py-24 px-4 text-center space-y-4">
+        <Loader2 className="h-10 w-10 mx-auto animate-spin text-primary" />
+        <p className="text-muted-foreground">Preparing your video...</p>
+      </div>
+    );
+  }
+
+  // Trim step for files longer than a vine
+  if (step === 'trim' && sourceFile) {
+    return (
+      <VideoTrimmer
+        file={sourceFile.blob}
+        duration={sourceFile.duration}
+        onTrimmed={(clip) => {
+          setSourceFile(null);
+          setStep('processing');
+          handleFilePrepared(clip.blob, clip.duration).catch(showPrepareError);
+        }}
+        onCancel={handleCancel}
       />
     );
   }
 
   // Metadata step
-  if (step === 'metadata' && recordedSegments.length > 0) {
+  if (step === 'metadata' && prepared) {
     return (
       <VideoMetadataForm
-        segments={recordedSegments}
+        video={prepared}
+        resume={resume}
+        initialValues={initialValues}
+        onValuesChange={setDraftValues}
         onCancel={handleCancel}
         onPublished={handlePublished}
       />
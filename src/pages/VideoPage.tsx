@@ -1,7 +1,8 @@
 import { useParams, useNavigate } from 'react-router-dom';
 import { useEffect, useCallback, useState } from 'react';
 import { useSeoMeta } from '@unhead/react';
-import { Hash, User } from 'lucide-react';
+import { EyeOff, Hash, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { VideoCard } from '@/components/VideoCard';
@@ -11,12 +12,16 @@ import { useVideoSocialMetrics, useVideoUserInteractions } from '@/hooks/useVide
 import { useNostrPublish } from '@/hooks/useNostrPublish';
 import { useRepostVideo } from '@/hooks/usePublishVideo';
 import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useContentModeration } from '@/hooks/useModeration';
 import { useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/useToast';
 import { genUserName } from '@/lib/genUserName';
 import { nip19 } from 'nostr-tools';
 import { debugLog } from '@/lib/debug';
+import { isAddressableVideoKind } from '@/lib/videoParser';
+import { getVideoLabelTarget } from '@/lib/labelers';
 import type { ParsedVideoData } from '@/types/video';
+import { ContentSeverity } from '@/types/moderation';
 
 export function VideoPage() {
   const { id } = useParams<{ id: string }>();
@@ -45,6 +50,20 @@ export function VideoPage() {
   const { mutateAsync: publishEvent } = useNostrPublish();
   const { mutateAsync: repostVideo, isPending: isReposting } = useRepostVideo();
 
+  // Apply the same moderation as the feeds: hidden videos need a click, blocked ones never play
+  const labelTarget = currentVideo ? getVideoLabelTarget(currentVideo) : undefined;
+  const { checkContent } = useContentModeration(labelTarget ? [[labelTarget]] : []);
+  const [revealedVideoId, setRevealedVideoId] = useState<string | null>(null);
+  const moderation = currentVideo ? checkContent({
+    ...labelTarget,
+    hashtags: currentVideo.hashtags,
+    text: currentVideo.content,
+    contentWarning: currentVideo.contentWarning,
+    labels: currentVideo.labels
+  }) : undefined;
+  const isFiltered = !!moderation?.shouldFilter &&
+    !(moderation.severity === ContentSeverity.HIDE && revealedVideoId === currentVideo?.id);
+
   // Keyboard navigation
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
     if (event.target !== document.body && !(event.target as Element)?.classList.contains('video-navigation-target')) {
@@ -157,7 +176,7 @@ export function VideoPage() {
       return;
     }
 
-    if (!video.vineId) {
+    if (!video.vineId && isAddressableVideoKind(video.kind)) {
       toast({
         title: 'Error',
         description: 'Cannot repost this video',
@@ -173,6 +192,8 @@ export function VideoPage() {
       await repostVideo({
         originalPubkey: video.pubkey,
         vineId: video.vineId,
+        videoId: video.id,
+        videoKind: video.kind,
       });
 
       toast({
@@ -270,8 +291,8 @@ export function VideoPage() {
   };
 
   // Helper component to provide social metrics data for the video
-  function VideoCardWithMetrics({ video }: { video: ParsedVideoData }) {
-    const { data: socialMetrics } = useVideoSocialMetrics(video.id, video.pubkey, video.vineId);
+  function VideoCardWithMetrics({ video, warningMessage }: { video: ParsedVideoData; warningMessage?: string }) {
+    const { data: socialMetrics } = useVideoSocialMetrics(video.id, video.pubkey, video.vineId, video.kind);
     const { data: userInteractions } = useVideoUserInteractions(video.id, user?.pubkey);
 
     const handleVideoLike = async () => {
@@ -314,6 +335,7 @@ export function VideoPage() {
         viewCount={socialMetrics?.viewCount || video.loopCount}
         showComments={showCommentsForVideo === video.id}
         navigationContext={context || undefined}
+        warningMessage={warningMessage}
       />
     );
   }
@@ -435,8 +457,29 @@ export function VideoPage() {
         )}
 
         {/* Video Card */}
-        {currentVideo && (
-          <VideoCardWithMetrics video={currentVideo} />
+        {currentVideo && isFiltered && (
+          <Card className="max-w-xl mx-auto border-dashed">
+            <CardContent className="py-12 text-center space-y-4">
+              <EyeOff className="h-8 w-8 mx-auto text-muted-foreground" />
+              <p className="text-muted-foreground text-lg font-semibold">
+                {moderation?.severity === ContentSeverity.BLOCK ? 'Video blocked' : 'Video hidden'}
+              </p>
+              {moderation?.warningMessage && (
+                <p className="text-sm text-muted-foreground">{moderation.warningMessage}</p>
+              )}
+              {moderation?.severity === ContentSeverity.HIDE && (
+                <Button variant="outline" size="sm" onClick={() => setRevealedVideoId(currentVideo.id)}>
+                  Show anyway
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+        {currentVideo && !isFiltered && (
+          <VideoCardWithMetrics
+            video={currentVideo}
+            warningMessage={moderation?.severity === ContentSeverity.WARNING ? moderation.warningMessage : undefined}
+          />
         )}
       </div>
 
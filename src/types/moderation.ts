@@ -1,5 +1,5 @@
 // ABOUTME: Type definitions for content moderation system
-// ABOUTME: Implements NIP-51 mute lists (kind 10001) and NIP-56 reporting (kind 1984)
+// ABOUTME: Implements NIP-51 mute lists (kind 10001), NIP-56 reporting (kind 1984) and NIP-32 labels (kind 1985)
 
 /**
  * Content filter reasons (NIP-56)
@@ -28,6 +28,18 @@ export enum ContentSeverity {
   BLOCK = 'block'         // Completely block
 }
 
+/**
+ * How content is treated for each filter reason
+ */
+export type SeverityPolicy = Record<ContentFilterReason, ContentSeverity>;
+
+export const SEVERITY_LABELS: Record<ContentSeverity, string> = {
+  [ContentSeverity.INFO]: 'Show',
+  [ContentSeverity.WARNING]: 'Blur and warn',
+  [ContentSeverity.HIDE]: 'Hide',
+  [ContentSeverity.BLOCK]: 'Block'
+};
+
 /**
  * Mute types (NIP-51)
  */
@@ -47,8 +59,19 @@ export interface MuteItem {
   reason?: string;         // Optional reason
   createdAt: number;       // Unix timestamp
   expireAt?: number;       // Optional expiration (unix timestamp)
+  private?: boolean;       // Encrypted in the list's content, so only we can see it
 }
 
+/**
+ * How long a mute can last; undefined is forever
+ */
+export const MUTE_DURATIONS: { label: string; seconds?: number }[] = [
+  { label: 'Forever' },
+  { label: '24 hours', seconds: 24 * 60 * 60 },
+  { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+  { label: '30 days', seconds: 30 * 24 * 60 * 60 },
+];
+
 /**
  * Content report (NIP-56)
  */
@@ -62,6 +85,19 @@ export interface ContentReport {
   createdAt: number;
 }
 
+/**
+ * A subscribed moderator's label (NIP-32, kind 1985) or report (NIP-56, kind 1984) on one target
+ */
+export interface LabelerVerdict {
+  id: string;              // Label or report event ID
+  labeler: string;         // Moderator pubkey
+  eventId?: string;        // Labelled event
+  pubkey?: string;         // Labelled user
+  address?: string;        // Labelled addressable event ("kind:pubkey:d")
+  reason: ContentFilterReason;
+  createdAt: number;
+}
+
 /**
  * Moderation result
  */
@@ -70,6 +106,7 @@ export interface ModerationResult {
   severity: ContentSeverity;
   reasons: ContentFilterReason[];
   matchingItems: MuteItem[];
+  labelers?: string[];     // Moderators whose labels or reports matched
   warningMessage?: string;
 }
 
@@ -1,18 +1,42 @@
 // ABOUTME: Core video event types and interfaces for OpenVine/Divine Web
-// ABOUTME: Defines the structure of video events (kind 34236) and related metadata
+// ABOUTME: Defines the structure of video events (kinds 21, 22, 34236) and related metadata
 
 import type { NostrEvent } from '@nostrify/nostrify';
 
 // Video Event Kinds
 export const VIDEO_KIND = 34236; // Kind 34236 - Addressable short-form videos
+export const NORMAL_VIDEO_KIND = 21; // Kind 21 - NIP-71 normal (horizontal) videos
+export const SHORT_VIDEO_KIND = 22; // Kind 22 - NIP-71 short (vertical) videos
+
+export type VideoKind = typeof VIDEO_KIND | typeof NORMAL_VIDEO_KIND | typeof SHORT_VIDEO_KIND;
 
 // Array of all supported video kinds
-export const VIDEO_KINDS = [VIDEO_KIND];
+export const VIDEO_KINDS: number[] = [VIDEO_KIND, SHORT_VIDEO_KIND, NORMAL_VIDEO_KIND];
 
 export const REPOST_KIND = 6;
+export const GENERIC_REPOST_KIND = 16; // NIP-18 generic repost, used for non-addressable video kinds
+
+// Array of all repost kinds we aggregate into video feeds
+export const REPOST_KINDS: number[] = [REPOST_KIND, GENERIC_REPOST_KIND];
+
+export const MAX_VINE_DURATION = 6300; // Longest video we publish, in milliseconds (classic Vine length)
+
+/**
+ * A single rendition of a video from one NIP-71 imeta tag
+ * Events may carry several imeta tags with different dimensions, codecs and bitrates
+ */
+export interface VideoVariant {
+  url: string;
+  mimeType?: string;   // e.g. 'video/mp4' or 'video/mp4; codecs="hvc1"'
+  dimensions?: string; // e.g. '1080x1920'
+  bitrate?: number;    // bits per second
+  size?: number;
+  hash?: string;
+}
 
 export interface VideoMetadata {
   url: string;
+  variants?: VideoVariant[]; // All imeta variants with a playable URL, in event order
   fallbackUrls?: string[];  // Alternative URLs to try if primary fails
   hlsUrl?: string;  // HLS manifest URL (.m3u8) for adaptive bitrate streaming
   mimeType?: string;
@@ -25,7 +49,7 @@ export interface VideoMetadata {
 }
 
 export interface VideoEvent extends NostrEvent {
-  kind: typeof VIDEO_KIND;
+  kind: VideoKind;
   videoMetadata?: VideoMetadata;
   title?: string;
   hashtags?: string[];
@@ -36,7 +60,7 @@ export interface VideoEvent extends NostrEvent {
 }
 
 export interface RepostEvent extends NostrEvent {
-  kind: typeof REPOST_KIND;
+  kind: typeof REPOST_KIND | typeof GENERIC_REPOST_KIND;
   referencedEventAddress?: string;
   referencedAuthor?: string;
 }
@@ -64,22 +88,32 @@ export interface RepostMetadata {
   repostedAt: number;        // When they reposted
 }
 
+/**
+ * NIP-32 label: ["l", value, namespace]
+ */
+export interface ContentLabel {
+  namespace: string;
+  value: string;
+}
+
 export interface ParsedVideoData {
   id: string;                // Original video event ID
   pubkey: string;            // Original author pubkey
-  kind: typeof VIDEO_KIND;   // Video kind (34236)
+  kind: VideoKind;           // Video kind (21, 22 or 34236)
   createdAt: number;
   originalVineTimestamp?: number; // Custom published_at timestamp (NIP-31 - can be set by any video)
   content: string;
   videoUrl: string;
   fallbackVideoUrls?: string[];  // Alternative URLs to try if primary fails
   hlsUrl?: string;  // HLS manifest URL (.m3u8) for adaptive bitrate streaming
+  variants?: VideoVariant[];  // imeta renditions for resolution/codec negotiation
+  hash?: string;  // imeta 'x' sha256 of the primary video file
   thumbnailUrl?: string;
   blurhash?: string; // Blurhash for progressive loading placeholder
   title?: string;
   duration?: number;
   hashtags: string[];
-  vineId: string | null;
+  vineId: string | null;     // d tag - only present on addressable (34236) videos
   loopCount?: number;
   likeCount?: number;
   repostCount?: number;
@@ -87,6 +121,8 @@ export interface ParsedVideoData {
   proofMode?: ProofModeData; // ProofMode verification data
   origin?: OriginData;        // Import source platform info (if imported content)
   isVineMigrated: boolean;    // True only if origin platform is 'vine'
+  contentWarning?: string;    // NIP-36 content-warning reason ('' when the tag gives none)
+  labels?: ContentLabel[];    // NIP-32 self-labels from l tags
 
   // NEW: Aggregated repost data (replaces individual isRepost/reposterPubkey/repostedAt)
   reposts: RepostMetadata[];
@@ -0,0 +1,13 @@
+// ABOUTME: Web Worker that verifies signatures and parses feed pages off the main thread
+// ABOUTME: Answers each VideoWorkerRequest with the VideoWorkerResponse of the same ID
+
+import { verifyEvent } from 'nostr-tools';
+import { createVerifier, handleVideoWorkerTask, type VideoWorkerRequest, type VideoWorkerResponse } from '@/lib/videoPipeline';
+
+const verify = createVerifier(verifyEvent);
+
+self.onmessage = (message: MessageEvent<VideoWorkerRequest>) => {
+  const { id, ...task } = message.data;
+  const response: VideoWorkerResponse = { id, ...handleVideoWorkerTask(task, verify) };
+  self.postMessage(response);
+};